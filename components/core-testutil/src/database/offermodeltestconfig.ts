@@ -33,8 +33,10 @@ import {
 import {ResolverOptions, SourcedJsonObject, TestConfig} from 'opr-devtools';
 import {
   DecodedReshareChain,
+  FulfillmentPayload,
   HistoryPayload,
   ListOffersPayload,
+  OfferSlice,
 } from 'opr-models';
 import path from 'path';
 import {EncodeChainDirective} from '../json/encodechaindirective';
@@ -50,6 +52,11 @@ interface SqlTestObjects {
   readonly model: OfferModel;
 }
 
+export const PERSISTENT_OFFER_MODEL_TEST_GLOBS = [
+  'offermodel/**.test.json',
+  'persistentoffermodel/**.test.json',
+];
+
 export type ModelBuilderFn = (
   context: SourcedJsonObject,
   listingPolicy: OfferListingPolicy,
@@ -62,13 +69,23 @@ export class OfferModelTestConfig implements TestConfig<SqlTestObjects> {
   readonly name: string;
   readonly cwd: string;
   readonly resolverOptions?: ResolverOptions | undefined;
-  readonly pathGlob: string;
+  readonly pathGlob: string | Array<string>;
   private modelBuilderFn: ModelBuilderFn;
 
-  constructor(modelBuilderFn: ModelBuilderFn, name = 'OfferModel Tests') {
+  /**
+   * Creates a new test config. By default, only the tests that apply to every
+   * OfferModel implementation are run. Tests for features that are only
+   * supported by PersistentOfferModel can be included by passing
+   * PERSISTENT_OFFER_MODEL_TEST_GLOBS as the pathGlob.
+   */
+  constructor(
+    modelBuilderFn: ModelBuilderFn,
+    name = 'OfferModel Tests',
+    pathGlob: string | Array<string> = 'offermodel/**.test.json'
+  ) {
     this.cwd = path.resolve(__dirname, '../../datatests');
     this.name = name;
-    this.pathGlob = 'offermodel/**.test.json';
+    this.pathGlob = pathGlob;
     this.modelBuilderFn = modelBuilderFn;
     this.resolverOptions = {
       installDirectives: [new ModelDirective(), new EncodeChainDirective()],
@@ -181,11 +198,15 @@ export class OfferModelTestConfig implements TestConfig<SqlTestObjects> {
         const decodedReshareChain: DecodedReshareChain | undefined = context
           .propAsArray('decodedReshareChain')
           .get();
+        const slice: OfferSlice | undefined = context
+          .propAsArray('slice')
+          .get();
         const result = await testObject.model.accept(
           offerId,
           orgUrl,
           ifNoNewerThanTimestampUTC,
-          decodedReshareChain
+          decodedReshareChain,
+          slice
         );
         resultInfo.result = result;
         break;
@@ -211,6 +232,39 @@ export class OfferModelTestConfig implements TestConfig<SqlTestObjects> {
         resultInfo.result = result;
         break;
       }
+      case 'RELEASE': {
+        const orgUrl = context.propAsString('orgUrl').req();
+        const offerId = context.propAsString('offerId').req();
+        const result = await testObject.model.release(offerId, orgUrl);
+        resultInfo.result = result;
+        break;
+      }
+      case 'CANCEL_ACCEPT': {
+        const orgUrl = context.propAsString('orgUrl').req();
+        const offerId = context.propAsString('offerId').req();
+        const rejectAfterCancel = context
+          .propAsBoolean('rejectAfterCancel')
+          .get();
+        const result = await testObject.model.cancelAccept(
+          offerId,
+          orgUrl,
+          rejectAfterCancel
+        );
+        resultInfo.result = result;
+        break;
+      }
+      case 'REPORT_FULFILLMENT': {
+        const orgUrl = context.propAsString('orgUrl').req();
+        const payload = context
+          .propAsObject('payload')
+          .req() as FulfillmentPayload;
+        const result = await testObject.model.reportFulfillment(
+          orgUrl,
+          payload
+        );
+        resultInfo.result = result;
+        break;
+      }
       case 'REJECT': {
         const orgUrl = context.propAsString('orgUrl').req();
         const offerId = context.propAsString('offerId').req();
@@ -24,7 +24,13 @@ import {
   asyncIterableToArray,
 } from 'opr-core';
 import {ResolverOptions, SourcedJsonObject, TestConfig} from 'opr-devtools';
-import {DecodedReshareChain, Offer, OfferHistory} from 'opr-models';
+import {
+  DecodedReshareChain,
+  Fulfillment,
+  Offer,
+  OfferHistory,
+  OfferSlice,
+} from 'opr-models';
 import {ModelDirective} from '../json/modeldirective';
 import {EncodeChainDirective} from '../json/encodechaindirective';
 import path from 'path';
@@ -325,6 +331,8 @@ export class PersistentTestConfig implements TestConfig<SqlTestObjects> {
           const decodedReshareChain = context
             .propAsArray('decodedReshareChain')
             .get() as DecodedReshareChain | undefined;
+          const acceptedSlice = context.propAsArray('acceptedSlice').get() as
+            OfferSlice | undefined;
           await testObject.db.writeAccept(
             transaction,
             hostOrgUrl,
@@ -332,7 +340,8 @@ export class PersistentTestConfig implements TestConfig<SqlTestObjects> {
             offerId,
             offerUpdateTimestampUTC,
             atTimeUTC,
-            decodedReshareChain
+            decodedReshareChain,
+            acceptedSlice
           );
           break;
         }
@@ -356,6 +365,61 @@ export class PersistentTestConfig implements TestConfig<SqlTestObjects> {
           resultInfo.result = history;
           break;
         }
+        case 'getActiveAcceptance': {
+          const offerId = context.propAsString('offerId').req();
+          const postingOrgUrl = context.propAsString('postingOrgUrl').req();
+          resultInfo.result = await testObject.db.getActiveAcceptance(
+            transaction,
+            hostOrgUrl,
+            offerId,
+            postingOrgUrl
+          );
+          break;
+        }
+        case 'writeAcceptCancellation': {
+          const offerId = context.propAsString('offerId').req();
+          const postingOrgUrl = context.propAsString('postingOrgUrl').req();
+          const atTimeUTC = context.propAsNumber('atTimeUTC').req();
+          await testObject.db.writeAcceptCancellation(
+            transaction,
+            hostOrgUrl,
+            offerId,
+            postingOrgUrl,
+            atTimeUTC
+          );
+          break;
+        }
+        case 'writeFulfillment': {
+          const offerId = context.propAsString('offerId').req();
+          const postingOrgUrl = context.propAsString('postingOrgUrl').req();
+          const fulfillment = context
+            .propAsObject('fulfillment')
+            .req() as Fulfillment;
+          await testObject.db.writeFulfillment(
+            transaction,
+            hostOrgUrl,
+            offerId,
+            postingOrgUrl,
+            fulfillment
+          );
+          break;
+        }
+        case 'getFulfillmentHistory': {
+          const offerId = context.propAsString('offerId').req();
+          const postingOrgUrl = context.propAsString('postingOrgUrl').req();
+          const fulfillmentIterator = testObject.db.getFulfillmentHistory(
+            transaction,
+            hostOrgUrl,
+            offerId,
+            postingOrgUrl
+          );
+          const fulfillments: Fulfillment[] = [];
+          for await (const fulfillment of fulfillmentIterator) {
+            fulfillments.push(fulfillment);
+          }
+          resultInfo.result = fulfillments;
+          break;
+        }
         default: {
           expect.fail('Unknown op ' + op);
         }
@@ -0,0 +1,27 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {DataDrivenTest} from 'opr-devtools';
+import {InMemoryPersistentStorage} from 'opr-core';
+import {PersistentTestConfig} from '../src/database/persistenttestconfig';
+
+const driver = new DataDrivenTest(
+  new PersistentTestConfig(async () => {
+    return new InMemoryPersistentStorage();
+  }, 'In-Memory Persistent Tests')
+);
+driver.initialize();
@@ -0,0 +1,40 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {timingSafeEqual} from 'crypto';
+import {StatusError} from '../util/statuserror';
+import {getBearerToken} from './getbearertoken';
+
+/**
+ * Checks that an Authorization header contains the given static bearer token.
+ * This is used to protect administrative endpoints that are installed by
+ * integrations and are not part of the OPR protocol. If the token is missing
+ * or wrong, an exception is thrown.
+ */
+export function checkAccessToken(
+  authHeader: string | undefined,
+  expectedToken: string
+): void {
+  const token = Buffer.from(getBearerToken(authHeader));
+  const expected = Buffer.from(expectedToken);
+  if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+    throw new StatusError(
+      'Invalid access token',
+      'AUTH_ERROR_INVALID_ACCESS_TOKEN',
+      401
+    );
+  }
+}
@@ -19,6 +19,9 @@ export type OperationName =
   | 'ACCEPT'
   | 'REJECT'
   | 'RESERVE'
+  | 'RELEASE'
+  | 'CANCELACCEPT'
+  | 'FULFILLMENT'
   | 'HISTORY';
 
 export function getRequiredScopes(op: OperationName): Array<string> {
@@ -28,6 +31,9 @@ export function getRequiredScopes(op: OperationName): Array<string> {
     case 'ACCEPT':
     case 'REJECT':
     case 'RESERVE':
+    case 'RELEASE':
+    case 'CANCELACCEPT':
+    case 'FULFILLMENT':
       return ['ACCEPTPRODUCT'];
     case 'HISTORY':
       return ['PRODUCTHISTORY'];
@@ -0,0 +1,169 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {JWK} from 'jose';
+import {Clock} from '../util/clock';
+import {DefaultClock} from '../util/defaultclock';
+import {StatusError} from '../util/statuserror';
+
+const DEFAULT_OVERLAP_MILLIS = 24 * 60 * 60 * 1000; // 1 day
+
+const PRIVATE_JWK_FIELDS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+/** A labeled signing key in a key ring. */
+export interface KeyRingEntry {
+  /** A unique label for the key. This is used as the key id (kid). */
+  kid: string;
+  /** The private key, which must specify an alg. */
+  privateKey: JWK;
+  /**
+   * The time at which the key starts being used for signing. If omitted, the
+   * key has always been active.
+   */
+  activationTimeUTC?: number;
+  /**
+   * The time at which the key stops being used for signing. If omitted, the
+   * key is used until a key with a later activation time becomes active.
+   */
+  retirementTimeUTC?: number;
+}
+
+/** The JSON format of a key ring, as written by generatekeypair. */
+export interface KeyRingJson {
+  keys: Array<KeyRingEntry>;
+}
+
+export interface KeyRingOptions {
+  /**
+   * How long before activation and after retirement a key's public key is
+   * published, in milliseconds. This should be longer than the time that
+   * other organizations cache this organization's JWKS. Defaults to 1 day.
+   */
+  overlapMillis?: number;
+  clock?: Clock;
+}
+
+/** Returns the public half of a private JWK. */
+export function toPublicJwk(privateKey: JWK): JWK {
+  const result = {} as Record<string, unknown>;
+  for (const [field, value] of Object.entries(privateKey)) {
+    if (PRIVATE_JWK_FIELDS.indexOf(field) < 0) {
+      result[field] = value;
+    }
+  }
+  return result as JWK;
+}
+
+/**
+ * Returns a copy of a key ring with a new key added. Every existing key that
+ * would still be active when the new key activates is retired at the new
+ * key's activation time.
+ */
+export function stageKey(
+  keyRing: KeyRingJson,
+  entry: KeyRingEntry
+): KeyRingJson {
+  if (keyRing.keys.some(x => x.kid === entry.kid)) {
+    throw new StatusError(
+      `Key ring already contains a key with kid ${entry.kid}`,
+      'KEY_RING_DUPLICATE_KID',
+      400
+    );
+  }
+  const activationTimeUTC = entry.activationTimeUTC ?? 0;
+  const keys = keyRing.keys.map(x => {
+    if (
+      (x.activationTimeUTC ?? 0) <= activationTimeUTC &&
+      (x.retirementTimeUTC === undefined ||
+        x.retirementTimeUTC > activationTimeUTC)
+    ) {
+      return {...x, retirementTimeUTC: activationTimeUTC};
+    }
+    return x;
+  });
+  return {keys: [...keys, entry]};
+}
+
+/**
+ * A set of labeled signing keys with activation and retirement times. At any
+ * time, the active key with the latest activation time is used for signing.
+ * Each key's public key is published from overlapMillis before the key
+ * activates until overlapMillis after it retires, so that other organizations
+ * can verify tokens signed with the next key before it is used and tokens
+ * signed with the previous key after it is retired.
+ */
+export class KeyRing {
+  private keyRingProvider: () => Promise<KeyRingJson>;
+  private overlapMillis: number;
+  private clock: Clock;
+
+  constructor(
+    keyRingProvider: (() => Promise<KeyRingJson>) | KeyRingJson,
+    options: KeyRingOptions = {}
+  ) {
+    if (typeof keyRingProvider === 'function') {
+      this.keyRingProvider = keyRingProvider;
+    } else {
+      this.keyRingProvider = async () => {
+        return keyRingProvider;
+      };
+    }
+    this.overlapMillis = options.overlapMillis ?? DEFAULT_OVERLAP_MILLIS;
+    this.clock = options.clock ?? new DefaultClock();
+  }
+
+  /** Returns the private key that should be used for signing right now. */
+  async getSigningKey(): Promise<JWK> {
+    const now = this.clock.now();
+    let signingEntry: KeyRingEntry | undefined;
+    for (const entry of (await this.keyRingProvider()).keys) {
+      const activationTimeUTC = entry.activationTimeUTC ?? -Infinity;
+      const retirementTimeUTC = entry.retirementTimeUTC ?? Infinity;
+      if (activationTimeUTC > now || retirementTimeUTC <= now) {
+        continue;
+      }
+      if (
+        !signingEntry ||
+        activationTimeUTC >= (signingEntry.activationTimeUTC ?? -Infinity)
+      ) {
+        signingEntry = entry;
+      }
+    }
+    if (!signingEntry) {
+      throw new StatusError(
+        `No key in the key ring is active at ${now}`,
+        'KEY_RING_NO_ACTIVE_KEY',
+        500
+      );
+    }
+    return {...signingEntry.privateKey, kid: signingEntry.kid};
+  }
+
+  /**
+   * Returns the public keys that should be published right now: the active
+   * key, plus any key that activates or retired within overlapMillis of now.
+   */
+  async getPublicKeys(): Promise<Array<JWK>> {
+    const now = this.clock.now();
+    return (await this.keyRingProvider()).keys
+      .filter(
+        entry =>
+          (entry.activationTimeUTC ?? -Infinity) - this.overlapMillis <= now &&
+          (entry.retirementTimeUTC ?? Infinity) + this.overlapMillis > now
+      )
+      .map(entry => ({...toPublicJwk(entry.privateKey), kid: entry.kid}));
+  }
+}
@@ -17,10 +17,11 @@
 import {Clock} from '../../util/clock';
 import {DefaultClock} from '../../util/defaultclock';
 import {StatusError} from '../../util/statuserror';
-import {importJWK, JWK, JWTPayload, SignJWT} from 'jose';
+import {importJWK, JWK, JWTHeaderParameters, JWTPayload, SignJWT} from 'jose';
 import {Signer, IssueTokenOptions, SignChainOptions} from '../signer';
 import {ReshareChain} from 'opr-models';
 import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import getUuid from '../../util/randomuuid';
 
 const DEFAULT_TOKEN_MAX_AGE_MILLIS = 10 * 60 * 1000; // 10 minutes
 
@@ -71,7 +72,7 @@ export class LocalKeySigner implements Signer {
       payload['scope'] = options.scopes.join(' ');
     }
     const signJwt = this.createSignJwt(payload)
-      .setProtectedHeader({alg: jwk.alg!})
+      .setProtectedHeader(this.getProtectedHeader(jwk))
       .setIssuer(this.issuer)
       .setSubject(sub);
     const token = await signJwt.sign(key);
@@ -86,6 +87,14 @@ export class LocalKeySigner implements Signer {
     return jwk;
   }
 
+  private getProtectedHeader(jwk: JWK): JWTHeaderParameters {
+    const header = {alg: jwk.alg!} as JWTHeaderParameters;
+    if (jwk.kid) {
+      header.kid = jwk.kid;
+    }
+    return header;
+  }
+
   protected createSignJwt(payload: JWTPayload): SignJWT {
     return new SignJWT(payload);
   }
@@ -99,10 +108,11 @@ export class LocalKeySigner implements Signer {
     }
     const maxAgeMillis = options?.maxAgeMillis || DEFAULT_TOKEN_MAX_AGE_MILLIS;
     const signJwt = this.createSignJwt(payload)
-      .setProtectedHeader({alg: jwk.alg!})
+      .setProtectedHeader(this.getProtectedHeader(jwk))
       .setIssuedAt(Math.round(this.clock.now() / 1000))
       .setIssuer(this.issuer)
       .setAudience(aud)
+      .setJti(getUuid())
       .setExpirationTime(Math.round((this.clock.now() + maxAgeMillis) / 1000));
     if (options?.sub) {
       signJwt.setSubject(options.sub);
@@ -0,0 +1,42 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {KeyRing} from '../keyring';
+import {LocalJwksProvider} from './localjwksprovider';
+import {createKeyRing, KeyRingIntegrationOptions} from './rotatingkeysigner';
+
+/**
+ * A JWKS provider that serves the public keys a key ring publishes at the
+ * current time: the active key, plus the next and previous keys during their
+ * overlap periods.
+ */
+export class RotatingJwksProvider extends LocalJwksProvider {
+  constructor(keyRing: KeyRing) {
+    super(() => keyRing.getPublicKeys());
+  }
+}
+
+export const RotatingJwksIntegration: PluggableFactory<
+  RotatingJwksProvider,
+  KeyRingIntegrationOptions,
+  TenantNodeIntegrationContext
+> = {
+  async construct(json, context) {
+    return new RotatingJwksProvider(createKeyRing(json, context.clock));
+  },
+};
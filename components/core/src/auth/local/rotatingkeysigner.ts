@@ -0,0 +1,91 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import {Clock} from '../../util/clock';
+import {DefaultClock} from '../../util/defaultclock';
+import {StatusError} from '../../util/statuserror';
+import {LocalFileKeyRing} from '../file/localfilekeyring';
+import {KeyRing, KeyRingEntry} from '../keyring';
+import {LocalKeySigner} from './localkeysigner';
+
+/**
+ * A signer that signs with the currently active key from a key ring. Every
+ * token and chain link includes the signing key's kid, so that verifiers can
+ * find the right public key while more than one key is published.
+ */
+export class RotatingKeySigner extends LocalKeySigner {
+  constructor(
+    issuer: string,
+    keyRing: KeyRing,
+    clock: Clock = new DefaultClock()
+  ) {
+    super(issuer, () => keyRing.getSigningKey(), clock);
+  }
+}
+
+/**
+ * Options for key ring integrations. Exactly one of keys or keyRingFile must
+ * be specified.
+ */
+export interface KeyRingIntegrationOptions {
+  /** The keys in the key ring. */
+  keys?: Array<KeyRingEntry>;
+  /** The path to a key ring file written by generatekeypair. */
+  keyRingFile?: string;
+  /**
+   * How long before activation and after retirement a key's public key is
+   * published, in milliseconds. Defaults to 1 day.
+   */
+  overlapMillis?: number;
+}
+
+export function createKeyRing(
+  json: KeyRingIntegrationOptions,
+  clock?: Clock
+): KeyRing {
+  const options = {overlapMillis: json.overlapMillis, clock: clock};
+  if (json.keys && !json.keyRingFile) {
+    return new KeyRing({keys: json.keys}, options);
+  }
+  if (json.keyRingFile && !json.keys) {
+    return new LocalFileKeyRing(json.keyRingFile, options);
+  }
+  throw new StatusError(
+    'Exactly one of keys or keyRingFile must be specified',
+    'KEY_RING_BAD_CONFIG'
+  );
+}
+
+export const RotatingKeySignerIntegration = {
+  async construct(
+    json: KeyRingIntegrationOptions,
+    context: TenantNodeIntegrationContext
+  ) {
+    const issuer = context.hostOrgUrl;
+    if (!issuer) {
+      throw new StatusError(
+        'Unexpected condition, host org url not set in host integration',
+        'NO_HOST_ORG_URL'
+      );
+    }
+    return new RotatingKeySigner(
+      issuer,
+      createKeyRing(json, context.clock),
+      context.clock
+    );
+  },
+};
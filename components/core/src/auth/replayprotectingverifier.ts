@@ -0,0 +1,253 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {JWTPayload, JWTVerifyResult} from 'jose';
+import {DecodedReshareChain, ReshareChain} from 'opr-models';
+import {PersistentStorage} from '../database/persistentstorage';
+import {Transaction} from '../database/transaction';
+import {asyncIterableToArray} from '../util/asynciterable';
+import {Clock} from '../util/clock';
+import {DefaultClock} from '../util/defaultclock';
+import {StatusError} from '../util/statuserror';
+import {OperationName} from './getrequiredscopes';
+import {Verifier, VerifyChainOptions, VerifyOptions} from './verifier';
+
+export interface ReplayProtectionOptions {
+  /**
+   * Operations whose tokens may be presented more than once. Defaults to LIST,
+   * since listing offers does not change any state.
+   */
+  unprotectedOperations?: Array<OperationName>;
+  /** The key prefix under which used token ids are stored. */
+  keyPrefix?: string;
+  /**
+   * How long to remember a token that does not specify an expiration time.
+   * Defaults to one day.
+   */
+  maxTokenLifetimeMillis?: number;
+  /**
+   * The minimum time between sweeps that remove expired token ids from
+   * storage. Defaults to ten minutes.
+   */
+  cleanupIntervalMillis?: number;
+}
+
+export type ReplayProtectingVerifierOptions = ReplayProtectionOptions & {
+  storage: PersistentStorage;
+  hostOrgUrl: string;
+  clock?: Clock;
+};
+
+type UsedTokenRecord = {
+  iss: string;
+  jti: string;
+  expiresAtUTC: number;
+};
+
+const DEFAULT_KEY_PREFIX = 'usedtokens/';
+const DEFAULT_UNPROTECTED_OPERATIONS: Array<OperationName> = ['LIST'];
+const DEFAULT_MAX_TOKEN_LIFETIME_MILLIS = 24 * 60 * 60 * 1000; // 1 day
+const DEFAULT_CLEANUP_INTERVAL_MILLIS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * A verifier that rejects access tokens that have already been used. Tokens
+ * are verified by a delegate verifier, and then checked against the token ids
+ * recorded in storage. A token that is presented again before it expires is
+ * rejected with AUTH_ERROR_TOKEN_REPLAYED.
+ *
+ * Verifying a token does not record it. Callers record a token with
+ * recordTokenUse() once every other check on the request has passed, so that
+ * a token from a request that was rejected for another reason can be retried.
+ *
+ * Reshare chains are passed directly to the delegate, since chain tokens are
+ * meant to be presented repeatedly.
+ */
+export class ReplayProtectingVerifier implements Verifier {
+  readonly type = 'verifier';
+
+  private readonly delegate: Verifier;
+  private readonly storage: PersistentStorage;
+  private readonly hostOrgUrl: string;
+  private readonly clock: Clock;
+  private readonly keyPrefix: string;
+  private readonly unprotectedOperations: Set<OperationName>;
+  private readonly maxTokenLifetimeMillis: number;
+  private readonly cleanupIntervalMillis: number;
+  private lastCleanupUTC?: number;
+
+  constructor(delegate: Verifier, options: ReplayProtectingVerifierOptions) {
+    this.delegate = delegate;
+    this.storage = options.storage;
+    this.hostOrgUrl = options.hostOrgUrl;
+    this.clock = options.clock ?? new DefaultClock();
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+    this.unprotectedOperations = new Set(
+      options.unprotectedOperations ?? DEFAULT_UNPROTECTED_OPERATIONS
+    );
+    this.maxTokenLifetimeMillis =
+      options.maxTokenLifetimeMillis ?? DEFAULT_MAX_TOKEN_LIFETIME_MILLIS;
+    this.cleanupIntervalMillis =
+      options.cleanupIntervalMillis ?? DEFAULT_CLEANUP_INTERVAL_MILLIS;
+  }
+
+  async verify(
+    token: string,
+    options?: VerifyOptions
+  ): Promise<JWTVerifyResult> {
+    const result = await this.delegate.verify(token, options);
+    if (this.isProtected(options)) {
+      const now = options?.currentDate?.getTime() ?? this.clock.now();
+      const record = this.getRecord(result.payload, now);
+      const t = await this.storage.createTransaction('READONLY');
+      try {
+        await this.checkNotUsed(t, record, now);
+      } finally {
+        await t.commit();
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Records that a verified token has been used, so that it is rejected if it
+   * is presented again before it expires. Throws AUTH_ERROR_TOKEN_REPLAYED if
+   * the token has already been recorded. The options should be the options
+   * the token was verified with.
+   */
+  async recordTokenUse(
+    payload: JWTPayload,
+    options?: VerifyOptions
+  ): Promise<void> {
+    if (!this.isProtected(options)) {
+      return;
+    }
+    const now = options?.currentDate?.getTime() ?? this.clock.now();
+    const record = this.getRecord(payload, now);
+    if (
+      this.lastCleanupUTC === undefined ||
+      now - this.lastCleanupUTC >= this.cleanupIntervalMillis
+    ) {
+      await this.removeExpiredTokenIds(now);
+    }
+    const t = await this.storage.createTransaction('READWRITE');
+    try {
+      await this.checkNotUsed(t, record, now);
+    } catch (e) {
+      await t.fail();
+      throw e;
+    }
+    await this.storage.storeValue(
+      t,
+      this.hostOrgUrl,
+      this.getKey(record.iss, record.jti),
+      record
+    );
+    await t.commit();
+  }
+
+  async verifyChain(
+    chain: Readonly<ReshareChain>,
+    options: VerifyChainOptions
+  ): Promise<DecodedReshareChain> {
+    return await this.delegate.verifyChain(chain, options);
+  }
+
+  /**
+   * Removes all expired token ids from storage. This is called automatically
+   * during verification, at most once per cleanup interval.
+   */
+  async removeExpiredTokenIds(now = this.clock.now()): Promise<number> {
+    this.lastCleanupUTC = now;
+    const t = await this.storage.createTransaction('READWRITE');
+    const records = (await asyncIterableToArray(
+      this.storage.getValues(t, this.hostOrgUrl, this.keyPrefix)
+    )) as unknown as Array<UsedTokenRecord>;
+    let removedCount = 0;
+    for (const record of records) {
+      if (record.expiresAtUTC <= now) {
+        await this.storage.clearAllValues(
+          t,
+          this.hostOrgUrl,
+          this.getKey(record.iss, record.jti)
+        );
+        removedCount++;
+      }
+    }
+    await t.commit();
+    return removedCount;
+  }
+
+  private getKey(iss: string, jti: string): string {
+    // The trailing slash keeps one token's key from being a prefix of
+    // another's.
+    return (
+      `${this.keyPrefix}${encodeURIComponent(iss)}/` +
+      `${encodeURIComponent(jti)}/`
+    );
+  }
+
+  private isProtected(options?: VerifyOptions): boolean {
+    return !(
+      options?.operation && this.unprotectedOperations.has(options.operation)
+    );
+  }
+
+  private getRecord(payload: JWTPayload, now: number): UsedTokenRecord {
+    if (!payload.iss) {
+      throw new StatusError(
+        'Auth token does not specify the required iss field',
+        'AUTH_ERROR_ISS_MISSING',
+        401
+      );
+    }
+    if (!payload.jti) {
+      throw new StatusError(
+        'Auth token does not specify the required jti field',
+        'AUTH_ERROR_JTI_MISSING',
+        401
+      );
+    }
+    return {
+      iss: payload.iss,
+      jti: payload.jti,
+      expiresAtUTC:
+        payload.exp !== undefined
+          ? payload.exp * 1000
+          : now + this.maxTokenLifetimeMillis,
+    };
+  }
+
+  private async checkNotUsed(
+    t: Transaction,
+    record: UsedTokenRecord,
+    now: number
+  ): Promise<void> {
+    const existing = (await asyncIterableToArray(
+      this.storage.getValues(
+        t,
+        this.hostOrgUrl,
+        this.getKey(record.iss, record.jti)
+      )
+    )) as unknown as Array<UsedTokenRecord>;
+    if (existing.some(x => x.expiresAtUTC > now)) {
+      throw new StatusError(
+        'Auth token has already been used',
+        'AUTH_ERROR_TOKEN_REPLAYED',
+        401
+      );
+    }
+  }
+}
@@ -126,7 +126,8 @@ export function verifyDecodedChain(
   // server for an item with the same identifier.
   if (
     options.initialIssuer &&
-    chain[0].sharingOrgUrl !== options.initialIssuer
+    chain[0].sharingOrgUrl !== options.initialIssuer &&
+    (options.initialIssuerAliases ?? []).indexOf(chain[0].sharingOrgUrl) < 0
   ) {
     throw new StatusError(
       'Token chain specifies the wrong initial issuer',
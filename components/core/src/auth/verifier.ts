@@ -18,9 +18,23 @@ import {JWTVerifyOptions, JWTVerifyResult} from 'jose';
 import {ChainScope} from './chainscope';
 import {DecodedReshareChain, ReshareChain} from 'opr-models';
 import {Pluggable} from '../integrations/pluggable';
+import {OperationName} from './getrequiredscopes';
+
+export interface VerifyOptions extends JWTVerifyOptions {
+  /**
+   * The operation the token is being presented for, if known. Verifiers may
+   * apply different checks to different operations.
+   */
+  operation?: OperationName;
+}
 
 export interface VerifyChainOptions {
   initialIssuer?: string;
+  /**
+   * Other org urls that are accepted as the initial issuer, such as urls the
+   * initial issuer used before moving.
+   */
+  initialIssuerAliases?: Array<string>;
   initialEntitlements?: string;
   finalSubject?: string;
   finalScope?: ChainScope;
@@ -29,7 +43,7 @@ export interface VerifyChainOptions {
 export interface Verifier extends Pluggable {
   readonly type: 'verifier';
 
-  verify(token: string, options?: JWTVerifyOptions): Promise<JWTVerifyResult>;
+  verify(token: string, options?: VerifyOptions): Promise<JWTVerifyResult>;
   verifyChain(
     chain: Readonly<ReshareChain>,
     options: VerifyChainOptions
@@ -15,12 +15,22 @@
  */
 
 import {generateKeys, ALGORITHM_NAMES, CURVE_NAMES} from '../auth/generatekeys';
+import {KeyRingJson, stageKey} from '../auth/keyring';
 import {promises as fs} from 'fs';
 import {GenerateKeyPairOptions} from 'jose';
 import yargs from 'yargs';
 
+const HOUR_MILLIS = 60 * 60 * 1000;
+
 const argv = yargs(process.argv.slice(2))
   .usage('Usage: $0 [options]')
+  .command('$0', 'Generate a key pair')
+  .command(
+    'stage',
+    'Generate the next key in a key ring file and stage it for rotation. ' +
+      'Keys that would still be active when the new key activates are ' +
+      'retired at that time.'
+  )
   .option('publicfile', {
     type: 'string',
     desc: 'File path for the public key output',
@@ -29,6 +39,22 @@ const argv = yargs(process.argv.slice(2))
     type: 'string',
     desc: 'File path for the private key output',
   })
+  .option('keyring', {
+    type: 'string',
+    desc:
+      'File path for the key ring to stage the key in. The file is ' +
+      'created if it does not exist. Required for stage',
+    alias: 'k',
+  })
+  .option('kid', {
+    type: 'string',
+    desc: 'The key id for the staged key, defaults to key-<activation time>',
+  })
+  .option('activatein', {
+    type: 'number',
+    desc: 'Hours from now until the staged key activates',
+    default: 24,
+  })
   .option('alg', {
     type: 'string',
     desc: 'The key algorithm, defaults to RS256',
@@ -58,12 +84,38 @@ const argv = yargs(process.argv.slice(2))
   .alias('h', 'help')
   .parseSync();
 
+async function readKeyRing(path: string): Promise<KeyRingJson> {
+  try {
+    return JSON.parse((await fs.readFile(path)).toString()) as KeyRingJson;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {keys: []};
+    }
+    throw e;
+  }
+}
+
 async function main() {
   const options = {
     modulusLength: argv.modulus,
     crv: argv.crv,
   } as GenerateKeyPairOptions;
   const keys = await generateKeys(argv.alg, options);
+  if (argv._[0] === 'stage') {
+    if (!argv.keyring) {
+      throw new Error('A --keyring file is required to stage a key');
+    }
+    const activationTimeUTC = Date.now() + argv.activatein * HOUR_MILLIS;
+    const kid = argv.kid ?? `key-${new Date(activationTimeUTC).toISOString()}`;
+    keys.privateKey.kid = kid;
+    keys.publicKey.kid = kid;
+    const keyRing = stageKey(await readKeyRing(argv.keyring), {
+      kid: kid,
+      privateKey: keys.privateKey,
+      activationTimeUTC: activationTimeUTC,
+    });
+    await fs.writeFile(argv.keyring, JSON.stringify(keyRing, null, 2));
+  }
   if (!argv.silent) {
     console.log(JSON.stringify(keys, null, 2));
   }
@@ -0,0 +1,235 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Offer,
+  OtherMeasurement,
+  PackagingType,
+  Product,
+  ProductBundle,
+  TypeIdentifier,
+} from 'opr-models';
+import {
+  getTotalWeightKg,
+  ItemTypeIdFilterJson,
+} from '../policy/listings/offerfilter';
+import {isBundle} from '../model/isbundle';
+import {JsonMap} from '../util/jsonvalue';
+
+/**
+ * The coldest storage an org has. FROZEN implies that the org also has
+ * REFRIGERATED storage.
+ */
+export type ColdStorageLevel = 'NONE' | 'REFRIGERATED' | 'FROZEN';
+
+/**
+ * What a recipient org is able to receive. Any capability that is omitted is
+ * assumed not to limit the offers the org can receive.
+ */
+export interface RecipientCapabilities extends JsonMap {
+  orgUrl: string;
+  coldStorage?: ColdStorageLevel;
+  /** Whether the org can unload pallets and shipping containers. */
+  hasLoadingDock?: boolean;
+  /** The largest number of pallets the org can receive in one offer. */
+  maxPallets?: number;
+  /** The largest total offer weight, in kilograms, the org can receive. */
+  maxWeightKg?: number;
+  /** The kinds of vehicles the org can use to collect offers. */
+  vehicleTypes?: Array<string>;
+  /**
+   * The item types the org accepts. If given, every product in an offer that
+   * has item type ids must match at least one of these.
+   */
+  acceptedCategories?: Array<ItemTypeIdFilterJson>;
+}
+
+/** What an offer requires of the org that receives it. */
+export interface OfferRequirements {
+  coldStorage: ColdStorageLevel;
+  palletCount: number;
+  needsLoadingDock: boolean;
+  totalWeightKg: number;
+  /** The item type ids of each product that has any. */
+  productItemTypeIds: Array<Array<TypeIdentifier>>;
+}
+
+/** The highest product temperature, in celsius, that requires freezing. */
+const MAX_FROZEN_TEMPERATURE_C = 0;
+/** The highest product temperature, in celsius, that requires refrigeration. */
+const MAX_REFRIGERATED_TEMPERATURE_C = 8;
+
+const COLD_STORAGE_RANK: Record<ColdStorageLevel, number> = {
+  NONE: 0,
+  REFRIGERATED: 1,
+  FROZEN: 2,
+};
+
+const DOCK_PACKAGING_TYPES: Array<PackagingType> = [
+  'pallet',
+  'shippingcontainer',
+];
+
+function getMaxTemperatureC(
+  measurements: Array<OtherMeasurement> | undefined
+): number | undefined {
+  let result: number | undefined;
+  for (const measurement of measurements ?? []) {
+    if (
+      measurement.dimension !== 'temperature-max' ||
+      (measurement.unit !== 'celcius' && measurement.unit !== 'farenheit')
+    ) {
+      continue;
+    }
+    const celsius =
+      measurement.unit === 'farenheit'
+        ? ((measurement.value - 32) * 5) / 9
+        : measurement.value;
+    result = result === undefined ? celsius : Math.min(result, celsius);
+  }
+  return result;
+}
+
+/**
+ * Works out what an offer requires of its recipient from its contents. Cold
+ * storage is required for any product or bundle with a maximum temperature
+ * measurement of 8C or less, and freezing for 0C or less. Pallets are counted
+ * from bundles with the "pallet" packaging type, and pallets and shipping
+ * containers require a loading dock.
+ */
+export function getOfferRequirements(offer: Offer): OfferRequirements {
+  const requirements: OfferRequirements = {
+    coldStorage: 'NONE',
+    palletCount: 0,
+    needsLoadingDock: false,
+    totalWeightKg: getTotalWeightKg(offer),
+    productItemTypeIds: [],
+  };
+  const visit = (
+    node: ProductBundle | Product,
+    multiplier: number,
+    isInPallet: boolean
+  ) => {
+    const count = multiplier * (node.quantity ?? 1);
+    const maxTemperatureC = getMaxTemperatureC(node.otherUnitMeasurements);
+    if (maxTemperatureC !== undefined) {
+      const level: ColdStorageLevel =
+        maxTemperatureC <= MAX_FROZEN_TEMPERATURE_C
+          ? 'FROZEN'
+          : maxTemperatureC <= MAX_REFRIGERATED_TEMPERATURE_C
+            ? 'REFRIGERATED'
+            : 'NONE';
+      if (
+        COLD_STORAGE_RANK[level] > COLD_STORAGE_RANK[requirements.coldStorage]
+      ) {
+        requirements.coldStorage = level;
+      }
+    }
+    if (!isBundle(node)) {
+      if (node.itemTypeIds && node.itemTypeIds.length > 0) {
+        requirements.productItemTypeIds.push(node.itemTypeIds);
+      }
+      return;
+    }
+    if (
+      node.packagingType &&
+      DOCK_PACKAGING_TYPES.includes(node.packagingType)
+    ) {
+      requirements.needsLoadingDock = true;
+    }
+    const isPallet = node.packagingType === 'pallet';
+    // Pallets stacked on another pallet are not counted separately.
+    if (isPallet && !isInPallet) {
+      requirements.palletCount += count;
+    }
+    for (const child of node.contents) {
+      visit(child, count, isInPallet || isPallet);
+    }
+  };
+  visit(offer.contents, 1, false);
+  return requirements;
+}
+
+/**
+ * Returns the reasons why an org with the given capabilities cannot receive an
+ * offer with the given requirements. An empty array means the org can receive
+ * the offer. If requiredVehicleTypes is given, the org must have at least one
+ * of those vehicle types.
+ */
+export function getCapabilityMismatches(
+  capabilities: RecipientCapabilities,
+  requirements: OfferRequirements,
+  requiredVehicleTypes?: Array<string>
+): Array<string> {
+  const mismatches = [] as Array<string>;
+  if (
+    capabilities.coldStorage !== undefined &&
+    COLD_STORAGE_RANK[capabilities.coldStorage] <
+      COLD_STORAGE_RANK[requirements.coldStorage]
+  ) {
+    mismatches.push(`requires ${requirements.coldStorage} storage`);
+  }
+  if (capabilities.hasLoadingDock === false && requirements.needsLoadingDock) {
+    mismatches.push('requires a loading dock');
+  }
+  if (
+    capabilities.maxPallets !== undefined &&
+    requirements.palletCount > capabilities.maxPallets
+  ) {
+    mismatches.push(`has ${requirements.palletCount} pallets`);
+  }
+  if (
+    capabilities.maxWeightKg !== undefined &&
+    requirements.totalWeightKg > capabilities.maxWeightKg
+  ) {
+    mismatches.push(`weighs ${requirements.totalWeightKg}kg`);
+  }
+  if (
+    requiredVehicleTypes &&
+    capabilities.vehicleTypes &&
+    !requiredVehicleTypes.some(type =>
+      capabilities.vehicleTypes!.includes(type)
+    )
+  ) {
+    mismatches.push(
+      `requires one of these vehicles: ${requiredVehicleTypes.join(', ')}`
+    );
+  }
+  const acceptedCategories = capabilities.acceptedCategories;
+  if (acceptedCategories) {
+    const isAccepted = (typeId: TypeIdentifier) =>
+      acceptedCategories.some(
+        category =>
+          category.itemId === typeId.itemId &&
+          (!category.vocabularyId ||
+            category.vocabularyId === typeId.vocabularyId)
+      );
+    const unaccepted = requirements.productItemTypeIds.filter(
+      typeIds => !typeIds.some(isAccepted)
+    );
+    if (unaccepted.length > 0) {
+      mismatches.push(
+        'contains unaccepted item types: ' +
+          unaccepted
+            .map(typeIds =>
+              typeIds.map(t => `${t.vocabularyId}:${t.itemId}`).join('/')
+            )
+            .join(', ')
+      );
+    }
+  }
+  return mismatches;
+}
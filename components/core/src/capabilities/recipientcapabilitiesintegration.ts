@@ -0,0 +1,111 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {checkAccessToken} from '../auth/checkaccesstoken';
+import {TenantNodeIntegrationContext} from '../config/tenantnodeintegrationcontext';
+import {IntegrationApi} from '../integrations/integrationapi';
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {TenantNodeIntegrationInstaller} from '../integrations/tenantnodeintegrationinstaller';
+import {JsonMap} from '../util/jsonvalue';
+import {StatusError} from '../util/statuserror';
+import {RecipientCapabilities} from './recipientcapabilities';
+import {RecipientCapabilityRegistry} from './recipientcapabilityregistry';
+
+export interface RecipientCapabilitiesIntegrationOptionsJson extends JsonMap {
+  /**
+   * The bearer token that callers must present to use the endpoints installed
+   * by this integration.
+   */
+  accessToken: string;
+  /** The key prefix under which capabilities are stored. */
+  keyPrefix?: string;
+}
+
+/**
+ * An integration that installs endpoints for managing the recipient capability
+ * registry. GET <mountPath>/list returns the registered capabilities (or those
+ * of a single org, if an orgUrl query parameter is given), POST
+ * <mountPath>/set registers an org's capabilities, and POST <mountPath>/remove
+ * removes the org given by the orgUrl in the request body. Every endpoint
+ * requires the configured access token.
+ */
+export const RecipientCapabilitiesIntegration = {
+  async construct(
+    json: RecipientCapabilitiesIntegrationOptionsJson,
+    context: TenantNodeIntegrationContext
+  ): Promise<TenantNodeIntegrationInstaller> {
+    const accessToken = json.accessToken;
+    if (!accessToken) {
+      throw new StatusError(
+        'RecipientCapabilities integration requires an accessToken',
+        'CAPABILITIES_ERROR_NO_ACCESS_TOKEN'
+      );
+    }
+    if (!context.storage) {
+      throw new Error('RecipientCapabilities requires access to storage');
+    }
+    const registry = new RecipientCapabilityRegistry({
+      storage: context.storage,
+      hostOrgUrl: context.hostOrgUrl,
+      keyPrefix: json.keyPrefix,
+    });
+    return {
+      type: 'integrationInstaller',
+
+      async install(api: IntegrationApi): Promise<void> {
+        api.installCustomHandler('list', {
+          method: 'GET',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            const orgUrl = request.query.orgUrl;
+            if (typeof orgUrl === 'string') {
+              const capabilities = await registry.get(orgUrl);
+              return {capabilities: capabilities ? [capabilities] : []};
+            }
+            return {capabilities: [...(await registry.getAll()).values()]};
+          },
+        });
+        api.installCustomHandler('set', {
+          method: 'POST',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            const previous = await registry.put(body as RecipientCapabilities);
+            return {previous: previous};
+          },
+        });
+        api.installCustomHandler('remove', {
+          method: 'POST',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            const orgUrl = (body as {orgUrl?: unknown} | undefined)?.orgUrl;
+            if (typeof orgUrl !== 'string') {
+              throw new StatusError(
+                'orgUrl is required',
+                'CAPABILITIES_ERROR_INVALID',
+                400
+              );
+            }
+            return {removed: await registry.remove(orgUrl)};
+          },
+        });
+      },
+    };
+  },
+} as PluggableFactory<
+  TenantNodeIntegrationInstaller,
+  RecipientCapabilitiesIntegrationOptionsJson,
+  TenantNodeIntegrationContext
+>;
@@ -0,0 +1,173 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PersistentStorage} from '../database/persistentstorage';
+import {asyncIterableToArray} from '../util/asynciterable';
+import {StatusError} from '../util/statuserror';
+import {ColdStorageLevel, RecipientCapabilities} from './recipientcapabilities';
+
+export interface RecipientCapabilityRegistryOptions {
+  storage: PersistentStorage;
+  hostOrgUrl: string;
+  /** The key prefix under which capabilities are stored. */
+  keyPrefix?: string;
+}
+
+const DEFAULT_KEY_PREFIX = 'recipientcapabilities/';
+
+const COLD_STORAGE_LEVELS: Array<ColdStorageLevel> = [
+  'NONE',
+  'REFRIGERATED',
+  'FROZEN',
+];
+
+function invalid(message: string): StatusError {
+  return new StatusError(message, 'CAPABILITIES_ERROR_INVALID', 400);
+}
+
+function checkOptionalNumber(value: unknown, name: string) {
+  if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+    throw invalid(`${name} must be a non-negative number`);
+  }
+}
+
+function checkOptionalStringArray(value: unknown, name: string) {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || value.some(x => typeof x !== 'string'))
+  ) {
+    throw invalid(`${name} must be an array of strings`);
+  }
+}
+
+/**
+ * Checks that the given value is a valid RecipientCapabilities object, and
+ * throws a StatusError if it is not.
+ */
+export function validateRecipientCapabilities(
+  value: unknown
+): RecipientCapabilities {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid('Capabilities must be an object');
+  }
+  const capabilities = value as RecipientCapabilities;
+  if (typeof capabilities.orgUrl !== 'string' || !capabilities.orgUrl) {
+    throw invalid('orgUrl is required');
+  }
+  if (
+    capabilities.coldStorage !== undefined &&
+    !COLD_STORAGE_LEVELS.includes(capabilities.coldStorage)
+  ) {
+    throw invalid(
+      `coldStorage must be one of ${COLD_STORAGE_LEVELS.join(', ')}`
+    );
+  }
+  if (
+    capabilities.hasLoadingDock !== undefined &&
+    typeof capabilities.hasLoadingDock !== 'boolean'
+  ) {
+    throw invalid('hasLoadingDock must be a boolean');
+  }
+  checkOptionalNumber(capabilities.maxPallets, 'maxPallets');
+  checkOptionalNumber(capabilities.maxWeightKg, 'maxWeightKg');
+  checkOptionalStringArray(capabilities.vehicleTypes, 'vehicleTypes');
+  if (
+    capabilities.acceptedCategories !== undefined &&
+    (!Array.isArray(capabilities.acceptedCategories) ||
+      capabilities.acceptedCategories.some(
+        category => typeof category?.itemId !== 'string'
+      ))
+  ) {
+    throw invalid('acceptedCategories must be an array of item type ids');
+  }
+  return capabilities;
+}
+
+/**
+ * A registry of the capabilities of recipient organizations, stored in a
+ * tenant's key-value storage. Each org's capabilities are stored under their
+ * own key, so updating one org never conflicts with updating another.
+ */
+export class RecipientCapabilityRegistry {
+  private readonly storage: PersistentStorage;
+  private readonly hostOrgUrl: string;
+  private readonly keyPrefix: string;
+
+  constructor(options: RecipientCapabilityRegistryOptions) {
+    this.storage = options.storage;
+    this.hostOrgUrl = options.hostOrgUrl;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  private getKey(orgUrl: string): string {
+    // The trailing slash keeps one org's key from being a prefix of another's.
+    return `${this.keyPrefix}${encodeURIComponent(orgUrl)}/`;
+  }
+
+  /** Returns the capabilities of every registered org, keyed by org url. */
+  async getAll(): Promise<Map<string, RecipientCapabilities>> {
+    const t = await this.storage.createTransaction('READONLY');
+    const values = await asyncIterableToArray(
+      this.storage.getValues(t, this.hostOrgUrl, this.keyPrefix)
+    );
+    const result = new Map<string, RecipientCapabilities>();
+    for (const value of values) {
+      const capabilities = value as RecipientCapabilities;
+      result.set(capabilities.orgUrl, capabilities);
+    }
+    return result;
+  }
+
+  /** Returns the capabilities of the given org, if it is registered. */
+  async get(orgUrl: string): Promise<RecipientCapabilities | undefined> {
+    const t = await this.storage.createTransaction('READONLY');
+    const values = await asyncIterableToArray(
+      this.storage.getValues(t, this.hostOrgUrl, this.getKey(orgUrl))
+    );
+    return values[0] as RecipientCapabilities | undefined;
+  }
+
+  /**
+   * Registers the capabilities of an org, replacing any capabilities already
+   * registered for it. Returns the previous capabilities, if any.
+   */
+  async put(
+    capabilities: RecipientCapabilities
+  ): Promise<RecipientCapabilities | undefined> {
+    validateRecipientCapabilities(capabilities);
+    const t = await this.storage.createTransaction('READWRITE');
+    const previous = await this.storage.storeValue(
+      t,
+      this.hostOrgUrl,
+      this.getKey(capabilities.orgUrl),
+      capabilities
+    );
+    await t.commit();
+    return previous as RecipientCapabilities | undefined;
+  }
+
+  /** Removes an org from the registry. Returns whether it was registered. */
+  async remove(orgUrl: string): Promise<boolean> {
+    const key = this.getKey(orgUrl);
+    const t = await this.storage.createTransaction('READWRITE');
+    const existing = await asyncIterableToArray(
+      this.storage.getValues(t, this.hostOrgUrl, key)
+    );
+    await this.storage.clearAllValues(t, this.hostOrgUrl, key);
+    await t.commit();
+    return existing.length > 0;
+  }
+}
@@ -19,12 +19,19 @@ import {StatusError} from '../../util/statuserror';
 import {JsonMap} from '../../util/jsonvalue';
 import path from 'path';
 import fs from 'fs/promises';
+import {unwatchFile, watchFile} from 'fs';
 import {TenantNodeConfigJson} from '../tenantnodeconfig';
 import {PluggableFactorySet} from '../../integrations/pluggablefactoryset';
+import {HandlerRegistration} from '../../model/handlerregistration';
+
+const DEFAULT_CHANGE_POLL_INTERVAL_MILLIS = 5000;
 
 export interface LocalFileMultitenantOptionsJson extends JsonMap {
   // Path to the base directory of configuration files.
   basePath: string;
+  // How often to check loaded configuration files for changes. Defaults to 5
+  // seconds.
+  changePollIntervalMillis?: number;
 }
 
 export const LocalFileMultitenantIntegration = {
@@ -40,9 +47,16 @@ export class LocalFileHostConfigProvider<Allowed extends PluggableFactorySet>
 {
   readonly type = 'tenantConfigProvider';
   private basePath: string;
+  private changePollIntervalMillis: number;
+  private changeListeners: Set<(hostId: string) => void>;
+  private watchedFilePaths: Set<string>;
 
   constructor(options: LocalFileMultitenantOptionsJson) {
     this.basePath = options.basePath;
+    this.changePollIntervalMillis =
+      options.changePollIntervalMillis ?? DEFAULT_CHANGE_POLL_INTERVAL_MILLIS;
+    this.changeListeners = new Set();
+    this.watchedFilePaths = new Set();
   }
 
   async getTenantConfig(
@@ -53,7 +67,11 @@ export class LocalFileHostConfigProvider<Allowed extends PluggableFactorySet>
       this.basePath
     );
     try {
-      return JSON.parse((await fs.readFile(configFilePath)).toString());
+      const configJson = JSON.parse(
+        (await fs.readFile(configFilePath)).toString()
+      );
+      this.watchConfigFile(hostId, configFilePath);
+      return configJson;
     } catch (e) {
       throw new StatusError(
         'No host found for ' + hostId,
@@ -73,4 +91,47 @@ export class LocalFileHostConfigProvider<Allowed extends PluggableFactorySet>
       }
     }
   }
+
+  /**
+   * Registers a listener that is called when a configuration file that has
+   * already been read by this provider is modified. Files are polled for
+   * changes every changePollIntervalMillis while any listeners are registered.
+   */
+  onTenantConfigChange(
+    listener: (hostId: string) => void
+  ): HandlerRegistration {
+    this.changeListeners.add(listener);
+    return {
+      remove: () => {
+        this.changeListeners.delete(listener);
+        if (this.changeListeners.size === 0) {
+          for (const filePath of this.watchedFilePaths) {
+            unwatchFile(filePath);
+          }
+          this.watchedFilePaths.clear();
+        }
+      },
+    };
+  }
+
+  private watchConfigFile(hostId: string, configFilePath: string): void {
+    if (
+      this.changeListeners.size === 0 ||
+      this.watchedFilePaths.has(configFilePath)
+    ) {
+      return;
+    }
+    this.watchedFilePaths.add(configFilePath);
+    watchFile(
+      configFilePath,
+      {persistent: false, interval: this.changePollIntervalMillis},
+      (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          for (const listener of this.changeListeners) {
+            listener(hostId);
+          }
+        }
+      }
+    );
+  }
 }
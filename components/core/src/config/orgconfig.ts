@@ -21,8 +21,22 @@ export interface OrgConfig {
   listProductsEndpointURL?: string;
   acceptProductsEndpointURL?: string;
   reserveProductsEndpointURL?: string;
+  releaseProductsEndpointURL?: string;
+  cancelAcceptProductsEndpointURL?: string;
+  fulfillmentEndpointURL?: string;
   rejectProductsEndpointURL?: string;
   acceptHistoryEndpointURL?: string;
   jwksURL?: string;
   scopesSupported?: boolean;
+  /**
+   * Other org urls of this organization, such as urls it used before moving.
+   * Requests addressed to an alias are accepted, and offers posted by an alias
+   * are offers posted by this organization.
+   */
+  orgUrlAliases?: Array<string>;
+  /**
+   * If set, this organization has moved to the given org url. The org file at
+   * the new url must list this org url in its orgUrlAliases.
+   */
+  movedTo?: string;
 }
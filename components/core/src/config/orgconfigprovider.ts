@@ -53,12 +53,76 @@ export class OrgConfigProvider {
         return cacheConfig;
       }
     }
+    let orgConfig = await this.fetchOrgConfig(orgUrl);
+    if (orgConfig.movedTo) {
+      orgConfig = await this.getMovedOrgConfig(orgUrl, orgConfig.movedTo);
+    }
+    await this.orgConfigCache.put(orgUrl, orgConfig);
+    return orgConfig;
+  }
+
+  private async fetchOrgConfig(orgUrl: string): Promise<OrgConfig> {
     // TODO(johndayrichter): Check the returned json with json schema before
     // assuming it's the right type.
     const fetchUrl = this.urlMapper.map(orgUrl);
-    const orgConfig = (await this.jsonFetcher.fetch(fetchUrl)) as OrgConfig;
-    await this.orgConfigCache.put(orgUrl, orgConfig);
-    return orgConfig;
+    return (await this.jsonFetcher.fetch(fetchUrl)) as OrgConfig;
+  }
+
+  /**
+   * Returns the config of the organization that an org url has moved to. The
+   * move is only followed if the new org file lists the old org url as an
+   * alias; otherwise any org file could claim another organization's identity.
+   * Only one move is followed.
+   */
+  private async getMovedOrgConfig(
+    orgUrl: string,
+    movedTo: string
+  ): Promise<OrgConfig> {
+    const movedConfig = await this.fetchOrgConfig(movedTo);
+    if ((movedConfig.orgUrlAliases ?? []).indexOf(orgUrl) < 0) {
+      throw new StatusError(
+        `Organization ${orgUrl} has moved to ${movedTo}, but ${movedTo} does ` +
+          `not list ${orgUrl} as an alias`,
+        'ORG_CONFIG_INVALID_MOVE',
+        500
+      );
+    }
+    return movedConfig;
+  }
+
+  /**
+   * Returns the current org url of an organization. If the org url is an
+   * alias of another organization (because that organization moved from the
+   * given url), the other organization's url is returned. Otherwise, the given
+   * url is returned.
+   */
+  async getCanonicalOrgUrl(orgUrl: string): Promise<string> {
+    return OrgConfigProvider.toCanonicalOrgUrl(orgUrl, await this.get(orgUrl));
+  }
+
+  /**
+   * Returns the current org url of an organization, given the org config
+   * fetched for one of its org urls.
+   */
+  static toCanonicalOrgUrl(orgUrl: string, orgConfig: OrgConfig): string {
+    if (
+      orgConfig.organizationURL &&
+      (orgConfig.orgUrlAliases ?? []).indexOf(orgUrl) >= 0
+    ) {
+      return orgConfig.organizationURL;
+    }
+    return orgUrl;
+  }
+
+  /** Returns whether two org urls identify the same organization. */
+  async isSameOrg(orgUrl1: string, orgUrl2: string): Promise<boolean> {
+    if (orgUrl1 === orgUrl2) {
+      return true;
+    }
+    return (
+      (await this.getCanonicalOrgUrl(orgUrl1)) ===
+      (await this.getCanonicalOrgUrl(orgUrl2))
+    );
   }
 
   async getJwks(orgUrl: string, noCache = false): Promise<JSONWebKeySet> {
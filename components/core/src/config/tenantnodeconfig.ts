@@ -43,6 +43,15 @@ export const TenantNodeUserConfigDesc = {
     type: 'string',
     isOptional: true,
   },
+  orgUrlAliases: {
+    type: 'json',
+    isOptional: true,
+    isArray: true,
+  },
+  movedToOrgUrl: {
+    type: 'string',
+    isOptional: true,
+  },
   enrollmentURL: {
     type: 'string',
     isOptional: true,
@@ -71,6 +80,18 @@ export const TenantNodeUserConfigDesc = {
     type: 'string',
     isOptional: true,
   },
+  releaseProductPath: {
+    type: 'string',
+    isOptional: true,
+  },
+  cancelAcceptProductPath: {
+    type: 'string',
+    isOptional: true,
+  },
+  fulfillmentPath: {
+    type: 'string',
+    isOptional: true,
+  },
   historyPath: {
     type: 'string',
     isOptional: true,
@@ -89,12 +110,28 @@ export const TenantNodeUserConfigDesc = {
     type: 'number',
     isOptional: true,
   },
+  acceptCancellationWindowSecs: {
+    type: 'number',
+    isOptional: true,
+  },
   accessControlList: 'accessControlList',
   feedConfigs: {
     type: 'json',
     isOptional: true,
     isArray: true,
   },
+  backoffPolicy: {
+    type: 'backoffPolicy',
+    isOptional: true,
+  },
+  maxConcurrentProducers: {
+    type: 'number',
+    isOptional: true,
+  },
+  producerTimeoutMillis: {
+    type: 'number',
+    isOptional: true,
+  },
   producers: {
     type: 'offerProducer',
     isOptional: true,
@@ -104,6 +141,22 @@ export const TenantNodeUserConfigDesc = {
     type: 'verifier',
     isOptional: true,
   },
+  replayProtection: {
+    type: 'json',
+    isOptional: true,
+  },
+  reshareLimits: {
+    type: 'json',
+    isOptional: true,
+  },
+  rateLimiter: {
+    type: 'rateLimiter',
+    isOptional: true,
+  },
+  rateLimits: {
+    type: 'json',
+    isOptional: true,
+  },
   integrations: {
     type: 'integrationInstaller',
     isOptional: true,
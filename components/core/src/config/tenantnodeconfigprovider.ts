@@ -16,6 +16,7 @@
 
 import {Pluggable} from '../integrations/pluggable';
 import {PluggableFactorySet} from '../integrations/pluggablefactoryset';
+import {HandlerRegistration} from '../model/handlerregistration';
 import {TenantNodeConfigJson} from './tenantnodeconfig';
 
 /**
@@ -30,4 +31,14 @@ export interface TenantNodeConfigProvider<Allowed extends PluggableFactorySet>
 
   getTenantConfig(hostId: string): Promise<TenantNodeConfigJson<Allowed>>;
   getAllTenantIds(): AsyncIterable<string>;
+
+  /**
+   * Registers a listener that is called with a tenant id whenever the
+   * configuration for that tenant changes. Providers that can't detect changes
+   * don't implement this method, and servers fall back on checking for changes
+   * when their cached tenant nodes expire.
+   */
+  onTenantConfigChange?(
+    listener: (hostId: string) => void
+  ): HandlerRegistration;
 }
@@ -14,6 +14,16 @@
  * limitations under the License.
  */
 
+import {PersistentStorage} from '../database/persistentstorage';
+import {Clock} from '../util/clock';
+
 export interface TenantNodeIntegrationContext {
   hostOrgUrl: string;
+  /**
+   * The storage used by the server. This storage is shared by every tenant, so
+   * pluggables must only read or write data for hostOrgUrl.
+   */
+  storage?: PersistentStorage;
+  /** The clock used by the server. */
+  clock?: Clock;
 }
@@ -15,22 +15,31 @@
  */
 
 export * from './auth/chainscope';
+export * from './auth/checkaccesstoken';
 export * from './auth/decodechain';
 export * from './auth/configurablesignjwt';
 export * from './auth/file/localfilejwksprovider';
+export * from './auth/file/localfilekeyring';
 export * from './auth/file/localfilekeysigner';
 export * from './auth/generatekeys';
 export * from './auth/getbearertoken';
 export * from './auth/getrequiredscopes';
 export * from './auth/jwksprovider';
+export * from './auth/keyring';
 export * from './auth/labeledjwk';
+export * from './auth/replayprotectingverifier';
 export * from './auth/standardverifier';
 export {JWK, JSONWebKeySet} from 'jose';
 export * from './auth/local/algkeylike';
 export * from './auth/local/localjwksprovider';
 export * from './auth/local/localkeysigner';
 export * from './auth/local/mandatoryalgkeylike';
+export * from './auth/local/rotatingjwksprovider';
+export * from './auth/local/rotatingkeysigner';
 export * from './auth/signer';
+export * from './capabilities/recipientcapabilities';
+export * from './capabilities/recipientcapabilitiesintegration';
+export * from './capabilities/recipientcapabilityregistry';
 export * from './config/tenantnodeconfigprovider';
 export * from './config/local/localfilehostconfigprovider';
 export * from './config/orgconfig';
@@ -42,6 +51,7 @@ export * from './config/statictenantnodeconfigprovider';
 export * from './config/templatehostidextractor';
 export * from './config/tenantnodeconfig';
 export * from './config/tenantnodeintegrationcontext';
+export * from './database/inmemorypersistentstorage';
 export * from './database/persistentstorage';
 export * from './database/transaction';
 export * as diff from './diff';
@@ -55,7 +65,9 @@ export * from './offerproducer/fakeofferproducer';
 export * from './offerproducer/offerproducer';
 export * from './offerproducer/oprfeedproducer';
 export * from './model/resharechains';
+export * from './model/resharelimits';
 export * from './model/getupdatetimestamp';
+export * from './model/isbundle';
 export * from './model/handlerregistration';
 export * from './model/interval';
 export * from './model/listing';
@@ -63,13 +75,29 @@ export * from './model/offerchange';
 export * from './model/offerchangetype';
 export * from './model/offerid';
 export * from './model/offermodel';
+export * from './model/offerslice';
 export * from './model/persistentoffermodel';
+export * from './model/resharerevocations';
 export * from './model/timelineentry';
+export * from './policy/backoffpolicy';
+export * from './policy/exponentialbackoffpolicy';
 export * from './policy/feedconfig';
 export * from './policy/offerlistingpolicy';
 export * from './policy/universalacceptlistingpolicy';
+export * from './policy/listings/hierarchicallistingpolicy';
+export * from './policy/listings/offerfilter';
+export * from './policy/listings/capabilitylistingpolicy';
+export * from './policy/listings/fairsharelistingpolicy';
+export * from './policy/listings/accesswindowlistingpolicy';
+export * from './policy/listings/listingpolicycombinators';
+export * from './policy/listings/perishabilitylistingpolicy';
+export * from './policy/listings/proximitylistingpolicy';
 export * from './policy/serveraccesscontrollist';
 export * from './policy/staticserveraccesscontrollist';
+export * from './policy/ratelimiter';
+export * from './policy/ratelimits';
+export * from './policy/inmemoryratelimiter';
+export * from './policy/storageratelimiter';
 export * from './net/defaultjsonfetcher';
 export * from './net/defaultjsonfetcher';
 export * from './net/fakejsonfetcher';
@@ -82,16 +110,23 @@ export * from './net/regexpurlmapper';
 export * from './net/urlmapper';
 export * from './offerproducer/offerproducer';
 export * from './offerproducer/offerproducermetadata';
+export * from './offerproducer/ingestionreport';
 export * from './offerproducer/oprfeedproducer';
 export {Request, Response} from 'express';
 export * from './server/oprserver';
 export * from './server/oprtenantnode';
+export * from './server/ingestionscheduler';
+export * from './server/listingexplainer';
+export * from './server/listingexplainintegration';
+export * from './server/resharerevocationsintegration';
+export * from './server/tenantnodecache';
 export * from './server/customrequesthandler';
 export * from './util/asyncgetter';
 export * from './util/asynciterable';
 export * from './util/clock';
 export * from './util/defaultclock';
 export * from './util/fakeclock';
+export * from './util/geodistance';
 export * from './util/jsonvalue';
 import loglevel from './util/loglevel';
 export {loglevel};
@@ -101,4 +136,6 @@ export * from './util/statuserror';
 export * from './util/notimplementederror';
 export * from './util/unknownoffererror';
 export * from './util/userexpr';
+export * from './webhook/webhookdispatcher';
+export * from './webhook/webhookintegration';
 export {Schema} from 'jsonschema';
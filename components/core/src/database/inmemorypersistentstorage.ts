@@ -0,0 +1,1158 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {deepClone} from 'fast-json-patch';
+import {
+  DecodedReshareChain,
+  Fulfillment,
+  Offer,
+  OfferHistory,
+  OfferSlice,
+  ReshareChain,
+} from 'opr-models';
+import {decodeChain} from '../auth/decodechain';
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {getUpdateTimestamp} from '../model/getupdatetimestamp';
+import {Interval} from '../model/interval';
+import {
+  compareReshareChainsForAccept,
+  compareReshareChainsForReshare,
+} from '../model/resharechains';
+import {TimelineEntry} from '../model/timelineentry';
+import {OfferProducerMetadata} from '../offerproducer/offerproducermetadata';
+import {JsonValue} from '../util/jsonvalue';
+import {StatusError} from '../util/statuserror';
+import {
+  OfferVersionPair,
+  PersistentStorage,
+  PersistentStorageUpdateType,
+  TransactionType,
+} from './persistentstorage';
+import {Transaction} from './transaction';
+
+interface StoredCorpusEntry {
+  offerId: string;
+  postingOrgUrl: string;
+  lastUpdateUTC: number;
+}
+
+interface StoredReshareChain {
+  reshareChain: ReshareChain;
+  decodedReshareChain: DecodedReshareChain;
+}
+
+interface StoredReshareChains {
+  accept?: StoredReshareChain;
+  reshare?: StoredReshareChain;
+}
+
+interface StoredAcceptance {
+  acceptedBy: string;
+  acceptedAtUTC: number;
+  offerId: string;
+  postingOrgUrl: string;
+  offerUpdateTimestampUTC: number;
+  decodedReshareChain?: DecodedReshareChain;
+  acceptedSlice?: OfferSlice;
+  cancelledAtUTC?: number;
+  fulfillments: Array<Fulfillment>;
+  visibleToOrgUrls: Array<string>;
+}
+
+interface StoredRejection {
+  rejectingOrgUrl: string;
+  offerId: string;
+  postingOrgUrl: string;
+  rejectedAtUTC: number;
+}
+
+/** All the data stored for a single host organization. */
+interface HostState {
+  /** Offer snapshots, keyed by offer key and then by update timestamp. */
+  snapshots: Record<string, Record<string, Offer>>;
+  /** Corpus entries, keyed by corpus org url and then by offer key. */
+  corpora: Record<string, Record<string, StoredCorpusEntry>>;
+  reshareChains: Record<string, StoredReshareChains>;
+  /** The last update time seen for each known offering organization. */
+  knownOfferingOrgs: Record<string, number>;
+  timeline: Array<TimelineEntry>;
+  acceptances: Array<StoredAcceptance>;
+  rejections: Array<StoredRejection>;
+}
+
+/**
+ * The complete contents of an InMemoryPersistentStorage. The state only
+ * contains plain JSON values, so that it can be copied with deepClone().
+ */
+interface StorageState {
+  hosts: Record<string, HostState>;
+  /** Key-value pairs, keyed by host org url and then by key. */
+  values: Record<string, Record<string, JsonValue>>;
+  producerMetadata: Record<string, OfferProducerMetadata>;
+}
+
+/**
+ * A value written in a transaction. A value of undefined means the key was
+ * deleted.
+ */
+interface WrittenValue {
+  value?: JsonValue;
+}
+
+/**
+ * A transaction against an InMemoryPersistentStorage. A transaction reads from
+ * the storage state that was committed when the transaction was created. The
+ * first write to a host (or to a producer's metadata) in a READWRITE
+ * transaction makes a private copy of that part of the state, and committing
+ * the transaction writes the copies back to the storage. Key-value pairs are
+ * tracked one key at a time, so that integrations storing values don't
+ * conflict with offer changes made on the same host.
+ */
+export class InMemoryTransaction implements Transaction {
+  readonly type: TransactionType;
+
+  private readonly storage: InMemoryPersistentStorage;
+  private readonly baseState: StorageState;
+  private readonly writtenState: StorageState;
+  private readonly writtenValues: Record<string, Record<string, WrittenValue>>;
+  private isComplete = false;
+
+  constructor(
+    storage: InMemoryPersistentStorage,
+    type: TransactionType,
+    baseState: StorageState
+  ) {
+    this.storage = storage;
+    this.type = type;
+    this.baseState = baseState;
+    this.writtenState = {
+      hosts: {},
+      values: {},
+      producerMetadata: {},
+    };
+    this.writtenValues = {};
+  }
+
+  /** Returns the state for the given host. The result must not be modified. */
+  getHost(hostOrgUrl: string): HostState | undefined {
+    this.checkNotComplete();
+    return (
+      this.writtenState.hosts[hostOrgUrl] ?? this.baseState.hosts[hostOrgUrl]
+    );
+  }
+
+  /** Returns a private, writable copy of the state for the given host. */
+  getMutableHost(hostOrgUrl: string): HostState {
+    this.checkNotWritable();
+    const hosts = this.writtenState.hosts;
+    if (!hosts[hostOrgUrl]) {
+      const baseHost = this.baseState.hosts[hostOrgUrl];
+      hosts[hostOrgUrl] = baseHost
+        ? (deepClone(baseHost) as HostState)
+        : newHostState();
+    }
+    return hosts[hostOrgUrl];
+  }
+
+  /** Returns the metadata for a producer. The result must not be modified. */
+  getProducerMetadata(producerId: string): OfferProducerMetadata | undefined {
+    this.checkNotComplete();
+    return (
+      this.writtenState.producerMetadata[producerId] ??
+      this.baseState.producerMetadata[producerId]
+    );
+  }
+
+  /**
+   * Returns the key-value pairs visible to this transaction for the given
+   * host. The result must not be modified.
+   */
+  getValues(hostOrgUrl: string): Record<string, JsonValue> {
+    this.checkNotComplete();
+    const values = {...this.baseState.values[hostOrgUrl]};
+    for (const [key, written] of Object.entries(
+      this.writtenValues[hostOrgUrl] ?? {}
+    )) {
+      if (written.value === undefined) {
+        delete values[key];
+      } else {
+        values[key] = written.value;
+      }
+    }
+    return values;
+  }
+
+  /** Stores a value, or deletes it if the value is undefined. */
+  setValue(hostOrgUrl: string, key: string, value?: JsonValue): void {
+    this.checkNotWritable();
+    const hostValues =
+      this.writtenValues[hostOrgUrl] ?? (this.writtenValues[hostOrgUrl] = {});
+    hostValues[key] = {value: value};
+  }
+
+  setProducerMetadata(metadata: OfferProducerMetadata): void {
+    this.checkNotWritable();
+    this.writtenState.producerMetadata[metadata.organizationUrl] = metadata;
+  }
+
+  async commit(): Promise<void> {
+    this.checkNotComplete();
+    this.isComplete = true;
+    this.storage.commitState(
+      this.writtenState,
+      this.writtenValues,
+      this.baseState
+    );
+  }
+
+  async fail(): Promise<void> {
+    this.checkNotComplete();
+    this.isComplete = true;
+  }
+
+  private checkNotWritable() {
+    this.checkNotComplete();
+    if (this.type === 'READONLY') {
+      throw new StatusError(
+        'Cannot write in a READONLY transaction',
+        'STORAGE_ERROR_READONLY_TRANSACTION',
+        500
+      );
+    }
+  }
+
+  private checkNotComplete() {
+    if (this.isComplete) {
+      throw new Error('Transaction already completed');
+    }
+  }
+}
+
+/**
+ * A PersistentStorage implementation that keeps all data in memory. All data
+ * is lost when the process exits, so this implementation is only suitable for
+ * testing, demos and small deployments that can afford to re-ingest their
+ * offers on startup.
+ *
+ * Transactions are isolated from one another. If two READWRITE transactions
+ * that were open at the same time both change the offers for the same host (or
+ * the same stored value, or the metadata for the same offer producer), the
+ * second one to commit will fail with a STORAGE_ERROR_TRANSACTION_CONFLICT
+ * error, in the same way that a snapshot isolated database transaction would.
+ */
+export class InMemoryPersistentStorage implements PersistentStorage {
+  readonly type = 'storage';
+
+  private state: StorageState;
+
+  constructor() {
+    this.state = {
+      hosts: {},
+      values: {},
+      producerMetadata: {},
+    };
+  }
+
+  async initialize(): Promise<void> {}
+
+  async shutdown(): Promise<void> {}
+
+  async createTransaction(
+    type: TransactionType = 'READWRITE'
+  ): Promise<InMemoryTransaction> {
+    return new InMemoryTransaction(this, type, this.state);
+  }
+
+  /**
+   * Writes the hosts, values and producer metadata changed by a transaction
+   * into the storage state. Committed host states, values and metadata are
+   * never modified, so a transaction conflicts with another if anything it
+   * wrote has been replaced since the transaction's base state was read. This
+   * method should only be called by InMemoryTransaction.commit().
+   */
+  commitState(
+    writtenState: StorageState,
+    writtenValues: Record<string, Record<string, WrittenValue>>,
+    baseState: StorageState
+  ): void {
+    const hasConflict =
+      Object.keys(writtenState.hosts).some(
+        key => this.state.hosts[key] !== baseState.hosts[key]
+      ) ||
+      Object.entries(writtenValues).some(([hostOrgUrl, hostValues]) =>
+        Object.keys(hostValues).some(
+          key =>
+            this.state.values[hostOrgUrl]?.[key] !==
+            baseState.values[hostOrgUrl]?.[key]
+        )
+      ) ||
+      Object.keys(writtenState.producerMetadata).some(
+        key =>
+          this.state.producerMetadata[key] !== baseState.producerMetadata[key]
+      );
+    if (hasConflict) {
+      throw new StatusError(
+        'Transaction conflicts with a concurrent transaction',
+        'STORAGE_ERROR_TRANSACTION_CONFLICT',
+        500
+      );
+    }
+    const values = {...this.state.values};
+    for (const [hostOrgUrl, hostValues] of Object.entries(writtenValues)) {
+      const newHostValues = {...values[hostOrgUrl]};
+      for (const [key, written] of Object.entries(hostValues)) {
+        if (written.value === undefined) {
+          delete newHostValues[key];
+        } else {
+          newHostValues[key] = written.value;
+        }
+      }
+      values[hostOrgUrl] = newHostValues;
+    }
+    this.state = {
+      hosts: {...this.state.hosts, ...writtenState.hosts},
+      values: values,
+      producerMetadata: {
+        ...this.state.producerMetadata,
+        ...writtenState.producerMetadata,
+      },
+    };
+  }
+
+  async storeValue(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    key: string,
+    value: JsonValue
+  ): Promise<JsonValue | undefined> {
+    const oldValue = t.getValues(hostOrgUrl)[key];
+    t.setValue(hostOrgUrl, key, deepClone(value));
+    return oldValue !== undefined ? deepClone(oldValue) : undefined;
+  }
+
+  async clearAllValues(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    keyPrefix: string
+  ): Promise<number | undefined> {
+    let deleteCount = 0;
+    for (const key of Object.keys(t.getValues(hostOrgUrl))) {
+      if (key.startsWith(keyPrefix)) {
+        t.setValue(hostOrgUrl, key, undefined);
+        deleteCount++;
+      }
+    }
+    return deleteCount;
+  }
+
+  async *getValues(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    keyPrefix: string
+  ): AsyncIterable<JsonValue> {
+    const values = t.getValues(hostOrgUrl);
+    const keys = Object.keys(values)
+      .filter(key => key.startsWith(keyPrefix))
+      .sort(compareStrings);
+    for (const key of keys) {
+      yield deepClone(values[key]);
+    }
+  }
+
+  async insertOrUpdateOfferInCorpus(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    corpusOrgUrl: string,
+    offer: Offer
+  ): Promise<PersistentStorageUpdateType> {
+    const host = this.getMutableHost(t, hostOrgUrl);
+    offer = deepClone(offer);
+    const reshareChain = offer.reshareChain;
+    delete offer.reshareChain;
+
+    const offerTimestamp = getUpdateTimestamp(offer);
+    const key = offerKey(offer.id, offer.offeredBy!);
+    const bestSnapshotUpdateTime = this.getNewestCorpusTimestamp(
+      host,
+      offer.id,
+      offer.offeredBy!
+    );
+
+    // Write down the snapshot if we haven't seen it before.
+    const snapshots = host.snapshots[key] ?? (host.snapshots[key] = {});
+    if (!snapshots[offerTimestamp]) {
+      snapshots[offerTimestamp] = offer;
+    }
+
+    // Replace the version in this corpus if the incoming offer is newer.
+    const corpus =
+      host.corpora[corpusOrgUrl] ?? (host.corpora[corpusOrgUrl] = {});
+    const currentCorpusEntry = corpus[key];
+    if (
+      !currentCorpusEntry ||
+      currentCorpusEntry.lastUpdateUTC < offerTimestamp
+    ) {
+      corpus[key] = {
+        offerId: offer.id,
+        postingOrgUrl: offer.offeredBy!,
+        lastUpdateUTC: offerTimestamp,
+      };
+      const lastSeenAtUTC = host.knownOfferingOrgs[offer.offeredBy!];
+      if (lastSeenAtUTC === undefined || lastSeenAtUTC < offerTimestamp) {
+        host.knownOfferingOrgs[offer.offeredBy!] = offerTimestamp;
+      }
+    }
+
+    const decodedChain = reshareChain ? decodeChain(reshareChain) : undefined;
+    const storedChains =
+      host.reshareChains[key] ?? (host.reshareChains[key] = {});
+    let replacedChain = false;
+    if (
+      compareReshareChainsForAccept(
+        decodedChain,
+        storedChains.accept?.decodedReshareChain
+      ) < 0
+    ) {
+      if (reshareChain !== undefined) {
+        storedChains.accept = {
+          reshareChain: reshareChain,
+          decodedReshareChain: decodedChain!,
+        };
+      }
+      replacedChain = true;
+    }
+    if (
+      compareReshareChainsForReshare(
+        decodedChain,
+        storedChains.reshare?.decodedReshareChain
+      ) < 0
+    ) {
+      if (reshareChain !== undefined) {
+        storedChains.reshare = {
+          reshareChain: reshareChain,
+          decodedReshareChain: decodedChain!,
+        };
+      }
+      replacedChain = true;
+    }
+    if (bestSnapshotUpdateTime === undefined) {
+      return 'ADD';
+    } else if (bestSnapshotUpdateTime < offerTimestamp || replacedChain) {
+      return 'UPDATE';
+    } else {
+      return 'NONE';
+    }
+  }
+
+  async deleteOfferInCorpus(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    corpusOrgUrl: string,
+    offerId: string,
+    offeringOrgUrl: string
+  ): Promise<PersistentStorageUpdateType> {
+    const host = this.getMutableHost(t, hostOrgUrl);
+    const corpus = host.corpora[corpusOrgUrl];
+    if (corpus) {
+      delete corpus[offerKey(offerId, offeringOrgUrl)];
+    }
+    // NOTE: If ANY corpus is publishing any version of an offer, this
+    // implementation will not consider the offer deleted.
+    return this.getNewestCorpusTimestamp(host, offerId, offeringOrgUrl) ===
+      undefined
+      ? 'DELETE'
+      : 'NONE';
+  }
+
+  async getOfferFromCorpus(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    corpusOrgUrl: string,
+    postingOrgUrl: string,
+    offerId: string
+  ): Promise<Offer | undefined> {
+    const host = this.getHost(t, hostOrgUrl);
+    const entry =
+      host.corpora[corpusOrgUrl]?.[offerKey(offerId, postingOrgUrl)];
+    return entry ? this.getSnapshot(host, entry) : undefined;
+  }
+
+  async getOffer(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    updateTimestampUTC?: number
+  ): Promise<Offer | undefined> {
+    const snapshots = this.getHost(t, hostOrgUrl).snapshots[
+      offerKey(offerId, postingOrgUrl)
+    ];
+    if (!snapshots) {
+      return undefined;
+    }
+    const timestamps = Object.keys(snapshots)
+      .map(x => parseInt(x))
+      .filter(
+        x => updateTimestampUTC === undefined || x === updateTimestampUTC
+      );
+    if (timestamps.length === 0) {
+      return undefined;
+    }
+    return deepClone(snapshots[Math.max(...timestamps)]);
+  }
+
+  async getOfferSources(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    updateTimestampUTC?: number
+  ): Promise<Array<string>> {
+    const corpora = this.getHost(t, hostOrgUrl).corpora;
+    const key = offerKey(offerId, postingOrgUrl);
+    return Object.keys(corpora)
+      .filter(corpusOrgUrl => {
+        const entry = corpora[corpusOrgUrl][key];
+        return (
+          entry !== undefined &&
+          (updateTimestampUTC === undefined ||
+            entry.lastUpdateUTC === updateTimestampUTC)
+        );
+      })
+      .sort(compareStrings);
+  }
+
+  async getBestReshareChainRoot(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): Promise<ReshareChain | undefined> {
+    const chains = this.getHost(t, hostOrgUrl).reshareChains[
+      offerKey(offerId, postingOrgUrl)
+    ];
+    return chains?.reshare ? [...chains.reshare.reshareChain] : undefined;
+  }
+
+  async getBestAcceptChain(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): Promise<ReshareChain | undefined> {
+    const chains = this.getHost(t, hostOrgUrl).reshareChains[
+      offerKey(offerId, postingOrgUrl)
+    ];
+    return chains?.accept ? [...chains.accept.reshareChain] : undefined;
+  }
+
+  async *getCorpusOffers(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    corpusOrgUrl: string,
+    skipCount = 0
+  ): AsyncIterable<Offer> {
+    const host = this.getHost(t, hostOrgUrl);
+    const entries = Object.values(host.corpora[corpusOrgUrl] ?? {}).sort(
+      (a, b) =>
+        compareStrings(a.postingOrgUrl, b.postingOrgUrl) ||
+        compareStrings(a.offerId, b.offerId)
+    );
+    for (const entry of entries.slice(skipCount)) {
+      yield this.getSnapshot(host, entry);
+    }
+  }
+
+  async *getTimelineForOffer(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    queryInterval?: Interval,
+    targetOrgUrl?: string
+  ): AsyncIterable<TimelineEntry> {
+    const entries = this.getHost(t, hostOrgUrl)
+      .timeline.filter(
+        entry =>
+          entry.offerId === offerId &&
+          entry.postingOrgUrl === postingOrgUrl &&
+          (!queryInterval ||
+            (entry.startTimeUTC < queryInterval.endTimeUTC &&
+              entry.endTimeUTC > queryInterval.startTimeUTC)) &&
+          (!targetOrgUrl || entry.targetOrganizationUrl === targetOrgUrl)
+      )
+      .sort(
+        (a, b) =>
+          a.startTimeUTC - b.startTimeUTC ||
+          compareStrings(a.postingOrgUrl, b.postingOrgUrl) ||
+          compareStrings(a.offerId, b.offerId)
+      );
+    for (const entry of entries) {
+      yield deepClone(entry);
+    }
+  }
+
+  async addTimelineEntries(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    timelineEntries: AsyncIterable<TimelineEntry>
+  ): Promise<void> {
+    const timeline = this.getMutableHost(t, hostOrgUrl).timeline;
+    for await (const timelineEntry of timelineEntries) {
+      const storedEntry: TimelineEntry = {
+        targetOrganizationUrl: timelineEntry.targetOrganizationUrl,
+        offerId: timelineEntry.offerId,
+        postingOrgUrl: timelineEntry.postingOrgUrl,
+        offerUpdateTimestampUTC: timelineEntry.offerUpdateTimestampUTC,
+        startTimeUTC: timelineEntry.startTimeUTC,
+        endTimeUTC: timelineEntry.endTimeUTC,
+        isReservation: timelineEntry.isReservation,
+      };
+      if (timelineEntry.reshareChain) {
+        storedEntry.reshareChain = [...timelineEntry.reshareChain];
+      }
+      timeline.push(storedEntry);
+    }
+  }
+
+  async truncateFutureTimelineForOffer(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    timestampUTC: number
+  ): Promise<void> {
+    const host = this.getMutableHost(t, hostOrgUrl);
+    host.timeline = host.timeline.filter(entry => {
+      if (entry.offerId !== offerId || entry.postingOrgUrl !== postingOrgUrl) {
+        return true;
+      }
+      if (entry.startTimeUTC >= timestampUTC) {
+        return false;
+      }
+      if (entry.endTimeUTC > timestampUTC) {
+        entry.endTimeUTC = timestampUTC;
+      }
+      return true;
+    });
+  }
+
+  async *getOffersAtTime(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    viewingOrgUrl: string,
+    timestampUTC: number,
+    skipCount = 0
+  ): AsyncIterable<Offer> {
+    const host = this.getHost(t, hostOrgUrl);
+    // The wildcard operator does not apply in requests by the host org itself.
+    // The host org doesn't see its own offers when making a timeline request,
+    // even if an offer is wildcard listed.
+    const entries = this.getVisibleTimelineEntries(
+      host,
+      viewingOrgUrl,
+      timestampUTC,
+      hostOrgUrl !== viewingOrgUrl
+    );
+    let lastEntry: TimelineEntry | undefined = undefined;
+    for (const entry of entries.slice(skipCount)) {
+      // Because of wildcards, the same offer might be listed twice for the
+      // same organization. The entries are sorted so that copies of the same
+      // offer are adjacent and the newest version comes first, so later copies
+      // are ignored.
+      if (
+        lastEntry?.offerId === entry.offerId &&
+        lastEntry?.postingOrgUrl === entry.postingOrgUrl
+      ) {
+        continue;
+      }
+      lastEntry = entry;
+      const offer = this.getSnapshot(host, entry);
+      if (entry.reshareChain) {
+        offer.reshareChain = [...entry.reshareChain];
+      }
+      yield offer;
+    }
+  }
+
+  async getOfferAtTime(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    viewingOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    timestampUTC: number
+  ): Promise<Offer | undefined> {
+    const host = this.getHost(t, hostOrgUrl);
+    const entry = this.getVisibleTimelineEntries(
+      host,
+      viewingOrgUrl,
+      timestampUTC,
+      true
+    ).find(
+      entry =>
+        entry.offerId === offerId && entry.postingOrgUrl === postingOrgUrl
+    );
+    return entry ? this.getSnapshot(host, entry) : undefined;
+  }
+
+  async *getChangedOffers(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    viewingOrgUrl: string,
+    oldTimestampUTC: number,
+    newTimestampUTC: number,
+    skipCount = 0
+  ): AsyncIterable<OfferVersionPair> {
+    const host = this.getHost(t, hostOrgUrl);
+    const oldVersions = this.getVisibleVersions(
+      host,
+      viewingOrgUrl,
+      oldTimestampUTC
+    );
+    const newVersions = this.getVisibleVersions(
+      host,
+      viewingOrgUrl,
+      newTimestampUTC
+    );
+    const changes: Array<{
+      oldVersion?: TimelineEntry;
+      newVersion?: TimelineEntry;
+    }> = [];
+    const keys = new Set([...oldVersions.keys(), ...newVersions.keys()]);
+    for (const key of keys) {
+      const oldEntries = oldVersions.get(key) ?? [undefined];
+      const newEntries = newVersions.get(key) ?? [undefined];
+      for (const oldEntry of oldEntries) {
+        for (const newEntry of newEntries) {
+          if (
+            oldEntry?.offerUpdateTimestampUTC !==
+            newEntry?.offerUpdateTimestampUTC
+          ) {
+            changes.push({oldVersion: oldEntry, newVersion: newEntry});
+          }
+        }
+      }
+    }
+    changes.sort((a, b) => {
+      const aEntry = (a.oldVersion ?? a.newVersion)!;
+      const bEntry = (b.oldVersion ?? b.newVersion)!;
+      return (
+        compareStrings(aEntry.postingOrgUrl, bEntry.postingOrgUrl) ||
+        compareStrings(aEntry.offerId, bEntry.offerId) ||
+        bEntry.offerUpdateTimestampUTC - aEntry.offerUpdateTimestampUTC
+      );
+    });
+    for (const change of changes.slice(skipCount)) {
+      yield {
+        oldVersion: change.oldVersion
+          ? this.getSnapshot(host, change.oldVersion)
+          : undefined,
+        newVersion: change.newVersion
+          ? this.getSnapshot(host, change.newVersion)
+          : undefined,
+      };
+    }
+  }
+
+  async writeAccept(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    acceptingOrgUrl: string,
+    offerId: string,
+    offerUpdateTimestampUTC: number,
+    atTimeUTC: number,
+    decodedReshareChain?: DecodedReshareChain,
+    acceptedSlice?: OfferSlice,
+    postingOrgUrl: string = hostOrgUrl
+  ): Promise<void> {
+    const offer = await this.getOfferAtTime(
+      t,
+      hostOrgUrl,
+      acceptingOrgUrl,
+      offerId,
+      postingOrgUrl,
+      atTimeUTC
+    );
+    if (!offer) {
+      throw new StatusError(
+        'Unknown offer ' + offerId,
+        'ERROR_ACCEPT_UNKNOWN_OFFER',
+        404
+      );
+    }
+    const viewerSet = new Set<string>();
+    viewerSet.add(hostOrgUrl);
+    viewerSet.add(acceptingOrgUrl);
+    for (const x of decodedReshareChain || []) {
+      viewerSet.add(x.sharingOrgUrl);
+    }
+    const acceptance: StoredAcceptance = {
+      acceptedBy: acceptingOrgUrl,
+      acceptedAtUTC: atTimeUTC,
+      offerId: offerId,
+      postingOrgUrl: postingOrgUrl,
+      offerUpdateTimestampUTC: getUpdateTimestamp(offer),
+      fulfillments: [],
+      visibleToOrgUrls: [...viewerSet],
+    };
+    if (decodedReshareChain) {
+      acceptance.decodedReshareChain = deepClone(decodedReshareChain);
+    }
+    if (acceptedSlice) {
+      acceptance.acceptedSlice = deepClone(acceptedSlice);
+    }
+    this.getMutableHost(t, hostOrgUrl).acceptances.push(acceptance);
+  }
+
+  async getActiveAcceptance(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): Promise<OfferHistory | undefined> {
+    const host = this.getHost(t, hostOrgUrl);
+    const acceptance = this.getActiveStoredAcceptance(
+      host,
+      offerId,
+      postingOrgUrl
+    );
+    return acceptance ? this.toOfferHistory(host, acceptance) : undefined;
+  }
+
+  async writeAcceptCancellation(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    atTimeUTC: number
+  ): Promise<void> {
+    if (
+      !this.getActiveStoredAcceptance(
+        this.getHost(t, hostOrgUrl),
+        offerId,
+        postingOrgUrl
+      )
+    ) {
+      return;
+    }
+    const acceptance = this.getActiveStoredAcceptance(
+      this.getMutableHost(t, hostOrgUrl),
+      offerId,
+      postingOrgUrl
+    )!;
+    acceptance.cancelledAtUTC = atTimeUTC;
+  }
+
+  async writeFulfillment(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    fulfillment: Fulfillment
+  ): Promise<void> {
+    if (
+      !this.getActiveStoredAcceptance(
+        this.getHost(t, hostOrgUrl),
+        offerId,
+        postingOrgUrl
+      )
+    ) {
+      return;
+    }
+    const acceptance = this.getActiveStoredAcceptance(
+      this.getMutableHost(t, hostOrgUrl),
+      offerId,
+      postingOrgUrl
+    )!;
+    acceptance.fulfillments.push(deepClone(fulfillment));
+  }
+
+  async *getFulfillmentHistory(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): AsyncIterable<Fulfillment> {
+    const acceptance = this.getActiveStoredAcceptance(
+      this.getHost(t, hostOrgUrl),
+      offerId,
+      postingOrgUrl
+    );
+    for (const fulfillment of acceptance?.fulfillments ?? []) {
+      yield deepClone(fulfillment);
+    }
+  }
+
+  async writeReject(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    rejectingOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    atTimeUTC: number
+  ): Promise<void> {
+    this.getMutableHost(t, hostOrgUrl).rejections.push({
+      rejectingOrgUrl: rejectingOrgUrl,
+      offerId: offerId,
+      postingOrgUrl: postingOrgUrl,
+      rejectedAtUTC: atTimeUTC,
+    });
+  }
+
+  async getAllRejections(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): Promise<Array<string>> {
+    return this.getHost(t, hostOrgUrl)
+      .rejections.filter(
+        x => x.offerId === offerId && x.postingOrgUrl === postingOrgUrl
+      )
+      .map(x => x.rejectingOrgUrl);
+  }
+
+  async *getHistory(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    viewingOrgUrl: string,
+    sinceTimestampUTC?: number,
+    skipCount = 0
+  ): AsyncIterable<OfferHistory> {
+    const host = this.getHost(t, hostOrgUrl);
+    const acceptances = host.acceptances.filter(
+      x =>
+        x.visibleToOrgUrls.includes(viewingOrgUrl) &&
+        (sinceTimestampUTC === undefined ||
+          x.acceptedAtUTC >= sinceTimestampUTC)
+    );
+    for (const acceptance of acceptances.slice(skipCount)) {
+      yield this.toOfferHistory(host, acceptance);
+    }
+  }
+
+  async *getKnownOfferingOrgs(
+    t: InMemoryTransaction,
+    hostOrgUrl: string,
+    sinceTimestampUTC?: number
+  ): AsyncIterable<string> {
+    const knownOrgs = this.getHost(t, hostOrgUrl).knownOfferingOrgs;
+    const orgUrls = Object.keys(knownOrgs)
+      .filter(
+        orgUrl =>
+          sinceTimestampUTC === undefined ||
+          knownOrgs[orgUrl] >= sinceTimestampUTC
+      )
+      .sort((a, b) => knownOrgs[b] - knownOrgs[a] || compareStrings(a, b));
+    for (const orgUrl of orgUrls) {
+      yield orgUrl;
+    }
+  }
+
+  async writeOfferProducerMetadata(
+    t: InMemoryTransaction,
+    metadata: OfferProducerMetadata
+  ): Promise<void> {
+    t.setProducerMetadata(deepClone(metadata));
+  }
+
+  async getOfferProducerMetadata(
+    t: InMemoryTransaction,
+    orgUrl: string
+  ): Promise<OfferProducerMetadata | undefined> {
+    const metadata = t.getProducerMetadata(orgUrl);
+    return metadata ? deepClone(metadata) : undefined;
+  }
+
+  /**
+   * Returns the state for the given host. The result must not be modified.
+   */
+  private getHost(t: InMemoryTransaction, hostOrgUrl: string): HostState {
+    return t.getHost(hostOrgUrl) ?? newHostState();
+  }
+
+  /** Returns a writable copy of the state for the given host. */
+  private getMutableHost(
+    t: InMemoryTransaction,
+    hostOrgUrl: string
+  ): HostState {
+    return t.getMutableHost(hostOrgUrl);
+  }
+
+  /** Returns a copy of the offer snapshot referenced by an entry. */
+  private getSnapshot(
+    host: HostState,
+    entry: StoredCorpusEntry | TimelineEntry | StoredAcceptance
+  ): Offer {
+    const timestampUTC =
+      'lastUpdateUTC' in entry
+        ? entry.lastUpdateUTC
+        : entry.offerUpdateTimestampUTC;
+    return deepClone(
+      host.snapshots[offerKey(entry.offerId, entry.postingOrgUrl)][timestampUTC]
+    );
+  }
+
+  private getNewestCorpusTimestamp(
+    host: HostState,
+    offerId: string,
+    postingOrgUrl: string
+  ): number | undefined {
+    const key = offerKey(offerId, postingOrgUrl);
+    let newest: number | undefined = undefined;
+    for (const corpus of Object.values(host.corpora)) {
+      const entry = corpus[key];
+      if (entry && (newest === undefined || entry.lastUpdateUTC > newest)) {
+        newest = entry.lastUpdateUTC;
+      }
+    }
+    return newest;
+  }
+
+  /**
+   * Returns the timeline entries visible to the given org at the given time,
+   * sorted by posting org url, offer id and then by descending offer update
+   * time.
+   */
+  private getVisibleTimelineEntries(
+    host: HostState,
+    viewingOrgUrl: string,
+    timestampUTC: number,
+    includeWildcards: boolean
+  ): Array<TimelineEntry> {
+    return host.timeline
+      .filter(
+        entry =>
+          (entry.targetOrganizationUrl === viewingOrgUrl ||
+            (includeWildcards && entry.targetOrganizationUrl === '*')) &&
+          entry.startTimeUTC <= timestampUTC &&
+          entry.endTimeUTC > timestampUTC
+      )
+      .sort(
+        (a, b) =>
+          compareStrings(a.postingOrgUrl, b.postingOrgUrl) ||
+          compareStrings(a.offerId, b.offerId) ||
+          b.offerUpdateTimestampUTC - a.offerUpdateTimestampUTC
+      );
+  }
+
+  /**
+   * Returns the distinct versions of each offer visible to the given org at the
+   * given time, keyed by offer key. Each version is represented by one of the
+   * timeline entries that lists it.
+   */
+  private getVisibleVersions(
+    host: HostState,
+    viewingOrgUrl: string,
+    timestampUTC: number
+  ): Map<string, Array<TimelineEntry>> {
+    const versions = new Map<string, Array<TimelineEntry>>();
+    const entries = this.getVisibleTimelineEntries(
+      host,
+      viewingOrgUrl,
+      timestampUTC,
+      true
+    );
+    for (const entry of entries) {
+      const key = offerKey(entry.offerId, entry.postingOrgUrl);
+      const offerVersions = versions.get(key) ?? [];
+      if (
+        !offerVersions.some(
+          x => x.offerUpdateTimestampUTC === entry.offerUpdateTimestampUTC
+        )
+      ) {
+        offerVersions.push(entry);
+      }
+      versions.set(key, offerVersions);
+    }
+    return versions;
+  }
+
+  private getActiveStoredAcceptance(
+    host: HostState,
+    offerId: string,
+    postingOrgUrl: string
+  ): StoredAcceptance | undefined {
+    let result: StoredAcceptance | undefined = undefined;
+    for (const acceptance of host.acceptances) {
+      if (
+        acceptance.offerId === offerId &&
+        acceptance.postingOrgUrl === postingOrgUrl &&
+        acceptance.cancelledAtUTC === undefined &&
+        (result === undefined ||
+          acceptance.acceptedAtUTC >= result.acceptedAtUTC)
+      ) {
+        result = acceptance;
+      }
+    }
+    return result;
+  }
+
+  private toOfferHistory(
+    host: HostState,
+    acceptance: StoredAcceptance
+  ): OfferHistory {
+    const offerHistory = {
+      acceptedAtUTC: acceptance.acceptedAtUTC,
+      acceptingOrganization: acceptance.acceptedBy,
+      offer: this.getSnapshot(host, acceptance),
+    } as OfferHistory;
+    if (acceptance.decodedReshareChain) {
+      offerHistory.decodedReshareChain = deepClone(
+        acceptance.decodedReshareChain
+      );
+    }
+    if (acceptance.acceptedSlice) {
+      offerHistory.acceptedSlice = deepClone(acceptance.acceptedSlice);
+    }
+    if (acceptance.cancelledAtUTC !== undefined) {
+      offerHistory.cancelledAtUTC = acceptance.cancelledAtUTC;
+    }
+    if (acceptance.fulfillments.length > 0) {
+      offerHistory.fulfillment = deepClone(
+        acceptance.fulfillments[acceptance.fulfillments.length - 1]
+      );
+    }
+    return offerHistory;
+  }
+}
+
+function newHostState(): HostState {
+  return {
+    snapshots: {},
+    corpora: {},
+    reshareChains: {},
+    knownOfferingOrgs: {},
+    timeline: [],
+    acceptances: [],
+    rejections: [],
+  };
+}
+
+function offerKey(offerId: string, postingOrgUrl: string): string {
+  return JSON.stringify([postingOrgUrl, offerId]);
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export const InMemoryPersistentStorageIntegration = {
+  async construct(): Promise<InMemoryPersistentStorage> {
+    return new InMemoryPersistentStorage();
+  },
+} as PluggableFactory<InMemoryPersistentStorage>;
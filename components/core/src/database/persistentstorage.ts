@@ -16,8 +16,10 @@
 
 import {
   DecodedReshareChain,
+  Fulfillment,
   Offer,
   OfferHistory,
+  OfferSlice,
   ReshareChain,
 } from 'opr-models';
 import {Pluggable} from '../integrations/pluggable';
@@ -269,7 +271,11 @@ export interface PersistentStorage extends Pluggable {
    * as a blind write, with no checking that the offer actually exists. Because
    * this is a blind write, the particular version of the offer being accepted
    * must be specified through a combination of the hostOrgUrl, offerId and
-   * offerUpdateTimestampUTC parameters.
+   * offerUpdateTimestampUTC parameters. If the acceptance was a partial
+   * acceptance, the accepted slice must be recorded and returned in the
+   * acceptedSlice field of the offer history. The offer is assumed to be
+   * posted by the host unless a postingOrgUrl is given (e.g. an org url the
+   * host used before moving).
    */
   writeAccept(
     t: Transaction,
@@ -278,9 +284,61 @@ export interface PersistentStorage extends Pluggable {
     offerId: string,
     offerUpdateTimestampUTC: number,
     atTimeUTC: number,
-    decodedReshareChain?: DecodedReshareChain
+    decodedReshareChain?: DecodedReshareChain,
+    acceptedSlice?: OfferSlice,
+    postingOrgUrl?: string
   ): Promise<void>;
 
+  /**
+   * Returns the most recent acceptance of the given offer that has not been
+   * cancelled, or undefined if there is no such acceptance.
+   */
+  getActiveAcceptance(
+    t: Transaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): Promise<OfferHistory | undefined>;
+
+  /**
+   * Marks the most recent acceptance of the given offer that has not been
+   * cancelled as cancelled at the given time. The acceptance is not deleted;
+   * it must continue to be returned by getHistory() with the cancelledAtUTC
+   * field set. If there is no such acceptance, this method does nothing.
+   */
+  writeAcceptCancellation(
+    t: Transaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    atTimeUTC: number
+  ): Promise<void>;
+
+  /**
+   * Records a fulfillment report against the most recent acceptance of the
+   * given offer that has not been cancelled. The latest fulfillment report
+   * must be returned in the fulfillment field of the offer history. If there
+   * is no such acceptance, this method does nothing.
+   */
+  writeFulfillment(
+    t: Transaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    fulfillment: Fulfillment
+  ): Promise<void>;
+
+  /**
+   * Returns all fulfillment reports for the most recent acceptance of the given
+   * offer that has not been cancelled, in the order they were reported.
+   */
+  getFulfillmentHistory(
+    t: Transaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): AsyncIterable<Fulfillment>;
+
   /**
    * Records that an offer has been rejected. Note that this can be implemented
    * as a blind write, with no checking that the offer actually exists.
@@ -305,7 +363,8 @@ export interface PersistentStorage extends Pluggable {
   /**
    * Returns a list of all accepted offers visible to the given organization. If
    * the sinceTimestampUTC parameter is specified, only offers accepted since
-   * the given date will be returned.
+   * the given date will be returned. Cancelled acceptances are included, with
+   * the cancelledAtUTC field set.
    */
   getHistory(
     t: Transaction,
@@ -14,20 +14,62 @@
  * limitations under the License.
  */
 
+import {RecipientCapabilitiesIntegration} from './capabilities/recipientcapabilitiesintegration';
 import {LocalJwksIntegration} from './auth/local/localjwksprovider';
 import {LocalKeySignerIntegration} from './auth/local/localkeysigner';
+import {RotatingJwksIntegration} from './auth/local/rotatingjwksprovider';
+import {RotatingKeySignerIntegration} from './auth/local/rotatingkeysigner';
 import {LocalFileMultitenantIntegration} from './config/local/localfilehostconfigprovider';
 import {StaticMultitenantIntegration} from './config/statictenantnodeconfigprovider';
 import {TemplateHostIdExtractorIntegration} from './config/templatehostidextractor';
+import {InMemoryPersistentStorageIntegration} from './database/inmemorypersistentstorage';
+import {InMemoryRateLimiterIntegration} from './policy/inmemoryratelimiter';
+import {ExponentialBackoffPolicyIntegration} from './policy/exponentialbackoffpolicy';
+import {AccessWindowListingPolicyIntegration} from './policy/listings/accesswindowlistingpolicy';
+import {CapabilityListingPolicyIntegration} from './policy/listings/capabilitylistingpolicy';
+import {FairShareListingPolicyIntegration} from './policy/listings/fairsharelistingpolicy';
+import {HierarchicalListingPolicyIntegration} from './policy/listings/hierarchicallistingpolicy';
+import {
+  IntersectionListingPolicyIntegration,
+  OverrideListingPolicyIntegration,
+  SequenceListingPolicyIntegration,
+  UnionListingPolicyIntegration,
+} from './policy/listings/listingpolicycombinators';
+import {PerishabilityListingPolicyIntegration} from './policy/listings/perishabilitylistingpolicy';
+import {ProximityListingPolicyIntegration} from './policy/listings/proximitylistingpolicy';
+import {ListingExplainIntegration} from './server/listingexplainintegration';
+import {ReshareRevocationsIntegration} from './server/resharerevocationsintegration';
+import {StorageRateLimiterIntegration} from './policy/storageratelimiter';
 import {StaticServerAccessControlListIntegration} from './policy/staticserveraccesscontrollist';
 import {UniversalAcceptListingPolicyIntegration} from './policy/universalacceptlistingpolicy';
+import {WebhookIntegration} from './webhook/webhookintegration';
 
 export const CoreIntegrations = {
   StaticMultitenant: StaticMultitenantIntegration,
   LocalFileMultitenant: LocalFileMultitenantIntegration,
   UniversalListingPolicy: UniversalAcceptListingPolicyIntegration,
+  HierarchicalListingPolicy: HierarchicalListingPolicyIntegration,
+  ProximityListingPolicy: ProximityListingPolicyIntegration,
+  FairShareListingPolicy: FairShareListingPolicyIntegration,
+  UnionListingPolicy: UnionListingPolicyIntegration,
+  IntersectionListingPolicy: IntersectionListingPolicyIntegration,
+  SequenceListingPolicy: SequenceListingPolicyIntegration,
+  OverrideListingPolicy: OverrideListingPolicyIntegration,
+  AccessWindowListingPolicy: AccessWindowListingPolicyIntegration,
+  PerishabilityListingPolicy: PerishabilityListingPolicyIntegration,
+  CapabilityListingPolicy: CapabilityListingPolicyIntegration,
   LocalKeySigner: LocalKeySignerIntegration,
   LocalJwks: LocalJwksIntegration,
+  RotatingKeySigner: RotatingKeySignerIntegration,
+  RotatingJwks: RotatingJwksIntegration,
   StaticAccessControlList: StaticServerAccessControlListIntegration,
   TemplateHostIds: TemplateHostIdExtractorIntegration,
+  InMemoryStorage: InMemoryPersistentStorageIntegration,
+  ExponentialBackoffPolicy: ExponentialBackoffPolicyIntegration,
+  InMemoryRateLimiter: InMemoryRateLimiterIntegration,
+  StorageRateLimiter: StorageRateLimiterIntegration,
+  Webhook: WebhookIntegration,
+  ListingExplain: ListingExplainIntegration,
+  RecipientCapabilities: RecipientCapabilitiesIntegration,
+  ReshareRevocations: ReshareRevocationsIntegration,
 };
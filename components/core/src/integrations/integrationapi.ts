@@ -14,7 +14,13 @@
  * limitations under the License.
  */
 
-import {Offer, OfferHistory} from 'opr-models';
+import {
+  Fulfillment,
+  FulfillmentPayload,
+  Offer,
+  OfferHistory,
+  OfferSlice,
+} from 'opr-models';
 import {HandlerRegistration} from '../model/handlerregistration';
 import {Interval} from '../model/interval';
 import {OfferChange} from '../model/offerchange';
@@ -24,6 +30,12 @@ import {CustomRequestHandler} from '../server/customrequesthandler';
 import {IRouter} from 'express';
 import {JsonValue} from '../util/jsonvalue';
 import {OfferProducer} from '../offerproducer/offerproducer';
+import {OfferProducerMetadata} from '../offerproducer/offerproducermetadata';
+import {IngestionReport} from '../offerproducer/ingestionreport';
+import {IssueTokenOptions} from '../auth/signer';
+import {OfferListingPolicy} from '../policy/offerlistingpolicy';
+import {ListingDryRun, ListingExplanation} from '../server/listingexplainer';
+import {ReshareRevocation} from '../model/resharerevocations';
 
 /**
  * An API used by OPR integrations. This API is passed to custom startup
@@ -81,9 +93,67 @@ export interface IntegrationApi {
   /**
    * Ingests offers from other hosts. Note that this method will honor the
    * server's ingestion policy, and will not attempt to read offers from servers
-   * that have already been checked recently.
+   * that have already been checked recently. Returns a report of what happened
+   * to each offer producer.
    */
-  ingestOffers(): Promise<void>;
+  ingestOffers(): Promise<IngestionReport>;
+
+  /**
+   * Issues a JWT signed with this host's signing key for the given audience.
+   * The recipient can verify the token using this host's published JWKS.
+   */
+  issueToken(aud: string, options?: IssueTokenOptions): Promise<string>;
+
+  /**
+   * Returns the producer metadata for every offer producer (including feeds)
+   * whose circuit breaker is currently tripped because it has failed too many
+   * times in a row. A tripped producer is retried only occasionally, until a
+   * retry succeeds.
+   */
+  getTrippedProducers(): Promise<Array<OfferProducerMetadata>>;
+
+  /**
+   * Explains whether an offer is visible to the given organization at the
+   * given time (or now, if no time is given). The explanation includes the
+   * listings the listing policy currently produces for the organization, the
+   * stored timeline for the offer, any reservations and acceptances that cut
+   * the timeline short, and human-readable sentences describing the result.
+   */
+  explainListing(
+    offer: OfferId,
+    orgUrl: string,
+    atTimeUTC?: number
+  ): Promise<ListingExplanation>;
+
+  /**
+   * Returns the listings that would be produced for a hypothetical offer if it
+   * were first listed at atTimeUTC (or now). If a listing policy is given, it
+   * is used instead of this host's listing policy. Nothing is stored.
+   */
+  dryRunListings(
+    offer: Offer,
+    listingPolicy?: OfferListingPolicy,
+    atTimeUTC?: number
+  ): Promise<ListingDryRun>;
+
+  /**
+   * Revokes a reshare entitlement granted by this host, either to a recipient
+   * org or for a single chain link signature. Reshare chains that include a
+   * revoked link are rejected when presented to accept or reserve an offer,
+   * and are removed from this host's listings. Returns the stored revocation.
+   */
+  revokeReshareEntitlement(
+    revocation: ReshareRevocation
+  ): Promise<ReshareRevocation>;
+
+  /**
+   * Removes a revocation with the same recipient or signature and offer id as
+   * the given revocation. Returns whether such a revocation existed.
+   */
+  restoreReshareEntitlement(revocation: ReshareRevocation): Promise<boolean>;
+
+  /** Returns all reshare entitlements this host has revoked. */
+  getReshareRevocations(): Promise<Array<ReshareRevocation>>;
 
   /**
    * Accepts the given offer. Note that this method will work if:
@@ -96,8 +166,11 @@ export interface IntegrationApi {
    * If the given OfferId contains version information, this method will fail
    * if the remote server has a newer version of the offer than is specified in
    * the OfferId.
+   *
+   * If a slice is specified, only that portion of the offer is accepted. The
+   * returned offer will contain only the accepted products and bundles.
    */
-  accept(offer: OfferId): Promise<Offer>;
+  accept(offer: OfferId, slice?: OfferSlice): Promise<Offer>;
 
   /**
    * Rejects the given offer from all servers that are publishing the offer to
@@ -118,6 +191,26 @@ export interface IntegrationApi {
    */
   reserve(offer: OfferId, requestedReservationSecs: number): Promise<Offer>;
 
+  /**
+   * Releases a reservation this host holds on the given offer, so that the
+   * offer becomes available to other organizations immediately. Note that this
+   * method will work if:
+   * a) The entire Offer object is passed to this method
+   * OR
+   * b) Another offer identifier is passed to this method, AND this host has
+   *    already ingested this offer from some OfferProvider.
+   */
+  releaseReservation(offer: OfferId): Promise<Offer>;
+
+  /**
+   * Cancels an acceptance this host made earlier, returning the offer to the
+   * offering organization's pool of available offers. The offering
+   * organization decides how long after acceptance a cancellation is allowed.
+   * If rejectAfterCancel is true, the offer is also rejected, so it will not
+   * be listed to this host again.
+   */
+  cancelAcceptance(offer: OfferId, rejectAfterCancel?: boolean): Promise<Offer>;
+
   /**
    * Returns the history of offers accepted FROM THIS HOST. If the
    * sinceTimestampUTC parameter is provided, this method will return only
@@ -127,6 +220,22 @@ export interface IntegrationApi {
     sinceTimestampUTC?: number
   ): AsyncIterable<OfferHistory>;
 
+  /**
+   * Reports the pickup or delivery status of an offer this host accepted to the
+   * organization that posted the offer. Returns the fulfillment report as it
+   * was recorded by the posting organization.
+   */
+  reportFulfillment(
+    offer: OfferId,
+    report: Omit<FulfillmentPayload, 'offerId' | 'reshareChain'>
+  ): Promise<Fulfillment>;
+
+  /**
+   * Returns all fulfillment reports for the current acceptance of an offer
+   * FROM THIS HOST, in the order they were reported.
+   */
+  getFulfillmentHistory(offer: OfferId): AsyncIterable<Fulfillment>;
+
   /**
    * Returns the history of offers accepted FROM THE GIVEN HOST. If the
    * sinceTimestampUTC parameter is provided, this method will return only
@@ -139,7 +248,8 @@ export interface IntegrationApi {
   ): AsyncIterable<OfferHistory>;
 
   /**
-   * Registers a change handler.
+   * Registers a change handler. Handlers are called after the change has been
+   * committed to storage.
    */
   registerChangeHandler(
     handlerFn: (change: OfferChange) => Promise<void>
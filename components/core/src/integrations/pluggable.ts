@@ -17,6 +17,8 @@
 import {JwksProvider} from '../auth/jwksprovider';
 import {Signer} from '../auth/signer';
 import {OfferListingPolicy} from '../policy/offerlistingpolicy';
+import {BackoffPolicy} from '../policy/backoffpolicy';
+import {RateLimiter} from '../policy/ratelimiter';
 import {ServerAccessControlList} from '../policy/serveraccesscontrollist';
 import {OfferProducer} from '../offerproducer/offerproducer';
 import {Verifier} from '../auth/verifier';
@@ -36,6 +38,8 @@ export interface TenantNodePluggableTypeMap {
   offerProducer: OfferProducer;
   verifier: Verifier;
   integrationInstaller: TenantNodeIntegrationInstaller;
+  backoffPolicy: BackoffPolicy;
+  rateLimiter: RateLimiter;
 }
 
 export interface ServerPluggableTypeMap {
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import {Offer, Timestamp} from 'opr-models';
+import {Fulfillment, Offer, Timestamp} from 'opr-models';
 import {OfferChangeType} from './offerchangetype';
 
 export interface OfferChange {
@@ -22,4 +22,6 @@ export interface OfferChange {
   readonly timestampUTC: Timestamp;
   readonly oldValue?: Offer;
   readonly newValue?: Offer;
+  // The reported fulfillment status, for fulfillment changes.
+  readonly fulfillment?: Fulfillment;
 }
@@ -20,11 +20,26 @@ type OfferChangeType =
   | 'UPDATE'
   // Indicates that an offer from this host was accepted.
   | 'ACCEPT'
+  // Indicates that an acceptance of an offer from this host was cancelled, and
+  // the offer was returned to the pool of available offers.
+  | 'CANCEL_ACCEPT'
+  // Indicates that the accepting organization reported a new fulfillment status
+  // for an offer from this host.
+  | 'FULFILLMENT_UPDATE'
   // Indicates that an offer was accepted BY this host via an OprClient
   | 'REMOTE_ACCEPT'
   // Indicates that an offer was rejected BY this host via an OprClient
   | 'REMOTE_REJECT'
   // Indicates that an offer was reserved BY this host via an OprClient
-  | 'REMOTE_RESERVE';
+  | 'REMOTE_RESERVE'
+  // Indicates that a reservation held BY this host was released via an
+  // OprClient
+  | 'REMOTE_RELEASE'
+  // Indicates that an acceptance made BY this host was cancelled via an
+  // OprClient
+  | 'REMOTE_CANCEL_ACCEPT'
+  // Indicates that a fulfillment status for an offer accepted BY this host was
+  // reported via an OprClient
+  | 'REMOTE_FULFILLMENT_UPDATE';
 
 export {OfferChangeType};
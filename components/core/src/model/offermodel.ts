@@ -16,13 +16,18 @@
 
 import {
   AcceptOfferResponse,
+  CancelAcceptOfferResponse,
   DecodedReshareChain,
+  FulfillmentPayload,
+  FulfillmentResponse,
   HistoryPayload,
   HistoryResponse,
   ListOffersPayload,
   ListOffersResponse,
   Offer,
+  OfferSlice,
   RejectOfferResponse,
+  ReleaseOfferResponse,
   ReserveOfferResponse,
 } from 'opr-models';
 import {OfferSetUpdate} from '../offerproducer/offerproducer';
@@ -30,6 +35,13 @@ import {OfferProducerMetadata} from '../offerproducer/offerproducermetadata';
 import {HandlerRegistration} from './handlerregistration';
 import {OfferChange} from './offerchange';
 
+/** The number of offers changed by an update from an offer producer. */
+export interface ProcessUpdateResult {
+  offersAdded: number;
+  offersUpdated: number;
+  offersDeleted: number;
+}
+
 /**
  * An OPR server's mutable datamodel, containing all the methods needed to
  * maintain a collection of offers from multiple offer producers.
@@ -47,13 +59,22 @@ export interface OfferModel {
 
   list(orgUrl: string, payload: ListOffersPayload): Promise<ListOffersResponse>;
 
-  processUpdate(fromOrgUrl: string, update: OfferSetUpdate): Promise<void>;
+  processUpdate(
+    fromOrgUrl: string,
+    update: OfferSetUpdate
+  ): Promise<ProcessUpdateResult>;
 
+  /**
+   * Accepts an offer on behalf of the given organization. If a slice is
+   * specified, only that portion of the offer is accepted, and the remainder is
+   * republished as a new version of the offer.
+   */
   accept(
     offerId: string,
     orgUrl: string,
     ifNotNewerThanTimestampUTC?: number,
-    decodedReshareChain?: DecodedReshareChain
+    decodedReshareChain?: DecodedReshareChain,
+    slice?: OfferSlice
   ): Promise<AcceptOfferResponse>;
 
   reject(
@@ -62,12 +83,45 @@ export interface OfferModel {
     postingOrgUrl?: string
   ): Promise<RejectOfferResponse>;
 
+  /**
+   * Reserves an offer on behalf of the given organization. If the reservation
+   * is made with a reshare chain, the decoded chain is passed so that it can
+   * be checked against this host's reshare limits.
+   */
   reserve(
     offerId: string,
     requestedReservationSecs: number,
-    orgUrl: string
+    orgUrl: string,
+    decodedReshareChain?: DecodedReshareChain
   ): Promise<ReserveOfferResponse>;
 
+  /**
+   * Releases the reservation the given organization holds on an offer, making
+   * the offer available to other organizations immediately.
+   */
+  release(offerId: string, orgUrl: string): Promise<ReleaseOfferResponse>;
+
+  /**
+   * Cancels an acceptance the given organization made earlier, returning the
+   * offer to the pool of available offers. If rejectAfterCancel is true, the
+   * offer is also rejected on behalf of the organization, so it will not be
+   * listed to that organization again.
+   */
+  cancelAccept(
+    offerId: string,
+    orgUrl: string,
+    rejectAfterCancel?: boolean
+  ): Promise<CancelAcceptOfferResponse>;
+
+  /**
+   * Records a fulfillment status report from the organization that accepted
+   * an offer.
+   */
+  reportFulfillment(
+    orgUrl: string,
+    payload: FulfillmentPayload
+  ): Promise<FulfillmentResponse>;
+
   getHistory(orgUrl: string, payload: HistoryPayload): Promise<HistoryResponse>;
 
   registerChangeHandler(
@@ -0,0 +1,157 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {deepClone} from 'fast-json-patch';
+import {Offer, OfferSlice, Product, ProductBundle} from 'opr-models';
+import {StatusError} from '../util/statuserror';
+import {isBundle} from './isbundle';
+
+/**
+ * The result of splitting an offer into an accepted slice and a remainder.
+ */
+export interface SlicedOffer {
+  /**
+   * A copy of the offer whose contents contain only the sliced products and
+   * bundles (and the bundles that enclose them).
+   */
+  accepted: Offer;
+  /**
+   * A copy of the offer with the sliced quantities removed, or undefined if
+   * the slice consumed the entire offer. The remainder has the same update
+   * timestamp as the original offer; callers are responsible for assigning a
+   * new version.
+   */
+  remainder?: Offer;
+}
+
+type ContentsNode = ProductBundle | Product;
+
+function getQuantity(node: ContentsNode): number {
+  return node.quantity ?? 1;
+}
+
+function sliceError(message: string): StatusError {
+  return new StatusError(message, 'ACCEPT_ERROR_INVALID_SLICE', 400);
+}
+
+/**
+ * Splits an offer into the portion described by the given slice and whatever
+ * is left over. Each slice item names a product or bundle in the offer's
+ * contents tree by id and a quantity to take from that node's own quantity.
+ *
+ * A slice item may only refer to a node whose enclosing bundles all have a
+ * quantity of 1, since otherwise it is unclear how many of the enclosing units
+ * the quantity applies to. Slice items may not overlap (i.e. refer to a node
+ * and one of its descendants). Weights and prices of enclosing bundles are not
+ * recalculated.
+ */
+export function sliceOffer(offer: Offer, slice: OfferSlice): SlicedOffer {
+  const requested = new Map<string, number>();
+  for (const item of slice) {
+    requested.set(item.id, (requested.get(item.id) ?? 0) + item.quantity);
+  }
+  const found = new Set<string>();
+  const validate = (
+    node: ContentsNode,
+    isUnitAncestry: boolean,
+    selectedAncestorId?: string
+  ) => {
+    const requestedQuantity =
+      node.id !== undefined ? requested.get(node.id) : undefined;
+    if (requestedQuantity !== undefined) {
+      if (found.has(node.id!)) {
+        throw sliceError(`Slice id ${node.id} is not unique in the offer`);
+      }
+      found.add(node.id!);
+      if (selectedAncestorId !== undefined) {
+        throw sliceError(
+          `Slice items ${selectedAncestorId} and ${node.id} overlap`
+        );
+      }
+      if (!isUnitAncestry) {
+        throw sliceError(
+          `Slice item ${node.id} is inside a bundle with a quantity ` +
+            'greater than 1'
+        );
+      }
+      if (requestedQuantity > getQuantity(node)) {
+        throw sliceError(
+          `Slice requests ${requestedQuantity} of ${node.id}, but only ` +
+            `${getQuantity(node)} are available`
+        );
+      }
+    }
+    if (isBundle(node)) {
+      for (const child of node.contents) {
+        validate(
+          child,
+          isUnitAncestry && getQuantity(node) === 1,
+          requestedQuantity !== undefined ? node.id : selectedAncestorId
+        );
+      }
+    }
+  };
+  validate(offer.contents, true);
+  for (const id of requested.keys()) {
+    if (!found.has(id)) {
+      throw sliceError(`Slice item ${id} is not in the offer contents`);
+    }
+  }
+
+  const pick = (node: ContentsNode): ContentsNode | undefined => {
+    const requestedQuantity =
+      node.id !== undefined ? requested.get(node.id) : undefined;
+    if (requestedQuantity !== undefined) {
+      return {...node, quantity: requestedQuantity};
+    }
+    if (!isBundle(node)) {
+      return undefined;
+    }
+    const contents = node.contents
+      .map(pick)
+      .filter(x => x !== undefined) as Array<ContentsNode>;
+    return contents.length > 0 ? {...node, contents: contents} : undefined;
+  };
+  const remain = (node: ContentsNode): ContentsNode | undefined => {
+    const requestedQuantity =
+      node.id !== undefined ? requested.get(node.id) : undefined;
+    if (requestedQuantity !== undefined) {
+      const quantityLeft = getQuantity(node) - requestedQuantity;
+      return quantityLeft > 0 ? {...node, quantity: quantityLeft} : undefined;
+    }
+    if (!isBundle(node)) {
+      return node;
+    }
+    const contents = node.contents
+      .map(remain)
+      .filter(x => x !== undefined) as Array<ContentsNode>;
+    return contents.length > 0 ? {...node, contents: contents} : undefined;
+  };
+
+  const acceptedContents = pick(offer.contents) as ProductBundle;
+  const remainderContents = remain(offer.contents) as ProductBundle | undefined;
+  const accepted = deepClone({
+    ...offer,
+    contents: acceptedContents,
+  }) as Offer;
+  const remainder = remainderContents
+    ? (deepClone({...offer, contents: remainderContents}) as Offer)
+    : undefined;
+  return {
+    accepted: accepted,
+    remainder: remainder,
+  };
+}
@@ -19,22 +19,29 @@ import {
   ListOffersPayload,
   ListOffersResponse,
   DecodedReshareChain,
+  Fulfillment,
+  FulfillmentPayload,
+  FulfillmentResponse,
   AcceptOfferResponse,
+  CancelAcceptOfferResponse,
   OfferHistory,
   Offer,
   ListFormat,
   RejectOfferResponse,
+  ReleaseOfferResponse,
   ReserveOfferResponse,
   OfferPatch,
   ReshareChain,
   HistoryPayload,
   HistoryResponse,
+  OfferSlice,
 } from 'opr-models';
 import {Logger, log} from '../util/loglevel';
 import {StatusError} from '../util/statuserror';
 import {
   OfferVersionPair,
   PersistentStorage,
+  PersistentStorageUpdateType,
 } from '../database/persistentstorage';
 import {Transaction} from '../database/transaction';
 import {applyOfferPatch, diff, diffAsOfferPatch} from '../diff';
@@ -51,7 +58,7 @@ import {
   OfferId,
 } from './offerid';
 import {OfferLookup} from './offerlookup';
-import {OfferModel} from './offermodel';
+import {OfferModel, ProcessUpdateResult} from './offermodel';
 import {TimelineEntry} from './timelineentry';
 import {
   appendAsyncIterables,
@@ -65,23 +72,62 @@ import {intersect, subtract, trim, updateInterval} from './interval';
 import {isReshareListing, Listing} from './listing';
 import {Signer} from '../auth/signer';
 import {getUpdateTimestamp} from './getupdatetimestamp';
+import {sliceOffer} from './offerslice';
+import {
+  findChainRevocation,
+  findRecipientRevocation,
+  ReshareRevocation,
+  ReshareRevocationRegistry,
+} from './resharerevocations';
+import {
+  checkReshareChain,
+  findReshareChainViolation,
+  getAllowedLinkScopes,
+  ReshareLimits,
+} from './resharelimits';
+import {decodeChain} from '../auth/decodechain';
+import {OrgConfigProvider} from '../config/orgconfigprovider';
+
+function countUpdate(
+  counts: ProcessUpdateResult,
+  updateType: PersistentStorageUpdateType
+): void {
+  if (updateType === 'ADD') {
+    counts.offersAdded++;
+  } else if (updateType === 'UPDATE') {
+    counts.offersUpdated++;
+  }
+}
 
 export class PersistentOfferModel implements OfferModel {
   private storage: PersistentStorage;
   private maxPageSize: number;
+  private acceptCancellationWindowSecs: number;
   private hostOrgUrl: string;
+  private hostOrgUrlAliases: Array<string>;
+  private orgConfigProvider?: OrgConfigProvider;
   private listingPolicy: OfferListingPolicy;
   private signer?: Signer;
+  private reshareRevocations?: ReshareRevocationRegistry;
+  private reshareLimits: ReshareLimits;
   private clock: Clock;
   private logger: Logger;
   private changeHandlers: Array<(change: OfferChange) => Promise<void>>;
+  private pendingUpdate: Promise<unknown> = Promise.resolve();
+  private pendingChanges = new WeakMap<Transaction, Array<OfferChange>>();
 
   constructor(options: PersistentOfferModelOptions) {
     this.storage = options.storage;
     this.maxPageSize = options.maxPageSize ?? 100;
+    this.acceptCancellationWindowSecs =
+      options.acceptCancellationWindowSecs ?? 60 * 60;
     this.hostOrgUrl = options.hostOrgUrl;
+    this.hostOrgUrlAliases = options.hostOrgUrlAliases ?? [];
+    this.orgConfigProvider = options.orgConfigProvider;
     this.listingPolicy = options.listingPolicy;
     this.signer = options.signer;
+    this.reshareRevocations = options.reshareRevocations;
+    this.reshareLimits = options.reshareLimits ?? {};
     this.clock = options.clock ?? new DefaultClock();
     this.logger = options.logger ?? log.getLogger('PersistentOfferModel');
     this.changeHandlers = [];
@@ -259,13 +305,61 @@ export class PersistentOfferModel implements OfferModel {
     } as OfferLookup;
   }
 
+  /**
+   * Stores the given update. Updates are applied one at a time, in the order
+   * they are received. If onStart is given, it is called when this update's
+   * turn comes, just before it is applied.
+   */
   async processUpdate(
+    fromOrgUrl: string,
+    update: OfferSetUpdate,
+    onStart?: () => void
+  ): Promise<ProcessUpdateResult> {
+    // Every update writes this host's offers, so concurrent updates would
+    // conflict with one another. Instead, each update waits for the previous
+    // one to finish.
+    const result = this.pendingUpdate.then(() => {
+      onStart?.();
+      return this.processUpdateNow(fromOrgUrl, update);
+    });
+    this.pendingUpdate = result.catch(() => {});
+    return await result;
+  }
+
+  private async processUpdateNow(
     fromOrgUrl: string,
     update: OfferSetUpdate
-  ): Promise<void> {
+  ): Promise<ProcessUpdateResult> {
     const t = await this.storage.createTransaction();
+    let counts: ProcessUpdateResult;
+    try {
+      counts = await this.applyUpdate(t, fromOrgUrl, update);
+    } catch (e) {
+      await t.fail();
+      throw e;
+    }
+    await this.commitAndFireChanges(t);
+    return counts;
+  }
+
+  /**
+   * Applies the given update to the given corpus within a transaction. The
+   * caller is responsible for committing or failing the transaction.
+   */
+  private async applyUpdate(
+    t: Transaction,
+    fromOrgUrl: string,
+    update: OfferSetUpdate
+  ): Promise<ProcessUpdateResult> {
+    const counts: ProcessUpdateResult = {
+      offersAdded: 0,
+      offersUpdated: 0,
+      offersDeleted: 0,
+    };
     const lookup = this.getCorpusOfferLookup(fromOrgUrl, t);
     const now = this.clock.now();
+    // The offers whose listings were recomputed by this update.
+    const relistedOfferIds = new Set<string>();
     if (update.delta) {
       for await (const op of update.delta) {
         const result = await applyOfferPatch(lookup, op);
@@ -287,8 +381,9 @@ export class PersistentOfferModel implements OfferModel {
               // corpus might not delete the offer if it is available in some
               // other corpus.
               if (deleteType === 'DELETE') {
+                counts.offersDeleted++;
                 await this.deleteFutureListings(t, offer, now);
-                await this.fireEvent({
+                this.queueChange(t, {
                   type: 'DELETE',
                   oldValue: offer,
                   timestampUTC: now,
@@ -309,8 +404,9 @@ export class PersistentOfferModel implements OfferModel {
             // corpus might not delete the offer if it is available in some
             // other corpus.
             if (deleteType === 'DELETE') {
+              counts.offersDeleted++;
               await this.deleteFutureListings(t, result.oldOffer!, now);
-              await this.fireEvent({
+              this.queueChange(t, {
                 type: 'DELETE',
                 oldValue: result.oldOffer,
                 timestampUTC: now,
@@ -331,8 +427,10 @@ export class PersistentOfferModel implements OfferModel {
               result.newOffer!
             );
             if (updateType !== 'NONE') {
+              countUpdate(counts, updateType);
               await this.updateListings(t, result.newOffer!, now);
-              await this.fireEvent({
+              relistedOfferIds.add(idToUrl(result.newOffer!, true));
+              this.queueChange(t, {
                 type: updateType,
                 oldValue: result.oldOffer,
                 newValue: result.newOffer,
@@ -347,7 +445,8 @@ export class PersistentOfferModel implements OfferModel {
           }
         }
       }
-      await t.commit();
+      await this.reevaluateListings(t, fromOrgUrl, relistedOfferIds, now);
+      return counts;
     } else if (update.offers) {
       const offerIds: Set<string> = new Set();
       for await (const offer of update.offers) {
@@ -360,8 +459,10 @@ export class PersistentOfferModel implements OfferModel {
           offer
         );
         if (updateType !== 'NONE') {
+          countUpdate(counts, updateType);
           await this.updateListings(t, offer, now);
-          await this.fireEvent({
+          relistedOfferIds.add(idToUrl(offer, true));
+          this.queueChange(t, {
             type: updateType,
             oldValue: oldOffer,
             newValue: offer,
@@ -386,8 +487,9 @@ export class PersistentOfferModel implements OfferModel {
           // corpus might not delete the offer if it is available in some
           // other corpus.
           if (deleteType === 'DELETE') {
+            counts.offersDeleted++;
             await this.deleteFutureListings(t, offer, now);
-            await this.fireEvent({
+            this.queueChange(t, {
               type: 'DELETE',
               oldValue: offer,
               timestampUTC: update.updateCurrentAsOfTimestampUTC,
@@ -395,9 +497,9 @@ export class PersistentOfferModel implements OfferModel {
           }
         }
       }
-      await t.commit();
+      await this.reevaluateListings(t, fromOrgUrl, relistedOfferIds, now);
+      return counts;
     } else {
-      await t.fail();
       throw new StatusError(
         'Update specifies neither offers nor diff',
         'ERROR_BAD_UPDATE_NO_CHANGES',
@@ -406,6 +508,116 @@ export class PersistentOfferModel implements OfferModel {
     }
   }
 
+  /**
+   * Recomputes the future listings of the offers in the given corpus that the
+   * listing policy wants re-evaluated, skipping offers that were just relisted.
+   * Offers that have no current or future timeline entries (because they were
+   * accepted, expired or were never listed) are left alone.
+   */
+  private async reevaluateListings(
+    t: Transaction,
+    fromOrgUrl: string,
+    relistedOfferIds: Set<string>,
+    timestampUTC: number
+  ): Promise<void> {
+    if (!this.listingPolicy.shouldReevaluate) {
+      return;
+    }
+    const offers = await asyncIterableToArray(
+      this.storage.getCorpusOffers(t, this.hostOrgUrl, fromOrgUrl)
+    );
+    for (const offer of offers) {
+      if (
+        relistedOfferIds.has(idToUrl(offer, true)) ||
+        offer.offerExpirationUTC <= timestampUTC ||
+        !this.listingPolicy.shouldReevaluate(offer, timestampUTC)
+      ) {
+        continue;
+      }
+      const currentEntry = await asyncIterableFirst(
+        this.storage.getTimelineForOffer(
+          t,
+          this.hostOrgUrl,
+          offer.id,
+          offer.offeredBy!,
+          {
+            startTimeUTC: timestampUTC,
+            endTimeUTC: offer.offerExpirationUTC,
+          }
+        )
+      );
+      if (currentEntry) {
+        await this.updateListings(t, offer, timestampUTC);
+      }
+    }
+  }
+
+  /**
+   * Recomputes the future listings of the live offers in the given corpora.
+   * This is used when something other than an offer update changes which
+   * listings are allowed, such as a reshare revocation. Offers that have been
+   * accepted and have no remaining listings are left alone. If a transaction
+   * is given, the listings are written in that transaction and the caller is
+   * responsible for committing it.
+   */
+  async relistOffers(
+    corpusOrgUrls: Array<string>,
+    transaction?: Transaction
+  ): Promise<void> {
+    if (transaction) {
+      await this.relistOffersInTransaction(transaction, corpusOrgUrls);
+      return;
+    }
+    const t = await this.storage.createTransaction();
+    try {
+      await this.relistOffersInTransaction(t, corpusOrgUrls);
+    } catch (e) {
+      await t.fail();
+      throw e;
+    }
+    await t.commit();
+  }
+
+  private async relistOffersInTransaction(
+    t: Transaction,
+    corpusOrgUrls: Array<string>
+  ): Promise<void> {
+    const now = this.clock.now();
+    for (const corpusOrgUrl of corpusOrgUrls) {
+      const offers = await asyncIterableToArray(
+        this.storage.getCorpusOffers(t, this.hostOrgUrl, corpusOrgUrl)
+      );
+      for (const offer of offers) {
+        if (offer.offerExpirationUTC <= now) {
+          continue;
+        }
+        const currentEntry = await asyncIterableFirst(
+          this.storage.getTimelineForOffer(
+            t,
+            this.hostOrgUrl,
+            offer.id,
+            offer.offeredBy!,
+            {
+              startTimeUTC: now,
+              endTimeUTC: offer.offerExpirationUTC,
+            }
+          )
+        );
+        if (
+          currentEntry ||
+          !(await this.storage.getActiveAcceptance(
+            t,
+            this.hostOrgUrl,
+            offer.id,
+            offer.offeredBy!
+          ))
+        ) {
+          await this.updateListings(t, offer, now);
+        }
+      }
+    }
+  }
+
   private async updateListings(
     t: Transaction,
     offer: Offer,
@@ -455,7 +667,7 @@ export class PersistentOfferModel implements OfferModel {
       sid.id,
       sid.postingOrgUrl
     );
-    const offerIsFromAnotherHost = offer.offeredBy! !== this.hostOrgUrl;
+    const offerIsFromAnotherHost = !this.isHostOrgUrl(offer.offeredBy!);
     if (offerIsFromAnotherHost) {
       const entry = {
         targetOrganizationUrl: this.hostOrgUrl,
@@ -478,7 +690,7 @@ export class PersistentOfferModel implements OfferModel {
     storedReservation?: TimelineEntry
   ): AsyncIterable<TimelineEntry> {
     const sid = asVersionedStructuredId(offer);
-    const offerIsFromAnotherHost = sid.postingOrgUrl !== this.hostOrgUrl;
+    const offerIsFromAnotherHost = !this.isHostOrgUrl(sid.postingOrgUrl);
 
     // Calculate the reshare chain. This is done by extending a chain from an
     // initial root, so first we fetch the correct reshare chain root.
@@ -503,6 +715,24 @@ export class PersistentOfferModel implements OfferModel {
       return;
     }
 
+    // If this host has revoked any link of the reshare chain root, or the
+    // root violates the reshare limits, the offer can't be listed.
+    const revocations = this.reshareRevocations
+      ? await this.reshareRevocations.getAll(t)
+      : [];
+    const decodedChainRoot = decodeChain(reshareChainRoot);
+    if (
+      findChainRevocation(revocations, sid.id, decodedChainRoot) ||
+      findReshareChainViolation(
+        decodedChainRoot,
+        offer,
+        this.reshareLimits,
+        this.getHostOrgUrls()
+      )
+    ) {
+      return;
+    }
+
     const rejections = new Set(
       await this.storage.getAllRejections(
         t,
@@ -533,6 +763,16 @@ export class PersistentOfferModel implements OfferModel {
     );
     // Make sure no rejected orgs snuck through.
     listings = listings.filter(listing => !rejections.has(listing.orgUrl));
+    listings = listings
+      .map(listing =>
+        this.restrictReshareListing(
+          offer,
+          listing,
+          decodedChainRoot,
+          revocations
+        )
+      )
+      .filter(listing => listing !== undefined) as Array<Listing>;
 
     // If there's a reservation held on the current offer, we need to
     // determine whether the organization that currently holds the reservation
@@ -542,8 +782,11 @@ export class PersistentOfferModel implements OfferModel {
     // Pre-process the listings and search for a new reservation interval.
     for (const listing of listings) {
       // Trim the listing so that it's earliest start time is the current
-      // timestamp.
-      const newInterval = trim(listing, {startAt: timestampUTC});
+      // timestamp. Listings that start later keep their start time, so that
+      // delayed listings (such as later tiers) aren't published early.
+      const newInterval = trim(listing, {
+        startAt: Math.max(listing.startTimeUTC, timestampUTC),
+      });
       if (newInterval) {
         updateInterval(listing, newInterval);
       }
@@ -604,6 +847,60 @@ export class PersistentOfferModel implements OfferModel {
     }
   }
 
+  /**
+   * Applies reshare revocations and limits to a listing that requires a
+   * reshare chain. Returns the listing with the RESHARE scope removed if the
+   * recipient may not extend the chain, or undefined if the recipient may not
+   * be given a chain at all. Other listings are returned unchanged.
+   */
+  private restrictReshareListing(
+    offer: Offer,
+    listing: Listing,
+    decodedChainRoot: DecodedReshareChain,
+    revocations: Array<ReshareRevocation>
+  ): Listing | undefined {
+    // If this host has revoked an org's reshare entitlements, that org can
+    // still be listed the offer, just without the RESHARE scope.
+    if (
+      isReshareListing(listing) &&
+      findRecipientRevocation(revocations, offer.id, listing.orgUrl)
+    ) {
+      const scopes = listing.scopes!.filter(scope => scope !== 'RESHARE');
+      if (scopes.length === 0) {
+        return undefined;
+      }
+      listing = {...listing, scopes: scopes};
+    }
+    if (!this.isReshareChainRequired(offer, listing)) {
+      return listing;
+    }
+    const scopes = listing.scopes ?? ['ACCEPT'];
+    const allowedScopes = getAllowedLinkScopes(
+      decodedChainRoot,
+      this.hostOrgUrl,
+      listing.orgUrl,
+      scopes,
+      offer,
+      this.reshareLimits,
+      this.getHostOrgUrls()
+    );
+    if (!allowedScopes) {
+      return undefined;
+    }
+    return allowedScopes.length === scopes.length
+      ? listing
+      : {...listing, scopes: allowedScopes};
+  }
+
+  private isReshareChainRequired(offer: Offer, listing: Listing): boolean {
+    // If the offer is from another server, it has to have a reshare chain
+    // to be shown to other servers. Also, if the offer is from _any_ server
+    // and the listing specifies the RESHARE scope, it has to have a reshare
+    // chain.
+    const offerIsFromAnotherHost = !this.isHostOrgUrl(offer.offeredBy!);
+    return offerIsFromAnotherHost || isReshareListing(listing);
+  }
+
   private async getReshareChainForOfferListing(
     offer: Offer,
     listing: Listing,
@@ -617,12 +914,7 @@ export class PersistentOfferModel implements OfferModel {
     // provide reshare chains that only have a single link with the ACCEPT
     // permission; that's equivalent to no reshare chain at all.
 
-    // If the offer is from another server, it has to have a reshare chain
-    // to be shown to other servers. Also, if the offer is from _any_ server
-    // and the listing specifies the RESHARE scope, it has to have a reshare
-    // chain.
-    const offerIsFromAnotherHost = offer.offeredBy! !== this.hostOrgUrl;
-    if (offerIsFromAnotherHost || isReshareListing(listing)) {
+    if (this.isReshareChainRequired(offer, listing)) {
       const scopes = listing.scopes || ['ACCEPT'];
       return await this.signer.signChain(reshareChainRoot, listing.orgUrl, {
         scopes: scopes,
@@ -651,16 +943,18 @@ export class PersistentOfferModel implements OfferModel {
     offerId: string,
     orgUrl: string,
     ifNotNewerThanTimestampUTC?: number | undefined,
-    decodedReshareChain?: DecodedReshareChain | undefined
+    decodedReshareChain?: DecodedReshareChain | undefined,
+    slice?: OfferSlice | undefined
   ): Promise<AcceptOfferResponse> {
     const now = this.clock.now();
     const t = await this.storage.createTransaction();
+    const postingOrgUrl = await this.getHostedPostingOrgUrl(t, offerId);
     const currentOffer = await this.storage.getOfferAtTime(
       t,
       this.hostOrgUrl,
       orgUrl,
       offerId,
-      this.hostOrgUrl,
+      postingOrgUrl,
       now
     );
     if (!currentOffer) {
@@ -670,6 +964,19 @@ export class PersistentOfferModel implements OfferModel {
         400
       );
     }
+    if (decodedReshareChain) {
+      try {
+        checkReshareChain(
+          decodedReshareChain,
+          currentOffer,
+          this.reshareLimits,
+          this.getHostOrgUrls()
+        );
+      } catch (e) {
+        await t.fail();
+        throw e;
+      }
+    }
     const offerUpdateTimestampUTC = getUpdateTimestamp(currentOffer);
     if (ifNotNewerThanTimestampUTC !== undefined) {
       if (offerUpdateTimestampUTC > ifNotNewerThanTimestampUTC) {
@@ -684,6 +991,18 @@ export class PersistentOfferModel implements OfferModel {
         );
       }
     }
+    let acceptedOffer = currentOffer;
+    let remainderOffer: Offer | undefined;
+    if (slice) {
+      try {
+        const slicedOffer = sliceOffer(currentOffer, slice);
+        acceptedOffer = slicedOffer.accepted;
+        remainderOffer = slicedOffer.remainder;
+      } catch (e) {
+        await t.fail();
+        throw e;
+      }
+    }
 
     await this.storage.writeAccept(
       t,
@@ -692,21 +1011,72 @@ export class PersistentOfferModel implements OfferModel {
       offerId,
       offerUpdateTimestampUTC,
       now,
-      decodedReshareChain
+      decodedReshareChain,
+      slice,
+      postingOrgUrl
     );
     await this.storage.truncateFutureTimelineForOffer(
       t,
       this.hostOrgUrl,
       offerId,
-      this.hostOrgUrl,
+      postingOrgUrl,
       now
     );
-    await t.commit();
+    if (remainderOffer) {
+      await this.publishRemainder(
+        t,
+        currentOffer,
+        remainderOffer,
+        offerUpdateTimestampUTC,
+        now
+      );
+    }
+    await this.commitAndFireChanges(t);
     return {
-      offer: currentOffer,
+      offer: acceptedOffer,
     };
   }
 
+  /**
+   * Publishes what is left of a partially accepted offer as a new version of
+   * that offer, in every corpus that contained the accepted version. The new
+   * version is listed using the listing times of the original offer.
+   */
+  private async publishRemainder(
+    t: Transaction,
+    acceptedVersion: Offer,
+    remainderOffer: Offer,
+    acceptedVersionTimestampUTC: number,
+    timestampUTC: number
+  ): Promise<void> {
+    remainderOffer.offerUpdateUTC = Math.max(
+      timestampUTC,
+      acceptedVersionTimestampUTC + 1
+    );
+    const sources = await this.storage.getOfferSources(
+      t,
+      this.hostOrgUrl,
+      remainderOffer.id,
+      remainderOffer.offeredBy!,
+      acceptedVersionTimestampUTC
+    );
+    for (const sourceOrgUrl of sources) {
+      await this.storage.insertOrUpdateOfferInCorpus(
+        t,
+        this.hostOrgUrl,
+        sourceOrgUrl,
+        remainderOffer
+      );
+    }
+    await this.updateListings(t, remainderOffer, timestampUTC);
+    this.queueChange(t, {
+      type: 'UPDATE',
+      oldValue: acceptedVersion,
+      newValue: remainderOffer,
+      timestampUTC: timestampUTC,
+    });
+  }
+
   async reject(
     rejectingOrgUrl: string,
     offerId: string,
@@ -714,12 +1084,14 @@ export class PersistentOfferModel implements OfferModel {
   ): Promise<RejectOfferResponse> {
     const now = this.clock.now();
     const t = await this.storage.createTransaction();
+    postingOrgUrl =
+      postingOrgUrl ?? (await this.getHostedPostingOrgUrl(t, offerId));
     const currentOffer = await this.storage.getOfferAtTime(
       t,
       this.hostOrgUrl,
       rejectingOrgUrl,
       offerId,
-      postingOrgUrl ?? this.hostOrgUrl,
+      postingOrgUrl,
       now
     );
     if (!currentOffer) {
@@ -734,7 +1106,7 @@ export class PersistentOfferModel implements OfferModel {
       this.hostOrgUrl,
       rejectingOrgUrl,
       offerId,
-      postingOrgUrl ?? this.hostOrgUrl,
+      postingOrgUrl,
       now
     );
     await this.updateListings(t, currentOffer, now);
@@ -747,16 +1119,18 @@ export class PersistentOfferModel implements OfferModel {
   async reserve(
     offerId: string,
     requestedReservationSecs: number,
-    orgUrl: string
+    orgUrl: string,
+    decodedReshareChain?: DecodedReshareChain
   ): Promise<ReserveOfferResponse> {
     const now = this.clock.now();
     const t = await this.storage.createTransaction();
+    const postingOrgUrl = await this.getHostedPostingOrgUrl(t, offerId);
     const currentOffer = await this.storage.getOfferAtTime(
       t,
       this.hostOrgUrl,
       orgUrl,
       offerId,
-      this.hostOrgUrl,
+      postingOrgUrl,
       now
     );
     if (!currentOffer) {
@@ -766,6 +1140,19 @@ export class PersistentOfferModel implements OfferModel {
         400
       );
     }
+    if (decodedReshareChain) {
+      try {
+        checkReshareChain(
+          decodedReshareChain,
+          currentOffer,
+          this.reshareLimits,
+          this.getHostOrgUrls()
+        );
+      } catch (e) {
+        await t.fail();
+        throw e;
+      }
+    }
     const reservationLengthMillis = Math.min(
       currentOffer.maxReservationTimeSecs
         ? currentOffer.maxReservationTimeSecs * 1000
@@ -777,7 +1164,7 @@ export class PersistentOfferModel implements OfferModel {
       t,
       this.hostOrgUrl,
       offerId,
-      this.hostOrgUrl,
+      postingOrgUrl,
       now
     );
     await this.storage.addTimelineEntries(
@@ -787,7 +1174,7 @@ export class PersistentOfferModel implements OfferModel {
         {
           targetOrganizationUrl: orgUrl,
           offerId: offerId,
-          postingOrgUrl: this.hostOrgUrl,
+          postingOrgUrl: postingOrgUrl,
           offerUpdateTimestampUTC: getUpdateTimestamp(currentOffer),
           startTimeUTC: now,
           endTimeUTC: reservationEndTimeUTC,
@@ -804,6 +1191,285 @@ export class PersistentOfferModel implements OfferModel {
     };
   }
 
+  async release(
+    offerId: string,
+    orgUrl: string
+  ): Promise<ReleaseOfferResponse> {
+    const now = this.clock.now();
+    const t = await this.storage.createTransaction();
+    const postingOrgUrl = await this.getHostedPostingOrgUrl(t, offerId);
+    const currentOffer = await this.storage.getOfferAtTime(
+      t,
+      this.hostOrgUrl,
+      orgUrl,
+      offerId,
+      postingOrgUrl,
+      now
+    );
+    if (!currentOffer) {
+      await t.fail();
+      throw new StatusError(
+        `No offer with id ${offerId} is available to release`,
+        'RELEASE_ERROR_NO_AVAILABLE_OFFER',
+        400
+      );
+    }
+    const currentEntry = await asyncIterableFirst(
+      this.storage.getTimelineForOffer(
+        t,
+        this.hostOrgUrl,
+        offerId,
+        postingOrgUrl,
+        {
+          startTimeUTC: now,
+          endTimeUTC: now + 1,
+        },
+        orgUrl
+      )
+    );
+    if (!currentEntry || !currentEntry.isReservation) {
+      await t.fail();
+      throw new StatusError(
+        `Offer with id ${offerId} is not reserved by ${orgUrl}`,
+        'RELEASE_ERROR_NO_RESERVATION',
+        400
+      );
+    }
+    // End the reservation now, then regenerate the listings. Because the
+    // reservation no longer overlaps the current instant, updateListings will
+    // not carry it forward.
+    await this.storage.truncateFutureTimelineForOffer(
+      t,
+      this.hostOrgUrl,
+      offerId,
+      postingOrgUrl,
+      now
+    );
+    await this.updateListings(t, currentOffer, now);
+    await t.commit();
+    return {
+      offer: currentOffer,
+    };
+  }
+
+  async cancelAccept(
+    offerId: string,
+    orgUrl: string,
+    rejectAfterCancel?: boolean
+  ): Promise<CancelAcceptOfferResponse> {
+    const now = this.clock.now();
+    const t = await this.storage.createTransaction();
+    const postingOrgUrl = await this.getHostedPostingOrgUrl(t, offerId);
+    const acceptance = await this.storage.getActiveAcceptance(
+      t,
+      this.hostOrgUrl,
+      offerId,
+      postingOrgUrl
+    );
+    if (
+      !acceptance ||
+      !(await this.isSameOrg(acceptance.acceptingOrganization, orgUrl))
+    ) {
+      await t.fail();
+      throw new StatusError(
+        `Offer with id ${offerId} has not been accepted by ${orgUrl}`,
+        'CANCEL_ACCEPT_ERROR_NO_ACCEPTANCE',
+        400
+      );
+    }
+    if (acceptance.acceptedSlice) {
+      // The remainder of a partially accepted offer is published as a new
+      // version that may since have been accepted or modified, so there is no
+      // safe way to put the slice back.
+      await t.fail();
+      throw new StatusError(
+        `Partial acceptance of offer ${offerId} cannot be cancelled`,
+        'CANCEL_ACCEPT_ERROR_PARTIAL_ACCEPT',
+        400
+      );
+    }
+    const fulfillmentStatus = acceptance.fulfillment?.status;
+    if (
+      fulfillmentStatus === 'PICKED_UP' ||
+      fulfillmentStatus === 'PARTIALLY_RECEIVED'
+    ) {
+      await t.fail();
+      throw new StatusError(
+        `Offer ${offerId} has already been picked up`,
+        'CANCEL_ACCEPT_ERROR_ALREADY_FULFILLED',
+        400
+      );
+    }
+    const windowEndUTC =
+      acceptance.acceptedAtUTC + this.acceptCancellationWindowSecs * 1000;
+    if (now > windowEndUTC) {
+      await t.fail();
+      throw new StatusError(
+        `Acceptance of offer ${offerId} can no longer be cancelled`,
+        'CANCEL_ACCEPT_ERROR_WINDOW_EXPIRED',
+        400,
+        {
+          cancellationWindowEndUTC: windowEndUTC,
+        }
+      );
+    }
+    await this.storage.writeAcceptCancellation(
+      t,
+      this.hostOrgUrl,
+      offerId,
+      postingOrgUrl,
+      now
+    );
+    if (rejectAfterCancel) {
+      await this.storage.writeReject(
+        t,
+        this.hostOrgUrl,
+        orgUrl,
+        offerId,
+        postingOrgUrl,
+        now
+      );
+    }
+    // Only re-list the offer if some producer still publishes it. Otherwise
+    // the offer was withdrawn after it was accepted, and it stays gone.
+    const sources = await this.storage.getOfferSources(
+      t,
+      this.hostOrgUrl,
+      offerId,
+      postingOrgUrl
+    );
+    const currentOffer =
+      sources.length > 0
+        ? await this.storage.getOffer(
+            t,
+            this.hostOrgUrl,
+            offerId,
+            postingOrgUrl
+          )
+        : undefined;
+    if (currentOffer) {
+      await this.updateListings(t, currentOffer, now);
+    }
+    this.queueChange(t, {
+      type: 'CANCEL_ACCEPT',
+      oldValue: acceptance.offer,
+      newValue: currentOffer,
+      timestampUTC: now,
+    });
+    await this.commitAndFireChanges(t);
+    return {
+      offer: currentOffer ?? acceptance.offer,
+    };
+  }
+
+  async reportFulfillment(
+    orgUrl: string,
+    payload: FulfillmentPayload
+  ): Promise<FulfillmentResponse> {
+    const now = this.clock.now();
+    const t = await this.storage.createTransaction();
+    const postingOrgUrl = await this.getHostedPostingOrgUrl(t, payload.offerId);
+    const acceptance = await this.storage.getActiveAcceptance(
+      t,
+      this.hostOrgUrl,
+      payload.offerId,
+      postingOrgUrl
+    );
+    if (
+      !acceptance ||
+      !(await this.isSameOrg(acceptance.acceptingOrganization, orgUrl))
+    ) {
+      await t.fail();
+      throw new StatusError(
+        `Offer with id ${payload.offerId} has not been accepted by ${orgUrl}`,
+        'FULFILLMENT_ERROR_NO_ACCEPTANCE',
+        400
+      );
+    }
+    if (payload.receivedSlice && payload.status !== 'PARTIALLY_RECEIVED') {
+      await t.fail();
+      throw new StatusError(
+        'A received slice may only be reported with status PARTIALLY_RECEIVED',
+        'FULFILLMENT_ERROR_UNEXPECTED_SLICE',
+        400
+      );
+    }
+    const fulfillment: Fulfillment = {
+      status: payload.status,
+      reportedAtUTC: now,
+      reportedBy: orgUrl,
+    };
+    if (payload.scheduledPickupUTC !== undefined) {
+      fulfillment.scheduledPickupUTC = payload.scheduledPickupUTC;
+    }
+    if (payload.receivedSlice) {
+      fulfillment.receivedSlice = payload.receivedSlice;
+    }
+    if (payload.notes !== undefined) {
+      fulfillment.notes = payload.notes;
+    }
+    await this.storage.writeFulfillment(
+      t,
+      this.hostOrgUrl,
+      payload.offerId,
+      postingOrgUrl,
+      fulfillment
+    );
+    this.queueChange(t, {
+      type: 'FULFILLMENT_UPDATE',
+      oldValue: acceptance.offer,
+      newValue: acceptance.offer,
+      timestampUTC: now,
+      fulfillment: fulfillment,
+    });
+    await this.commitAndFireChanges(t);
+    return {
+      fulfillment: fulfillment,
+    };
+  }
+
+  private getHostOrgUrls(): Array<string> {
+    return [this.hostOrgUrl, ...this.hostOrgUrlAliases];
+  }
+
+  /**
+   * Returns whether two org urls identify the same organization. An org that
+   * has moved to a new org url is the same org as before its move, so its
+   * acceptances still belong to it.
+   */
+  private async isSameOrg(orgUrl1: string, orgUrl2: string): Promise<boolean> {
+    if (orgUrl1 === orgUrl2) {
+      return true;
+    }
+    return (await this.orgConfigProvider?.isSameOrg(orgUrl1, orgUrl2)) ?? false;
+  }
+
+  private isHostOrgUrl(orgUrl: string): boolean {
+    return (
+      orgUrl === this.hostOrgUrl || this.hostOrgUrlAliases.indexOf(orgUrl) >= 0
+    );
+  }
+
+  /**
+   * Returns the org url under which this host stored the given offer. Offers
+   * posted before this host moved to a new org url are stored under one of
+   * its aliases. If the offer isn't found, the host org url is returned.
+   */
+  private async getHostedPostingOrgUrl(
+    t: Transaction,
+    offerId: string
+  ): Promise<string> {
+    if (this.hostOrgUrlAliases.length === 0) {
+      return this.hostOrgUrl;
+    }
+    for (const orgUrl of [this.hostOrgUrl, ...this.hostOrgUrlAliases]) {
+      if (await this.storage.getOffer(t, this.hostOrgUrl, offerId, orgUrl)) {
+        return orgUrl;
+      }
+    }
+    return this.hostOrgUrl;
+  }
+
   async getHistory(
     orgUrl: string,
     payload: HistoryPayload
@@ -850,6 +1516,30 @@ export class PersistentOfferModel implements OfferModel {
     } as HistoryResponse;
   }
 
+  /**
+   * Queues a change made in the given transaction. Queued changes are sent to
+   * the change handlers by commitAndFireChanges(), so that handlers never hear
+   * about changes from transactions that fail.
+   */
+  private queueChange(t: Transaction, change: OfferChange): void {
+    const changes = this.pendingChanges.get(t) ?? [];
+    changes.push(change);
+    this.pendingChanges.set(t, changes);
+  }
+
+  /**
+   * Commits the given transaction, and then sends the changes queued for it to
+   * the change handlers.
+   */
+  private async commitAndFireChanges(t: Transaction): Promise<void> {
+    const changes = this.pendingChanges.get(t) ?? [];
+    this.pendingChanges.delete(t);
+    await t.commit();
+    for (const change of changes) {
+      await this.fireEvent(change);
+    }
+  }
+
   private async fireEvent(change: OfferChange): Promise<void> {
     try {
       await Promise.all(
@@ -904,11 +1594,32 @@ class PersistentOfferModelHandlerRegistration implements HandlerRegistration {
 interface PersistentOfferModelOptions {
   storage: PersistentStorage;
   hostOrgUrl: string;
+  /**
+   * Other org urls of this host, such as urls it used before moving. Offers
+   * posted by an alias are treated as offers posted by this host.
+   */
+  hostOrgUrlAliases?: Array<string>;
+  /**
+   * Used to recognize peer orgs that have moved to a new org url. If not set,
+   * org urls are only compared for equality.
+   */
+  orgConfigProvider?: OrgConfigProvider;
   listingPolicy: OfferListingPolicy;
   signer?: Signer;
   clock?: Clock;
   maxPageSize?: number;
+  acceptCancellationWindowSecs?: number;
   logger?: Logger;
+  /**
+   * The reshare entitlements this host has revoked. Revoked chains are never
+   * listed.
+   */
+  reshareRevocations?: ReshareRevocationRegistry;
+  /**
+   * Limits on the reshare chains this host accepts and creates. Offers'
+   * maxReshareDepth hints are always honored.
+   */
+  reshareLimits?: ReshareLimits;
 }
 
 interface DecodedListPageToken {
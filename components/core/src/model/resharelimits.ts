@@ -0,0 +1,179 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DecodedReshareChainLink, Offer} from 'opr-models';
+import {ChainScope} from '../auth/chainscope';
+import {StatusError} from '../util/statuserror';
+
+/** Limits on the reshare chains a host accepts and creates. */
+export type ReshareLimits = {
+  /** The maximum number of links in a reshare chain. */
+  maxChainLength?: number;
+  /**
+   * If set, only these orgs (and this host) may appear anywhere in a reshare
+   * chain.
+   */
+  allowedOrgUrls?: Array<string>;
+  /** Orgs that may not appear anywhere in a reshare chain. */
+  deniedOrgUrls?: Array<string>;
+};
+
+/** The parts of a chain link that reshare limits apply to. */
+export type ReshareChainLinkOrgs = Pick<
+  DecodedReshareChainLink,
+  'sharingOrgUrl' | 'recipientOrgUrl'
+>;
+
+function badLimits(message: string): StatusError {
+  return new StatusError(message, 'CONFIG_ERROR_BAD_RESHARE_LIMITS');
+}
+
+function violation(message: string, errorCode: string): StatusError {
+  return new StatusError(message, errorCode, 403);
+}
+
+function checkOptionalStringArray(value: unknown, name: string) {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || value.some(x => typeof x !== 'string'))
+  ) {
+    throw badLimits(`${name} must be an array of strings`);
+  }
+}
+
+/**
+ * Checks that the given value is a valid ReshareLimits object, and throws a
+ * StatusError if it is not.
+ */
+export function validateReshareLimits(value: unknown): ReshareLimits {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw badLimits('Reshare limits must be an object');
+  }
+  const limits = value as ReshareLimits;
+  if (
+    limits.maxChainLength !== undefined &&
+    (!Number.isInteger(limits.maxChainLength) || limits.maxChainLength < 1)
+  ) {
+    throw badLimits('maxChainLength must be a positive integer');
+  }
+  checkOptionalStringArray(limits.allowedOrgUrls, 'allowedOrgUrls');
+  checkOptionalStringArray(limits.deniedOrgUrls, 'deniedOrgUrls');
+  return limits;
+}
+
+/**
+ * Returns an error describing how the given reshare chain for the given offer
+ * violates the limits or the offer's maxReshareDepth, or undefined if it does
+ * not. The exempt orgs (usually this host's org urls) may always appear in the
+ * chain.
+ */
+export function findReshareChainViolation(
+  chain: ReadonlyArray<ReshareChainLinkOrgs>,
+  offer: Offer,
+  limits: ReshareLimits,
+  exemptOrgUrls: Array<string> = []
+): StatusError | undefined {
+  if (
+    limits.maxChainLength !== undefined &&
+    chain.length > limits.maxChainLength
+  ) {
+    return violation(
+      `Reshare chain has ${chain.length} links, but at most ` +
+        `${limits.maxChainLength} are allowed`,
+      'RESHARE_ERROR_CHAIN_TOO_LONG'
+    );
+  }
+  if (
+    offer.maxReshareDepth !== undefined &&
+    chain.length - 1 > offer.maxReshareDepth
+  ) {
+    return violation(
+      `Offer ${offer.id} may be reshared at most ` +
+        `${offer.maxReshareDepth} times`,
+      'RESHARE_ERROR_MAX_DEPTH_EXCEEDED'
+    );
+  }
+  for (const link of chain) {
+    for (const orgUrl of [link.sharingOrgUrl, link.recipientOrgUrl]) {
+      if (exemptOrgUrls.includes(orgUrl)) {
+        continue;
+      }
+      if (limits.deniedOrgUrls?.includes(orgUrl)) {
+        return violation(
+          `Organization ${orgUrl} may not appear in a reshare chain`,
+          'RESHARE_ERROR_ORG_DENIED'
+        );
+      }
+      if (limits.allowedOrgUrls && !limits.allowedOrgUrls.includes(orgUrl)) {
+        return violation(
+          `Organization ${orgUrl} is not allowed in a reshare chain`,
+          'RESHARE_ERROR_ORG_NOT_ALLOWED'
+        );
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Throws a StatusError if the given reshare chain for the given offer violates
+ * the limits or the offer's maxReshareDepth.
+ */
+export function checkReshareChain(
+  chain: ReadonlyArray<ReshareChainLinkOrgs>,
+  offer: Offer,
+  limits: ReshareLimits,
+  exemptOrgUrls: Array<string> = []
+): void {
+  const error = findReshareChainViolation(chain, offer, limits, exemptOrgUrls);
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Returns the scopes that a new link from sharingOrgUrl to recipientOrgUrl,
+ * appended to the given chain root, may grant. The RESHARE scope is removed if
+ * the recipient could not extend the new chain without exceeding the chain
+ * length limit or the offer's maxReshareDepth. Returns undefined if the new
+ * chain would violate the limits, or if no scopes are left.
+ */
+export function getAllowedLinkScopes(
+  chainRoot: ReadonlyArray<ReshareChainLinkOrgs>,
+  sharingOrgUrl: string,
+  recipientOrgUrl: string,
+  scopes: Array<ChainScope>,
+  offer: Offer,
+  limits: ReshareLimits,
+  exemptOrgUrls: Array<string> = []
+): Array<ChainScope> | undefined {
+  const chain = [
+    ...chainRoot,
+    {sharingOrgUrl: sharingOrgUrl, recipientOrgUrl: recipientOrgUrl},
+  ];
+  if (findReshareChainViolation(chain, offer, limits, exemptOrgUrls)) {
+    return undefined;
+  }
+  const canExtend =
+    (limits.maxChainLength === undefined ||
+      chain.length < limits.maxChainLength) &&
+    (offer.maxReshareDepth === undefined ||
+      chain.length <= offer.maxReshareDepth);
+  const allowedScopes = canExtend
+    ? scopes
+    : scopes.filter(scope => scope !== 'RESHARE');
+  return allowedScopes.length > 0 ? allowedScopes : undefined;
+}
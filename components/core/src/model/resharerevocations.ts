@@ -0,0 +1,261 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DecodedReshareChain, DecodedReshareChainLink} from 'opr-models';
+import {
+  PersistentStorage,
+  TransactionType,
+} from '../database/persistentstorage';
+import {Transaction} from '../database/transaction';
+import {asyncIterableToArray} from '../util/asynciterable';
+import {StatusError} from '../util/statuserror';
+
+/**
+ * A revoked reshare entitlement. Exactly one of recipientOrgUrl or signature
+ * must be set.
+ */
+export type ReshareRevocation = {
+  /**
+   * Revokes this org's entitlement to reshare. The org is no longer granted
+   * the RESHARE scope, and every chain in which the org reshared an offer to
+   * another org is revoked. The org can still accept offers listed to it.
+   */
+  recipientOrgUrl?: string;
+  /**
+   * Revokes the reshare chain link with this signature. Every later link in
+   * a chain is entitled by the link before it, so this revokes the rest of
+   * the chain as well.
+   */
+  signature?: string;
+  /** If set, the revocation only applies to chains for this offer id. */
+  offerId?: string;
+  /** The time the entitlement was revoked. Set when the revocation is added. */
+  revokedAtUTC?: number;
+  /** An optional note explaining the revocation. */
+  reason?: string;
+};
+
+export interface ReshareRevocationRegistryOptions {
+  storage: PersistentStorage;
+  hostOrgUrl: string;
+  /** The key prefix under which revocations are stored. */
+  keyPrefix?: string;
+}
+
+const DEFAULT_KEY_PREFIX = 'resharerevocations/';
+
+function invalid(message: string): StatusError {
+  return new StatusError(message, 'RESHARE_REVOCATION_ERROR_INVALID', 400);
+}
+
+/**
+ * Checks that the given value is a valid ReshareRevocation, and throws a
+ * StatusError if it is not.
+ */
+export function validateReshareRevocation(value: unknown): ReshareRevocation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid('Revocation must be an object');
+  }
+  const revocation = value as ReshareRevocation;
+  const hasRecipient = revocation.recipientOrgUrl !== undefined;
+  const hasSignature = revocation.signature !== undefined;
+  if (hasRecipient === hasSignature) {
+    throw invalid('Exactly one of recipientOrgUrl or signature is required');
+  }
+  for (const field of ['recipientOrgUrl', 'signature', 'offerId', 'reason']) {
+    const fieldValue = (revocation as Record<string, unknown>)[field];
+    if (
+      fieldValue !== undefined &&
+      (typeof fieldValue !== 'string' || !fieldValue)
+    ) {
+      throw invalid(`${field} must be a non-empty string`);
+    }
+  }
+  return revocation;
+}
+
+/** Returns whether the revocation applies to the given chain link. */
+export function revokesLink(
+  revocation: ReshareRevocation,
+  offerId: string,
+  link: DecodedReshareChainLink
+): boolean {
+  if (revocation.offerId !== undefined && revocation.offerId !== offerId) {
+    return false;
+  }
+  if (revocation.signature !== undefined) {
+    return link.signature === revocation.signature;
+  }
+  return link.recipientOrgUrl === revocation.recipientOrgUrl;
+}
+
+/**
+ * Returns the first revocation that applies to some link of the given chain,
+ * or undefined if the chain is not revoked. Recipient revocations don't apply
+ * to the final link of a chain, because the final recipient only uses the
+ * chain to accept, not to reshare.
+ */
+export function findChainRevocation(
+  revocations: Array<ReshareRevocation>,
+  offerId: string,
+  chain?: DecodedReshareChain
+): ReshareRevocation | undefined {
+  const links = chain ?? [];
+  for (let i = 0; i < links.length; i++) {
+    const isFinalLink = i === links.length - 1;
+    const revocation = revocations.find(
+      r =>
+        (r.signature !== undefined || !isFinalLink) &&
+        revokesLink(r, offerId, links[i])
+    );
+    if (revocation) {
+      return revocation;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the first revocation that prevents the given org from being granted
+ * the RESHARE scope for the given offer, or undefined if there is none.
+ */
+export function findRecipientRevocation(
+  revocations: Array<ReshareRevocation>,
+  offerId: string,
+  recipientOrgUrl: string
+): ReshareRevocation | undefined {
+  return revocations.find(
+    r =>
+      r.recipientOrgUrl === recipientOrgUrl &&
+      (r.offerId === undefined || r.offerId === offerId)
+  );
+}
+
+/**
+ * The reshare entitlements a tenant has revoked, stored in the tenant's
+ * key-value storage. Each revocation is stored under a key derived from the
+ * recipient or signature it revokes and its offer id, so revoking the same
+ * thing twice replaces the earlier revocation.
+ */
+export class ReshareRevocationRegistry {
+  private readonly storage: PersistentStorage;
+  private readonly hostOrgUrl: string;
+  private readonly keyPrefix: string;
+
+  constructor(options: ReshareRevocationRegistryOptions) {
+    this.storage = options.storage;
+    this.hostOrgUrl = options.hostOrgUrl;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  private getKey(revocation: ReshareRevocation): string {
+    const target =
+      revocation.signature !== undefined
+        ? `signature/${encodeURIComponent(revocation.signature)}`
+        : `recipient/${encodeURIComponent(revocation.recipientOrgUrl!)}`;
+    // The trailing slash keeps one revocation's key from being a prefix of
+    // another's.
+    return (
+      `${this.keyPrefix}${target}/` +
+      `${encodeURIComponent(revocation.offerId ?? '*')}/`
+    );
+  }
+
+  /** Returns every stored revocation. */
+  async getAll(transaction?: Transaction): Promise<Array<ReshareRevocation>> {
+    return this.withTransaction(
+      'READONLY',
+      async t =>
+        (await asyncIterableToArray(
+          this.storage.getValues(t, this.hostOrgUrl, this.keyPrefix)
+        )) as Array<ReshareRevocation>,
+      transaction
+    );
+  }
+
+  /**
+   * Stores a revocation, stamped with the given time, and returns the stored
+   * revocation. If a transaction is given, the revocation is written in that
+   * transaction and the caller is responsible for committing it.
+   */
+  async add(
+    revocation: ReshareRevocation,
+    timestampUTC: number,
+    transaction?: Transaction
+  ): Promise<ReshareRevocation> {
+    validateReshareRevocation(revocation);
+    const stored = {...revocation, revokedAtUTC: timestampUTC};
+    await this.withTransaction(
+      'READWRITE',
+      t =>
+        this.storage.storeValue(
+          t,
+          this.hostOrgUrl,
+          this.getKey(stored),
+          stored
+        ),
+      transaction
+    );
+    return stored;
+  }
+
+  /**
+   * Removes the revocation with the same recipient or signature and offer id
+   * as the given revocation. Returns whether such a revocation was stored. If
+   * a transaction is given, the caller is responsible for committing it.
+   */
+  async remove(
+    revocation: ReshareRevocation,
+    transaction?: Transaction
+  ): Promise<boolean> {
+    validateReshareRevocation(revocation);
+    const key = this.getKey(revocation);
+    return this.withTransaction(
+      'READWRITE',
+      async t => {
+        const existing = await asyncIterableToArray(
+          this.storage.getValues(t, this.hostOrgUrl, key)
+        );
+        await this.storage.clearAllValues(t, this.hostOrgUrl, key);
+        return existing.length > 0;
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Runs fn in the given transaction, or in a new transaction of the given
+   * type that is committed if fn succeeds and failed otherwise.
+   */
+  private async withTransaction<T>(
+    type: TransactionType,
+    fn: (t: Transaction) => Promise<T>,
+    transaction?: Transaction
+  ): Promise<T> {
+    if (transaction) {
+      return fn(transaction);
+    }
+    const t = await this.storage.createTransaction(type);
+    try {
+      const result = await fn(t);
+      await t.commit();
+      return result;
+    } catch (e) {
+      await t.fail();
+      throw e;
+    }
+  }
+}
@@ -25,7 +25,15 @@ import {JsonFetcher} from './jsonfetcher';
 import {getRequiredScopes} from '../auth/getrequiredscopes';
 import {ListOffersPayload, ListOffersResponse} from 'opr-models';
 
-export type Command = 'ACCEPT' | 'LIST' | 'HISTORY' | 'REJECT' | 'RESERVE';
+export type Command =
+  | 'ACCEPT'
+  | 'LIST'
+  | 'HISTORY'
+  | 'REJECT'
+  | 'RESERVE'
+  | 'RELEASE'
+  | 'CANCELACCEPT'
+  | 'FULFILLMENT';
 
 /**
  * The client used to make requests to OPR servers. This class is responsible
@@ -64,6 +72,12 @@ export class OprNetworkClient {
         return orgConfig.rejectProductsEndpointURL;
       case 'RESERVE':
         return orgConfig.reserveProductsEndpointURL;
+      case 'RELEASE':
+        return orgConfig.releaseProductsEndpointURL;
+      case 'CANCELACCEPT':
+        return orgConfig.cancelAcceptProductsEndpointURL;
+      case 'FULFILLMENT':
+        return orgConfig.fulfillmentEndpointURL;
       case 'HISTORY':
         return orgConfig.acceptHistoryEndpointURL;
       default:
@@ -84,7 +98,12 @@ export class OprNetworkClient {
       ...userSignerOptions,
       scopes: getRequiredScopes(command),
     } as IssueTokenOptions;
-    const token = await this.signer.issueToken(target, signerOptions);
+    // Address the token to the target's current org url, in case the target
+    // has moved and is still known to this server by an old url.
+    const token = await this.signer.issueToken(
+      OrgConfigProvider.toCanonicalOrgUrl(target, orgConfig),
+      signerOptions
+    );
     const url = OprNetworkClient.getFetchUrl(orgConfig, command);
     console.log('Got fetch url', url);
     if (!url) {
@@ -104,6 +123,14 @@ export class OprNetworkClient {
     });
   }
 
+  /**
+   * Returns the current org url of an organization, which differs from the
+   * given url if the organization has moved.
+   */
+  async getCanonicalOrgUrl(orgUrl: string): Promise<string> {
+    return await this.configProvider.getCanonicalOrgUrl(orgUrl);
+  }
+
   async list(
     target: string,
     payload?: ListOffersPayload,
@@ -0,0 +1,42 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** The outcome of ingesting offers from a single offer producer. */
+export type ProducerIngestionStatus = 'SKIPPED' | 'SUCCEEDED' | 'FAILED';
+
+/** A summary of a single offer producer's part in an ingestion. */
+export interface ProducerIngestionReport {
+  readonly producerId: string;
+  /**
+   * SKIPPED if the producer was not due to run or was already being ingested
+   * elsewhere, SUCCEEDED if its offers were ingested, or FAILED if reading or
+   * storing its offers failed (including timing out).
+   */
+  readonly status: ProducerIngestionStatus;
+  readonly offersAdded: number;
+  readonly offersUpdated: number;
+  readonly offersDeleted: number;
+  readonly durationMillis: number;
+  /** The error message, if the producer failed. */
+  readonly errorMessage?: string;
+}
+
+/** A summary of an ingestion run across all of a tenant node's producers. */
+export interface IngestionReport {
+  readonly startTimeUTC: number;
+  readonly durationMillis: number;
+  readonly producers: Array<ProducerIngestionReport>;
+}
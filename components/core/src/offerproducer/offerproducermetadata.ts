@@ -18,4 +18,14 @@ export interface OfferProducerMetadata {
   readonly lastUpdateTimeUTC?: number;
   readonly nextRunTimestampUTC: number;
   readonly organizationUrl: string;
+  /** The number of times in a row that the producer has failed. */
+  readonly consecutiveFailureCount?: number;
+  /** The error message from the most recent failure. */
+  readonly lastErrorMessage?: string;
+  /** The time of the most recent failure. */
+  readonly lastFailureTimeUTC?: number;
+  /**
+   * Whether the producer has failed often enough to trip its circuit breaker.
+   */
+  readonly circuitBreakerTripped?: boolean;
 }
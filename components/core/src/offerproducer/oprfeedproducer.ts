@@ -35,6 +35,7 @@ export class OprFeedProducer implements OfferProducer {
   private clock: Clock;
   private pollFrequencyMillis: number;
   private logger: Logger;
+  private hasWarnedAboutMove: boolean;
   readonly id: string;
 
   constructor(
@@ -50,14 +51,21 @@ export class OprFeedProducer implements OfferProducer {
     this.clock = clock;
     this.pollFrequencyMillis = pollFrequencyMillis;
     this.logger = logger;
+    this.hasWarnedAboutMove = false;
   }
 
   async produceOffers(request: ListOffersPayload): Promise<OfferSetUpdate> {
+    const movedToOrgUrl = await this.checkForMove();
+    if (movedToOrgUrl) {
+      // Diffs identify offers by their new offer id urls, so full offer lists
+      // are requested instead, and their offers are reattributed.
+      request = {...request, diffStartTimestampUTC: undefined};
+    }
     const result = await this.client.list(this.organizationUrl, request);
     let offers: AsyncIterable<Offer> | undefined;
     let patchOps: AsyncIterable<OfferPatch> | undefined;
     if (result.offers) {
-      offers = this.toOfferIterable(request, result);
+      offers = this.toOfferIterable(request, result, movedToOrgUrl);
     } else {
       patchOps = this.toPatchOpsIterable(request, result);
     }
@@ -75,9 +83,34 @@ export class OprFeedProducer implements OfferProducer {
     return updateResult;
   }
 
+  /**
+   * Checks whether the feed's organization has moved to a new org url, and
+   * returns the new url if it has. Offers from a moved organization are still
+   * requested through (and attributed to) the configured org url, so that
+   * offers fetched before and after the move are stored as coming from the
+   * same organization, along with their listings, rejections and acceptances.
+   */
+  private async checkForMove(): Promise<string | undefined> {
+    const currentOrgUrl = await this.client.getCanonicalOrgUrl(
+      this.organizationUrl
+    );
+    if (currentOrgUrl === this.organizationUrl) {
+      return undefined;
+    }
+    if (!this.hasWarnedAboutMove) {
+      this.logger.warn(
+        `Organization ${this.organizationUrl} has moved to ${currentOrgUrl}.`,
+        'Its offers will continue to be read from this feed.'
+      );
+      this.hasWarnedAboutMove = true;
+    }
+    return currentOrgUrl;
+  }
+
   private async *toOfferIterable(
     request: ListOffersPayload,
-    listOffersResponse: ListOffersResponse
+    listOffersResponse: ListOffersResponse,
+    movedToOrgUrl?: string
   ): AsyncIterable<Offer> {
     let hasNextPage;
     do {
@@ -90,7 +123,9 @@ export class OprFeedProducer implements OfferProducer {
         );
       }
       for (const offer of listOffersResponse.offers) {
-        yield offer;
+        yield movedToOrgUrl && offer.offeredBy === movedToOrgUrl
+          ? {...offer, offeredBy: this.organizationUrl}
+          : offer;
       }
       hasNextPage = listOffersResponse.nextPageToken !== undefined;
       if (hasNextPage) {
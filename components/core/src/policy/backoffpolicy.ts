@@ -0,0 +1,39 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Pluggable} from '../integrations/pluggable';
+
+/**
+ * A policy that determines how long to wait before retrying an offer producer
+ * that has failed, and when to stop retrying it at the normal rate. A producer
+ * whose failures have tripped the circuit breaker is only retried
+ * occasionally, until a retry succeeds.
+ */
+export interface BackoffPolicy extends Pluggable {
+  readonly type: 'backoffPolicy';
+
+  /**
+   * Returns the number of milliseconds to wait before retrying a producer that
+   * has failed the given number of times in a row.
+   */
+  getRetryIntervalMillis(consecutiveFailureCount: number): number;
+
+  /**
+   * Returns whether a producer that has failed the given number of times in a
+   * row has tripped the circuit breaker.
+   */
+  isTripped(consecutiveFailureCount: number): boolean;
+}
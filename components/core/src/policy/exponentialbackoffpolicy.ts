@@ -0,0 +1,118 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {JsonMap} from '../util/jsonvalue';
+import {BackoffPolicy} from './backoffpolicy';
+
+export interface ExponentialBackoffPolicyOptionsJson extends JsonMap {
+  /** The retry interval after the first failure. Defaults to 10 seconds. */
+  initialRetryIntervalMillis?: number;
+  /**
+   * The factor by which the retry interval grows after each additional
+   * failure. Defaults to 2.
+   */
+  backoffMultiplier?: number;
+  /** The longest retry interval before jitter. Defaults to one hour. */
+  maxRetryIntervalMillis?: number;
+  /**
+   * The largest fraction of the retry interval that may be randomly removed
+   * from it, so that failing producers don't all retry at once. Defaults to
+   * 0.1.
+   */
+  jitterRatio?: number;
+  /**
+   * The number of consecutive failures that trips the circuit breaker.
+   * Defaults to 10.
+   */
+  circuitBreakerThreshold?: number;
+  /**
+   * The retry interval used while the circuit breaker is tripped. Defaults to
+   * one day.
+   */
+  trippedRetryIntervalMillis?: number;
+}
+
+const DEFAULT_INITIAL_RETRY_INTERVAL_MILLIS = 10 * 1000; /* 10 seconds */
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+const DEFAULT_MAX_RETRY_INTERVAL_MILLIS = 60 * 60 * 1000; /* one hour */
+const DEFAULT_JITTER_RATIO = 0.1;
+const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 10;
+const DEFAULT_TRIPPED_RETRY_INTERVAL_MILLIS = 24 * 60 * 60 * 1000; /* one day */
+
+/**
+ * A backoff policy where the retry interval grows exponentially with each
+ * consecutive failure, up to a maximum interval. Some random jitter is removed
+ * from each interval. After a configurable number of consecutive failures, the
+ * circuit breaker trips and the producer is only retried at a long, fixed
+ * interval.
+ */
+export class ExponentialBackoffPolicy implements BackoffPolicy {
+  readonly type = 'backoffPolicy';
+
+  private initialRetryIntervalMillis: number;
+  private backoffMultiplier: number;
+  private maxRetryIntervalMillis: number;
+  private jitterRatio: number;
+  private circuitBreakerThreshold: number;
+  private trippedRetryIntervalMillis: number;
+  private random: () => number;
+
+  constructor(
+    options: ExponentialBackoffPolicyOptionsJson = {},
+    random: () => number = Math.random
+  ) {
+    this.initialRetryIntervalMillis =
+      options.initialRetryIntervalMillis ??
+      DEFAULT_INITIAL_RETRY_INTERVAL_MILLIS;
+    this.backoffMultiplier =
+      options.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER;
+    this.maxRetryIntervalMillis =
+      options.maxRetryIntervalMillis ?? DEFAULT_MAX_RETRY_INTERVAL_MILLIS;
+    this.jitterRatio = options.jitterRatio ?? DEFAULT_JITTER_RATIO;
+    this.circuitBreakerThreshold =
+      options.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD;
+    this.trippedRetryIntervalMillis =
+      options.trippedRetryIntervalMillis ??
+      DEFAULT_TRIPPED_RETRY_INTERVAL_MILLIS;
+    this.random = random;
+  }
+
+  getRetryIntervalMillis(consecutiveFailureCount: number): number {
+    if (this.isTripped(consecutiveFailureCount)) {
+      return this.trippedRetryIntervalMillis;
+    }
+    const exponent = Math.max(consecutiveFailureCount - 1, 0);
+    const intervalMillis = Math.min(
+      this.initialRetryIntervalMillis * this.backoffMultiplier ** exponent,
+      this.maxRetryIntervalMillis
+    );
+    return Math.round(intervalMillis * (1 - this.jitterRatio * this.random()));
+  }
+
+  isTripped(consecutiveFailureCount: number): boolean {
+    return consecutiveFailureCount >= this.circuitBreakerThreshold;
+  }
+}
+
+export const ExponentialBackoffPolicyIntegration = {
+  async construct(json) {
+    return new ExponentialBackoffPolicy(json);
+  },
+} as PluggableFactory<
+  ExponentialBackoffPolicy,
+  ExponentialBackoffPolicyOptionsJson
+>;
@@ -14,9 +14,16 @@
  * limitations under the License.
  */
 
+import {ExponentialBackoffPolicyOptionsJson} from './exponentialbackoffpolicy';
+
 export type FeedConfigOrName = string | FeedConfig;
 
 export interface FeedConfig {
   readonly organizationUrl: string;
   readonly maxUpdateFrequencyMillis: number;
+  /**
+   * Options for an exponential backoff policy to use when this feed fails. If
+   * omitted, the tenant node's backoff policy is used.
+   */
+  readonly backoff?: ExponentialBackoffPolicyOptionsJson;
 }
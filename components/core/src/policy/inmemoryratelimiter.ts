@@ -0,0 +1,54 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OperationName} from '../auth/getrequiredscopes';
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {
+  RateLimitDecision,
+  RateLimiter,
+  takeToken,
+  TokenBucketLimit,
+  TokenBucketState,
+} from './ratelimiter';
+
+/**
+ * A rate limiter that keeps its token buckets in memory. Each server replica
+ * has its own buckets, so deployments with several replicas should use
+ * StorageRateLimiter instead.
+ */
+export class InMemoryRateLimiter implements RateLimiter {
+  readonly type = 'rateLimiter';
+
+  private readonly buckets = new Map<string, TokenBucketState>();
+
+  async take(
+    orgUrl: string,
+    operation: OperationName,
+    limit: TokenBucketLimit,
+    timestampUTC: number
+  ): Promise<RateLimitDecision> {
+    const key = `${operation} ${orgUrl}`;
+    const result = takeToken(this.buckets.get(key), limit, timestampUTC);
+    this.buckets.set(key, result.bucket);
+    return result.decision;
+  }
+}
+
+export const InMemoryRateLimiterIntegration = {
+  async construct() {
+    return new InMemoryRateLimiter();
+  },
+} as PluggableFactory<InMemoryRateLimiter>;
@@ -0,0 +1,426 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer} from 'opr-models';
+import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {intersect, Interval, trim} from '../../model/interval';
+import {Listing} from '../../model/listing';
+import {JsonMap} from '../../util/jsonvalue';
+import {OfferListingPolicy} from '../offerlistingpolicy';
+import {
+  combineShouldReevaluate,
+  ListingPolicyJson,
+  resolveListingPolicies,
+} from './listingpolicycombinators';
+
+/**
+ * How a listing is adjusted when it does not overlap enough pickup time.
+ * STRETCH extends the listing (and delays every later listing) until it
+ * overlaps enough pickup time. SHIFT first delays the listing (and every later
+ * listing) until pickup is possible, and then stretches it if necessary.
+ */
+export type AccessWindowAdjustment = 'SHIFT' | 'STRETCH';
+
+export interface OperatingHoursJson extends JsonMap {
+  /**
+   * The days of the week on which these hours apply, where 0 is Sunday. If
+   * omitted, the hours apply every day.
+   */
+  daysOfWeek?: Array<number>;
+  /** The opening time in the org's local time, as HH:MM. */
+  openTime: string;
+  /**
+   * The closing time in the org's local time, as HH:MM. If this is not after
+   * openTime, the hours run past midnight.
+   */
+  closeTime: string;
+}
+
+export interface OrgOperatingHoursJson extends JsonMap {
+  orgUrl: string;
+  /** The offset of the org's local time from UTC in minutes. Defaults to 0. */
+  utcOffsetMinutes?: number;
+  hours: Array<OperatingHoursJson>;
+}
+
+export interface AccessWindowOptionsJson extends JsonMap {
+  /** Defaults to STRETCH. */
+  adjustment?: AccessWindowAdjustment;
+  /**
+   * The pickup time, in milliseconds, that each listing's exclusive window
+   * must overlap. Defaults to 1 hour. If less pickup time than this remains
+   * before the offer expires, the exclusive window must overlap all of it.
+   */
+  minPickupMillis?: number;
+  /**
+   * The hours during which orgs can collect offers. An org without operating
+   * hours can collect an offer at any time during the offer's access windows.
+   */
+  operatingHours?: Array<OrgOperatingHoursJson>;
+}
+
+export type AccessWindowListingPolicyOptionsJson = AccessWindowOptionsJson & {
+  policy: ListingPolicyJson;
+};
+
+const MINUTE_MILLIS = 60 * 1000;
+const DAY_MILLIS = 24 * 60 * MINUTE_MILLIS;
+const DEFAULT_MIN_PICKUP_MILLIS = 60 * MINUTE_MILLIS;
+
+interface CompiledOperatingHours {
+  offsetMillis: number;
+  periods: Array<{
+    daysOfWeek?: Set<number>;
+    openMillis: number;
+    closeMillis: number;
+  }>;
+}
+
+function parseTimeOfDay(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+  if (!match || hours > 24 || minutes > 59 || hours * 60 + minutes > 1440) {
+    throw new Error(`Invalid time of day "${time}", expected HH:MM`);
+  }
+  return (hours * 60 + minutes) * MINUTE_MILLIS;
+}
+
+function compileOperatingHours(
+  json: OrgOperatingHoursJson
+): CompiledOperatingHours {
+  return {
+    offsetMillis: (json.utcOffsetMinutes ?? 0) * MINUTE_MILLIS,
+    periods: json.hours.map(period => {
+      const openMillis = parseTimeOfDay(period.openTime);
+      const closeMillis = parseTimeOfDay(period.closeTime);
+      return {
+        daysOfWeek: period.daysOfWeek ? new Set(period.daysOfWeek) : undefined,
+        openMillis: openMillis,
+        closeMillis:
+          closeMillis > openMillis ? closeMillis : closeMillis + DAY_MILLIS,
+      };
+    }),
+  };
+}
+
+/** Sorts the given intervals and merges any that overlap or touch. */
+function mergeIntervals(intervals: Array<Interval>): Array<Interval> {
+  const sorted = [...intervals].sort((a, b) => a.startTimeUTC - b.startTimeUTC);
+  const result = [] as Array<Interval>;
+  for (const interval of sorted) {
+    const last = result[result.length - 1];
+    if (last && interval.startTimeUTC <= last.endTimeUTC) {
+      last.endTimeUTC = Math.max(last.endTimeUTC, interval.endTimeUTC);
+    } else if (interval.startTimeUTC < interval.endTimeUTC) {
+      result.push({
+        startTimeUTC: interval.startTimeUTC,
+        endTimeUTC: interval.endTimeUTC,
+      });
+    }
+  }
+  return result;
+}
+
+/** Returns the operating hours that fall within the given range. */
+function getOperatingIntervals(
+  hours: CompiledOperatingHours,
+  range: Interval
+): Array<Interval> {
+  const result = [] as Array<Interval>;
+  // Start a day early to catch hours that run past midnight.
+  const firstDay =
+    Math.floor((range.startTimeUTC + hours.offsetMillis) / DAY_MILLIS) - 1;
+  const lastDay = Math.floor(
+    (range.endTimeUTC + hours.offsetMillis) / DAY_MILLIS
+  );
+  for (let day = firstDay; day <= lastDay; day++) {
+    const dayOfWeek = new Date(day * DAY_MILLIS).getUTCDay();
+    const dayStartUTC = day * DAY_MILLIS - hours.offsetMillis;
+    for (const period of hours.periods) {
+      if (period.daysOfWeek && !period.daysOfWeek.has(dayOfWeek)) {
+        continue;
+      }
+      const interval = intersect(
+        {
+          startTimeUTC: dayStartUTC + period.openMillis,
+          endTimeUTC: dayStartUTC + period.closeMillis,
+        },
+        range
+      );
+      if (interval) {
+        result.push(interval);
+      }
+    }
+  }
+  return mergeIntervals(result);
+}
+
+function intersectAll(a: Array<Interval>, b: Array<Interval>): Array<Interval> {
+  const result = [] as Array<Interval>;
+  for (const x of a) {
+    for (const y of b) {
+      const interval = intersect(x, y);
+      if (interval) {
+        result.push(interval);
+      }
+    }
+  }
+  return mergeIntervals(result);
+}
+
+function getOverlapMillis(window: Interval, intervals: Array<Interval>) {
+  let total = 0;
+  for (const interval of intervals) {
+    const overlap = intersect(window, interval);
+    if (overlap) {
+      total += overlap.endTimeUTC - overlap.startTimeUTC;
+    }
+  }
+  return total;
+}
+
+/**
+ * Returns the earliest time t at which the window from startTimeUTC to t
+ * overlaps the given merged intervals by neededMillis, or undefined if there is
+ * no such time.
+ */
+function getTimeWhenOverlapReaches(
+  startTimeUTC: number,
+  intervals: Array<Interval>,
+  neededMillis: number
+): number | undefined {
+  if (neededMillis <= 0) {
+    return startTimeUTC;
+  }
+  let remainingMillis = neededMillis;
+  for (const interval of intervals) {
+    const start = Math.max(interval.startTimeUTC, startTimeUTC);
+    if (start >= interval.endTimeUTC) {
+      continue;
+    }
+    if (interval.endTimeUTC - start >= remainingMillis) {
+      return start + remainingMillis;
+    }
+    remainingMillis -= interval.endTimeUTC - start;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the earliest time at or after t that falls within one of the given
+ * merged intervals, or undefined if there is no such time.
+ */
+function getFirstTimeWithin(
+  t: number,
+  intervals: Array<Interval>
+): number | undefined {
+  const next = intervals.find(interval => interval.endTimeUTC > t);
+  return next ? Math.max(next.startTimeUTC, t) : undefined;
+}
+
+/**
+ * A listing policy that adjusts the listings from another policy so that they
+ * line up with the times when an offer can actually be picked up.
+ *
+ * An offer's pickup times for an org are the offer's access windows before it
+ * expires, limited to the org's operating hours if it has any. The wrapped
+ * policy's listings are grouped into tiers by start time, and each tier's
+ * exclusive window runs until the next tier starts. Tiers are processed in
+ * order, and any tier whose exclusive window overlaps less than minPickupMillis
+ * of pickup time for one of its orgs is shifted or stretched (see
+ * AccessWindowAdjustment). Every later listing is delayed by the same amount,
+ * so the order of the tiers is preserved. Listings are never extended past the
+ * offer's expiration, and listings that do not overlap any pickup time for
+ * their org are dropped.
+ *
+ * Offers without access windows are listed exactly as the wrapped policy lists
+ * them.
+ */
+export class AccessWindowListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  readonly shouldReevaluate: OfferListingPolicy['shouldReevaluate'];
+
+  private readonly policy: OfferListingPolicy;
+  private readonly adjustment: AccessWindowAdjustment;
+  private readonly minPickupMillis: number;
+  private readonly operatingHours: Map<string, CompiledOperatingHours>;
+
+  constructor(
+    policy: OfferListingPolicy,
+    options: AccessWindowOptionsJson = {}
+  ) {
+    this.policy = policy;
+    this.shouldReevaluate = combineShouldReevaluate([policy]);
+    this.adjustment = options.adjustment ?? 'STRETCH';
+    this.minPickupMillis = options.minPickupMillis ?? DEFAULT_MIN_PICKUP_MILLIS;
+    this.operatingHours = new Map(
+      (options.operatingHours ?? []).map(hours => [
+        hours.orgUrl,
+        compileOperatingHours(hours),
+      ])
+    );
+  }
+
+  async getListings(
+    offer: Offer,
+    firstListingTimeUTC: number,
+    currentTimeUTC: number,
+    rejections: Set<string>,
+    sharedBy: Set<string>
+  ): Promise<Array<Listing>> {
+    const listings = await this.policy.getListings(
+      offer,
+      firstListingTimeUTC,
+      currentTimeUTC,
+      rejections,
+      sharedBy
+    );
+    const accessWindows = offer.offerLocation.accessWindows;
+    if (!accessWindows || accessWindows.length === 0) {
+      return listings;
+    }
+    const expirationUTC = offer.offerExpirationUTC;
+    const offerPickupWindows = mergeIntervals(
+      accessWindows
+        .map(window =>
+          trim(window, {endAt: Math.min(window.endTimeUTC, expirationUTC)})
+        )
+        .filter(window => window !== undefined) as Array<Interval>
+    );
+    const pickupWindowsByOrg = new Map<string, Array<Interval>>();
+    const getPickupWindows = (orgUrl: string) => {
+      let windows = pickupWindowsByOrg.get(orgUrl);
+      if (!windows) {
+        const hours = this.operatingHours.get(orgUrl);
+        windows =
+          hours && offerPickupWindows.length > 0
+            ? intersectAll(
+                offerPickupWindows,
+                getOperatingIntervals(hours, {
+                  startTimeUTC: offerPickupWindows[0].startTimeUTC,
+                  endTimeUTC:
+                    offerPickupWindows[offerPickupWindows.length - 1]
+                      .endTimeUTC,
+                })
+              )
+            : offerPickupWindows;
+        pickupWindowsByOrg.set(orgUrl, windows);
+      }
+      return windows;
+    };
+
+    const startTimes = [...new Set(listings.map(l => l.startTimeUTC))].sort(
+      (a, b) => a - b
+    );
+    const result = [] as Array<Listing>;
+    let offsetMillis = 0;
+    for (let i = 0; i < startTimes.length; i++) {
+      const tier = listings.filter(l => l.startTimeUTC === startTimes[i]);
+      const nominalEndUTC =
+        i + 1 < startTimes.length
+          ? startTimes[i + 1]
+          : Math.max(...tier.map(l => l.endTimeUTC));
+      let startTimeUTC = startTimes[i] + offsetMillis;
+      if (this.adjustment === 'SHIFT') {
+        const pickupStarts = tier
+          .map(l =>
+            getFirstTimeWithin(startTimeUTC, getPickupWindows(l.orgUrl))
+          )
+          .filter(t => t !== undefined) as Array<number>;
+        if (pickupStarts.length > 0) {
+          const pickupStartUTC = Math.min(...pickupStarts);
+          offsetMillis += pickupStartUTC - startTimeUTC;
+          startTimeUTC = pickupStartUTC;
+        }
+      }
+      const offsetBeforeStretchMillis = offsetMillis;
+      const requiredEnds = new Map<Listing, number>();
+      for (const listing of tier) {
+        const windows = getPickupWindows(listing.orgUrl);
+        const exclusiveEndUTC =
+          Math.min(listing.endTimeUTC, nominalEndUTC) + offsetMillis;
+        const neededMillis = Math.min(
+          this.minPickupMillis,
+          getOverlapMillis(
+            {startTimeUTC: startTimeUTC, endTimeUTC: expirationUTC},
+            windows
+          )
+        );
+        const requiredEndUTC = getTimeWhenOverlapReaches(
+          startTimeUTC,
+          windows,
+          neededMillis
+        );
+        if (requiredEndUTC !== undefined && requiredEndUTC > exclusiveEndUTC) {
+          requiredEnds.set(listing, requiredEndUTC);
+        }
+      }
+      const stretchMillis = Math.max(
+        0,
+        ...[...requiredEnds.values()].map(
+          t => t - (nominalEndUTC + offsetBeforeStretchMillis)
+        )
+      );
+      offsetMillis += stretchMillis;
+      for (const listing of tier) {
+        const endTimeUTC = Math.min(
+          Math.max(
+            listing.endTimeUTC +
+              (listing.endTimeUTC > nominalEndUTC
+                ? offsetMillis
+                : offsetBeforeStretchMillis),
+            requiredEnds.get(listing) ?? 0
+          ),
+          expirationUTC
+        );
+        const adjusted = {
+          ...listing,
+          startTimeUTC: startTimeUTC,
+          endTimeUTC: endTimeUTC,
+        };
+        if (
+          startTimeUTC < endTimeUTC &&
+          getOverlapMillis(adjusted, getPickupWindows(listing.orgUrl)) > 0
+        ) {
+          result.push(adjusted);
+        }
+      }
+    }
+    return result;
+  }
+
+  async destroy(): Promise<void> {
+    await this.policy.destroy?.();
+  }
+}
+
+export const AccessWindowListingPolicyIntegration = {
+  async construct(json, context, allowed) {
+    const [policy] = await resolveListingPolicies(
+      [json.policy],
+      context,
+      allowed
+    );
+    return new AccessWindowListingPolicy(policy, json);
+  },
+} as PluggableFactory<
+  AccessWindowListingPolicy,
+  AccessWindowListingPolicyOptionsJson,
+  TenantNodeIntegrationContext
+>;
@@ -0,0 +1,191 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer} from 'opr-models';
+import {
+  getCapabilityMismatches,
+  getOfferRequirements,
+  RecipientCapabilities,
+} from '../../capabilities/recipientcapabilities';
+import {RecipientCapabilityRegistry} from '../../capabilities/recipientcapabilityregistry';
+import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {Listing, WILDCARD_ORG_ID} from '../../model/listing';
+import {AsyncGetter, CachedAsyncGetter} from '../../util/asyncgetter';
+import {JsonMap} from '../../util/jsonvalue';
+import {OfferListingPolicy} from '../offerlistingpolicy';
+import {
+  combineShouldReevaluate,
+  ListingPolicyJson,
+  resolveListingPolicies,
+} from './listingpolicycombinators';
+import {compileOfferFilter, OfferFilter, OfferFilterJson} from './offerfilter';
+
+export interface VehicleRequirementJson extends JsonMap {
+  /**
+   * The offers to which this requirement applies. If omitted, the requirement
+   * applies to every offer.
+   */
+  filter?: OfferFilterJson;
+  /** The vehicle types, at least one of which a recipient must have. */
+  vehicleTypes: Array<string>;
+}
+
+export interface CapabilityOptionsJson extends JsonMap {
+  /**
+   * The vehicles needed to collect offers. The first requirement whose filter
+   * matches an offer applies to it. Orgs that have not registered any vehicle
+   * types are not checked.
+   */
+  vehicleRequirements?: Array<VehicleRequirementJson>;
+  /**
+   * If true, orgs without registered capabilities are never listed offers.
+   * Defaults to false.
+   */
+  excludeUnregisteredOrgs?: boolean;
+}
+
+export type CapabilityListingPolicyOptionsJson = CapabilityOptionsJson & {
+  policy: ListingPolicyJson;
+  /**
+   * How long registered capabilities are cached, in milliseconds. Defaults to
+   * 1 minute.
+   */
+  cacheMillis?: number;
+  /** The key prefix under which capabilities are stored. */
+  keyPrefix?: string;
+};
+
+/** Registered recipient capabilities, keyed by org url. */
+export type RecipientCapabilitiesMap = Map<string, RecipientCapabilities>;
+
+interface VehicleRequirement {
+  filter?: OfferFilter;
+  vehicleTypes: Array<string>;
+}
+
+/**
+ * A listing policy that removes the listings from another policy for orgs
+ * whose registered capabilities do not match an offer's requirements, such as
+ * orgs without a freezer for frozen offers, or orgs without a loading dock for
+ * pallets. See getOfferRequirements() for how requirements are determined.
+ * Listings to the wildcard org are never removed.
+ */
+export class CapabilityListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  readonly shouldReevaluate: OfferListingPolicy['shouldReevaluate'];
+
+  private readonly policy: OfferListingPolicy;
+  private readonly capabilities: AsyncGetter<RecipientCapabilitiesMap>;
+  private readonly vehicleRequirements: Array<VehicleRequirement>;
+  private readonly excludeUnregisteredOrgs: boolean;
+
+  constructor(
+    policy: OfferListingPolicy,
+    capabilities: AsyncGetter<RecipientCapabilitiesMap>,
+    options: CapabilityOptionsJson = {}
+  ) {
+    this.policy = policy;
+    this.shouldReevaluate = combineShouldReevaluate([policy]);
+    this.capabilities = capabilities;
+    this.vehicleRequirements = (options.vehicleRequirements ?? []).map(
+      requirement => ({
+        filter: requirement.filter
+          ? compileOfferFilter(requirement.filter)
+          : undefined,
+        vehicleTypes: requirement.vehicleTypes,
+      })
+    );
+    this.excludeUnregisteredOrgs = options.excludeUnregisteredOrgs ?? false;
+  }
+
+  private getRequiredVehicleTypes(offer: Offer): Array<string> | undefined {
+    return this.vehicleRequirements.find(
+      requirement => !requirement.filter || requirement.filter(offer)
+    )?.vehicleTypes;
+  }
+
+  async getListings(
+    offer: Offer,
+    firstListingTimeUTC: number,
+    currentTimeUTC: number,
+    rejections: Set<string>,
+    sharedBy: Set<string>
+  ): Promise<Array<Listing>> {
+    const listings = await this.policy.getListings(
+      offer,
+      firstListingTimeUTC,
+      currentTimeUTC,
+      rejections,
+      sharedBy
+    );
+    const allCapabilities = await this.capabilities.get();
+    const requirements = getOfferRequirements(offer);
+    const requiredVehicleTypes = this.getRequiredVehicleTypes(offer);
+    return listings.filter(listing => {
+      if (listing.orgUrl === WILDCARD_ORG_ID) {
+        return true;
+      }
+      const capabilities = allCapabilities.get(listing.orgUrl);
+      if (!capabilities) {
+        return !this.excludeUnregisteredOrgs;
+      }
+      return (
+        getCapabilityMismatches(
+          capabilities,
+          requirements,
+          requiredVehicleTypes
+        ).length === 0
+      );
+    });
+  }
+
+  async destroy(): Promise<void> {
+    await this.policy.destroy?.();
+  }
+}
+
+export const CapabilityListingPolicyIntegration = {
+  async construct(json, context, allowed) {
+    if (!context.storage) {
+      throw new Error('CapabilityListingPolicy requires access to storage');
+    }
+    const registry = new RecipientCapabilityRegistry({
+      storage: context.storage,
+      hostOrgUrl: context.hostOrgUrl,
+      keyPrefix: json.keyPrefix,
+    });
+    const [policy] = await resolveListingPolicies(
+      [json.policy],
+      context,
+      allowed
+    );
+    return new CapabilityListingPolicy(
+      policy,
+      new CachedAsyncGetter({
+        clock: context.clock,
+        delegate: {get: () => registry.getAll()},
+        maxAgeMillis: json.cacheMillis,
+      }),
+      json
+    );
+  },
+} as PluggableFactory<
+  CapabilityListingPolicy,
+  CapabilityListingPolicyOptionsJson,
+  TenantNodeIntegrationContext
+>;
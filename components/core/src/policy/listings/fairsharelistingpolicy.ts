@@ -0,0 +1,228 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer, OfferHistory, Product, ProductBundle} from 'opr-models';
+import {ChainScope} from '../../auth/chainscope';
+import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {Listing} from '../../model/listing';
+import {Clock} from '../../util/clock';
+import {DefaultClock} from '../../util/defaultclock';
+import {JsonMap} from '../../util/jsonvalue';
+import {OfferListingPolicy} from '../offerlistingpolicy';
+import {getTotalWeightKg, toKilograms} from './offerfilter';
+
+/**
+ * How an org's share of accepted offers is measured.
+ * - WEIGHT: The total weight, in kilograms, of the accepted offers.
+ * - OFFER_COUNT: The number of accepted offers.
+ */
+export type FairShareMetric = 'WEIGHT' | 'OFFER_COUNT';
+
+/**
+ * Returns the acceptances of this host's offers made at or after the given
+ * time.
+ */
+export type AcceptHistorySource = (
+  sinceTimestampUTC: number
+) => AsyncIterable<OfferHistory>;
+
+export interface FairShareListingPolicyOptionsJson extends JsonMap {
+  /** The orgs that share this host's offers. */
+  orgUrls: Array<string>;
+  /** How shares are measured. Defaults to WEIGHT. */
+  shareMetric?: FairShareMetric;
+  /**
+   * How far back acceptances are counted, in milliseconds. Defaults to 30
+   * days.
+   */
+  lookbackMillis?: number;
+  /** The length of each exclusive listing window, in milliseconds. */
+  windowMillis: number;
+  /** The number of orgs that share each listing window. Defaults to 1. */
+  orgsPerWindow?: number;
+  /** The scopes granted to each org. If omitted, orgs may only accept. */
+  scopes?: Array<ChainScope>;
+  /**
+   * How long computed shares are reused before the history is read again, in
+   * milliseconds. Defaults to one minute.
+   */
+  shareCacheMillis?: number;
+}
+
+const DEFAULT_LOOKBACK_MILLIS = 30 * 24 * 60 * 60 * 1000; /* 30 days */
+const DEFAULT_SHARE_CACHE_MILLIS = 60 * 1000; /* one minute */
+
+function findNode(
+  node: ProductBundle | Product,
+  id: string
+): ProductBundle | Product | undefined {
+  if (node.id === id) {
+    return node;
+  }
+  for (const child of (node as ProductBundle).contents ?? []) {
+    const found = findNode(child, id);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the weight of the accepted part of an offer in kilograms. For a
+ * sliced acceptance, this is the sum of the unit weights of the sliced
+ * products and bundles. Products without a unit weight count as weightless.
+ */
+function getAcceptedWeightKg(offer: Offer, history: OfferHistory): number {
+  if (!history.acceptedSlice) {
+    return getTotalWeightKg(offer);
+  }
+  let weightKg = 0;
+  for (const item of history.acceptedSlice) {
+    const node = findNode(offer.contents, item.id);
+    if (node?.unitWeight) {
+      weightKg += toKilograms(node.unitWeight) * item.quantity;
+    }
+  }
+  return weightKg;
+}
+
+/**
+ * A listing policy that gives orgs that have received less than their share of
+ * this host's offers an earlier look at new offers. Each org's share is
+ * measured over a lookback period from the acceptance history, ignoring
+ * cancelled acceptances. Orgs are ranked from the smallest share to the
+ * largest (ties are broken by org url), and listed in windows of orgsPerWindow
+ * orgs. The first window starts when the offer is first listed, and each later
+ * window starts windowMillis after the one before, so orgs in earlier windows
+ * have exclusive access until the next window opens. Every listing lasts until
+ * the offer expires.
+ *
+ * Given the same history and clock, this policy always produces the same
+ * listings.
+ */
+export class FairShareListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  private readonly options: FairShareListingPolicyOptionsJson;
+  private readonly historySource: AcceptHistorySource;
+  private readonly clock: Clock;
+  private cachedShares?: {computedAtUTC: number; shares: Map<string, number>};
+
+  constructor(
+    options: FairShareListingPolicyOptionsJson,
+    historySource: AcceptHistorySource,
+    clock: Clock = new DefaultClock()
+  ) {
+    this.options = options;
+    this.historySource = historySource;
+    this.clock = clock;
+  }
+
+  /**
+   * Returns the amount each org has accepted over the lookback period,
+   * measured with the configured metric.
+   */
+  async getShares(): Promise<Map<string, number>> {
+    const now = this.clock.now();
+    const cacheMillis =
+      this.options.shareCacheMillis ?? DEFAULT_SHARE_CACHE_MILLIS;
+    if (
+      this.cachedShares &&
+      now >= this.cachedShares.computedAtUTC &&
+      now - this.cachedShares.computedAtUTC < cacheMillis
+    ) {
+      return this.cachedShares.shares;
+    }
+    const metric = this.options.shareMetric ?? 'WEIGHT';
+    const sinceUTC =
+      now - (this.options.lookbackMillis ?? DEFAULT_LOOKBACK_MILLIS);
+    const shares = new Map<string, number>(
+      this.options.orgUrls.map(orgUrl => [orgUrl, 0])
+    );
+    for await (const history of this.historySource(sinceUTC)) {
+      const orgShare = shares.get(history.acceptingOrganization);
+      if (
+        orgShare === undefined ||
+        history.cancelledAtUTC !== undefined ||
+        history.acceptedAtUTC > now
+      ) {
+        continue;
+      }
+      const amount =
+        metric === 'WEIGHT' ? getAcceptedWeightKg(history.offer, history) : 1;
+      shares.set(history.acceptingOrganization, orgShare + amount);
+    }
+    this.cachedShares = {computedAtUTC: now, shares: shares};
+    return shares;
+  }
+
+  async getListings(
+    offer: Offer,
+    firstListingTimeUTC: number,
+    currentTimeUTC: number,
+    rejections: Set<string>,
+    sharedBy: Set<string>
+  ): Promise<Array<Listing>> {
+    const shares = await this.getShares();
+    const orgUrls = this.options.orgUrls
+      .filter(orgUrl => !rejections.has(orgUrl) && !sharedBy.has(orgUrl))
+      .sort(
+        (a, b) =>
+          shares.get(a)! - shares.get(b)! || (a < b ? -1 : a > b ? 1 : 0)
+      );
+    const orgsPerWindow = Math.max(this.options.orgsPerWindow ?? 1, 1);
+    const result = [] as Array<Listing>;
+    orgUrls.forEach((orgUrl, rank) => {
+      const startTimeUTC =
+        firstListingTimeUTC +
+        Math.floor(rank / orgsPerWindow) * this.options.windowMillis;
+      if (startTimeUTC >= offer.offerExpirationUTC) {
+        return;
+      }
+      result.push({
+        orgUrl: orgUrl,
+        startTimeUTC: startTimeUTC,
+        endTimeUTC: offer.offerExpirationUTC,
+        scopes: this.options.scopes,
+      });
+    });
+    return result;
+  }
+}
+
+export const FairShareListingPolicyIntegration = {
+  async construct(json, context) {
+    const storage = context.storage;
+    if (!storage) {
+      throw new Error('FairShareListingPolicy requires access to storage');
+    }
+    const hostOrgUrl = context.hostOrgUrl;
+    return new FairShareListingPolicy(
+      json,
+      async function* (sinceTimestampUTC: number) {
+        const t = await storage.createTransaction('READONLY');
+        yield* storage.getHistory(t, hostOrgUrl, hostOrgUrl, sinceTimestampUTC);
+      },
+      context.clock
+    );
+  },
+} as PluggableFactory<
+  FairShareListingPolicy,
+  FairShareListingPolicyOptionsJson,
+  TenantNodeIntegrationContext
+>;
@@ -17,6 +17,10 @@
 import {OfferListingPolicy} from '../offerlistingpolicy';
 import {Offer} from 'opr-models';
 import {Listing, ListingTarget} from '../../model/listing';
+import {ChainScope} from '../../auth/chainscope';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {JsonMap} from '../../util/jsonvalue';
+import {compileOfferFilter, OfferFilter, OfferFilterJson} from './offerfilter';
 
 /**
  * A generic listing policy that determines listings from a series of nested
@@ -27,7 +31,10 @@ import {Listing, ListingTarget} from '../../model/listing';
  * at the same level of the hierarchy. This enables cases like "show to A for 10
  * minutes and B for 20 minutes; after A, show to C for 10 minutes."
  *
- * Later, this will support generic offer filters at any level in the hierarchy.
+ * Any level of the hierarchy may have an offer filter. If an offer does not
+ * match a hierarchy's filter, that hierarchy and all of its children are
+ * skipped for that offer. This enables cases like "show pallets to A for 10
+ * minutes, then to B; show everything else to C."
  */
 export class HierarchicalListingPolicy implements OfferListingPolicy {
   readonly type = 'listingPolicy';
@@ -49,6 +56,9 @@ export class HierarchicalListingPolicy implements OfferListingPolicy {
   ): Promise<Array<Listing>> {
     let baseTime: number;
     for (const hierarchy of listingHierarchies) {
+      if (hierarchy.filter && !hierarchy.filter(offer)) {
+        continue;
+      }
       baseTime = firstListingTimeUTC;
       const viableOrgs = hierarchy.listedOrgs.filter(
         org => !rejections.has(org.orgUrl) && !sharedBy.has(org.orgUrl)
@@ -101,9 +111,64 @@ export class HierarchicalListingPolicy implements OfferListingPolicy {
 }
 
 export interface ListingHierarchy {
-  // todo (ryckmanat): add filtering option here once we have a general method
+  /**
+   * If specified, this hierarchy (and its children) only applies to offers
+   * that match the filter.
+   */
+  filter?: OfferFilter;
+  /**
+   * The time in milliseconds that the listed orgs see an offer before the
+   * child hierarchies see it.
+   */
   exclusiveTime: number;
+  /** The total time in milliseconds that the listed orgs see an offer. */
   totalTime: number;
   listedOrgs: Array<ListingTarget>;
   childHierarchies?: Array<ListingHierarchy>;
 }
+
+export interface ListingTargetJson extends JsonMap {
+  orgUrl: string;
+  /** The scopes granted to the org. If omitted, the org may only accept. */
+  scopes?: Array<ChainScope>;
+}
+
+/** The JSON configuration for a ListingHierarchy. */
+export interface ListingHierarchyJson extends JsonMap {
+  filter?: OfferFilterJson;
+  exclusiveTime: number;
+  totalTime: number;
+  listedOrgs: Array<ListingTargetJson>;
+  childHierarchies?: Array<ListingHierarchyJson>;
+}
+
+export interface HierarchicalListingPolicyOptionsJson extends JsonMap {
+  hierarchies: Array<ListingHierarchyJson>;
+}
+
+/** Converts a JSON listing hierarchy config into a ListingHierarchy. */
+export function toListingHierarchy(
+  json: ListingHierarchyJson
+): ListingHierarchy {
+  return {
+    filter: json.filter ? compileOfferFilter(json.filter) : undefined,
+    exclusiveTime: json.exclusiveTime,
+    totalTime: json.totalTime,
+    listedOrgs: json.listedOrgs.map(target => ({
+      orgUrl: target.orgUrl,
+      scopes: target.scopes,
+    })),
+    childHierarchies: json.childHierarchies?.map(toListingHierarchy),
+  };
+}
+
+export const HierarchicalListingPolicyIntegration = {
+  async construct(json) {
+    return new HierarchicalListingPolicy(
+      json.hierarchies.map(toListingHierarchy)
+    );
+  },
+} as PluggableFactory<
+  HierarchicalListingPolicy,
+  HierarchicalListingPolicyOptionsJson
+>;
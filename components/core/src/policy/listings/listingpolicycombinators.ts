@@ -0,0 +1,401 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer} from 'opr-models';
+import {ChainScope} from '../../auth/chainscope';
+import {ConfigJson, resolveConfigJson} from '../../config/resolveconfigjson';
+import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {PluggableFactorySet} from '../../integrations/pluggablefactoryset';
+import {intersect} from '../../model/interval';
+import {Listing} from '../../model/listing';
+import {JsonMap} from '../../util/jsonvalue';
+import {OfferListingPolicy} from '../offerlistingpolicy';
+
+/**
+ * The JSON config stanza for a nested listing policy, in any of the forms
+ * accepted by resolveConfigJson.
+ */
+export type ListingPolicyJson =
+  string | [string, JsonMap] | {moduleName: string; params?: JsonMap};
+
+export interface ListingPolicyListOptionsJson extends JsonMap {
+  policies: Array<ListingPolicyJson>;
+}
+
+export interface ListingOverrideJson extends JsonMap {
+  orgUrl: string;
+  /** The scopes granted to the org. If omitted, the org may only accept. */
+  scopes?: Array<ChainScope>;
+  /**
+   * How long after the offer is first listed the org's listing starts, in
+   * milliseconds. Defaults to 0.
+   */
+  delayMillis?: number;
+  /**
+   * How long the org's listing lasts, in milliseconds. If omitted, the listing
+   * lasts until the offer expires.
+   */
+  durationMillis?: number;
+}
+
+export interface OverrideListingPolicyOptionsJson extends JsonMap {
+  policy: ListingPolicyJson;
+  /** Orgs that are never listed offers, whatever the policy says. */
+  excludedOrgUrls?: Array<string>;
+  /**
+   * Orgs whose listings are replaced with the given listing, whatever the
+   * policy says.
+   */
+  overrides?: Array<ListingOverrideJson>;
+}
+
+type GetListingsArgs = Parameters<OfferListingPolicy['getListings']>;
+
+async function destroyAll(policies: Array<OfferListingPolicy>): Promise<void> {
+  await Promise.all(policies.map(policy => policy.destroy?.()));
+}
+
+/**
+ * Returns a shouldReevaluate() implementation that asks each of the given
+ * policies, or undefined if none of them implement shouldReevaluate(). Policies
+ * that wrap other policies use this so that the offer model only scans for
+ * offers to re-evaluate when some wrapped policy needs it.
+ */
+export function combineShouldReevaluate(
+  policies: Array<OfferListingPolicy>
+): OfferListingPolicy['shouldReevaluate'] {
+  const reevaluatingPolicies = policies.filter(
+    policy => policy.shouldReevaluate
+  );
+  if (reevaluatingPolicies.length === 0) {
+    return undefined;
+  }
+  return (offer, currentTimeUTC) =>
+    reevaluatingPolicies.some(policy =>
+      policy.shouldReevaluate!(offer, currentTimeUTC)
+    );
+}
+
+/**
+ * Returns the scopes granted by both of the given scope lists. A missing scope
+ * list grants only ACCEPT.
+ */
+function intersectScopes(
+  a: Array<ChainScope> | undefined,
+  b: Array<ChainScope> | undefined
+): Array<ChainScope> {
+  const bScopes = b ?? ['ACCEPT'];
+  return (a ?? ['ACCEPT']).filter(scope => bScopes.includes(scope));
+}
+
+/**
+ * A listing policy that returns every listing produced by any of its child
+ * policies. If more than one child lists an offer to the same org, the org
+ * receives all of those listings.
+ */
+export class UnionListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  readonly shouldReevaluate: OfferListingPolicy['shouldReevaluate'];
+
+  private readonly policies: Array<OfferListingPolicy>;
+
+  constructor(policies: Array<OfferListingPolicy>) {
+    this.policies = policies;
+    this.shouldReevaluate = combineShouldReevaluate(policies);
+  }
+
+  async getListings(...args: GetListingsArgs): Promise<Array<Listing>> {
+    const results = await Promise.all(
+      this.policies.map(policy => policy.getListings(...args))
+    );
+    return results.flat();
+  }
+
+  async destroy(): Promise<void> {
+    await destroyAll(this.policies);
+  }
+}
+
+/**
+ * A listing policy that only lists an offer to an org when every child policy
+ * lists it to that org. The resulting listings cover only the times when every
+ * child policy lists the offer, and grant only the scopes that every child
+ * policy grants.
+ */
+export class IntersectionListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  readonly shouldReevaluate: OfferListingPolicy['shouldReevaluate'];
+
+  private readonly policies: Array<OfferListingPolicy>;
+
+  constructor(policies: Array<OfferListingPolicy>) {
+    this.policies = policies;
+    this.shouldReevaluate = combineShouldReevaluate(policies);
+  }
+
+  async getListings(...args: GetListingsArgs): Promise<Array<Listing>> {
+    if (this.policies.length === 0) {
+      return [];
+    }
+    const results = await Promise.all(
+      this.policies.map(policy => policy.getListings(...args))
+    );
+    let listings = results[0];
+    for (const other of results.slice(1)) {
+      const newListings = [] as Array<Listing>;
+      for (const listing of listings) {
+        for (const otherListing of other) {
+          if (listing.orgUrl !== otherListing.orgUrl) {
+            continue;
+          }
+          const interval = intersect(listing, otherListing);
+          const scopes = intersectScopes(listing.scopes, otherListing.scopes);
+          if (!interval || scopes.length === 0) {
+            continue;
+          }
+          newListings.push({
+            orgUrl: listing.orgUrl,
+            ...interval,
+            scopes: scopes,
+          });
+        }
+      }
+      listings = newListings;
+    }
+    return listings;
+  }
+
+  async destroy(): Promise<void> {
+    await destroyAll(this.policies);
+  }
+}
+
+/**
+ * A listing policy that runs its child policies one after another. The first
+ * child policy lists the offer normally. Each later child policy lists the
+ * offer as if it were first listed when the previous child's last listing
+ * ends. If a child produces no listings, the next child starts at the same
+ * time it did.
+ */
+export class SequenceListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  readonly shouldReevaluate: OfferListingPolicy['shouldReevaluate'];
+
+  private readonly policies: Array<OfferListingPolicy>;
+
+  constructor(policies: Array<OfferListingPolicy>) {
+    this.policies = policies;
+    this.shouldReevaluate = combineShouldReevaluate(policies);
+  }
+
+  async getListings(
+    offer: Offer,
+    firstListingTimeUTC: number,
+    currentTimeUTC: number,
+    rejections: Set<string>,
+    sharedBy: Set<string>
+  ): Promise<Array<Listing>> {
+    const result = [] as Array<Listing>;
+    let startTimeUTC = firstListingTimeUTC;
+    for (const policy of this.policies) {
+      if (startTimeUTC >= offer.offerExpirationUTC) {
+        break;
+      }
+      const listings = await policy.getListings(
+        offer,
+        startTimeUTC,
+        currentTimeUTC,
+        rejections,
+        sharedBy
+      );
+      result.push(...listings);
+      if (listings.length > 0) {
+        startTimeUTC = Math.max(...listings.map(l => l.endTimeUTC));
+      }
+    }
+    return result;
+  }
+
+  async destroy(): Promise<void> {
+    await destroyAll(this.policies);
+  }
+}
+
+/**
+ * A listing policy that changes the listings of another policy for particular
+ * orgs. Excluded orgs are removed from the listings entirely. Overridden orgs
+ * have their listings replaced by a single listing described by the override,
+ * even if the wrapped policy did not list the offer to them. Orgs that have
+ * rejected the offer or shared it with this host are never listed.
+ */
+export class OverrideListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  readonly shouldReevaluate: OfferListingPolicy['shouldReevaluate'];
+
+  private readonly policy: OfferListingPolicy;
+  private readonly excludedOrgUrls: Set<string>;
+  private readonly overrides: Array<ListingOverrideJson>;
+
+  constructor(
+    policy: OfferListingPolicy,
+    excludedOrgUrls: Array<string> = [],
+    overrides: Array<ListingOverrideJson> = []
+  ) {
+    this.policy = policy;
+    this.shouldReevaluate = combineShouldReevaluate([policy]);
+    this.excludedOrgUrls = new Set(excludedOrgUrls);
+    this.overrides = overrides;
+  }
+
+  async getListings(
+    offer: Offer,
+    firstListingTimeUTC: number,
+    currentTimeUTC: number,
+    rejections: Set<string>,
+    sharedBy: Set<string>
+  ): Promise<Array<Listing>> {
+    const overriddenOrgUrls = new Set(this.overrides.map(o => o.orgUrl));
+    const listings = (
+      await this.policy.getListings(
+        offer,
+        firstListingTimeUTC,
+        currentTimeUTC,
+        rejections,
+        sharedBy
+      )
+    ).filter(
+      listing =>
+        !this.excludedOrgUrls.has(listing.orgUrl) &&
+        !overriddenOrgUrls.has(listing.orgUrl)
+    );
+    for (const override of this.overrides) {
+      if (
+        this.excludedOrgUrls.has(override.orgUrl) ||
+        rejections.has(override.orgUrl) ||
+        sharedBy.has(override.orgUrl)
+      ) {
+        continue;
+      }
+      const startTimeUTC = firstListingTimeUTC + (override.delayMillis ?? 0);
+      const endTimeUTC =
+        override.durationMillis !== undefined
+          ? Math.min(
+              startTimeUTC + override.durationMillis,
+              offer.offerExpirationUTC
+            )
+          : offer.offerExpirationUTC;
+      if (startTimeUTC >= endTimeUTC) {
+        continue;
+      }
+      listings.push({
+        orgUrl: override.orgUrl,
+        startTimeUTC: startTimeUTC,
+        endTimeUTC: endTimeUTC,
+        scopes: override.scopes,
+      });
+    }
+    return listings;
+  }
+
+  async destroy(): Promise<void> {
+    await this.policy.destroy?.();
+  }
+}
+
+/**
+ * Constructs the listing policies described by the given config stanzas using
+ * the factories that are allowed in the enclosing config.
+ */
+export async function resolveListingPolicies<
+  Allowed extends PluggableFactorySet,
+>(
+  policiesJson: Array<ListingPolicyJson>,
+  context: TenantNodeIntegrationContext,
+  allowed: Allowed
+): Promise<Array<OfferListingPolicy>> {
+  type Policies = {policies: Array<OfferListingPolicy>};
+  const resolved = await resolveConfigJson<
+    Policies,
+    Allowed,
+    TenantNodeIntegrationContext
+  >(
+    {policies: policiesJson} as unknown as ConfigJson<Policies, Allowed>,
+    {policies: {type: 'listingPolicy', isArray: true}},
+    allowed,
+    context
+  );
+  return resolved.result.policies;
+}
+
+export const UnionListingPolicyIntegration = {
+  async construct(json, context, allowed) {
+    return new UnionListingPolicy(
+      await resolveListingPolicies(json.policies, context, allowed)
+    );
+  },
+} as PluggableFactory<
+  UnionListingPolicy,
+  ListingPolicyListOptionsJson,
+  TenantNodeIntegrationContext
+>;
+
+export const IntersectionListingPolicyIntegration = {
+  async construct(json, context, allowed) {
+    return new IntersectionListingPolicy(
+      await resolveListingPolicies(json.policies, context, allowed)
+    );
+  },
+} as PluggableFactory<
+  IntersectionListingPolicy,
+  ListingPolicyListOptionsJson,
+  TenantNodeIntegrationContext
+>;
+
+export const SequenceListingPolicyIntegration = {
+  async construct(json, context, allowed) {
+    return new SequenceListingPolicy(
+      await resolveListingPolicies(json.policies, context, allowed)
+    );
+  },
+} as PluggableFactory<
+  SequenceListingPolicy,
+  ListingPolicyListOptionsJson,
+  TenantNodeIntegrationContext
+>;
+
+export const OverrideListingPolicyIntegration = {
+  async construct(json, context, allowed) {
+    const [policy] = await resolveListingPolicies(
+      [json.policy],
+      context,
+      allowed
+    );
+    return new OverrideListingPolicy(
+      policy,
+      json.excludedOrgUrls,
+      json.overrides
+    );
+  },
+} as PluggableFactory<
+  OverrideListingPolicy,
+  OverrideListingPolicyOptionsJson,
+  TenantNodeIntegrationContext
+>;
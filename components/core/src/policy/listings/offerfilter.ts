@@ -0,0 +1,179 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Offer,
+  PackagingType,
+  Product,
+  ProductBundle,
+  TypeIdentifier,
+  Weight,
+} from 'opr-models';
+import {isBundle} from '../../model/isbundle';
+import {getDistanceKm} from '../../util/geodistance';
+import {JsonMap} from '../../util/jsonvalue';
+import {compileUserExprUnsafe} from '../../util/userexpr';
+
+/** Returns whether an offer matches some criteria. */
+export type OfferFilter = (offer: Offer) => boolean;
+
+export interface ItemTypeIdFilterJson extends JsonMap {
+  /** The vocabulary of the item id. If omitted, any vocabulary matches. */
+  vocabularyId?: TypeIdentifier['vocabularyId'];
+  itemId: string;
+}
+
+export interface LocationFilterJson extends JsonMap {
+  latitude: number;
+  longitude: number;
+  /** The distance from the given point within which an offer must be. */
+  radiusKm: number;
+}
+
+/**
+ * Declarative criteria for matching offers. An offer matches the filter only if
+ * it matches every criterion that is specified. An empty filter matches every
+ * offer.
+ */
+export interface OfferFilterJson extends JsonMap {
+  /** The smallest total weight, in kilograms, of a matching offer. */
+  minTotalWeightKg?: number;
+  /** The largest total weight, in kilograms, of a matching offer. */
+  maxTotalWeightKg?: number;
+  /**
+   * Matches offers where at least one product has one of the given item type
+   * ids.
+   */
+  itemTypeIds?: Array<ItemTypeIdFilterJson>;
+  /**
+   * Matches offers where at least one bundle has one of the given packaging
+   * types.
+   */
+  packagingTypes?: Array<PackagingType>;
+  /**
+   * Matches offers whose location is within the given radius. Offers without
+   * coordinates never match.
+   */
+  location?: LocationFilterJson;
+  /**
+   * A Javascript expression that is evaluated with the offer available in the
+   * variable "offer". The offer matches if the expression returns a truthy
+   * value. This expression is run without any sandboxing, so it must only ever
+   * come from a trusted configuration.
+   */
+  expression?: string;
+}
+
+const KILOGRAMS_PER_UNIT: Record<Weight['unit'], number> = {
+  gram: 0.001,
+  kilogram: 1,
+  ounce: 0.028349523125,
+  pound: 0.45359237,
+};
+
+function* getAllNodes(
+  node: ProductBundle | Product
+): Iterable<ProductBundle | Product> {
+  yield node;
+  if (isBundle(node)) {
+    for (const child of node.contents) {
+      yield* getAllNodes(child);
+    }
+  }
+}
+
+/** Converts a weight to kilograms. */
+export function toKilograms(weight: Weight): number {
+  return weight.value * KILOGRAMS_PER_UNIT[weight.unit];
+}
+
+/**
+ * Returns the total weight of an offer in kilograms, computed from the unit
+ * weight and quantity of the offer's outermost bundle.
+ */
+export function getTotalWeightKg(offer: Offer): number {
+  const bundle = offer.contents;
+  return toKilograms(bundle.unitWeight) * (bundle.quantity ?? 1);
+}
+
+/** Compiles a declarative offer filter into a filter function. */
+export function compileOfferFilter(json: OfferFilterJson): OfferFilter {
+  const checks = [] as Array<OfferFilter>;
+  if (json.minTotalWeightKg !== undefined) {
+    const minWeightKg = json.minTotalWeightKg;
+    checks.push(offer => getTotalWeightKg(offer) >= minWeightKg);
+  }
+  if (json.maxTotalWeightKg !== undefined) {
+    const maxWeightKg = json.maxTotalWeightKg;
+    checks.push(offer => getTotalWeightKg(offer) <= maxWeightKg);
+  }
+  if (json.itemTypeIds) {
+    const itemTypeIds = json.itemTypeIds;
+    checks.push(offer => {
+      for (const node of getAllNodes(offer.contents)) {
+        if (isBundle(node)) {
+          continue;
+        }
+        for (const typeId of node.itemTypeIds ?? []) {
+          if (
+            itemTypeIds.some(
+              filterId =>
+                filterId.itemId === typeId.itemId &&
+                (!filterId.vocabularyId ||
+                  filterId.vocabularyId === typeId.vocabularyId)
+            )
+          ) {
+            return true;
+          }
+        }
+      }
+      return false;
+    });
+  }
+  if (json.packagingTypes) {
+    const packagingTypes = json.packagingTypes;
+    checks.push(offer => {
+      for (const node of getAllNodes(offer.contents)) {
+        if (
+          isBundle(node) &&
+          node.packagingType &&
+          packagingTypes.includes(node.packagingType)
+        ) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+  if (json.location) {
+    const location = json.location;
+    checks.push(offer => {
+      const latLong = offer.offerLocation.locationLatLong;
+      return (
+        latLong !== undefined &&
+        getDistanceKm(location, latLong) <= location.radiusKm
+      );
+    });
+  }
+  if (json.expression) {
+    const exprFn = compileUserExprUnsafe<unknown, {offer: Offer}>(
+      json.expression,
+      ['offer']
+    );
+    checks.push(offer => Boolean(exprFn({offer: offer})));
+  }
+  return offer => checks.every(check => check(offer));
+}
@@ -0,0 +1,275 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer, PackagingType, Product, ProductBundle} from 'opr-models';
+import {TenantNodeIntegrationContext} from '../../config/tenantnodeintegrationcontext';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {isBundle} from '../../model/isbundle';
+import {Listing} from '../../model/listing';
+import {JsonMap} from '../../util/jsonvalue';
+import {OfferListingPolicy} from '../offerlistingpolicy';
+import {
+  ListingPolicyJson,
+  resolveListingPolicies,
+} from './listingpolicycombinators';
+
+export interface PerishabilityCurvePointJson extends JsonMap {
+  /**
+   * The time remaining until the earliest product expiration, in
+   * milliseconds.
+   */
+  remainingMillis: number;
+  /**
+   * The fraction of the wrapped policy's listing delays that is kept when
+   * remainingMillis is left. 1 keeps the wrapped policy's timing, and 0 lists
+   * the offer to every org at once.
+   */
+  windowScale: number;
+}
+
+export interface PerishabilityCurveJson extends JsonMap {
+  /**
+   * The packaging types to which this curve applies. If omitted, the curve
+   * applies to every packaging type.
+   */
+  packagingTypes?: Array<PackagingType>;
+  /**
+   * The points of the curve. The window scale is interpolated linearly between
+   * points, and is constant before the first point and after the last point.
+   */
+  points: Array<PerishabilityCurvePointJson>;
+}
+
+export interface PerishabilityOptionsJson extends JsonMap {
+  /**
+   * The curves used to compress listings. The first curve that applies to the
+   * packaging type of the most perishable product is used. If no curve
+   * applies, the default curve is used, which keeps the wrapped policy's
+   * timing until 3 days remain and lists to every org at once when 6 hours
+   * remain.
+   */
+  curves?: Array<PerishabilityCurveJson>;
+}
+
+export type PerishabilityListingPolicyOptionsJson = PerishabilityOptionsJson & {
+  policy: ListingPolicyJson;
+};
+
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+const DEFAULT_CURVE: PerishabilityCurveJson = {
+  points: [
+    {remainingMillis: 6 * HOUR_MILLIS, windowScale: 0},
+    {remainingMillis: 72 * HOUR_MILLIS, windowScale: 1},
+  ],
+};
+
+/** The earliest product expiration in an offer's contents. */
+export interface PerishabilityDeadline {
+  expirationTimestampUTC: number;
+  /**
+   * The packaging type of the expiring bundle, or of the bundle that most
+   * closely encloses the expiring product.
+   */
+  packagingType?: PackagingType;
+}
+
+/**
+ * Returns the earliest expiration timestamp of any product or bundle in the
+ * offer's contents, or undefined if nothing in the offer has an expiration
+ * timestamp.
+ */
+export function getPerishabilityDeadline(
+  offer: Offer
+): PerishabilityDeadline | undefined {
+  let result: PerishabilityDeadline | undefined;
+  const visit = (
+    node: ProductBundle | Product,
+    packagingType?: PackagingType
+  ) => {
+    if (isBundle(node)) {
+      packagingType = node.packagingType ?? packagingType;
+    }
+    if (
+      node.expirationTimestampUTC !== undefined &&
+      (result === undefined ||
+        node.expirationTimestampUTC < result.expirationTimestampUTC)
+    ) {
+      result = {
+        expirationTimestampUTC: node.expirationTimestampUTC,
+        packagingType: packagingType,
+      };
+    }
+    if (isBundle(node)) {
+      for (const child of node.contents) {
+        visit(child, packagingType);
+      }
+    }
+  };
+  visit(offer.contents);
+  return result;
+}
+
+/**
+ * Returns the window scale of the given curve when the given time remains.
+ */
+export function getWindowScale(
+  curve: PerishabilityCurveJson,
+  remainingMillis: number
+): number {
+  const points = [...curve.points].sort(
+    (a, b) => a.remainingMillis - b.remainingMillis
+  );
+  if (points.length === 0) {
+    return 1;
+  }
+  if (remainingMillis <= points[0].remainingMillis) {
+    return points[0].windowScale;
+  }
+  for (let i = 1; i < points.length; i++) {
+    const next = points[i];
+    if (remainingMillis <= next.remainingMillis) {
+      const prev = points[i - 1];
+      const fraction =
+        (remainingMillis - prev.remainingMillis) /
+        (next.remainingMillis - prev.remainingMillis);
+      return (
+        prev.windowScale + fraction * (next.windowScale - prev.windowScale)
+      );
+    }
+  }
+  return points[points.length - 1].windowScale;
+}
+
+/**
+ * A listing policy that speeds up the listings from another policy as the
+ * contents of an offer near expiration.
+ *
+ * The deadline for an offer is the earliest expirationTimestampUTC of any
+ * product or bundle in its contents. The time left until that deadline is
+ * mapped to a window scale using the curve for the packaging type of the
+ * expiring item, and the delay between the first listing time and the start of
+ * each listing is multiplied by that scale. Listings keep their length, so a
+ * scale of 0 lists the offer to every org at once.
+ *
+ * Because the scale depends on the current time, this policy asks to be
+ * re-evaluated whenever a perishable offer is ingested, so the listings of
+ * published offers tighten as their deadlines approach. Offers without any
+ * expiration timestamps in their contents are listed as the wrapped policy
+ * lists them.
+ */
+export class PerishabilityListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  private readonly policy: OfferListingPolicy;
+  private readonly curves: Array<PerishabilityCurveJson>;
+
+  constructor(
+    policy: OfferListingPolicy,
+    options: PerishabilityOptionsJson = {}
+  ) {
+    this.policy = policy;
+    this.curves = options.curves ?? [];
+  }
+
+  /** Returns the window scale for the given offer at the given time. */
+  getWindowScale(offer: Offer, currentTimeUTC: number): number {
+    const deadline = getPerishabilityDeadline(offer);
+    if (!deadline) {
+      return 1;
+    }
+    const curve =
+      this.curves.find(
+        curve =>
+          !curve.packagingTypes ||
+          (deadline.packagingType !== undefined &&
+            curve.packagingTypes.includes(deadline.packagingType))
+      ) ?? DEFAULT_CURVE;
+    const scale = getWindowScale(
+      curve,
+      deadline.expirationTimestampUTC - currentTimeUTC
+    );
+    return Math.min(1, Math.max(0, scale));
+  }
+
+  async getListings(
+    offer: Offer,
+    firstListingTimeUTC: number,
+    currentTimeUTC: number,
+    rejections: Set<string>,
+    sharedBy: Set<string>
+  ): Promise<Array<Listing>> {
+    const listings = await this.policy.getListings(
+      offer,
+      firstListingTimeUTC,
+      currentTimeUTC,
+      rejections,
+      sharedBy
+    );
+    const scale = this.getWindowScale(offer, currentTimeUTC);
+    if (scale === 1) {
+      return listings;
+    }
+    const compress = (t: number) =>
+      t <= firstListingTimeUTC
+        ? t
+        : firstListingTimeUTC + Math.round((t - firstListingTimeUTC) * scale);
+    const result = [] as Array<Listing>;
+    for (const listing of listings) {
+      const startTimeUTC = compress(listing.startTimeUTC);
+      // Listings keep their length, so only the delays between them shrink.
+      // Listings that last until the offer expires still do.
+      const endTimeUTC =
+        listing.endTimeUTC >= offer.offerExpirationUTC
+          ? listing.endTimeUTC
+          : listing.endTimeUTC - (listing.startTimeUTC - startTimeUTC);
+      if (startTimeUTC < endTimeUTC) {
+        result.push({
+          ...listing,
+          startTimeUTC: startTimeUTC,
+          endTimeUTC: endTimeUTC,
+        });
+      }
+    }
+    return result;
+  }
+
+  shouldReevaluate(offer: Offer, currentTimeUTC: number): boolean {
+    return (
+      getPerishabilityDeadline(offer) !== undefined ||
+      (this.policy.shouldReevaluate?.(offer, currentTimeUTC) ?? false)
+    );
+  }
+
+  async destroy(): Promise<void> {
+    await this.policy.destroy?.();
+  }
+}
+
+export const PerishabilityListingPolicyIntegration = {
+  async construct(json, context, allowed) {
+    const [policy] = await resolveListingPolicies(
+      [json.policy],
+      context,
+      allowed
+    );
+    return new PerishabilityListingPolicy(policy, json);
+  },
+} as PluggableFactory<
+  PerishabilityListingPolicy,
+  PerishabilityListingPolicyOptionsJson,
+  TenantNodeIntegrationContext
+>;
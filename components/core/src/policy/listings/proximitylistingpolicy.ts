@@ -0,0 +1,165 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {LatLong, Offer} from 'opr-models';
+import {ChainScope} from '../../auth/chainscope';
+import {PluggableFactory} from '../../integrations/pluggablefactory';
+import {Listing} from '../../model/listing';
+import {getDistanceKm} from '../../util/geodistance';
+import {JsonMap} from '../../util/jsonvalue';
+import {OfferListingPolicy} from '../offerlistingpolicy';
+
+export interface LatLongJson extends JsonMap {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ProximityRecipientJson extends JsonMap {
+  orgUrl: string;
+  /**
+   * The locations served by the org. The org's distance from an offer is the
+   * distance from the offer to the nearest of these locations.
+   */
+  locations: Array<LatLongJson>;
+  /**
+   * The farthest distance from which the org will collect offers. If omitted,
+   * the org can be listed offers from any distance.
+   */
+  serviceRadiusKm?: number;
+  /** The scopes granted to the org. If omitted, the org may only accept. */
+  scopes?: Array<ChainScope>;
+}
+
+export interface ProximityListingPolicyOptionsJson extends JsonMap {
+  recipients: Array<ProximityRecipientJson>;
+  /** The radius within which orgs are listed an offer immediately. */
+  initialRadiusKm: number;
+  /** The amount by which the radius grows at each step. */
+  radiusStepKm: number;
+  /** The time in milliseconds between radius steps. */
+  stepIntervalMillis: number;
+  /**
+   * The largest radius. If omitted, the radius grows until the offer expires.
+   */
+  maxRadiusKm?: number;
+  /**
+   * The location used for offers that do not have coordinates. If omitted,
+   * offers without coordinates are listed to every recipient immediately.
+   */
+  defaultOfferLocation?: LatLongJson;
+}
+
+/**
+ * A listing policy that lists offers to nearby organizations first. An offer
+ * is listed immediately to every org within initialRadiusKm of it. Every
+ * stepIntervalMillis after that, the radius grows by radiusStepKm, and the
+ * offer is listed to the orgs within the new radius. Each listing lasts until
+ * the offer expires. Orgs are never listed offers from beyond their own service
+ * radius or beyond maxRadiusKm.
+ */
+export class ProximityListingPolicy implements OfferListingPolicy {
+  readonly type = 'listingPolicy';
+
+  private readonly options: ProximityListingPolicyOptionsJson;
+
+  constructor(options: ProximityListingPolicyOptionsJson) {
+    this.options = options;
+  }
+
+  /**
+   * Returns the number of radius steps needed to reach the given distance, or
+   * undefined if the radius never reaches it.
+   */
+  private getStepCount(distanceKm: number): number | undefined {
+    if (
+      this.options.maxRadiusKm !== undefined &&
+      distanceKm > this.options.maxRadiusKm
+    ) {
+      return undefined;
+    }
+    if (distanceKm <= this.options.initialRadiusKm) {
+      return 0;
+    }
+    if (this.options.radiusStepKm <= 0) {
+      return undefined;
+    }
+    return Math.ceil(
+      (distanceKm - this.options.initialRadiusKm) / this.options.radiusStepKm
+    );
+  }
+
+  async getListings(
+    offer: Offer,
+    firstListingTimeUTC: number,
+    currentTimeUTC: number,
+    rejections: Set<string>,
+    sharedBy: Set<string>
+  ): Promise<Array<Listing>> {
+    const offerLatLong: LatLong | undefined =
+      offer.offerLocation.locationLatLong ?? this.options.defaultOfferLocation;
+    const candidates = [] as Array<{listing: Listing; distanceKm: number}>;
+    for (const recipient of this.options.recipients) {
+      if (rejections.has(recipient.orgUrl) || sharedBy.has(recipient.orgUrl)) {
+        continue;
+      }
+      let distanceKm = 0;
+      let stepCount: number | undefined = 0;
+      if (offerLatLong) {
+        distanceKm = Math.min(
+          ...recipient.locations.map(location =>
+            getDistanceKm(location, offerLatLong)
+          )
+        );
+        if (
+          recipient.serviceRadiusKm !== undefined &&
+          distanceKm > recipient.serviceRadiusKm
+        ) {
+          continue;
+        }
+        stepCount = this.getStepCount(distanceKm);
+      }
+      if (stepCount === undefined) {
+        continue;
+      }
+      const startTimeUTC =
+        firstListingTimeUTC + stepCount * this.options.stepIntervalMillis;
+      if (startTimeUTC >= offer.offerExpirationUTC) {
+        continue;
+      }
+      candidates.push({
+        listing: {
+          orgUrl: recipient.orgUrl,
+          startTimeUTC: startTimeUTC,
+          endTimeUTC: offer.offerExpirationUTC,
+          scopes: recipient.scopes,
+        },
+        distanceKm: distanceKm,
+      });
+    }
+    return candidates
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .map(candidate => candidate.listing);
+  }
+}
+
+export const ProximityListingPolicyIntegration = {
+  async construct(json) {
+    return new ProximityListingPolicy(json);
+  },
+} as PluggableFactory<
+  ProximityListingPolicy,
+  ProximityListingPolicyOptionsJson
+>;
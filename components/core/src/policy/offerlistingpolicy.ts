@@ -28,4 +28,13 @@ export interface OfferListingPolicy extends Pluggable {
     rejections: Set<string>,
     sharedBy: Set<string>
   ): Promise<Array<Listing>>;
+
+  /**
+   * Returns whether the listings for an offer that has not changed should be
+   * recomputed at the given time. Policies whose listings change as time
+   * passes implement this method so that the listings of published offers are
+   * updated each time their offers are ingested. If this method is not
+   * implemented, listings are only computed when an offer changes.
+   */
+  shouldReevaluate?(offer: Offer, currentTimeUTC: number): boolean;
 }
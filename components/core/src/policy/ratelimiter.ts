@@ -0,0 +1,101 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OperationName} from '../auth/getrequiredscopes';
+import {Pluggable} from '../integrations/pluggable';
+
+/**
+ * The size and refill rate of a token bucket. A bucket holds at most capacity
+ * tokens, and gains refillPerSecond tokens every second. Each request takes
+ * one token, so capacity is the largest burst of requests allowed, and
+ * refillPerSecond is the sustained request rate.
+ */
+export type TokenBucketLimit = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+/** The stored state of a token bucket. */
+export type TokenBucketState = {
+  tokens: number;
+  updatedAtUTC: number;
+};
+
+export interface RateLimitDecision {
+  /** Whether the request may proceed. */
+  allowed: boolean;
+  /**
+   * If the request is not allowed, the number of milliseconds until a token
+   * will be available.
+   */
+  retryAfterMillis?: number;
+}
+
+/**
+ * Limits the rate of requests from each organization, using a token bucket
+ * for each organization and operation.
+ */
+export interface RateLimiter extends Pluggable {
+  readonly type: 'rateLimiter';
+
+  /**
+   * Takes a token from the bucket for the given organization and operation,
+   * if one is available at the given time. The bucket is created full the
+   * first time it is used.
+   */
+  take(
+    orgUrl: string,
+    operation: OperationName,
+    limit: TokenBucketLimit,
+    timestampUTC: number
+  ): Promise<RateLimitDecision>;
+}
+
+/**
+ * Refills the given bucket up to the given time and tries to take a token
+ * from it. Returns the decision and the new state of the bucket. If the bucket
+ * is undefined, it is treated as full.
+ */
+export function takeToken(
+  bucket: TokenBucketState | undefined,
+  limit: TokenBucketLimit,
+  timestampUTC: number
+): {decision: RateLimitDecision; bucket: TokenBucketState} {
+  const elapsedSecs = bucket
+    ? Math.max(timestampUTC - bucket.updatedAtUTC, 0) / 1000
+    : 0;
+  const tokens = bucket
+    ? Math.min(
+        limit.capacity,
+        bucket.tokens + elapsedSecs * limit.refillPerSecond
+      )
+    : limit.capacity;
+  if (tokens >= 1) {
+    return {
+      decision: {allowed: true},
+      bucket: {tokens: tokens - 1, updatedAtUTC: timestampUTC},
+    };
+  }
+  return {
+    decision: {
+      allowed: false,
+      retryAfterMillis: Math.ceil(
+        ((1 - tokens) / limit.refillPerSecond) * 1000
+      ),
+    },
+    bucket: {tokens: tokens, updatedAtUTC: timestampUTC},
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OperationName} from '../auth/getrequiredscopes';
+import {StatusError} from '../util/statuserror';
+import {TokenBucketLimit} from './ratelimiter';
+
+/** Token bucket limits by operation. Operations not named are unlimited. */
+export type OperationRateLimits = Partial<
+  Record<OperationName, TokenBucketLimit>
+>;
+
+/** The request rate limits a host applies to other organizations. */
+export type RateLimits = {
+  /** The limits that apply to every org. */
+  limits?: OperationRateLimits;
+  /**
+   * Limits for specific orgs. An org's limit for an operation replaces the
+   * default limit for that operation.
+   */
+  orgs?: Array<{orgUrl: string; limits: OperationRateLimits}>;
+};
+
+const OPERATION_NAMES: ReadonlyArray<string> = [
+  'LIST',
+  'ACCEPT',
+  'REJECT',
+  'RESERVE',
+  'RELEASE',
+  'CANCELACCEPT',
+  'FULFILLMENT',
+  'HISTORY',
+];
+
+function badLimits(message: string): StatusError {
+  return new StatusError(message, 'CONFIG_ERROR_BAD_RATE_LIMITS');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateOperationRateLimits(value: unknown, name: string) {
+  if (!isObject(value)) {
+    throw badLimits(`${name} must be an object`);
+  }
+  for (const [operation, limit] of Object.entries(value)) {
+    if (!OPERATION_NAMES.includes(operation)) {
+      throw badLimits(`${name} has unknown operation ${operation}`);
+    }
+    if (
+      !isObject(limit) ||
+      typeof limit.capacity !== 'number' ||
+      limit.capacity < 1 ||
+      typeof limit.refillPerSecond !== 'number' ||
+      limit.refillPerSecond <= 0
+    ) {
+      throw badLimits(
+        `${name}.${operation} must have a capacity of at least 1 and a ` +
+          'positive refillPerSecond'
+      );
+    }
+  }
+}
+
+/**
+ * Checks that the given value is a valid RateLimits object, and throws a
+ * StatusError if it is not.
+ */
+export function validateRateLimits(value: unknown): RateLimits {
+  if (!isObject(value)) {
+    throw badLimits('Rate limits must be an object');
+  }
+  if (value.limits !== undefined) {
+    validateOperationRateLimits(value.limits, 'limits');
+  }
+  if (value.orgs !== undefined) {
+    if (!Array.isArray(value.orgs)) {
+      throw badLimits('orgs must be an array');
+    }
+    for (const org of value.orgs as Array<unknown>) {
+      if (!isObject(org) || typeof org.orgUrl !== 'string') {
+        throw badLimits('Each entry in orgs must have an orgUrl');
+      }
+      validateOperationRateLimits(org.limits, `limits for ${org.orgUrl}`);
+    }
+  }
+  return value as RateLimits;
+}
+
+/**
+ * Returns the limit for the given org and operation, or undefined if the
+ * operation is unlimited for that org.
+ */
+export function getRateLimit(
+  rateLimits: RateLimits,
+  orgUrl: string,
+  operation: OperationName
+): TokenBucketLimit | undefined {
+  const orgLimits = rateLimits.orgs?.find(org => org.orgUrl === orgUrl);
+  return orgLimits?.limits[operation] ?? rateLimits.limits?.[operation];
+}
@@ -0,0 +1,127 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OperationName} from '../auth/getrequiredscopes';
+import {TenantNodeIntegrationContext} from '../config/tenantnodeintegrationcontext';
+import {PersistentStorage} from '../database/persistentstorage';
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {asyncIterableFirst} from '../util/asynciterable';
+import {StatusError} from '../util/statuserror';
+import {
+  RateLimitDecision,
+  RateLimiter,
+  takeToken,
+  TokenBucketLimit,
+  TokenBucketState,
+} from './ratelimiter';
+
+export interface StorageRateLimiterOptionsJson {
+  /** The key prefix under which token buckets are stored. */
+  keyPrefix?: string;
+}
+
+export type StorageRateLimiterOptions = StorageRateLimiterOptionsJson & {
+  storage: PersistentStorage;
+  hostOrgUrl: string;
+};
+
+const DEFAULT_KEY_PREFIX = 'ratelimits/';
+const MAX_ATTEMPTS = 5;
+
+function isTransactionConflict(e: unknown): boolean {
+  return (
+    e instanceof StatusError &&
+    e.errorCode === 'STORAGE_ERROR_TRANSACTION_CONFLICT'
+  );
+}
+
+/**
+ * A rate limiter that keeps its token buckets in persistent storage, so that
+ * every replica of a server shares the same buckets. Each request reads and
+ * writes its bucket in a single transaction, which is retried if it conflicts
+ * with a concurrent request for the same bucket.
+ */
+export class StorageRateLimiter implements RateLimiter {
+  readonly type = 'rateLimiter';
+
+  private readonly storage: PersistentStorage;
+  private readonly hostOrgUrl: string;
+  private readonly keyPrefix: string;
+
+  constructor(options: StorageRateLimiterOptions) {
+    this.storage = options.storage;
+    this.hostOrgUrl = options.hostOrgUrl;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  async take(
+    orgUrl: string,
+    operation: OperationName,
+    limit: TokenBucketLimit,
+    timestampUTC: number
+  ): Promise<RateLimitDecision> {
+    // The trailing slash keeps one bucket's key from being a prefix of
+    // another's.
+    const key = `${this.keyPrefix}${operation}/${encodeURIComponent(orgUrl)}/`;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.takeOnce(key, limit, timestampUTC);
+      } catch (e) {
+        if (attempt >= MAX_ATTEMPTS || !isTransactionConflict(e)) {
+          throw e;
+        }
+      }
+    }
+  }
+
+  private async takeOnce(
+    key: string,
+    limit: TokenBucketLimit,
+    timestampUTC: number
+  ): Promise<RateLimitDecision> {
+    const t = await this.storage.createTransaction('READWRITE');
+    let result;
+    try {
+      const bucket = (await asyncIterableFirst(
+        this.storage.getValues(t, this.hostOrgUrl, key)
+      )) as unknown as TokenBucketState | undefined;
+      result = takeToken(bucket, limit, timestampUTC);
+      await this.storage.storeValue(t, this.hostOrgUrl, key, result.bucket);
+    } catch (e) {
+      await t.fail();
+      throw e;
+    }
+    await t.commit();
+    return result.decision;
+  }
+}
+
+export const StorageRateLimiterIntegration = {
+  async construct(json, context) {
+    if (!context.storage) {
+      throw new Error('StorageRateLimiter requires access to storage');
+    }
+    return new StorageRateLimiter({
+      ...json,
+      storage: context.storage,
+      hostOrgUrl: context.hostOrgUrl,
+    });
+  },
+} as PluggableFactory<
+  StorageRateLimiter,
+  StorageRateLimiterOptionsJson,
+  TenantNodeIntegrationContext
+>;
@@ -15,25 +15,84 @@
  */
 
 import {Offer} from 'opr-models';
+import {ChainScope} from '../auth/chainscope';
 import {PluggableFactory} from '../integrations/pluggablefactory';
 import {Listing} from '../model/listing';
 import {asAsyncGetter, AsyncGetter} from '../util/asyncgetter';
 import {JsonMap} from '../util/jsonvalue';
 import {OfferListingPolicy} from './offerlistingpolicy';
 
+/** How an org is listed offers by a UniversalAcceptListingPolicy. */
+export interface UniversalListingSettings extends JsonMap {
+  /** The scopes granted to the org. Defaults to ACCEPT only. */
+  scopes?: Array<ChainScope>;
+  /**
+   * How long after an offer is created the org's listing starts, in
+   * milliseconds. Defaults to 0.
+   */
+  delayMillis?: number;
+  /**
+   * The longest the org's listing lasts, in milliseconds. If omitted, the
+   * listing lasts until the offer expires.
+   */
+  maxDurationMillis?: number;
+}
+
+/** Listing settings for a single org. */
+export interface UniversalListingOrgSettings extends UniversalListingSettings {
+  orgUrl: string;
+}
+
+/** Listing settings shared by a group of orgs. */
+export type UniversalListingGroupSettings = UniversalListingSettings & {
+  /** A name for the group, for readability. */
+  name?: string;
+  orgUrls: Array<string>;
+};
+
 /**
- * A listing policy that grants all organizations permission to accept all
- * offers, but not to reshare them.
+ * Options for a UniversalAcceptListingPolicy. The top-level settings apply to
+ * every org that is not given settings of its own. An org's own settings take
+ * precedence over the settings of the first group that contains it. Settings
+ * are not merged; the most specific settings object is used as a whole.
+ */
+export type UniversalAcceptListingPolicyOptions = UniversalListingSettings & {
+  orgs?: Array<UniversalListingOrgSettings>;
+  groups?: Array<UniversalListingGroupSettings>;
+};
+
+/**
+ * A listing policy that lists all offers to all organizations, from the time
+ * each offer is created until it expires. By default, organizations may accept
+ * offers but not reshare them. Options can grant other scopes (such as
+ * RESHARE), delay listings, or cap their length, for every org, for a group of
+ * orgs, or for a single org. Orgs named in the options' orgs or groups are
+ * listed in addition to the orgs from the org collection provider.
  */
 export class UniversalAcceptListingPolicy implements OfferListingPolicy {
   readonly type = 'listingPolicy';
 
   private orgCollectionProvider: AsyncGetter<Iterable<string>>;
+  private defaultSettings: UniversalListingSettings;
+  private settingsByOrg: Map<string, UniversalListingSettings>;
 
   constructor(
-    orgCollectionProvider: AsyncGetter<Iterable<string>> | Iterable<string>
+    orgCollectionProvider: AsyncGetter<Iterable<string>> | Iterable<string>,
+    options: UniversalAcceptListingPolicyOptions = {}
   ) {
     this.orgCollectionProvider = asAsyncGetter(orgCollectionProvider);
+    this.defaultSettings = options;
+    this.settingsByOrg = new Map();
+    for (const org of options.orgs ?? []) {
+      this.settingsByOrg.set(org.orgUrl, org);
+    }
+    for (const group of options.groups ?? []) {
+      for (const orgUrl of group.orgUrls) {
+        if (!this.settingsByOrg.has(orgUrl)) {
+          this.settingsByOrg.set(orgUrl, group);
+        }
+      }
+    }
   }
 
   async getListings(
@@ -45,17 +104,32 @@ export class UniversalAcceptListingPolicy implements OfferListingPolicy {
   ): Promise<Array<Listing>> {
     const creationTimeUTC = offer.offerCreationUTC;
     const expirationTimeUTC = offer.offerExpirationUTC;
-    const orgs = await this.orgCollectionProvider.get();
+    const orgs = new Set(await this.orgCollectionProvider.get());
+    for (const orgUrl of this.settingsByOrg.keys()) {
+      orgs.add(orgUrl);
+    }
     const result = [] as Listing[];
     for (const orgUrl of orgs) {
       if (rejections.has(orgUrl) || sharedBy.has(orgUrl)) {
         continue;
       }
+      const settings = this.settingsByOrg.get(orgUrl) ?? this.defaultSettings;
+      const startTimeUTC = creationTimeUTC + (settings.delayMillis ?? 0);
+      const endTimeUTC =
+        settings.maxDurationMillis !== undefined
+          ? Math.min(
+              startTimeUTC + settings.maxDurationMillis,
+              expirationTimeUTC
+            )
+          : expirationTimeUTC;
+      if (startTimeUTC >= endTimeUTC) {
+        continue;
+      }
       result.push({
         orgUrl: orgUrl,
-        startTimeUTC: creationTimeUTC,
-        endTimeUTC: expirationTimeUTC,
-        scopes: ['ACCEPT'],
+        startTimeUTC: startTimeUTC,
+        endTimeUTC: endTimeUTC,
+        scopes: settings.scopes ?? ['ACCEPT'],
       });
     }
     return result;
@@ -103,10 +177,11 @@ export class FakeListingPolicy implements OfferListingPolicy {
   }
 }
 
-export interface UniversalAcceptListingPolicyIntegrationOptions
-  extends JsonMap {
-  orgUrls: string[];
-}
+export type UniversalAcceptListingPolicyIntegrationOptions =
+  UniversalAcceptListingPolicyOptions & {
+    /** Orgs that are listed offers using the top-level settings. */
+    orgUrls?: string[];
+  };
 
 export const UniversalAcceptListingPolicyIntegration: PluggableFactory<
   UniversalAcceptListingPolicy,
@@ -115,6 +190,6 @@ export const UniversalAcceptListingPolicyIntegration: PluggableFactory<
   construct: async (
     json: UniversalAcceptListingPolicyIntegrationOptions
   ): Promise<UniversalAcceptListingPolicy> => {
-    return new UniversalAcceptListingPolicy(json.orgUrls);
+    return new UniversalAcceptListingPolicy(json.orgUrls ?? [], json);
   },
 };
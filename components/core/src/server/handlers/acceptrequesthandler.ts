@@ -16,6 +16,7 @@
 
 import {Verifier} from '../../auth/verifier';
 import {OfferModel} from '../../model/offermodel';
+import {ReshareRevocationRegistry} from '../../model/resharerevocations';
 import {JWTPayload} from 'jose';
 import {
   AcceptOfferPayload,
@@ -28,13 +29,21 @@ export class AcceptRequestHandler extends BaseAcceptHandler<
   AcceptOfferPayload,
   AcceptOfferResponse
 > {
-  constructor(database: OfferModel, myOrgUrl?: string, verifier?: Verifier) {
+  constructor(
+    database: OfferModel,
+    myOrgUrl?: string,
+    verifier?: Verifier,
+    myOrgUrlAliases?: Array<string>,
+    reshareRevocations?: ReshareRevocationRegistry
+  ) {
     super(
       database,
       'accept.payload.schema.json',
       'accept.response.schema.json',
       myOrgUrl,
-      verifier
+      verifier,
+      myOrgUrlAliases,
+      reshareRevocations
     );
   }
 
@@ -47,7 +56,8 @@ export class AcceptRequestHandler extends BaseAcceptHandler<
       request.offerId,
       decodedAuthToken.iss!,
       request.ifNotNewerThanTimestampUTC,
-      decodedReshareChain
+      decodedReshareChain,
+      request.slice
     );
   }
 }
@@ -24,6 +24,10 @@ import {
   ReshareChain,
 } from 'opr-models';
 import {AuthenticatedRequestHandler} from './authenticatedrequesthandler';
+import {
+  findChainRevocation,
+  ReshareRevocationRegistry,
+} from '../../model/resharerevocations';
 
 export abstract class BaseAcceptHandler<
   RequestType,
@@ -31,17 +35,23 @@ export abstract class BaseAcceptHandler<
 > extends AuthenticatedRequestHandler<RequestType, ResponseType> {
   private verifier?: Verifier;
   private myOrgUrl?: string;
+  private myOrgUrlAliases: Array<string>;
+  private reshareRevocations?: ReshareRevocationRegistry;
 
   constructor(
     database: OfferModel,
     requestSchemaId: string,
     responseSchemaId: string,
     myOrgUrl?: string,
-    verifier?: Verifier
+    verifier?: Verifier,
+    myOrgUrlAliases: Array<string> = [],
+    reshareRevocations?: ReshareRevocationRegistry
   ) {
     super(database, ['ACCEPTPRODUCT'], requestSchemaId, responseSchemaId);
     this.verifier = verifier;
     this.myOrgUrl = myOrgUrl;
+    this.myOrgUrlAliases = myOrgUrlAliases;
+    this.reshareRevocations = reshareRevocations;
   }
 
   async decodeReshareChain(
@@ -71,6 +81,7 @@ export abstract class BaseAcceptHandler<
       finalSubject: finalSubject,
       initialEntitlements: initialEntitlement,
       initialIssuer: initialIssuer,
+      initialIssuerAliases: this.myOrgUrlAliases,
       finalScope: 'ACCEPT',
     });
   }
@@ -92,6 +103,20 @@ export abstract class BaseAcceptHandler<
       this.myOrgUrl,
       reshareChain
     );
+    if (decodedReshareChain && this.reshareRevocations) {
+      const revocation = findChainRevocation(
+        await this.reshareRevocations.getAll(),
+        offerId,
+        decodedReshareChain
+      );
+      if (revocation) {
+        throw new StatusError(
+          'The reshare chain for this offer has been revoked',
+          'ACCEPT_ERROR_RESHARE_CHAIN_REVOKED',
+          403
+        );
+      }
+    }
     return await this.handleWithChain(
       request,
       decodedAuthToken,
@@ -0,0 +1,49 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Verifier} from '../../auth/verifier';
+import {ReleaseOfferPayload, ReleaseOfferResponse} from 'opr-models';
+import {JWTPayload} from 'jose';
+import {BaseAcceptHandler} from './baseaccepthandler';
+import {OfferModel} from '../../model/offermodel';
+
+export class ReleaseRequestHandler extends BaseAcceptHandler<
+  ReleaseOfferPayload,
+  ReleaseOfferResponse
+> {
+  constructor(
+    database: OfferModel,
+    myOrgUrl?: string,
+    verifier?: Verifier,
+    myOrgUrlAliases?: Array<string>
+  ) {
+    super(
+      database,
+      'release.payload.schema.json',
+      'release.response.schema.json',
+      myOrgUrl,
+      verifier,
+      myOrgUrlAliases
+    );
+  }
+
+  async handleWithChain(
+    request: ReleaseOfferPayload,
+    decodedAuthToken: JWTPayload
+  ): Promise<ReleaseOfferResponse> {
+    return await this.database.release(request.offerId, decodedAuthToken.iss!);
+  }
+}
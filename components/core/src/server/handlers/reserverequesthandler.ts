@@ -15,10 +15,15 @@
  */
 
 import {Verifier} from '../../auth/verifier';
-import {ReserveOfferPayload, ReserveOfferResponse} from 'opr-models';
+import {
+  DecodedReshareChain,
+  ReserveOfferPayload,
+  ReserveOfferResponse,
+} from 'opr-models';
 import {JWTPayload} from 'jose';
 import {BaseAcceptHandler} from './baseaccepthandler';
 import {OfferModel} from '../../model/offermodel';
+import {ReshareRevocationRegistry} from '../../model/resharerevocations';
 
 export class ReserveRequestHandler extends BaseAcceptHandler<
   ReserveOfferPayload,
@@ -30,26 +35,32 @@ export class ReserveRequestHandler extends BaseAcceptHandler<
     database: OfferModel,
     defaultReservationTime: number,
     myOrgUrl?: string,
-    verifier?: Verifier
+    verifier?: Verifier,
+    myOrgUrlAliases?: Array<string>,
+    reshareRevocations?: ReshareRevocationRegistry
   ) {
     super(
       database,
       'reserve.payload.schema.json',
       'reserve.response.schema.json',
       myOrgUrl,
-      verifier
+      verifier,
+      myOrgUrlAliases,
+      reshareRevocations
     );
     this.defaultReservationTimeSecs = defaultReservationTime;
   }
 
   async handleWithChain(
     request: ReserveOfferPayload,
-    decodedAuthToken: JWTPayload
+    decodedAuthToken: JWTPayload,
+    decodedReshareChain?: DecodedReshareChain
   ): Promise<ReserveOfferResponse> {
     return await this.database.reserve(
       request.offerId,
       request.requestedReservationSecs || this.defaultReservationTimeSecs,
-      decodedAuthToken.iss!
+      decodedAuthToken.iss!,
+      decodedReshareChain
     );
   }
 }
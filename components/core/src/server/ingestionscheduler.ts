@@ -0,0 +1,161 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Clock} from '../util/clock';
+import loglevel, {Logger} from '../util/loglevel';
+import {forEachWithConcurrencyLimit} from '../util/asynciterable';
+
+const DEFAULT_MAX_CONCURRENT_TENANTS = 4;
+
+export interface IngestionSchedulerOptions {
+  clock: Clock;
+  /** How often the scheduler checks for tenants that need ingestion. */
+  intervalMillis: number;
+  /** The maximum number of tenants to ingest at once. Defaults to 4. */
+  maxConcurrentTenants?: number;
+  logger?: Logger;
+  /** Returns the ids of all tenants that may need ingestion. */
+  getTenantIds(): AsyncIterable<string>;
+  /**
+   * Ingests offers for the given tenant and returns the earliest time at which
+   * the tenant will need ingestion again, or undefined if the tenant should be
+   * checked again on the next scheduler run.
+   */
+  ingestTenant(tenantId: string): Promise<number | undefined>;
+}
+
+/**
+ * Periodically ingests offers for every tenant on a server. Each run checks
+ * every tenant, and ingests the tenants whose producers are due to run again,
+ * with a bounded number of tenants ingesting at once. Runs never overlap; the
+ * next run is scheduled intervalMillis after the previous run finishes.
+ *
+ * Due times are compared against the injected Clock, so tests can drive the
+ * scheduler by setting the time on a FakeClock and calling runOnce().
+ */
+export class IngestionScheduler {
+  private readonly clock: Clock;
+  private readonly intervalMillis: number;
+  private readonly maxConcurrentTenants: number;
+  private readonly logger: Logger;
+  private readonly getTenantIds: () => AsyncIterable<string>;
+  private readonly ingestTenant: (
+    tenantId: string
+  ) => Promise<number | undefined>;
+
+  private readonly nextDueTimesUTC: Map<string, number>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private currentRun?: Promise<void>;
+  private isRunning = false;
+  private isStopped = false;
+
+  constructor(options: IngestionSchedulerOptions) {
+    this.clock = options.clock;
+    this.intervalMillis = options.intervalMillis;
+    this.maxConcurrentTenants =
+      options.maxConcurrentTenants ?? DEFAULT_MAX_CONCURRENT_TENANTS;
+    this.logger = options.logger ?? loglevel.getLogger('OprIngestionScheduler');
+    this.getTenantIds = options.getTenantIds;
+    this.ingestTenant = options.ingestTenant;
+    this.nextDueTimesUTC = new Map();
+  }
+
+  /** Starts running ingestion in the background. */
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+    this.isStopped = false;
+    this.scheduleNextRun(0);
+  }
+
+  /**
+   * Stops scheduling new runs. Resolves once any run in progress has finished
+   * ingesting the tenants it already started; no new tenants are started after
+   * stop() is called.
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    this.isStopped = true;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  /**
+   * Ingests every tenant that is currently due. A tenant is due if it has
+   * never been ingested by this scheduler, or if the time returned by its last
+   * ingestion has passed.
+   */
+  async runOnce(): Promise<void> {
+    if (this.currentRun) {
+      return this.currentRun;
+    }
+    this.currentRun = this.runInternal();
+    try {
+      await this.currentRun;
+    } finally {
+      this.currentRun = undefined;
+    }
+  }
+
+  private async runInternal(): Promise<void> {
+    const startTimeUTC = this.clock.now();
+    await forEachWithConcurrencyLimit(
+      this.getTenantIds(),
+      this.maxConcurrentTenants,
+      async tenantId => {
+        const dueTimeUTC = this.nextDueTimesUTC.get(tenantId);
+        if (dueTimeUTC !== undefined && dueTimeUTC > startTimeUTC) {
+          return;
+        }
+        if (this.isStopped) {
+          return;
+        }
+        try {
+          const nextDueTimeUTC = await this.ingestTenant(tenantId);
+          if (nextDueTimeUTC === undefined) {
+            this.nextDueTimesUTC.delete(tenantId);
+          } else {
+            this.nextDueTimesUTC.set(tenantId, nextDueTimeUTC);
+          }
+        } catch (e) {
+          // A failing tenant should not stop ingestion for other tenants. It
+          // will be retried on the next run.
+          this.logger.warn('Scheduled ingestion failed for', tenantId, e);
+          this.nextDueTimesUTC.delete(tenantId);
+        }
+      }
+    );
+  }
+
+  private scheduleNextRun(delayMillis: number): void {
+    this.timer = setTimeout(async () => {
+      this.timer = undefined;
+      try {
+        await this.runOnce();
+      } catch (e) {
+        this.logger.error('Scheduled ingestion run failed', e);
+      }
+      if (this.isRunning) {
+        this.scheduleNextRun(this.intervalMillis);
+      }
+    }, delayMillis);
+  }
+}
@@ -16,9 +16,15 @@
 
 import {
   AcceptOfferResponse,
+  CancelAcceptOfferResponse,
+  Fulfillment,
+  FulfillmentPayload,
+  FulfillmentResponse,
   HistoryResponse,
   Offer,
   OfferHistory,
+  OfferSlice,
+  ReleaseOfferResponse,
 } from 'opr-models';
 import {HandlerRegistration} from '../model/handlerregistration';
 import {Interval} from '../model/interval';
@@ -35,14 +41,21 @@ import {StatusError} from '../util/statuserror';
 import {Logger, log} from '../util/loglevel';
 import {OfferModel} from '../model/offermodel';
 import {OfferProducer} from '../offerproducer/offerproducer';
+import {OfferProducerMetadata} from '../offerproducer/offerproducermetadata';
+import {IngestionReport} from '../offerproducer/ingestionreport';
 import {NextFunction, Request, Response, Router} from 'express';
 import {JsonValue} from '../util/jsonvalue';
 import {OprTenantNode} from './oprtenantnode';
+import {IssueTokenOptions, Signer} from '../auth/signer';
+import {OfferListingPolicy} from '../policy/offerlistingpolicy';
+import {ListingDryRun, ListingExplanation} from './listingexplainer';
+import {ReshareRevocation} from '../model/resharerevocations';
 
 export interface IntegrationApiImplOptions {
   hostOrgUrl: string;
   storage: PersistentStorage;
   netClient?: OprNetworkClient;
+  signer?: Signer;
   model: OfferModel;
   host: OprTenantNode;
   clock?: Clock;
@@ -59,6 +72,7 @@ export class IntegrationApiImpl implements IntegrationApi {
   readonly hostOrgUrl: string;
   private storage: PersistentStorage;
   private netClient?: OprNetworkClient;
+  private signer?: Signer;
   private host: OprTenantNode;
   private clock: Clock;
   private model: OfferModel;
@@ -72,6 +86,7 @@ export class IntegrationApiImpl implements IntegrationApi {
     this.hostOrgUrl = options.hostOrgUrl;
     this.storage = options.storage;
     this.netClient = options.netClient;
+    this.signer = options.signer;
     this.host = options.host;
     this.router = options.router ?? this.host.getRouter();
     this.clock = options.clock ?? new DefaultClock();
@@ -107,6 +122,7 @@ export class IntegrationApiImpl implements IntegrationApi {
       model: this.model,
       logger: this.logger,
       netClient: this.netClient,
+      signer: this.signer,
     });
     this.router.use(
       '/' + pathNamespace,
@@ -229,11 +245,55 @@ export class IntegrationApiImpl implements IntegrationApi {
     }
   }
 
-  ingestOffers(): Promise<void> {
+  ingestOffers(): Promise<IngestionReport> {
     return this.host.ingest();
   }
 
-  async accept(offerId: OfferId): Promise<Offer> {
+  getTrippedProducers(): Promise<Array<OfferProducerMetadata>> {
+    return this.host.getTrippedProducers();
+  }
+
+  explainListing(
+    offerId: OfferId,
+    orgUrl: string,
+    atTimeUTC?: number
+  ): Promise<ListingExplanation> {
+    return this.host.explainListing(offerId, orgUrl, atTimeUTC);
+  }
+
+  dryRunListings(
+    offer: Offer,
+    listingPolicy?: OfferListingPolicy,
+    atTimeUTC?: number
+  ): Promise<ListingDryRun> {
+    return this.host.dryRunListings(offer, listingPolicy, atTimeUTC);
+  }
+
+  revokeReshareEntitlement(
+    revocation: ReshareRevocation
+  ): Promise<ReshareRevocation> {
+    return this.host.revokeReshareEntitlement(revocation);
+  }
+
+  restoreReshareEntitlement(revocation: ReshareRevocation): Promise<boolean> {
+    return this.host.restoreReshareEntitlement(revocation);
+  }
+
+  getReshareRevocations(): Promise<Array<ReshareRevocation>> {
+    return this.host.getReshareRevocations();
+  }
+
+  async issueToken(aud: string, options?: IssueTokenOptions): Promise<string> {
+    if (!this.signer) {
+      throw new StatusError(
+        'No signer is available',
+        'INTEGRATION_CLIENT_ERROR_NO_SIGNER'
+      );
+    }
+    return await this.signer.issueToken(aud, options);
+  }
+
+  async accept(offerId: OfferId, slice?: OfferSlice): Promise<Offer> {
     if (!this.netClient) {
       throw new StatusError(
         'No network client is available',
@@ -255,6 +315,7 @@ export class IntegrationApiImpl implements IntegrationApi {
         offerId: structured.id,
         ifNotNewerThanTimestampUTC: getIdVersion(structured),
         reshareChain: reshareChain,
+        slice: slice,
       }
     );
     const acceptedOffer = (result as AcceptOfferResponse).offer;
@@ -347,6 +408,76 @@ export class IntegrationApiImpl implements IntegrationApi {
     return offer;
   }
 
+  async releaseReservation(offerId: OfferId): Promise<Offer> {
+    if (!this.netClient) {
+      throw new StatusError(
+        'No network client is available',
+        'INTEGRATION_CLIENT_ERROR_NO_NETWORK_CLIENT'
+      );
+    }
+    const structured = asStructuredId(offerId);
+    const t = await this.storage.createTransaction('READONLY');
+    const reshareChain = await this.storage.getBestAcceptChain(
+      t,
+      this.hostOrgUrl,
+      structured.id,
+      structured.postingOrgUrl
+    );
+    const result = await this.netClient.exec(
+      'RELEASE',
+      structured.postingOrgUrl,
+      {
+        offerId: structured.id,
+        reshareChain: reshareChain,
+      }
+    );
+    const offer = (result as ReleaseOfferResponse).offer;
+    await this.fireChange({
+      oldValue: offer,
+      newValue: offer,
+      type: 'REMOTE_RELEASE',
+      timestampUTC: this.clock.now(),
+    });
+    return offer;
+  }
+
+  async cancelAcceptance(
+    offerId: OfferId,
+    rejectAfterCancel?: boolean
+  ): Promise<Offer> {
+    if (!this.netClient) {
+      throw new StatusError(
+        'No network client is available',
+        'INTEGRATION_CLIENT_ERROR_NO_NETWORK_CLIENT'
+      );
+    }
+    const structured = asStructuredId(offerId);
+    const t = await this.storage.createTransaction('READONLY');
+    const reshareChain = await this.storage.getBestAcceptChain(
+      t,
+      this.hostOrgUrl,
+      structured.id,
+      structured.postingOrgUrl
+    );
+    const result = await this.netClient.exec(
+      'CANCELACCEPT',
+      structured.postingOrgUrl,
+      {
+        offerId: structured.id,
+        reshareChain: reshareChain,
+        rejectAfterCancel: rejectAfterCancel,
+      }
+    );
+    const offer = (result as CancelAcceptOfferResponse).offer;
+    await this.fireChange({
+      oldValue: offer,
+      newValue: offer,
+      type: 'REMOTE_CANCEL_ACCEPT',
+      timestampUTC: this.clock.now(),
+    });
+    return offer;
+  }
+
   async *getLocalAcceptHistory(
     sinceTimestampUTC?: number | undefined
   ): AsyncIterable<OfferHistory> {
@@ -362,6 +493,59 @@ export class IntegrationApiImpl implements IntegrationApi {
     }
   }
 
+  async reportFulfillment(
+    offerId: OfferId,
+    report: Omit<FulfillmentPayload, 'offerId' | 'reshareChain'>
+  ): Promise<Fulfillment> {
+    if (!this.netClient) {
+      throw new StatusError(
+        'No network client is available',
+        'INTEGRATION_CLIENT_ERROR_NO_NETWORK_CLIENT'
+      );
+    }
+    const structured = asStructuredId(offerId);
+    const t = await this.storage.createTransaction('READONLY');
+    const reshareChain = await this.storage.getBestAcceptChain(
+      t,
+      this.hostOrgUrl,
+      structured.id,
+      structured.postingOrgUrl
+    );
+    const result = await this.netClient.exec(
+      'FULFILLMENT',
+      structured.postingOrgUrl,
+      {
+        ...report,
+        offerId: structured.id,
+        reshareChain: reshareChain,
+      }
+    );
+    const fulfillment = (result as FulfillmentResponse).fulfillment;
+    const offer = await this.getOffer(offerId);
+    await this.fireChange({
+      oldValue: offer,
+      newValue: offer,
+      type: 'REMOTE_FULFILLMENT_UPDATE',
+      timestampUTC: this.clock.now(),
+      fulfillment: fulfillment,
+    });
+    return fulfillment;
+  }
+
+  async *getFulfillmentHistory(offerId: OfferId): AsyncIterable<Fulfillment> {
+    const structured = asStructuredId(offerId);
+    const t = await this.storage.createTransaction('READONLY');
+    const iterable = this.storage.getFulfillmentHistory(
+      t,
+      this.hostOrgUrl,
+      structured.id,
+      structured.postingOrgUrl
+    );
+    for await (const result of iterable) {
+      yield result;
+    }
+  }
+
   async *getRemoteAcceptHistory(
     remoteOrgUrl: string,
     sinceTimestampUTC?: number | undefined
@@ -0,0 +1,297 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer, OfferHistory} from 'opr-models';
+import {PersistentStorage} from '../database/persistentstorage';
+import {trim} from '../model/interval';
+import {Listing} from '../model/listing';
+import {asUnversionedStructuredId, OfferId} from '../model/offerid';
+import {TimelineEntry} from '../model/timelineentry';
+import {OfferListingPolicy} from '../policy/offerlistingpolicy';
+import {asyncIterableToArray} from '../util/asynciterable';
+import {Clock} from '../util/clock';
+
+/**
+ * A description of why an offer is or isn't visible to an organization at a
+ * particular time.
+ */
+export interface ListingExplanation {
+  offerId: string;
+  postingOrgUrl: string;
+  orgUrl: string;
+  atTimeUTC: number;
+  /** Whether the offer is listed to the org at atTimeUTC. */
+  isVisible: boolean;
+  /** The latest version of the offer, if this host knows about it. */
+  offer?: Offer;
+  /**
+   * The listings the listing policy produces for the org if it were run now.
+   */
+  computedListings: Array<Listing>;
+  /** Every stored timeline entry for the offer, for every org. */
+  timeline: Array<TimelineEntry>;
+  /** The stored timeline entries that are reservations, for every org. */
+  reservations: Array<TimelineEntry>;
+  /**
+   * The acceptance of the offer that has not been cancelled, if any. An
+   * acceptance ends all listings for the offer.
+   */
+  acceptance?: OfferHistory;
+  /** Whether the org has rejected the offer. */
+  isRejected: boolean;
+  /** Human-readable sentences explaining the offer's visibility. */
+  explanation: Array<string>;
+}
+
+/** The listings a listing policy would produce for a hypothetical offer. */
+export interface ListingDryRun {
+  atTimeUTC: number;
+  /**
+   * The projected listings, trimmed to start no earlier than atTimeUTC and
+   * sorted by start time.
+   */
+  listings: Array<Listing>;
+}
+
+export interface ListingExplainerOptions {
+  hostOrgUrl: string;
+  storage: PersistentStorage;
+  listingPolicy: OfferListingPolicy;
+  clock: Clock;
+}
+
+function formatTime(timestampUTC: number): string {
+  return new Date(timestampUTC).toISOString();
+}
+
+function covers(
+  interval: {startTimeUTC: number; endTimeUTC: number},
+  t: number
+) {
+  return interval.startTimeUTC <= t && t < interval.endTimeUTC;
+}
+
+/**
+ * Explains the visibility of offers to organizations by comparing what the
+ * listing policy produces with what is stored in the offer timeline. This class
+ * never writes to storage.
+ */
+export class ListingExplainer {
+  private readonly hostOrgUrl: string;
+  private readonly storage: PersistentStorage;
+  private readonly listingPolicy: OfferListingPolicy;
+  private readonly clock: Clock;
+
+  constructor(options: ListingExplainerOptions) {
+    this.hostOrgUrl = options.hostOrgUrl;
+    this.storage = options.storage;
+    this.listingPolicy = options.listingPolicy;
+    this.clock = options.clock;
+  }
+
+  /**
+   * Explains whether the given offer is visible to the given org at the given
+   * time. If atTimeUTC is omitted, the current time is used.
+   */
+  async explain(
+    offerId: OfferId,
+    orgUrl: string,
+    atTimeUTC?: number
+  ): Promise<ListingExplanation> {
+    const now = this.clock.now();
+    atTimeUTC = atTimeUTC ?? now;
+    const sid = asUnversionedStructuredId(offerId);
+    const result: ListingExplanation = {
+      offerId: sid.id,
+      postingOrgUrl: sid.postingOrgUrl,
+      orgUrl: orgUrl,
+      atTimeUTC: atTimeUTC,
+      isVisible: false,
+      computedListings: [],
+      timeline: [],
+      reservations: [],
+      isRejected: false,
+      explanation: [],
+    };
+    const explain = (sentence: string) => result.explanation.push(sentence);
+    const t = await this.storage.createTransaction('READONLY');
+    const offer = await this.storage.getOffer(
+      t,
+      this.hostOrgUrl,
+      sid.id,
+      sid.postingOrgUrl
+    );
+    if (!offer) {
+      explain(
+        `This host has no record of offer ${sid.id} from ${sid.postingOrgUrl}.`
+      );
+      return result;
+    }
+    result.offer = offer;
+    const rejections = new Set(
+      await this.storage.getAllRejections(
+        t,
+        this.hostOrgUrl,
+        sid.id,
+        sid.postingOrgUrl
+      )
+    );
+    result.isRejected = rejections.has(orgUrl);
+    result.timeline = await asyncIterableToArray(
+      this.storage.getTimelineForOffer(
+        t,
+        this.hostOrgUrl,
+        sid.id,
+        sid.postingOrgUrl
+      )
+    );
+    result.reservations = result.timeline.filter(e => e.isReservation);
+    result.acceptance = await this.storage.getActiveAcceptance(
+      t,
+      this.hostOrgUrl,
+      sid.id,
+      sid.postingOrgUrl
+    );
+    const firstListingTimeUTC = result.timeline[0]?.startTimeUTC ?? now;
+    result.computedListings = (
+      await this.listingPolicy.getListings(
+        offer,
+        firstListingTimeUTC,
+        now,
+        rejections,
+        new Set()
+      )
+    ).filter(listing => listing.orgUrl === orgUrl);
+
+    const orgEntries = result.timeline.filter(
+      e => e.targetOrganizationUrl === orgUrl
+    );
+    const visibleEntry = orgEntries.find(e => covers(e, atTimeUTC!));
+    if (visibleEntry) {
+      result.isVisible = true;
+      explain(
+        `The offer is ${
+          visibleEntry.isReservation ? 'reserved by' : 'listed to'
+        } ${orgUrl} from ${formatTime(
+          visibleEntry.startTimeUTC
+        )} until ${formatTime(visibleEntry.endTimeUTC)}.`
+      );
+      return result;
+    }
+    explain(
+      `The offer is not visible to ${orgUrl} at ${formatTime(atTimeUTC)}.`
+    );
+    if (offer.offerExpirationUTC <= atTimeUTC) {
+      explain(`The offer expired at ${formatTime(offer.offerExpirationUTC)}.`);
+    }
+    if (result.acceptance) {
+      explain(
+        `The offer was accepted by ${
+          result.acceptance.acceptingOrganization
+        } at ${formatTime(
+          result.acceptance.acceptedAtUTC
+        )}, which ended all later listings.`
+      );
+    }
+    if (result.isRejected) {
+      explain(`${orgUrl} rejected the offer, so it is never listed to them.`);
+    }
+    if (sid.postingOrgUrl !== this.hostOrgUrl) {
+      const reshareChainRoot = await this.storage.getBestReshareChainRoot(
+        t,
+        this.hostOrgUrl,
+        sid.id,
+        sid.postingOrgUrl
+      );
+      if (!reshareChainRoot) {
+        explain(
+          'The offer came from another host without a reshare chain that ' +
+            'allows this host to reshare it, so it is not listed to anyone.'
+        );
+      }
+    }
+    const otherReservation = result.reservations.find(
+      e => e.targetOrganizationUrl !== orgUrl && covers(e, atTimeUTC!)
+    );
+    if (otherReservation) {
+      explain(
+        `The offer is reserved by ${
+          otherReservation.targetOrganizationUrl
+        } until ${formatTime(otherReservation.endTimeUTC)}.`
+      );
+    }
+    for (const entry of orgEntries) {
+      explain(
+        `The stored timeline lists the offer to ${orgUrl} from ${formatTime(
+          entry.startTimeUTC
+        )} until ${formatTime(entry.endTimeUTC)}.`
+      );
+    }
+    if (result.computedListings.length === 0) {
+      explain(`The listing policy does not list this offer to ${orgUrl}.`);
+    }
+    for (const listing of result.computedListings) {
+      const start = formatTime(listing.startTimeUTC);
+      const end = formatTime(listing.endTimeUTC);
+      const window = `from ${start} until ${end}`;
+      if (covers(listing, atTimeUTC)) {
+        explain(
+          `The listing policy lists the offer to ${orgUrl} ${window}, but ` +
+            'the stored timeline has no entry for that time. Listings are ' +
+            'only stored when the offer changes, and are cut short by ' +
+            'reservations and acceptances.'
+        );
+      } else {
+        explain(`The listing policy lists the offer to ${orgUrl} ${window}.`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the listings that the given listing policy (or this host's listing
+   * policy, if none is given) would produce for the given offer if it were
+   * first listed at atTimeUTC. Nothing is read from or written to storage.
+   */
+  async dryRun(
+    offer: Offer,
+    listingPolicy: OfferListingPolicy = this.listingPolicy,
+    atTimeUTC: number = this.clock.now()
+  ): Promise<ListingDryRun> {
+    const listings = await listingPolicy.getListings(
+      offer,
+      atTimeUTC,
+      atTimeUTC,
+      new Set(),
+      new Set()
+    );
+    const trimmed = [] as Array<Listing>;
+    for (const listing of listings) {
+      const interval = trim(listing, {
+        startAt: Math.max(listing.startTimeUTC, atTimeUTC),
+      });
+      if (interval) {
+        trimmed.push({...listing, ...interval});
+      }
+    }
+    trimmed.sort(
+      (a, b) =>
+        a.startTimeUTC - b.startTimeUTC ||
+        (a.orgUrl < b.orgUrl ? -1 : a.orgUrl > b.orgUrl ? 1 : 0)
+    );
+    return {atTimeUTC: atTimeUTC, listings: trimmed};
+  }
+}
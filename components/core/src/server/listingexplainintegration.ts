@@ -0,0 +1,149 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer, StructuredOfferId, Validator} from 'opr-models';
+import {checkAccessToken} from '../auth/checkaccesstoken';
+import {TenantNodeIntegrationContext} from '../config/tenantnodeintegrationcontext';
+import {TenantNodeIntegrationInstaller} from '../integrations/tenantnodeintegrationinstaller';
+import {IntegrationApi} from '../integrations/integrationapi';
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {JsonMap} from '../util/jsonvalue';
+import {StatusError} from '../util/statuserror';
+
+export interface ListingExplainIntegrationOptionsJson extends JsonMap {
+  /**
+   * The bearer token that callers must present to use the endpoints installed
+   * by this integration.
+   */
+  accessToken: string;
+}
+
+/** The request body for the explain endpoint. */
+export interface ListingExplainRequest {
+  /** The offer id, either as an offer id url or a bare id. */
+  offerId: string;
+  /** The posting org url. Required if offerId is a bare id. */
+  postingOrgUrl?: string;
+  /** The org whose view of the offer should be explained. */
+  orgUrl: string;
+  atTimeUTC?: number;
+}
+
+/**
+ * The request body for the dry run endpoint. Dry runs always use the host's
+ * configured listing policy; policy configs are never read from the request,
+ * because resolving them could load arbitrary pluggables and expressions.
+ */
+export interface ListingDryRunRequest {
+  offer: Offer;
+  atTimeUTC?: number;
+}
+
+function badRequest(message: string): StatusError {
+  return new StatusError(message, 'LISTING_EXPLAIN_ERROR_BAD_REQUEST', 400);
+}
+
+function checkOptionalTime(atTimeUTC: unknown): number | undefined {
+  if (atTimeUTC !== undefined && typeof atTimeUTC !== 'number') {
+    throw badRequest('atTimeUTC must be a number');
+  }
+  return atTimeUTC;
+}
+
+function toOfferId(request: ListingExplainRequest): string | StructuredOfferId {
+  if (typeof request.offerId !== 'string') {
+    throw badRequest('offerId is required');
+  }
+  if (request.postingOrgUrl === undefined) {
+    return request.offerId;
+  }
+  return {id: request.offerId, postingOrgUrl: request.postingOrgUrl};
+}
+
+function checkOffer(offer: unknown): Offer {
+  if (typeof offer !== 'object' || offer === null) {
+    throw badRequest('offer is required');
+  }
+  const result = Validator.validate(offer, 'offer.schema.json');
+  if (!result.valid) {
+    throw badRequest('Malformed offer:\n' + result.getErrorMessage());
+  }
+  return offer as Offer;
+}
+
+/**
+ * An integration that installs endpoints for debugging listings. POST
+ * <mountPath>/explain explains whether an offer is visible to an org, and POST
+ * <mountPath>/dryrun returns the listings that would be produced for a
+ * hypothetical offer under the host's listing policy. Both endpoints require
+ * the configured access token.
+ */
+export const ListingExplainIntegration = {
+  async construct(
+    json: ListingExplainIntegrationOptionsJson
+  ): Promise<TenantNodeIntegrationInstaller> {
+    const accessToken = json.accessToken;
+    if (!accessToken) {
+      throw new StatusError(
+        'ListingExplain integration requires an accessToken',
+        'LISTING_EXPLAIN_ERROR_NO_ACCESS_TOKEN'
+      );
+    }
+    return {
+      type: 'integrationInstaller',
+
+      async install(api: IntegrationApi): Promise<void> {
+        api.installCustomHandler('explain', {
+          method: 'POST',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            const explainRequest = (body ?? {}) as ListingExplainRequest;
+            if (typeof explainRequest.orgUrl !== 'string') {
+              throw badRequest('orgUrl is required');
+            }
+            return await api.explainListing(
+              toOfferId(explainRequest),
+              explainRequest.orgUrl,
+              checkOptionalTime(explainRequest.atTimeUTC)
+            );
+          },
+        });
+        api.installCustomHandler('dryrun', {
+          method: 'POST',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            const dryRunRequest = (body ?? {}) as ListingDryRunRequest;
+            if ('listingPolicy' in dryRunRequest) {
+              throw badRequest(
+                'Dry runs always use the host listing policy; listingPolicy ' +
+                  'is not accepted'
+              );
+            }
+            return await api.dryRunListings(
+              checkOffer(dryRunRequest.offer),
+              undefined,
+              checkOptionalTime(dryRunRequest.atTimeUTC)
+            );
+          },
+        });
+      },
+    };
+  },
+} as PluggableFactory<
+  TenantNodeIntegrationInstaller,
+  ListingExplainIntegrationOptionsJson,
+  TenantNodeIntegrationContext
+>;
@@ -30,6 +30,9 @@ import loglevel, {Logger} from '../util/loglevel';
 import {PersistentStorage} from '../database/persistentstorage';
 import {TenantNodeConfigProvider} from '../config/tenantnodeconfigprovider';
 import {OprTenantNode} from './oprtenantnode';
+import {IngestionScheduler} from './ingestionscheduler';
+import {TenantNodeCache, TenantNodeLease} from './tenantnodecache';
+import {HandlerRegistration} from '../model/handlerregistration';
 import {
   ConfigJson,
   PluggableConfig,
@@ -40,9 +43,12 @@ import {PluggableFactorySet} from '../integrations/pluggablefactoryset';
 import {TenantNodeIntegrationInstaller} from '../integrations/tenantnodeintegrationinstaller';
 import {
   TenantNodeConfig,
+  TenantNodeConfigJson,
   TenantNodeUserConfigDesc,
 } from '../config/tenantnodeconfig';
 
+const DEFAULT_TENANT_CACHE_TTL_MILLIS = 5 * 60 * 1000;
+
 export type CustomStartupRoutine = (
   app: Express,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -68,6 +74,28 @@ export const ServerConfigDesc = {
     type: 'string',
     isOptional: true,
   },
+  /**
+   * If set, the server ingests offers for every tenant in the background,
+   * checking for tenants with producers that are due this often.
+   */
+  ingestionIntervalMillis: {
+    type: 'number',
+    isOptional: true,
+  },
+  /** The maximum number of tenants to ingest at once. Defaults to 4. */
+  maxConcurrentIngestions: {
+    type: 'number',
+    isOptional: true,
+  },
+  /**
+   * How long a tenant node is reused before its configuration is checked for
+   * changes. Defaults to 5 minutes. If set to 0, a new tenant node is created
+   * for every request.
+   */
+  tenantCacheTtlMillis: {
+    type: 'number',
+    isOptional: true,
+  },
 } as const;
 
 export class OprServer<T extends PluggableFactorySet> {
@@ -77,6 +105,9 @@ export class OprServer<T extends PluggableFactorySet> {
   private tenantIdExtractor!: TenantIdExtractor;
   private hostName?: string;
   private server?: Server;
+  private ingestionScheduler?: IngestionScheduler;
+  private tenantNodeCache!: TenantNodeCache;
+  private tenantConfigChangeRegistration?: HandlerRegistration;
   private logger: Logger;
   private clock: Clock;
   private allowedPluginSet: T;
@@ -108,18 +139,68 @@ export class OprServer<T extends PluggableFactorySet> {
     this.tenantConfigProvider = resolved.result.tenantSetup;
     this.storage = resolved.result.storage;
     this.hostName = resolved.result.hostName;
+    this.tenantNodeCache = new TenantNodeCache({
+      clock: this.clock,
+      ttlMillis:
+        resolved.result.tenantCacheTtlMillis ?? DEFAULT_TENANT_CACHE_TTL_MILLIS,
+      logger: this.logger,
+      getTenantConfig: hostId =>
+        this.tenantConfigProvider.getTenantConfig(hostId),
+      createTenantNode: async (hostId, configJson) => {
+        const hostConfig = await this.resolveHostConfig(hostId, configJson);
+        const host = new OprTenantNode(
+          {
+            ...hostConfig,
+            clock: this.clock,
+          },
+          this.storage
+        );
+        try {
+          await host.start();
+        } catch (e) {
+          await hostConfig.destroy();
+          throw e;
+        }
+        return {node: host, config: hostConfig};
+      },
+    });
+    this.tenantConfigChangeRegistration =
+      this.tenantConfigProvider.onTenantConfigChange?.(
+        hostId => void this.tenantNodeCache.invalidate(hostId)
+      );
+    if (resolved.result.ingestionIntervalMillis !== undefined) {
+      this.ingestionScheduler = new IngestionScheduler({
+        clock: this.clock,
+        intervalMillis: resolved.result.ingestionIntervalMillis,
+        maxConcurrentTenants: resolved.result.maxConcurrentIngestions,
+        logger: this.logger,
+        getTenantIds: () => this.tenantConfigProvider.getAllTenantIds(),
+        ingestTenant: async hostId => {
+          await this.ingestTenant(hostId);
+          return await this.getNextIngestionTimeUTC(hostId);
+        },
+      });
+    }
 
     this.logger.info('Starting frontend server on port', port);
     return new Promise(acceptFn => {
       this.server = this.app.listen(port, async () => {
         this.logger.info('server is listening');
         await this.initializeServer();
+        this.ingestionScheduler?.start();
         acceptFn();
       });
     });
   }
 
+  /**
+   * Stops the server. Background ingestion stops first; any tenants that are
+   * already ingesting are allowed to finish. Cached tenant nodes are destroyed
+   * once the server has stopped handling requests.
+   */
   async stop(): Promise<void> {
+    await this.ingestionScheduler?.stop();
+    this.tenantConfigChangeRegistration?.remove();
     await new Promise<void>((acceptFn, rejectFn) => {
       this.server?.close(err => {
         if (err) {
@@ -129,6 +210,7 @@ export class OprServer<T extends PluggableFactorySet> {
         }
       });
     });
+    await this.tenantNodeCache.clear();
   }
 
   getExpressServer(): Express {
@@ -169,26 +251,17 @@ export class OprServer<T extends PluggableFactorySet> {
           next();
           return;
         }
-        let hostConfig: TenantNodeConfig;
+        let lease: TenantNodeLease;
         try {
-          hostConfig = await this.getHostConfig(hostId);
+          lease = await this.tenantNodeCache.acquire(hostId);
         } catch (e) {
           this.logger.warn('Failed to load config for host', hostId, e);
           next();
           return;
         }
-        const host = new OprTenantNode(
-          {
-            ...hostConfig,
-            clock: this.clock,
-          },
-          this.storage
-        );
-        await host.start();
-        res.on('finish', async () => {
-          await host.destroy();
-          await hostConfig.destroy();
-        });
+        const host = lease.node;
+        res.on('finish', () => lease.release());
+        res.on('close', () => lease.release());
         const hostUrlRoot = this.tenantIdExtractor.getRootPathFromId(hostId);
         if (!fullUrl.startsWith(hostUrlRoot)) {
           throw new StatusError(
@@ -215,10 +288,11 @@ export class OprServer<T extends PluggableFactorySet> {
     );
   }
 
-  private async getHostConfig(hostId: string): Promise<TenantNodeConfig> {
-    // TODO: Cache these in memory for a few minutes
+  private async resolveHostConfig(
+    hostId: string,
+    configJson: TenantNodeConfigJson
+  ): Promise<TenantNodeConfig> {
     let hostUrlRoot = this.tenantIdExtractor.getRootPathFromId(hostId);
-    const configJson = await this.tenantConfigProvider.getTenantConfig(hostId);
     let orgFilePath = configJson.orgFilePath ?? './org.json';
     if (orgFilePath.startsWith('/')) {
       orgFilePath = '.' + orgFilePath;
@@ -231,7 +305,7 @@ export class OprServer<T extends PluggableFactorySet> {
       configJson,
       TenantNodeUserConfigDesc,
       this.allowedPluginSet,
-      {hostOrgUrl}
+      {hostOrgUrl: hostOrgUrl, storage: this.storage, clock: this.clock}
     );
     // Integration installers need to be annotated with a user-provided mount
     // point. We want to be absolutely sure that the mount point value is right,
@@ -280,12 +354,22 @@ export class OprServer<T extends PluggableFactorySet> {
 
   async ingest(): Promise<void> {
     for await (const hostId of this.tenantConfigProvider.getAllTenantIds()) {
-      const hostConfig = await this.getHostConfig(hostId);
-      const host = new OprTenantNode(hostConfig, this.storage);
+      await this.ingestTenant(hostId);
+    }
+  }
+
+  private async ingestTenant(hostId: string): Promise<void> {
+    await this.tenantNodeCache.withTenantNode(hostId, async host => {
       this.logger.info('Starting ingest on host', host.hostOrgUrl);
-      await host.start();
       await host.ingest();
-      await host.destroy();
-    }
+    });
+  }
+
+  private async getNextIngestionTimeUTC(
+    hostId: string
+  ): Promise<number | undefined> {
+    return await this.tenantNodeCache.withTenantNode(hostId, host =>
+      host.getNextIngestionTimeUTC()
+    );
   }
 }
@@ -19,38 +19,101 @@ import {OprNetworkClient} from '../net/oprnetworkclient';
 import {OfferProducer, OfferSetUpdate} from '../offerproducer/offerproducer';
 import {OprFeedProducer} from '../offerproducer/oprfeedproducer';
 import {FeedConfig} from '../policy/feedconfig';
+import {BackoffPolicy} from '../policy/backoffpolicy';
+import {ExponentialBackoffPolicy} from '../policy/exponentialbackoffpolicy';
+import {OfferProducerMetadata} from '../offerproducer/offerproducermetadata';
+import {
+  IngestionReport,
+  ProducerIngestionReport,
+  ProducerIngestionStatus,
+} from '../offerproducer/ingestionreport';
 import {StatusError} from '../util/statuserror';
 import loglevel, {Logger} from '../util/loglevel';
 import {Clock} from '../util/clock';
 import {DefaultClock} from '../util/defaultclock';
-import {OfferModel} from '../model/offermodel';
+import {ProcessUpdateResult} from '../model/offermodel';
 import {PersistentStorage} from '../database/persistentstorage';
+import {Transaction} from '../database/transaction';
 import {PersistentOfferModel} from '../model/persistentoffermodel';
+import {
+  ReshareRevocation,
+  ReshareRevocationRegistry,
+} from '../model/resharerevocations';
+import {validateReshareLimits} from '../model/resharelimits';
 import {OfferListingPolicy} from '../policy/offerlistingpolicy';
 import {Signer} from '../auth/signer';
-import {ListOffersPayload} from 'opr-models';
+import {ListOffersPayload, Offer} from 'opr-models';
 import {OrgConfig} from '../config/orgconfig';
-import {JWTPayload, JWTVerifyOptions} from 'jose';
+import {JWTPayload} from 'jose';
 import {getBearerToken} from '../auth/getbearertoken';
-import {Verifier} from '../auth/verifier';
+import {Verifier, VerifyOptions} from '../auth/verifier';
+import {
+  ReplayProtectingVerifier,
+  ReplayProtectionOptions,
+} from '../auth/replayprotectingverifier';
+import {OperationName} from '../auth/getrequiredscopes';
 import {AuthenticatedRequestHandler} from './handlers/authenticatedrequesthandler';
 import {OrgConfigProvider} from '../config/orgconfigprovider';
 import {ServerAccessControlList} from '../policy/serveraccesscontrollist';
+import {RateLimiter} from '../policy/ratelimiter';
+import {
+  getRateLimit,
+  RateLimits,
+  validateRateLimits,
+} from '../policy/ratelimits';
+import {InMemoryRateLimiter} from '../policy/inmemoryratelimiter';
 import {HistoryRequestHandler} from './handlers/historyrequesthandler';
 import {ListRequestHandler} from './handlers/listrequesthandler';
 import {AcceptRequestHandler} from './handlers/acceptrequesthandler';
 import {RejectRequestHandler} from './handlers/rejectrequesthandler';
 import {ReserveRequestHandler} from './handlers/reserverequesthandler';
+import {ReleaseRequestHandler} from './handlers/releaserequesthandler';
+import {CancelAcceptRequestHandler} from './handlers/cancelacceptrequesthandler';
+import {FulfillmentRequestHandler} from './handlers/fulfillmentrequesthandler';
 import {JwksProvider} from '../auth/jwksprovider';
 import {TenantNodeIntegrationInstaller} from '../integrations/tenantnodeintegrationinstaller';
 import {IntegrationApiImpl} from './integrationapiimpl';
 import {StandardVerifier} from '../auth/standardverifier';
 import {TenantNodeConfig} from '../config/tenantnodeconfig';
+import {forEachWithConcurrencyLimit} from '../util/asynciterable';
+import {OfferId} from '../model/offerid';
+import {
+  ListingDryRun,
+  ListingExplainer,
+  ListingExplanation,
+} from './listingexplainer';
 
 const DEFAULT_RESERVATION_TIME_SECS = 5 * 60;
+const DEFAULT_MAX_CONCURRENT_PRODUCERS = 4;
+const DEFAULT_PRODUCER_TIMEOUT_MILLIS = 5 * 60 * 1000;
+
+/**
+ * Yields the values of the given iterable until the timeout promise rejects,
+ * and then throws the timeout error, even if the iterable is still waiting for
+ * its next value.
+ */
+async function* untilTimedOut<T>(
+  iterable: AsyncIterable<T>,
+  isTimedOut: () => boolean,
+  timeout: Promise<never>
+): AsyncIterable<T> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  for (;;) {
+    const result = await Promise.race([iterator.next(), timeout]);
+    if (result.done) {
+      return;
+    }
+    if (isTimedOut()) {
+      // Rethrows the timeout error.
+      await timeout;
+    }
+    yield result.value;
+  }
+}
 
 export class OprTenantNode {
   readonly hostOrgUrl: string;
+  readonly hostOrgUrlAliases: Array<string>;
   readonly hostUrlRoot: string;
   readonly name: string;
   private enrollmentUrl?: string;
@@ -58,24 +121,36 @@ export class OprTenantNode {
   private listProductsPath: string;
   private acceptProductPath: string;
   private reserveProductPath: string;
+  private releaseProductPath: string;
+  private cancelAcceptProductPath: string;
+  private fulfillmentPath: string;
   private rejectProductPath: string;
   private historyPath: string;
 
   private router: Router;
   private offerProducers: OfferProducer[];
   private feedConfigs: FeedConfig[];
+  private backoffPolicy: BackoffPolicy;
+  private feedBackoffPolicies: Map<string, BackoffPolicy>;
+  private maxConcurrentProducers: number;
+  private producerTimeoutMillis: number;
   private networkClient?: OprNetworkClient;
   private storage: PersistentStorage;
-  private offerModel: OfferModel;
+  private offerModel: PersistentOfferModel;
+  private reshareRevocations: ReshareRevocationRegistry;
   private listingPolicy: OfferListingPolicy;
   private signer: Signer;
   private verifier: Verifier;
+  private replayProtectingVerifier?: ReplayProtectingVerifier;
   private remoteConfigProvider: OrgConfigProvider;
   private orgFilePath: string;
   private jwksProvider?: JwksProvider;
   private accessControlList: ServerAccessControlList;
+  private rateLimits?: RateLimits;
+  private rateLimiter?: RateLimiter;
   private integrationInstallers: TenantNodeIntegrationInstaller[];
   private integrationApi: IntegrationApiImpl;
+  private listingExplainer: ListingExplainer;
 
   private defaultReservationTimeSecs: number;
   private strictCorrectnessChecks: boolean;
@@ -90,6 +165,15 @@ export class OprTenantNode {
       throw new StatusError('Host org url must be set', 'NO_HOST_ORG_URL');
     }
     this.hostOrgUrl = config.hostOrgUrl;
+    this.hostOrgUrlAliases = (config.orgUrlAliases ?? []).map(alias => {
+      if (typeof alias !== 'string') {
+        throw new StatusError(
+          'Org url aliases must be strings',
+          'CONFIG_ERROR_BAD_ORG_URL_ALIAS'
+        );
+      }
+      return alias;
+    });
     this.hostUrlRoot = config.hostUrlRoot;
     this.name = config.name;
     this.isStartedInternal = false;
@@ -109,6 +193,15 @@ export class OprTenantNode {
           }
         : (f as unknown as FeedConfig)
     );
+    this.backoffPolicy = config.backoffPolicy ?? new ExponentialBackoffPolicy();
+    this.feedBackoffPolicies = new Map();
+    for (const feedConfig of this.feedConfigs) {
+      this.installFeedBackoffPolicy(feedConfig);
+    }
+    this.maxConcurrentProducers =
+      config.maxConcurrentProducers ?? DEFAULT_MAX_CONCURRENT_PRODUCERS;
+    this.producerTimeoutMillis =
+      config.producerTimeoutMillis ?? DEFAULT_PRODUCER_TIMEOUT_MILLIS;
     this.listingPolicy = config.listingPolicy;
     this.signer = config.signer;
     this.orgFilePath = config.orgFilePath ?? '/org.json';
@@ -116,6 +209,10 @@ export class OprTenantNode {
     this.listProductsPath = config.listProductsPath ?? '/api/list';
     this.acceptProductPath = config.acceptProductPath ?? '/api/accept';
     this.reserveProductPath = config.reserveProductPath ?? '/api/reserve';
+    this.releaseProductPath = config.releaseProductPath ?? '/api/release';
+    this.cancelAcceptProductPath =
+      config.cancelAcceptProductPath ?? '/api/cancelaccept';
+    this.fulfillmentPath = config.fulfillmentPath ?? '/api/fulfillment';
     this.rejectProductPath = config.rejectProductPath ?? '/api/reject';
     this.historyPath = config.historyPath ?? '/api/history';
     this.jwksURL = config.jwksFilePath ?? '/jwks.json';
@@ -123,21 +220,57 @@ export class OprTenantNode {
     this.defaultReservationTimeSecs =
       config.defaultReservationTimeSecs ?? DEFAULT_RESERVATION_TIME_SECS;
     this.accessControlList = config.accessControlList;
+    if (config.rateLimits !== undefined) {
+      this.rateLimits = validateRateLimits(config.rateLimits);
+      this.rateLimiter = config.rateLimiter ?? new InMemoryRateLimiter();
+    }
     this.remoteConfigProvider =
       config.orgConfigProvider ?? new OrgConfigProvider();
+    this.storage = storage;
     this.verifier =
       config.verifier ?? new StandardVerifier(this.remoteConfigProvider);
+    if (config.replayProtection) {
+      this.replayProtectingVerifier = new ReplayProtectingVerifier(
+        this.verifier,
+        {
+          ...(config.replayProtection === true
+            ? {}
+            : (config.replayProtection as ReplayProtectionOptions)),
+          storage: storage,
+          hostOrgUrl: this.hostOrgUrl,
+          clock: this.clock,
+        }
+      );
+      this.verifier = this.replayProtectingVerifier;
+    }
     this.networkClient = new OprNetworkClient({
       configProvider: this.remoteConfigProvider,
       signer: this.signer,
     });
-    this.storage = storage;
+    this.reshareRevocations = new ReshareRevocationRegistry({
+      storage: storage,
+      hostOrgUrl: this.hostOrgUrl,
+    });
     this.offerModel = new PersistentOfferModel({
       hostOrgUrl: this.hostOrgUrl,
+      hostOrgUrlAliases: this.hostOrgUrlAliases,
+      orgConfigProvider: this.remoteConfigProvider,
       listingPolicy: this.listingPolicy,
       storage: storage,
       clock: this.clock,
       signer: this.signer,
+      acceptCancellationWindowSecs: config.acceptCancellationWindowSecs,
+      reshareRevocations: this.reshareRevocations,
+      reshareLimits:
+        config.reshareLimits !== undefined
+          ? validateReshareLimits(config.reshareLimits)
+          : undefined,
+    });
+    this.listingExplainer = new ListingExplainer({
+      hostOrgUrl: this.hostOrgUrl,
+      storage: storage,
+      listingPolicy: this.listingPolicy,
+      clock: this.clock,
     });
     this.integrationInstallers = config.integrations ?? [];
     this.orgConfig = {
@@ -147,11 +280,22 @@ export class OprTenantNode {
       listProductsEndpointURL: this.pathToUrl(this.listProductsPath),
       acceptProductsEndpointURL: this.pathToUrl(this.acceptProductPath),
       reserveProductsEndpointURL: this.pathToUrl(this.reserveProductPath),
+      releaseProductsEndpointURL: this.pathToUrl(this.releaseProductPath),
+      cancelAcceptProductsEndpointURL: this.pathToUrl(
+        this.cancelAcceptProductPath
+      ),
+      fulfillmentEndpointURL: this.pathToUrl(this.fulfillmentPath),
       rejectProductsEndpointURL: this.pathToUrl(this.rejectProductPath),
       acceptHistoryEndpointURL: this.pathToUrl(this.historyPath),
       jwksURL: this.getJwksUrl(),
       scopesSupported: true,
     };
+    if (this.hostOrgUrlAliases.length > 0) {
+      this.orgConfig.orgUrlAliases = this.hostOrgUrlAliases;
+    }
+    if (config.movedToOrgUrl) {
+      this.orgConfig.movedTo = config.movedToOrgUrl;
+    }
     this.logger =
       config.logger ?? loglevel.getLogger(`OprHost ${this.hostOrgUrl}`);
     this.strictCorrectnessChecks = config.strictCorrectnessChecks ?? false;
@@ -162,6 +306,7 @@ export class OprTenantNode {
       storage: this.storage,
       clock: this.clock,
       netClient: this.networkClient,
+      signer: this.signer,
     });
     this.serveOrgFile();
     this.maybeServeJwks();
@@ -201,6 +346,20 @@ export class OprTenantNode {
 
   installFeedConfig(feedConfig: FeedConfig): void {
     this.feedConfigs.push(feedConfig);
+    this.installFeedBackoffPolicy(feedConfig);
+  }
+
+  private installFeedBackoffPolicy(feedConfig: FeedConfig): void {
+    if (feedConfig.backoff) {
+      this.feedBackoffPolicies.set(
+        feedConfig.organizationUrl,
+        new ExponentialBackoffPolicy(feedConfig.backoff)
+      );
+    }
+  }
+
+  private async getAllProducers(): Promise<Array<OfferProducer>> {
+    return [...(await this.getFeedProducers()), ...this.offerProducers];
   }
 
   private async getFeedProducers(): Promise<Array<OfferProducer>> {
@@ -226,26 +385,60 @@ export class OprTenantNode {
     );
   }
 
-  async ingest(): Promise<void> {
+  /**
+   * Ingests offers from every producer and feed, running up to
+   * maxConcurrentProducers producers at once. Each producer is limited to
+   * producerTimeoutMillis to read and store its offers. Returns a report of
+   * what happened to each producer, in the order the producers are configured.
+   */
+  async ingest(): Promise<IngestionReport> {
     this.logger.info('Ingesting offers');
-    const producers = [
-      ...(await this.getFeedProducers()),
-      ...this.offerProducers,
-    ];
+    const startTimeUTC = this.clock.now();
+    const producers = await this.getAllProducers();
     this.logger.info(
       'Found producers:',
       producers.map(p => p.id)
     );
-    for (const producer of producers) {
-      await this.produceOffers(producer);
-    }
+    const reports = new Map<OfferProducer, ProducerIngestionReport>();
+    await forEachWithConcurrencyLimit(
+      producers,
+      this.maxConcurrentProducers,
+      async producer => {
+        const producerStartTimeUTC = this.clock.now();
+        try {
+          reports.set(producer, await this.produceOffers(producer));
+        } catch (e) {
+          // Producer failures are normally recorded by produceOffers; this only
+          // happens if the failure itself couldn't be recorded.
+          this.logger.error('Ingestion of', producer.id, 'failed', e);
+          reports.set(
+            producer,
+            this.getProducerReport(
+              producer.id,
+              'FAILED',
+              producerStartTimeUTC,
+              undefined,
+              e
+            )
+          );
+        }
+      }
+    );
     this.logger.info('Ingestion complete');
+    return {
+      startTimeUTC: startTimeUTC,
+      durationMillis: this.clock.now() - startTimeUTC,
+      producers: producers.map(p => reports.get(p)!),
+    };
   }
 
-  private async produceOffers(producer: OfferProducer): Promise<void> {
+  private async produceOffers(
+    producer: OfferProducer
+  ): Promise<ProducerIngestionReport> {
     this.logger.info('Ingesting offers from', producer.id);
+    const now = this.clock.now();
     // Note: If there's already a request in process, locking the producer will
-    // throw an exception that cancels this entire operation.
+    // throw an exception and this producer will be skipped.
     this.logger.debug('Obtaining lock on', producer.id);
     let metadata;
     try {
@@ -257,12 +450,10 @@ export class OprTenantNode {
         'update frequency may be too high',
         e
       );
-      return;
+      return this.getProducerReport(producer.id, 'SKIPPED', now);
     }
     this.logger.debug('Lock obtained on', producer.id);
-    const now = this.clock.now();
     let nextRunTimestampUTC = metadata?.nextRunTimestampUTC;
-    let result: OfferSetUpdate | undefined;
     try {
       if (nextRunTimestampUTC && nextRunTimestampUTC > now) {
         this.logger.info(
@@ -273,11 +464,12 @@ export class OprTenantNode {
           'ms'
         );
         await this.offerModel.writeOfferProducerMetadata({
+          ...metadata,
           lastUpdateTimeUTC: now,
           nextRunTimestampUTC: nextRunTimestampUTC ?? now,
           organizationUrl: producer.id,
         });
-        return;
+        return this.getProducerReport(producer.id, 'SKIPPED', now);
       }
       const diffStartTimestampUTC = metadata?.lastUpdateTimeUTC;
       let listPayload: ListOffersPayload;
@@ -291,9 +483,11 @@ export class OprTenantNode {
           requestedResultFormat: 'SNAPSHOT',
         };
       }
-      result = await producer.produceOffers(listPayload);
-      nextRunTimestampUTC = result.earliestNextRequestUTC;
-      await this.offerModel.processUpdate(producer.id, result);
+      const {update, counts} = await this.readAndProcessUpdate(
+        producer,
+        listPayload
+      );
+      nextRunTimestampUTC = update.earliestNextRequestUTC;
       await this.offerModel.writeOfferProducerMetadata({
         lastUpdateTimeUTC: now,
         nextRunTimestampUTC: nextRunTimestampUTC ?? now,
@@ -301,27 +495,289 @@ export class OprTenantNode {
       });
       this.logger.info('Ingestion of', producer.id, 'succeeded');
       this.logger.debug('dbg Lock released on', producer.id);
+      return this.getProducerReport(producer.id, 'SUCCEEDED', now, counts);
     } catch (e) {
       this.logger.warn('Failed to fetch', producer.id, 'error:', e);
+      const consecutiveFailureCount =
+        (metadata?.consecutiveFailureCount ?? 0) + 1;
+      const backoffPolicy = this.getBackoffPolicy(producer.id);
+      const circuitBreakerTripped = backoffPolicy.isTripped(
+        consecutiveFailureCount
+      );
+      if (circuitBreakerTripped && !metadata?.circuitBreakerTripped) {
+        this.logger.warn(
+          'Circuit breaker tripped for',
+          producer.id,
+          'after',
+          consecutiveFailureCount,
+          'consecutive failures'
+        );
+      }
       nextRunTimestampUTC =
-        now + this.getFailedRetryIntervalMillis(producer.id);
+        now +
+        this.getFailedRetryIntervalMillis(producer.id, consecutiveFailureCount);
       await this.offerModel.writeOfferProducerMetadata({
         lastUpdateTimeUTC: metadata?.lastUpdateTimeUTC,
         nextRunTimestampUTC: nextRunTimestampUTC ?? now,
         organizationUrl: producer.id,
+        consecutiveFailureCount: consecutiveFailureCount,
+        lastErrorMessage: e instanceof Error ? e.message : String(e),
+        lastFailureTimeUTC: now,
+        circuitBreakerTripped: circuitBreakerTripped,
       });
       this.logger.debug('Lock released on', producer.id);
+      return this.getProducerReport(producer.id, 'FAILED', now, undefined, e);
     }
   }
 
+  /**
+   * Reads an update from the given producer and stores it, failing with a
+   * timeout error if reading the update or storing it takes longer than
+   * producerTimeoutMillis. Updates are stored one at a time, so the deadline
+   * for storing an update starts when the update's turn comes; time spent
+   * waiting for other producers' updates doesn't count against it. Once the
+   * timeout passes, the update's offers or patches stop iterating, so an
+   * update that is still being read fails and its transaction is released.
+   * This waits for that to happen before reporting the timeout.
+   */
+  private async readAndProcessUpdate(
+    producer: OfferProducer,
+    listPayload: ListOffersPayload
+  ): Promise<{update: OfferSetUpdate; counts: ProcessUpdateResult}> {
+    const timeoutError = new StatusError(
+      `Ingestion of ${producer.id} timed out after ` +
+        `${this.producerTimeoutMillis}ms`,
+      'INGESTION_ERROR_PRODUCER_TIMEOUT',
+      504
+    );
+    let isTimedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let rejectTimeout: (e: unknown) => void = () => {};
+    const timeout = new Promise<never>((unusedAcceptFn, rejectFn) => {
+      rejectTimeout = rejectFn;
+    });
+    const startDeadline = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        isTimedOut = true;
+        rejectTimeout(timeoutError);
+      }, this.producerTimeoutMillis);
+    };
+    let processing: Promise<ProcessUpdateResult> | undefined;
+    const work = (async () => {
+      startDeadline();
+      const update = await producer.produceOffers(listPayload);
+      if (isTimedOut) {
+        throw timeoutError;
+      }
+      // The deadline is paused until the update's turn comes.
+      clearTimeout(timer);
+      processing = this.offerModel.processUpdate(
+        producer.id,
+        {
+          ...update,
+          offers: update.offers
+            ? untilTimedOut(update.offers, () => isTimedOut, timeout)
+            : undefined,
+          delta: update.delta
+            ? untilTimedOut(update.delta, () => isTimedOut, timeout)
+            : undefined,
+        },
+        startDeadline
+      );
+      return {update: update, counts: await processing};
+    })();
+    // If the timeout wins the race, the abandoned work will eventually fail,
+    // and nobody else is waiting for that failure.
+    work.catch(e =>
+      this.logger.debug('Abandoned ingestion of', producer.id, 'failed', e)
+    );
+    try {
+      return await Promise.race([work, timeout]);
+    } catch (e) {
+      if (isTimedOut && processing) {
+        // The abandoned update stops reading offers at the timeout, so this
+        // only waits for it to release its transaction.
+        await processing.catch(() => {});
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getProducerReport(
+    producerId: string,
+    status: ProducerIngestionStatus,
+    startTimeUTC: number,
+    counts?: ProcessUpdateResult,
+    error?: unknown
+  ): ProducerIngestionReport {
+    return {
+      producerId: producerId,
+      status: status,
+      offersAdded: counts?.offersAdded ?? 0,
+      offersUpdated: counts?.offersUpdated ?? 0,
+      offersDeleted: counts?.offersDeleted ?? 0,
+      durationMillis: this.clock.now() - startTimeUTC,
+      errorMessage:
+        error === undefined
+          ? undefined
+          : error instanceof Error
+            ? error.message
+            : String(error),
+    };
+  }
+
   /**
    * Returns the minimum number of milliseconds to wait before retrying a
-   * failed request from a producer. This takes the producer id so that
-   * a producer-specific backoff policy can be implemented.
+   * failed request from a producer, according to the producer's backoff
+   * policy.
+   */
+  protected getFailedRetryIntervalMillis(
+    producerId: string,
+    consecutiveFailureCount: number
+  ): number {
+    return this.getBackoffPolicy(producerId).getRetryIntervalMillis(
+      consecutiveFailureCount
+    );
+  }
+
+  /**
+   * Returns the backoff policy for the given producer. Feeds with their own
+   * backoff options use a policy built from those options; all other producers
+   * use the tenant node's backoff policy.
+   */
+  private getBackoffPolicy(producerId: string): BackoffPolicy {
+    return this.feedBackoffPolicies.get(producerId) ?? this.backoffPolicy;
+  }
+
+  /**
+   * Returns the earliest time at which one of this node's producers is due to
+   * run again, or undefined if this node has no producers. Producers that have
+   * never run are due immediately.
+   */
+  async getNextIngestionTimeUTC(): Promise<number | undefined> {
+    let nextRunTimestampUTC: number | undefined = undefined;
+    for (const producer of await this.getAllProducers()) {
+      const metadata = await this.offerModel.getOfferProducerMetadata(
+        producer.id
+      );
+      const producerNextRunUTC =
+        metadata?.nextRunTimestampUTC ?? this.clock.now();
+      if (
+        nextRunTimestampUTC === undefined ||
+        producerNextRunUTC < nextRunTimestampUTC
+      ) {
+        nextRunTimestampUTC = producerNextRunUTC;
+      }
+    }
+    return nextRunTimestampUTC;
+  }
+
+  /**
+   * Returns the metadata for every producer (including feeds) whose circuit
+   * breaker is currently tripped.
+   */
+  async getTrippedProducers(): Promise<Array<OfferProducerMetadata>> {
+    const result = [] as Array<OfferProducerMetadata>;
+    for (const producer of await this.getAllProducers()) {
+      const metadata = await this.offerModel.getOfferProducerMetadata(
+        producer.id
+      );
+      if (metadata?.circuitBreakerTripped) {
+        result.push(metadata);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Explains whether an offer is visible to an org at the given time (or now,
+   * if no time is given).
+   */
+  explainListing(
+    offerId: OfferId,
+    orgUrl: string,
+    atTimeUTC?: number
+  ): Promise<ListingExplanation> {
+    return this.listingExplainer.explain(offerId, orgUrl, atTimeUTC);
+  }
+
+  /**
+   * Returns the listings the given listing policy (or this host's listing
+   * policy) would produce for a hypothetical offer, without storing anything.
+   */
+  dryRunListings(
+    offer: Offer,
+    listingPolicy?: OfferListingPolicy,
+    atTimeUTC?: number
+  ): Promise<ListingDryRun> {
+    return this.listingExplainer.dryRun(offer, listingPolicy, atTimeUTC);
+  }
+
+  /**
+   * Revokes a reshare entitlement granted by this host. Chains that include a
+   * revoked link can no longer be used to accept or reserve offers from this
+   * host, and offers are relisted so that revoked chains are no longer listed.
+   * The revocation and the relisting are written in the same transaction, so
+   * the revocation is only stored if the relisting succeeds. Returns the
+   * stored revocation.
+   */
+  async revokeReshareEntitlement(
+    revocation: ReshareRevocation
+  ): Promise<ReshareRevocation> {
+    const t = await this.storage.createTransaction('READWRITE');
+    let stored: ReshareRevocation;
+    try {
+      stored = await this.reshareRevocations.add(
+        revocation,
+        this.clock.now(),
+        t
+      );
+      await this.relistAllOffers(t);
+    } catch (e) {
+      await t.fail();
+      throw e;
+    }
+    await t.commit();
+    return stored;
+  }
+
+  /**
+   * Removes a revocation added by revokeReshareEntitlement(), and relists
+   * offers in the same transaction so that the restored chains are listed
+   * again. Returns whether the revocation existed.
    */
-  protected getFailedRetryIntervalMillis(producerId: string): number {
-    // TODO: Build a useful, per-producer backoff policy.
-    return 10 * 1000 /* 10 seconds */;
+  async restoreReshareEntitlement(
+    revocation: ReshareRevocation
+  ): Promise<boolean> {
+    const t = await this.storage.createTransaction('READWRITE');
+    let removed: boolean;
+    try {
+      removed = await this.reshareRevocations.remove(revocation, t);
+      if (removed) {
+        await this.relistAllOffers(t);
+      }
+    } catch (e) {
+      await t.fail();
+      throw e;
+    }
+    await t.commit();
+    return removed;
+  }
+
+  /** Returns all reshare entitlements this host has revoked. */
+  getReshareRevocations(): Promise<Array<ReshareRevocation>> {
+    return this.reshareRevocations.getAll();
+  }
+
+  private async relistAllOffers(t: Transaction): Promise<void> {
+    const producers = await this.getAllProducers();
+    await this.offerModel.relistOffers(
+      producers.map(p => p.id),
+      t
+    );
   }
 
   private pathToUrl(path?: string): string | undefined {
@@ -397,6 +853,15 @@ export class OprTenantNode {
     this.router.post(this.reserveProductPath, (req, res) => {
       return this.handleReserve(req, res);
     });
+    this.router.post(this.releaseProductPath, (req, res) => {
+      return this.handleRelease(req, res);
+    });
+    this.router.post(this.cancelAcceptProductPath, (req, res) => {
+      return this.handleCancelAccept(req, res);
+    });
+    this.router.post(this.fulfillmentPath, (req, res) => {
+      return this.handleFulfillment(req, res);
+    });
     this.router.post(this.historyPath, (req, res) => {
       return this.handleHistory(req, res);
     });
@@ -406,23 +871,60 @@ export class OprTenantNode {
     return this.isStartedInternal;
   }
 
-  async checkAuth(
-    req: Request,
-    options?: JWTVerifyOptions
-  ): Promise<JWTPayload> {
+  async checkAuth(req: Request, options?: VerifyOptions): Promise<JWTPayload> {
     options = {...options, currentDate: new Date(this.clock.now())};
     const token = getBearerToken(req.header('Authorization'));
     const payload = (await this.verifier.verify(token, options)).payload;
     return payload;
   }
 
+  /**
+   * Takes a token from the rate limiter for the given org and operation, if
+   * the operation is rate limited. If the org is over its limit, sets the
+   * Retry-After header and throws a 429 StatusError.
+   */
+  private async checkRateLimit(
+    res: Response,
+    orgUrl: string,
+    operation: OperationName
+  ): Promise<void> {
+    if (!this.rateLimits || !this.rateLimiter) {
+      return;
+    }
+    const limit = getRateLimit(this.rateLimits, orgUrl, operation);
+    if (!limit) {
+      return;
+    }
+    const decision = await this.rateLimiter.take(
+      orgUrl,
+      operation,
+      limit,
+      this.clock.now()
+    );
+    if (!decision.allowed) {
+      const retryAfterSecs = Math.max(
+        Math.ceil((decision.retryAfterMillis ?? 0) / 1000),
+        1
+      );
+      res.set('Retry-After', String(retryAfterSecs));
+      throw new StatusError(
+        `Organization ${orgUrl} has exceeded its rate limit for ${operation}`,
+        'RATE_LIMIT_ERROR_EXCEEDED',
+        429,
+        undefined,
+        {retryAfterSecs: retryAfterSecs}
+      );
+    }
+  }
+
   async handleAuthenticatedRequest<RequestType, ResponseType>(
     req: Request,
     res: Response,
-    requestHandler: AuthenticatedRequestHandler<RequestType, ResponseType>
+    requestHandler: AuthenticatedRequestHandler<RequestType, ResponseType>,
+    operation?: OperationName
   ): Promise<void> {
     // Check the token.
-    const jwtPayload = await this.checkAuth(req);
+    const jwtPayload = await this.checkAuth(req, {operation: operation});
     // Check for required fields.
     if (!jwtPayload.iss) {
       throw new StatusError(
@@ -432,15 +934,17 @@ export class OprTenantNode {
       );
     }
     if (jwtPayload.aud) {
-      if (jwtPayload.aud !== this.hostOrgUrl) {
-        // TODO(johndayrichter): Add support for a list of additional
-        // acceptable org urls to allow for smooth URL changes.
+      const audiences = Array.isArray(jwtPayload.aud)
+        ? jwtPayload.aud
+        : [jwtPayload.aud];
+      const acceptedAudiences = [this.hostOrgUrl, ...this.hostOrgUrlAliases];
+      if (!audiences.some(aud => acceptedAudiences.indexOf(aud) >= 0)) {
         throw new StatusError(
           'Auth token audience is ' +
-            jwtPayload.aud +
-            ', but this server' +
+            audiences.join(', ') +
+            ', but this server ' +
             'requires audience ' +
-            this.hostOrgUrl,
+            acceptedAudiences.join(' or '),
           'AUTH_ERROR_AUD_INVALID',
           401
         );
@@ -452,6 +956,9 @@ export class OprTenantNode {
         401
       );
     }
+    if (operation) {
+      await this.checkRateLimit(res, jwtPayload.iss, operation);
+    }
     // Check the scopes
     const jwtScopes = ((jwtPayload['scope'] as string) || '').split(' ');
     for (const scope of requestHandler.scopes || []) {
@@ -480,6 +987,12 @@ export class OprTenantNode {
         );
       }
     }
+    // Only use up the token once the request has passed every check, so that
+    // a rejected request can be retried with the same token.
+    await this.replayProtectingVerifier?.recordTokenUse(jwtPayload, {
+      operation: operation,
+      currentDate: new Date(this.clock.now()),
+    });
 
     const response = await requestHandler.handle(requestBody, jwtPayload);
     if (this.strictCorrectnessChecks) {
@@ -493,7 +1006,8 @@ export class OprTenantNode {
     await this.handleAuthenticatedRequest(
       req,
       res,
-      new ListRequestHandler(this.offerModel)
+      new ListRequestHandler(this.offerModel),
+      'LIST'
     );
   }
 
@@ -502,7 +1016,14 @@ export class OprTenantNode {
     await this.handleAuthenticatedRequest(
       req,
       res,
-      new AcceptRequestHandler(this.offerModel, this.hostOrgUrl, this.verifier)
+      new AcceptRequestHandler(
+        this.offerModel,
+        this.hostOrgUrl,
+        this.verifier,
+        this.hostOrgUrlAliases,
+        this.reshareRevocations
+      ),
+      'ACCEPT'
     );
   }
 
@@ -511,7 +1032,8 @@ export class OprTenantNode {
     await this.handleAuthenticatedRequest(
       req,
       res,
-      new RejectRequestHandler(this.offerModel)
+      new RejectRequestHandler(this.offerModel),
+      'REJECT'
     );
   }
 
@@ -524,8 +1046,56 @@ export class OprTenantNode {
         this.offerModel,
         this.defaultReservationTimeSecs,
         this.hostOrgUrl,
-        this.verifier
-      )
+        this.verifier,
+        this.hostOrgUrlAliases,
+        this.reshareRevocations
+      ),
+      'RESERVE'
+    );
+  }
+
+  async handleRelease(req: Request, res: Response): Promise<void> {
+    this.logger.info('Handling request to release');
+    await this.handleAuthenticatedRequest(
+      req,
+      res,
+      new ReleaseRequestHandler(
+        this.offerModel,
+        this.hostOrgUrl,
+        this.verifier,
+        this.hostOrgUrlAliases
+      ),
+      'RELEASE'
+    );
+  }
+
+  async handleCancelAccept(req: Request, res: Response): Promise<void> {
+    this.logger.info('Handling request to cancel acceptance');
+    await this.handleAuthenticatedRequest(
+      req,
+      res,
+      new CancelAcceptRequestHandler(
+        this.offerModel,
+        this.hostOrgUrl,
+        this.verifier,
+        this.hostOrgUrlAliases
+      ),
+      'CANCELACCEPT'
+    );
+  }
+
+  async handleFulfillment(req: Request, res: Response): Promise<void> {
+    this.logger.info('Handling fulfillment report');
+    await this.handleAuthenticatedRequest(
+      req,
+      res,
+      new FulfillmentRequestHandler(
+        this.offerModel,
+        this.hostOrgUrl,
+        this.verifier,
+        this.hostOrgUrlAliases
+      ),
+      'FULFILLMENT'
     );
   }
 
@@ -534,7 +1104,8 @@ export class OprTenantNode {
     await this.handleAuthenticatedRequest(
       req,
       res,
-      new HistoryRequestHandler(this.offerModel)
+      new HistoryRequestHandler(this.offerModel),
+      'HISTORY'
     );
   }
 }
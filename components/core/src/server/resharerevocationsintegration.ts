@@ -0,0 +1,91 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {checkAccessToken} from '../auth/checkaccesstoken';
+import {TenantNodeIntegrationContext} from '../config/tenantnodeintegrationcontext';
+import {IntegrationApi} from '../integrations/integrationapi';
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {TenantNodeIntegrationInstaller} from '../integrations/tenantnodeintegrationinstaller';
+import {validateReshareRevocation} from '../model/resharerevocations';
+import {JsonMap} from '../util/jsonvalue';
+import {StatusError} from '../util/statuserror';
+
+export interface ReshareRevocationsIntegrationOptionsJson extends JsonMap {
+  /**
+   * The bearer token that callers must present to use the endpoints installed
+   * by this integration.
+   */
+  accessToken: string;
+}
+
+/**
+ * An integration that installs endpoints for managing revoked reshare
+ * entitlements. GET <mountPath>/list returns all revocations, POST
+ * <mountPath>/revoke revokes the entitlement described by the request body,
+ * and POST <mountPath>/restore removes a revocation. Request bodies are
+ * ReshareRevocation objects. Every endpoint requires the configured access
+ * token.
+ */
+export const ReshareRevocationsIntegration = {
+  async construct(
+    json: ReshareRevocationsIntegrationOptionsJson
+  ): Promise<TenantNodeIntegrationInstaller> {
+    const accessToken = json.accessToken;
+    if (!accessToken) {
+      throw new StatusError(
+        'ReshareRevocations integration requires an accessToken',
+        'RESHARE_REVOCATION_ERROR_NO_ACCESS_TOKEN'
+      );
+    }
+    return {
+      type: 'integrationInstaller',
+
+      async install(api: IntegrationApi): Promise<void> {
+        api.installCustomHandler('list', {
+          method: 'GET',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            return {revocations: await api.getReshareRevocations()};
+          },
+        });
+        api.installCustomHandler('revoke', {
+          method: 'POST',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            const revocation = validateReshareRevocation(body);
+            return {
+              revocation: await api.revokeReshareEntitlement(revocation),
+            };
+          },
+        });
+        api.installCustomHandler('restore', {
+          method: 'POST',
+          async handle(body, request) {
+            checkAccessToken(request.header('Authorization'), accessToken);
+            const revocation = validateReshareRevocation(body);
+            return {
+              restored: await api.restoreReshareEntitlement(revocation),
+            };
+          },
+        });
+      },
+    };
+  },
+} as PluggableFactory<
+  TenantNodeIntegrationInstaller,
+  ReshareRevocationsIntegrationOptionsJson,
+  TenantNodeIntegrationContext
+>;
@@ -0,0 +1,263 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  TenantNodeConfig,
+  TenantNodeConfigJson,
+} from '../config/tenantnodeconfig';
+import {Clock} from '../util/clock';
+import loglevel, {Logger} from '../util/loglevel';
+import {OprTenantNode} from './oprtenantnode';
+
+/** A started tenant node and the resolved config it was built from. */
+export interface CachedTenantNode {
+  node: OprTenantNode;
+  config: TenantNodeConfig;
+}
+
+/**
+ * A tenant node that has been borrowed from a TenantNodeCache. The node will
+ * not be destroyed until the lease is released.
+ */
+export interface TenantNodeLease {
+  readonly node: OprTenantNode;
+  /** Returns the node to the cache. Calling this more than once is harmless. */
+  release(): Promise<void>;
+}
+
+export interface TenantNodeCacheOptions {
+  clock: Clock;
+  /**
+   * How long a tenant node is used before its configuration is checked for
+   * changes. If this is zero or less, nothing is cached, and a new tenant node
+   * is created for every lease.
+   */
+  ttlMillis: number;
+  logger?: Logger;
+  /** Fetches the current configuration JSON for a tenant. */
+  getTenantConfig(hostId: string): Promise<TenantNodeConfigJson>;
+  /** Resolves a tenant configuration and constructs a started tenant node. */
+  createTenantNode(
+    hostId: string,
+    configJson: TenantNodeConfigJson
+  ): Promise<CachedTenantNode>;
+}
+
+interface CacheEntry extends CachedTenantNode {
+  configKey: string;
+  checkedAtUTC: number;
+  leaseCount: number;
+  isEvicted: boolean;
+  isDestroyed: boolean;
+}
+
+/**
+ * A cache of started tenant nodes, keyed by tenant id. A tenant node (and the
+ * integrations it installs) is reused until it has been cached for ttlMillis,
+ * at which point the tenant's configuration is fetched again. If the
+ * configuration is unchanged, the cached node is kept for another ttlMillis;
+ * otherwise a new node is created from the new configuration. Calling
+ * invalidate() discards a tenant's node right away.
+ *
+ * Discarded nodes are destroyed once every lease on them has been released.
+ */
+export class TenantNodeCache {
+  private readonly options: TenantNodeCacheOptions;
+  private readonly logger: Logger;
+  private readonly entries: Map<string, Promise<CacheEntry>>;
+
+  constructor(options: TenantNodeCacheOptions) {
+    this.options = options;
+    this.logger = options.logger ?? loglevel.getLogger('TenantNodeCache');
+    this.entries = new Map();
+  }
+
+  /**
+   * Borrows the tenant node for the given tenant id, creating it if necessary.
+   * The lease must be released when the caller is done with the node.
+   */
+  async acquire(hostId: string): Promise<TenantNodeLease> {
+    let entry: CacheEntry;
+    if (this.options.ttlMillis > 0) {
+      do {
+        // The entry may have been evicted by an invalidation while it was
+        // loading, in which case it's already being destroyed.
+        entry = await this.getEntry(hostId);
+      } while (entry.isEvicted);
+    } else {
+      entry = await this.createEntry(
+        hostId,
+        await this.options.getTenantConfig(hostId)
+      );
+      entry.isEvicted = true;
+    }
+    entry.leaseCount++;
+    let isReleased = false;
+    return {
+      node: entry.node,
+      release: async () => {
+        if (isReleased) {
+          return;
+        }
+        isReleased = true;
+        entry.leaseCount--;
+        await this.maybeDestroy(entry);
+      },
+    };
+  }
+
+  /**
+   * Borrows the tenant node for the given tenant id, calls the given function
+   * with it, and releases the node once the function completes.
+   */
+  async withTenantNode<R>(
+    hostId: string,
+    fn: (node: OprTenantNode) => Promise<R>
+  ): Promise<R> {
+    const lease = await this.acquire(hostId);
+    try {
+      return await fn(lease.node);
+    } finally {
+      await lease.release();
+    }
+  }
+
+  /**
+   * Discards the cached tenant node for the given tenant id, so that the next
+   * lease uses a new node built from a freshly fetched configuration.
+   */
+  async invalidate(hostId: string): Promise<void> {
+    const entryPromise = this.entries.get(hostId);
+    if (!entryPromise) {
+      return;
+    }
+    this.logger.info('Invalidating cached tenant node for', hostId);
+    this.entries.delete(hostId);
+    await this.evict(entryPromise);
+  }
+
+  /** Discards every cached tenant node. */
+  async clear(): Promise<void> {
+    const entryPromises = [...this.entries.values()];
+    this.entries.clear();
+    await Promise.all(entryPromises.map(p => this.evict(p)));
+  }
+
+  private async getEntry(hostId: string): Promise<CacheEntry> {
+    const cached = this.entries.get(hostId);
+    if (!cached) {
+      return await this.setEntry(
+        hostId,
+        (async () =>
+          this.createEntry(
+            hostId,
+            await this.options.getTenantConfig(hostId)
+          ))()
+      );
+    }
+    const entry = await cached;
+    if (
+      this.options.clock.now() - entry.checkedAtUTC <
+      this.options.ttlMillis
+    ) {
+      return entry;
+    }
+    if (this.entries.get(hostId) !== cached) {
+      // Another caller already started replacing this entry.
+      return await this.getEntry(hostId);
+    }
+    return await this.setEntry(hostId, this.refreshEntry(hostId, entry));
+  }
+
+  /**
+   * Stores a pending entry in the cache, removing it again if it can't be
+   * created.
+   */
+  private async setEntry(
+    hostId: string,
+    entryPromise: Promise<CacheEntry>
+  ): Promise<CacheEntry> {
+    this.entries.set(hostId, entryPromise);
+    try {
+      return await entryPromise;
+    } catch (e) {
+      if (this.entries.get(hostId) === entryPromise) {
+        this.entries.delete(hostId);
+      }
+      throw e;
+    }
+  }
+
+  private async refreshEntry(
+    hostId: string,
+    oldEntry: CacheEntry
+  ): Promise<CacheEntry> {
+    let configJson: TenantNodeConfigJson;
+    try {
+      configJson = await this.options.getTenantConfig(hostId);
+    } catch (e) {
+      await this.evict(oldEntry);
+      throw e;
+    }
+    if (JSON.stringify(configJson) === oldEntry.configKey) {
+      oldEntry.checkedAtUTC = this.options.clock.now();
+      return oldEntry;
+    }
+    this.logger.info('Configuration changed for tenant', hostId);
+    await this.evict(oldEntry);
+    return await this.createEntry(hostId, configJson);
+  }
+
+  private async createEntry(
+    hostId: string,
+    configJson: TenantNodeConfigJson
+  ): Promise<CacheEntry> {
+    const tenantNode = await this.options.createTenantNode(hostId, configJson);
+    return {
+      ...tenantNode,
+      configKey: JSON.stringify(configJson),
+      checkedAtUTC: this.options.clock.now(),
+      leaseCount: 0,
+      isEvicted: false,
+      isDestroyed: false,
+    };
+  }
+
+  private async evict(entry: CacheEntry | Promise<CacheEntry>): Promise<void> {
+    let resolvedEntry: CacheEntry;
+    try {
+      resolvedEntry = await entry;
+    } catch (e) {
+      // An entry that failed to load has nothing to clean up.
+      return;
+    }
+    resolvedEntry.isEvicted = true;
+    await this.maybeDestroy(resolvedEntry);
+  }
+
+  private async maybeDestroy(entry: CacheEntry): Promise<void> {
+    if (!entry.isEvicted || entry.leaseCount > 0 || entry.isDestroyed) {
+      return;
+    }
+    entry.isDestroyed = true;
+    try {
+      await entry.node.destroy();
+      await entry.config.destroy();
+    } catch (e) {
+      this.logger.warn('Failed to destroy tenant node', entry.node.name, e);
+    }
+  }
+}
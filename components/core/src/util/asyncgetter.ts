@@ -50,6 +50,7 @@ export class CachedAsyncGetter<T> implements AsyncGetter<T> {
   async get(): Promise<T> {
     if (!this.cache || this.getCacheAgeMillis() > this.maxAgeMillis) {
       this.cache = await this.delegate.get();
+      this.lastCacheFetchTimestampUTC = this.clock.now();
     }
     return this.cache;
   }
@@ -63,3 +63,46 @@ export async function* iterableToAsync<T>(it: Iterable<T>): AsyncIterable<T> {
     yield x;
   }
 }
+
+/**
+ * Calls the given function on every item in the given iterable, with at most
+ * maxConcurrency calls in progress at once. If a call throws, no new calls are
+ * started, and the first error is rethrown after the calls in progress finish.
+ */
+export async function forEachWithConcurrencyLimit<T>(
+  it: Iterable<T> | AsyncIterable<T>,
+  maxConcurrency: number,
+  fn: (x: T) => Promise<void>
+): Promise<void> {
+  const iterator = (
+    Symbol.asyncIterator in it
+      ? (it as AsyncIterable<T>)
+      : iterableToAsync(it as Iterable<T>)
+  )[Symbol.asyncIterator]();
+  let hasError = false;
+  let firstError: unknown;
+  const runWorker = async () => {
+    while (!hasError) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      try {
+        await fn(next.value);
+      } catch (e) {
+        if (!hasError) {
+          hasError = true;
+          firstError = e;
+        }
+      }
+    }
+  };
+  const workers = [];
+  for (let i = 0; i < Math.max(1, maxConcurrency); i++) {
+    workers.push(runWorker());
+  }
+  await Promise.all(workers);
+  if (hasError) {
+    throw firstError;
+  }
+}
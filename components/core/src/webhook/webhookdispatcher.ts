@@ -0,0 +1,363 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createHmac} from 'crypto';
+import fetch from 'node-fetch';
+import {IntegrationApi} from '../integrations/integrationapi';
+import {OfferChange} from '../model/offerchange';
+import {OfferChangeType} from '../model/offerchangetype';
+import {BackoffPolicy} from '../policy/backoffpolicy';
+import {ExponentialBackoffPolicy} from '../policy/exponentialbackoffpolicy';
+import {
+  asyncIterableToArray,
+  forEachWithConcurrencyLimit,
+} from '../util/asynciterable';
+import {Clock} from '../util/clock';
+import {DefaultClock} from '../util/defaultclock';
+import {JsonMap} from '../util/jsonvalue';
+import loglevel, {Logger} from '../util/loglevel';
+import getUuid from '../util/randomuuid';
+
+/**
+ * How a webhook delivery is signed so that the receiver can tell it came from
+ * this host.
+ * - HMAC: An X-OPR-Signature header containing "sha256=" followed by the hex
+ *   HMAC-SHA256 of the request body, keyed with the endpoint's shared secret.
+ * - JWT: An Authorization bearer token issued by this host's signer, with the
+ *   endpoint url as the audience and the delivery id as the subject. The
+ *   receiver verifies it against this host's published JWKS.
+ * - NONE: The delivery is not signed.
+ */
+export type WebhookSigningMethod = 'HMAC' | 'JWT' | 'NONE';
+
+export interface WebhookEndpointJson extends JsonMap {
+  /** The url to which change events are POSTed. */
+  url: string;
+  /**
+   * The change types sent to this endpoint. If omitted, all changes are sent.
+   */
+  events?: Array<OfferChangeType>;
+  /** How deliveries are signed. Defaults to JWT. */
+  signingMethod?: WebhookSigningMethod;
+  /** The shared secret for HMAC signing. Required if signingMethod is HMAC. */
+  hmacSecret?: string;
+}
+
+/** A single change event waiting to be delivered to a single endpoint. */
+export interface WebhookDelivery extends JsonMap {
+  /** A unique id for this delivery, sent in the X-OPR-Delivery-Id header. */
+  id: string;
+  url: string;
+  changeType: OfferChangeType;
+  /** The serialized JSON request body. */
+  body: string;
+  createdAtUTC: number;
+  attemptCount: number;
+  /** The earliest time at which the next delivery attempt may be made. */
+  nextAttemptUTC: number;
+  /** A description of the most recent failure, if any. */
+  lastError?: string;
+  /** The time this delivery was moved to the dead letter list, if it was. */
+  deadLetteredAtUTC?: number;
+}
+
+/**
+ * Posts a request body to a url with the given headers and returns the http
+ * status of the response. Rejects if no response was received.
+ */
+export type WebhookPostFn = (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMillis: number
+) => Promise<number>;
+
+export interface WebhookDispatcherOptions {
+  api: IntegrationApi;
+  endpoints: Array<WebhookEndpointJson>;
+  /**
+   * The prefix for all keys this dispatcher writes to the key-value store.
+   * Must be unique among the webhook integrations installed on a host.
+   */
+  keyPrefix: string;
+  /**
+   * The number of failed attempts after which a delivery is moved to the dead
+   * letter list. Defaults to 10.
+   */
+  maxAttempts?: number;
+  /**
+   * Determines how long to wait before retrying a failed delivery. Defaults to
+   * an ExponentialBackoffPolicy with the default settings.
+   */
+  backoffPolicy?: BackoffPolicy;
+  /** The timeout for a single delivery attempt. Defaults to 10 seconds. */
+  requestTimeoutMillis?: number;
+  /** The maximum number of deliveries attempted at once. Defaults to 4. */
+  maxConcurrentDeliveries?: number;
+  clock?: Clock;
+  postFn?: WebhookPostFn;
+  logger?: Logger;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_REQUEST_TIMEOUT_MILLIS = 10 * 1000; /* 10 seconds */
+const DEFAULT_MAX_CONCURRENT_DELIVERIES = 4;
+
+const defaultPostFn: WebhookPostFn = async (
+  url,
+  body,
+  headers,
+  timeoutMillis
+) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    body: body,
+    headers: headers,
+    timeout: timeoutMillis,
+  });
+  return response.status;
+};
+
+/**
+ * Delivers offer change events to webhook endpoints. Every delivery is written
+ * to a durable queue in the host's key-value store before it is attempted, and
+ * is only removed once the endpoint responds with a 2xx status. Failed
+ * deliveries are retried by processQueue() according to the backoff policy,
+ * and deliveries that fail too many times are moved to a dead letter list.
+ */
+export class WebhookDispatcher {
+  private readonly api: IntegrationApi;
+  private readonly endpoints: Array<WebhookEndpointJson>;
+  private readonly queuePrefix: string;
+  private readonly deadLetterPrefix: string;
+  private readonly maxAttempts: number;
+  private readonly backoffPolicy: BackoffPolicy;
+  private readonly requestTimeoutMillis: number;
+  private readonly maxConcurrentDeliveries: number;
+  private readonly clock: Clock;
+  private readonly postFn: WebhookPostFn;
+  private readonly logger: Logger;
+  private readonly inFlightIds = new Set<string>();
+
+  constructor(options: WebhookDispatcherOptions) {
+    for (const endpoint of options.endpoints) {
+      if (endpoint.signingMethod === 'HMAC' && !endpoint.hmacSecret) {
+        throw new Error(
+          `Webhook endpoint ${endpoint.url} uses HMAC signing but has no ` +
+            'hmacSecret'
+        );
+      }
+    }
+    this.api = options.api;
+    this.endpoints = options.endpoints;
+    this.queuePrefix = options.keyPrefix + 'queue/';
+    this.deadLetterPrefix = options.keyPrefix + 'deadletter/';
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.backoffPolicy =
+      options.backoffPolicy ?? new ExponentialBackoffPolicy();
+    this.requestTimeoutMillis =
+      options.requestTimeoutMillis ?? DEFAULT_REQUEST_TIMEOUT_MILLIS;
+    this.maxConcurrentDeliveries =
+      options.maxConcurrentDeliveries ?? DEFAULT_MAX_CONCURRENT_DELIVERIES;
+    this.clock = options.clock ?? new DefaultClock();
+    this.postFn = options.postFn ?? defaultPostFn;
+    this.logger = options.logger ?? loglevel.getLogger('OprWebhookDispatcher');
+  }
+
+  /**
+   * Queues a delivery of the given change to every endpoint that is
+   * interested in it, and then attempts the new deliveries. Errors are logged,
+   * never thrown.
+   */
+  async handleChange(change: OfferChange): Promise<void> {
+    const endpoints = this.endpoints.filter(
+      endpoint => !endpoint.events || endpoint.events.includes(change.type)
+    );
+    if (endpoints.length === 0) {
+      return;
+    }
+    const body = JSON.stringify({
+      hostUrl: this.api.hostOrgUrl,
+      changeType: change.type,
+      timestampUTC: change.timestampUTC,
+      offerId: change.newValue?.id ?? change.oldValue?.id,
+      offer: change.newValue ?? change.oldValue,
+      fulfillment: change.fulfillment,
+    });
+    const now = this.clock.now();
+    const deliveries = [] as Array<WebhookDelivery>;
+    try {
+      for (const endpoint of endpoints) {
+        const delivery: WebhookDelivery = {
+          // Ids sort by creation time, so the queue is read oldest-first.
+          id: `${String(now).padStart(15, '0')}-${getUuid()}`,
+          url: endpoint.url,
+          changeType: change.type,
+          body: body,
+          createdAtUTC: now,
+          attemptCount: 0,
+          nextAttemptUTC: now,
+        };
+        await this.api.storeValue(this.queuePrefix + delivery.id, delivery);
+        deliveries.push(delivery);
+      }
+    } catch (e) {
+      this.logger.error('Could not queue webhook delivery', e);
+    }
+    await this.attemptAll(deliveries);
+  }
+
+  /**
+   * Attempts every queued delivery whose next attempt time has passed. Errors
+   * are logged, never thrown.
+   */
+  async processQueue(): Promise<void> {
+    try {
+      const now = this.clock.now();
+      const queued = (await asyncIterableToArray(
+        this.api.getValues(this.queuePrefix)
+      )) as Array<WebhookDelivery>;
+      await this.attemptAll(queued.filter(d => d.nextAttemptUTC <= now));
+    } catch (e) {
+      this.logger.error('Could not process webhook queue', e);
+    }
+  }
+
+  /** Returns all queued deliveries, oldest first. */
+  async getQueuedDeliveries(): Promise<Array<WebhookDelivery>> {
+    return (await asyncIterableToArray(
+      this.api.getValues(this.queuePrefix)
+    )) as Array<WebhookDelivery>;
+  }
+
+  /** Returns all dead-lettered deliveries, oldest first. */
+  async getDeadLetters(): Promise<Array<WebhookDelivery>> {
+    return (await asyncIterableToArray(
+      this.api.getValues(this.deadLetterPrefix)
+    )) as Array<WebhookDelivery>;
+  }
+
+  private async attemptAll(deliveries: Array<WebhookDelivery>): Promise<void> {
+    await forEachWithConcurrencyLimit(
+      deliveries,
+      this.maxConcurrentDeliveries,
+      async delivery => {
+        try {
+          await this.attempt(delivery);
+        } catch (e) {
+          this.logger.error(
+            'Error processing webhook delivery',
+            delivery.id,
+            e
+          );
+        }
+      }
+    );
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    // A delivery that is already being attempted (by a change handler or an
+    // overlapping call to processQueue) is skipped.
+    if (this.inFlightIds.has(delivery.id)) {
+      return;
+    }
+    this.inFlightIds.add(delivery.id);
+    try {
+      const error = await this.send(delivery);
+      if (error === undefined) {
+        await this.api.clearAllValues(this.queuePrefix + delivery.id);
+        return;
+      }
+      const attemptCount = delivery.attemptCount + 1;
+      const now = this.clock.now();
+      if (attemptCount >= this.maxAttempts) {
+        this.logger.warn(
+          'Webhook delivery',
+          delivery.id,
+          'to',
+          delivery.url,
+          'failed after',
+          attemptCount,
+          'attempts:',
+          error
+        );
+        await this.api.storeValue(this.deadLetterPrefix + delivery.id, {
+          ...delivery,
+          attemptCount: attemptCount,
+          lastError: error,
+          deadLetteredAtUTC: now,
+        });
+        await this.api.clearAllValues(this.queuePrefix + delivery.id);
+        return;
+      }
+      await this.api.storeValue(this.queuePrefix + delivery.id, {
+        ...delivery,
+        attemptCount: attemptCount,
+        lastError: error,
+        nextAttemptUTC:
+          now + this.backoffPolicy.getRetryIntervalMillis(attemptCount),
+      });
+    } finally {
+      this.inFlightIds.delete(delivery.id);
+    }
+  }
+
+  /**
+   * Sends a delivery to its endpoint. Returns undefined on success, or a
+   * description of the failure.
+   */
+  private async send(delivery: WebhookDelivery): Promise<string | undefined> {
+    const endpoint = this.endpoints.find(e => e.url === delivery.url);
+    if (!endpoint) {
+      return 'Endpoint is no longer configured';
+    }
+    try {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-OPR-Delivery-Id': delivery.id,
+        'X-OPR-Event-Type': delivery.changeType,
+      };
+      switch (endpoint.signingMethod ?? 'JWT') {
+        case 'HMAC': {
+          const hmac = createHmac('sha256', endpoint.hmacSecret!)
+            .update(delivery.body)
+            .digest('hex');
+          headers['X-OPR-Signature'] = `sha256=${hmac}`;
+          break;
+        }
+        case 'JWT': {
+          const token = await this.api.issueToken(endpoint.url, {
+            sub: delivery.id,
+          });
+          headers['Authorization'] = `Bearer ${token}`;
+          break;
+        }
+      }
+      const status = await this.postFn(
+        endpoint.url,
+        delivery.body,
+        headers,
+        this.requestTimeoutMillis
+      );
+      if (status < 200 || status >= 300) {
+        return `Endpoint responded with status ${status}`;
+      }
+      return undefined;
+    } catch (e) {
+      return `Request failed: ${(e as Error).message ?? e}`;
+    }
+  }
+}
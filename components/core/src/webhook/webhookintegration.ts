@@ -0,0 +1,142 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {checkAccessToken} from '../auth/checkaccesstoken';
+import {IntegrationApi} from '../integrations/integrationapi';
+import {PluggableFactory} from '../integrations/pluggablefactory';
+import {TenantNodeIntegrationContext} from '../config/tenantnodeintegrationcontext';
+import {TenantNodeIntegrationInstaller} from '../integrations/tenantnodeintegrationinstaller';
+import {HandlerRegistration} from '../model/handlerregistration';
+import {
+  ExponentialBackoffPolicy,
+  ExponentialBackoffPolicyOptionsJson,
+} from '../policy/exponentialbackoffpolicy';
+import {JsonMap} from '../util/jsonvalue';
+import loglevel from '../util/loglevel';
+import {WebhookDispatcher, WebhookEndpointJson} from './webhookdispatcher';
+
+export interface WebhookIntegrationOptionsJson extends JsonMap {
+  /** The endpoints that receive offer change events. */
+  endpoints: Array<WebhookEndpointJson>;
+  /**
+   * The number of failed attempts after which a delivery is moved to the dead
+   * letter list. Defaults to 10.
+   */
+  maxAttempts?: number;
+  /** Options for the exponential backoff between delivery retries. */
+  retryBackoff?: ExponentialBackoffPolicyOptionsJson;
+  /**
+   * How often the retry queue is checked for deliveries that are due. Defaults
+   * to 30 seconds.
+   */
+  retryPollIntervalMillis?: number;
+  /** The timeout for a single delivery attempt. Defaults to 10 seconds. */
+  requestTimeoutMillis?: number;
+  /**
+   * A bearer token that must be presented to read the dead letter list. If
+   * omitted, the dead letter endpoint is not installed.
+   */
+  deadLetterAccessToken?: string;
+}
+
+const DEFAULT_RETRY_POLL_INTERVAL_MILLIS = 30 * 1000; /* 30 seconds */
+
+/**
+ * An integration that POSTs offer change events to a list of webhook
+ * endpoints. Deliveries are queued durably in the host's key-value store and
+ * retried with exponential backoff, so each event is delivered at least once
+ * unless it fails maxAttempts times, in which case it is moved to a dead letter
+ * list. If deadLetterAccessToken is configured, the dead letter list is served
+ * at GET <mountPath>/deadletters.
+ */
+export const WebhookIntegration = {
+  async construct(
+    json: WebhookIntegrationOptionsJson,
+    context: TenantNodeIntegrationContext
+  ): Promise<TenantNodeIntegrationInstaller> {
+    const logger = loglevel.getLogger(`OprWebhook ${context.hostOrgUrl}`);
+    let registration: HandlerRegistration | undefined;
+    let retryTimer: NodeJS.Timeout | undefined;
+    const stop = () => {
+      if (retryTimer) {
+        clearInterval(retryTimer);
+        retryTimer = undefined;
+      }
+      registration?.remove();
+      registration = undefined;
+    };
+    const installer: TenantNodeIntegrationInstaller = {
+      type: 'integrationInstaller',
+
+      async install(api: IntegrationApi): Promise<void> {
+        // Reinstalling replaces the previous dispatch loop rather than adding
+        // a second one.
+        stop();
+        const dispatcher = new WebhookDispatcher({
+          api: api,
+          endpoints: json.endpoints,
+          keyPrefix: `webhooks/${installer.mountPath ?? 'default'}/`,
+          maxAttempts: json.maxAttempts,
+          backoffPolicy: new ExponentialBackoffPolicy(json.retryBackoff),
+          requestTimeoutMillis: json.requestTimeoutMillis,
+          logger: logger,
+        });
+        // Change events are fired once the offer model's transaction has
+        // committed. Deliveries are queued without making the model wait.
+        registration = api.registerChangeHandler(async change => {
+          void dispatcher.handleChange(change);
+        });
+        retryTimer = setInterval(
+          () => void dispatcher.processQueue(),
+          json.retryPollIntervalMillis ?? DEFAULT_RETRY_POLL_INTERVAL_MILLIS
+        );
+        retryTimer.unref();
+        // Deliveries left over from a previous run are retried right away.
+        void dispatcher.processQueue();
+        const deadLetterAccessToken = json.deadLetterAccessToken;
+        if (deadLetterAccessToken) {
+          api.installCustomHandler('deadletters', {
+            method: 'GET',
+            async handle(body, request) {
+              checkAccessToken(
+                request.header('Authorization'),
+                deadLetterAccessToken
+              );
+              return {
+                deliveries: await dispatcher.getDeadLetters(),
+              };
+            },
+          });
+        }
+      },
+
+      async uninstall(): Promise<void> {
+        stop();
+      },
+
+      // Called when the tenant's config is destroyed, which also covers
+      // tenant nodes that failed to start after this installer ran.
+      async destroy(): Promise<void> {
+        stop();
+      },
+    };
+    return installer;
+  },
+} as PluggableFactory<
+  TenantNodeIntegrationInstaller,
+  WebhookIntegrationOptionsJson,
+  TenantNodeIntegrationContext
+>;
@@ -0,0 +1,137 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import chai, {expect} from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {decodeProtectedHeader} from 'jose';
+import {generateKeys} from '../../src/auth/generatekeys';
+import {KeyRing, KeyRingJson, stageKey} from '../../src/auth/keyring';
+import {RotatingJwksProvider} from '../../src/auth/local/rotatingjwksprovider';
+import {RotatingKeySigner} from '../../src/auth/local/rotatingkeysigner';
+import {StandardVerifier} from '../../src/auth/standardverifier';
+import {OrgConfigProvider} from '../../src/config/orgconfigprovider';
+import {FakeJsonFetcher} from '../../src/net/fakejsonfetcher';
+import {FakeClock} from '../../src/util/fakeclock';
+import FakeOrgAConfigJson from '../sampledata/orga/org.json';
+
+chai.use(chaiAsPromised);
+
+const ORG_URL = 'https://fakeorga.org/org.json';
+const JWKS_URL = 'https://fakeorga.org/jwks.json';
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+describe('KeyRing', () => {
+  let keyRingJson: KeyRingJson;
+  const clock = new FakeClock();
+
+  before(async () => {
+    const firstKeys = await generateKeys('ES256');
+    const nextKeys = await generateKeys('ES256');
+    keyRingJson = stageKey(
+      {keys: [{kid: 'first', privateKey: firstKeys.privateKey}]},
+      {
+        kid: 'next',
+        privateKey: nextKeys.privateKey,
+        activationTimeUTC: 10 * HOUR_MILLIS,
+      }
+    );
+  });
+
+  it('retires existing keys when a key is staged', () => {
+    expect(keyRingJson.keys.map(x => x.retirementTimeUTC)).to.deep.equal([
+      10 * HOUR_MILLIS,
+      undefined,
+    ]);
+    expect(() =>
+      stageKey(keyRingJson, {kid: 'next', privateKey: {alg: 'ES256'}})
+    ).to.throw('already contains');
+  });
+
+  it('selects the signing key and published keys by time', async () => {
+    const keyRing = new KeyRing(keyRingJson, {
+      overlapMillis: HOUR_MILLIS,
+      clock: clock,
+    });
+    const expectations = [
+      [0, 'first', ['first']],
+      [9.5, 'first', ['first', 'next']],
+      [10.5, 'next', ['first', 'next']],
+      [11.5, 'next', ['next']],
+    ] as Array<[number, string, Array<string>]>;
+    for (const [hour, signingKid, publishedKids] of expectations) {
+      clock.setTime(hour * HOUR_MILLIS);
+      expect((await keyRing.getSigningKey()).kid).to.equal(signingKid);
+      const publicKeys = await keyRing.getPublicKeys();
+      expect(publicKeys.map(x => x.kid)).to.deep.equal(publishedKids);
+      for (const publicKey of publicKeys) {
+        expect(publicKey.d).to.be.undefined;
+      }
+    }
+  });
+
+  it('fails when no key is active', async () => {
+    const keyRing = new KeyRing(
+      {keys: [{...keyRingJson.keys[1], retirementTimeUTC: 20 * HOUR_MILLIS}]},
+      {clock: clock}
+    );
+    clock.setTime(0);
+    await expect(keyRing.getSigningKey()).to.be.rejectedWith(
+      'No key in the key ring is active'
+    );
+  });
+
+  it('verifies chains signed before a rotation', async () => {
+    const keyRing = new KeyRing(keyRingJson, {
+      overlapMillis: HOUR_MILLIS,
+      clock: clock,
+    });
+    const signer = new RotatingKeySigner(ORG_URL, keyRing, clock);
+    const jwksProvider = new RotatingJwksProvider(keyRing);
+    const fetcher = new FakeJsonFetcher();
+    fetcher.map(ORG_URL, FakeOrgAConfigJson);
+    const verifier = new StandardVerifier(
+      new OrgConfigProvider({jsonFetcher: fetcher})
+    );
+    const chainOptions = {
+      initialEntitlements: 'abc',
+      initialIssuer: ORG_URL,
+      finalSubject: 'https://fakeorgb.org/org.json',
+    };
+
+    clock.setTime(9.5 * HOUR_MILLIS);
+    const oldChain = await signer.signChain([], chainOptions.finalSubject, {
+      initialEntitlement: 'abc',
+      scopes: ['ACCEPT'],
+    });
+    expect(decodeProtectedHeader(oldChain[0]).kid).to.equal('first');
+
+    clock.setTime(10.5 * HOUR_MILLIS);
+    const newChain = await signer.signChain([], chainOptions.finalSubject, {
+      initialEntitlement: 'abc',
+      scopes: ['ACCEPT'],
+    });
+    expect(decodeProtectedHeader(newChain[0]).kid).to.equal('next');
+    fetcher.map(JWKS_URL, await jwksProvider.getJwks());
+    await verifier.verifyChain(oldChain, chainOptions);
+    await verifier.verifyChain(newChain, chainOptions);
+
+    clock.setTime(11.5 * HOUR_MILLIS);
+    fetcher.map(JWKS_URL, await jwksProvider.getJwks());
+    await verifier.verifyChain(newChain, chainOptions);
+    await expect(verifier.verifyChain(oldChain, chainOptions)).to.be.rejected;
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import chai, {expect} from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {decodeJwt} from 'jose';
+import {LocalKeySigner} from '../../src/auth/local/localkeysigner';
+import {ReplayProtectingVerifier} from '../../src/auth/replayprotectingverifier';
+import {StandardVerifier} from '../../src/auth/standardverifier';
+import {OrgConfigProvider} from '../../src/config/orgconfigprovider';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {FakeJsonFetcher} from '../../src/net/fakejsonfetcher';
+import {FakeClock} from '../../src/util/fakeclock';
+import FakeOrgAConfigJson from '../sampledata/orga/org.json';
+import FakeOrgAConfigJwks from '../sampledata/orga/jwks.json';
+import FakeOrgAPrivateKey from '../sampledata/orga/priv.key.json';
+
+chai.use(chaiAsPromised);
+
+const ORG_URL = 'https://fakeorga.org/org.json';
+const HOST_URL = 'https://fakeorgb.org/org.json';
+const MINUTE_MILLIS = 60 * 1000;
+
+describe('ReplayProtectingVerifier', () => {
+  const clock = new FakeClock();
+  const signer = new LocalKeySigner(ORG_URL, FakeOrgAPrivateKey, clock);
+  let storage: InMemoryPersistentStorage;
+  let verifier: ReplayProtectingVerifier;
+
+  const verifyAt = async (
+    token: string,
+    operation?: 'ACCEPT' | 'LIST'
+  ): Promise<void> => {
+    const options = {currentDate: new Date(clock.now()), operation: operation};
+    const result = await verifier.verify(token, options);
+    await verifier.recordTokenUse(result.payload, options);
+  };
+
+  beforeEach(() => {
+    clock.setTime(0);
+    const fetcher = new FakeJsonFetcher();
+    fetcher.map(ORG_URL, FakeOrgAConfigJson);
+    fetcher.map('https://fakeorga.org/jwks.json', FakeOrgAConfigJwks);
+    storage = new InMemoryPersistentStorage();
+    verifier = new ReplayProtectingVerifier(
+      new StandardVerifier(new OrgConfigProvider({jsonFetcher: fetcher})),
+      {storage: storage, hostOrgUrl: HOST_URL, clock: clock}
+    );
+  });
+
+  it('issues tokens with unique ids', async () => {
+    const first = decodeJwt(await signer.issueToken(HOST_URL));
+    const second = decodeJwt(await signer.issueToken(HOST_URL));
+    expect(first.jti).to.be.a('string');
+    expect(first.jti).to.not.equal(second.jti);
+  });
+
+  it('rejects a token that is used twice', async () => {
+    const token = await signer.issueToken(HOST_URL);
+    await verifyAt(token, 'ACCEPT');
+    await expect(verifyAt(token, 'ACCEPT')).to.be.rejectedWith(
+      'Auth token has already been used'
+    );
+    await verifyAt(await signer.issueToken(HOST_URL), 'ACCEPT');
+  });
+
+  it('only records tokens when asked to', async () => {
+    const token = await signer.issueToken(HOST_URL);
+    const options = {currentDate: new Date(clock.now())};
+    await verifier.verify(token, options);
+    const result = await verifier.verify(token, options);
+    await verifier.recordTokenUse(result.payload, options);
+    await expect(verifier.recordTokenUse(result.payload, options)).to.be
+      .rejected;
+    await expect(verifier.verify(token, options)).to.be.rejectedWith(
+      'Auth token has already been used'
+    );
+  });
+
+  it('completes the transactions it opens', async () => {
+    let openTransactionCount = 0;
+    const createTransaction = storage.createTransaction.bind(storage);
+    storage.createTransaction = async type => {
+      const t = await createTransaction(type);
+      const commit = t.commit.bind(t);
+      const fail = t.fail.bind(t);
+      openTransactionCount++;
+      t.commit = () => {
+        openTransactionCount--;
+        return commit();
+      };
+      t.fail = () => {
+        openTransactionCount--;
+        return fail();
+      };
+      return t;
+    };
+    const token = await signer.issueToken(HOST_URL);
+    await verifyAt(token, 'ACCEPT');
+    await expect(verifyAt(token, 'ACCEPT')).to.be.rejected;
+    expect(openTransactionCount).to.equal(0);
+  });
+
+  it('does not track tokens for unprotected operations', async () => {
+    const token = await signer.issueToken(HOST_URL);
+    await verifyAt(token, 'LIST');
+    await verifyAt(token, 'LIST');
+    await verifyAt(token, 'ACCEPT');
+    await expect(verifyAt(token)).to.be.rejectedWith(
+      'Auth token has already been used'
+    );
+  });
+
+  it('removes expired token ids', async () => {
+    await verifyAt(
+      await signer.issueToken(HOST_URL, {maxAgeMillis: MINUTE_MILLIS})
+    );
+    await verifyAt(
+      await signer.issueToken(HOST_URL, {maxAgeMillis: 20 * MINUTE_MILLIS})
+    );
+    clock.setTime(2 * MINUTE_MILLIS);
+    expect(await verifier.removeExpiredTokenIds()).to.equal(1);
+    clock.setTime(21 * MINUTE_MILLIS);
+    expect(await verifier.removeExpiredTokenIds()).to.equal(1);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {
+  getCapabilityMismatches,
+  getOfferRequirements,
+  RecipientCapabilities,
+} from '../../src/capabilities/recipientcapabilities';
+import {RecipientCapabilityRegistry} from '../../src/capabilities/recipientcapabilityregistry';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {Listing} from '../../src/model/listing';
+import {CapabilityListingPolicy} from '../../src/policy/listings/capabilitylistingpolicy';
+import {StaticAsyncGetter} from '../../src/util/asyncgetter';
+import {StatusError} from '../../src/util/statuserror';
+import {fakeListingPolicy, makeTestOffer} from '../fixtures';
+
+const FROZEN_PALLETS = makeTestOffer({
+  description: 'Frozen peas',
+  offerExpirationUTC: 10000,
+  contents: {
+    description: 'Two pallets of frozen peas',
+    quantity: 2,
+    packagingType: 'pallet',
+    unitWeight: {unit: 'kilogram', value: 500},
+    contents: [
+      {
+        description: 'Frozen peas',
+        quantity: 100,
+        itemTypeIds: [{vocabularyId: 'foodex2', itemId: 'A00PY'}],
+        otherUnitMeasurements: [
+          {unit: 'farenheit', dimension: 'temperature-max', value: 0},
+        ],
+      },
+    ],
+  },
+});
+
+function capabilities(
+  orgUrl: string,
+  extra: Partial<RecipientCapabilities> = {}
+): RecipientCapabilities {
+  return {orgUrl: orgUrl, ...extra};
+}
+
+describe('Recipient capabilities', () => {
+  it('computes offer requirements', () => {
+    expect(getOfferRequirements(FROZEN_PALLETS)).to.deep.equal({
+      coldStorage: 'FROZEN',
+      palletCount: 2,
+      needsLoadingDock: true,
+      totalWeightKg: 1000,
+      productItemTypeIds: [[{vocabularyId: 'foodex2', itemId: 'A00PY'}]],
+    });
+  });
+
+  it('finds capability mismatches', () => {
+    const requirements = getOfferRequirements(FROZEN_PALLETS);
+    expect(
+      getCapabilityMismatches(
+        capabilities('https://a.org', {
+          coldStorage: 'REFRIGERATED',
+          hasLoadingDock: false,
+          maxPallets: 1,
+          maxWeightKg: 200,
+          vehicleTypes: ['van'],
+          acceptedCategories: [{itemId: 'A0BX1'}],
+        }),
+        requirements,
+        ['truck']
+      )
+    ).to.have.lengthOf(6);
+    expect(
+      getCapabilityMismatches(
+        capabilities('https://b.org', {
+          coldStorage: 'FROZEN',
+          hasLoadingDock: true,
+          maxPallets: 2,
+          vehicleTypes: ['van', 'truck'],
+          acceptedCategories: [{vocabularyId: 'foodex2', itemId: 'A00PY'}],
+        }),
+        requirements,
+        ['truck']
+      )
+    ).to.be.empty;
+  });
+
+  it('stores capabilities in the registry', async () => {
+    const registry = new RecipientCapabilityRegistry({
+      storage: new InMemoryPersistentStorage(),
+      hostOrgUrl: 'https://host.org',
+    });
+    await registry.put(capabilities('https://a.org', {maxPallets: 1}));
+    await registry.put(capabilities('https://a.org/b', {maxPallets: 2}));
+    expect(
+      await registry.put(capabilities('https://a.org', {maxPallets: 3}))
+    ).to.deep.equal(capabilities('https://a.org', {maxPallets: 1}));
+    expect([...(await registry.getAll()).keys()]).to.have.members([
+      'https://a.org',
+      'https://a.org/b',
+    ]);
+    expect(await registry.remove('https://a.org')).to.be.true;
+    expect(await registry.remove('https://a.org')).to.be.false;
+    expect(await registry.get('https://a.org')).to.be.undefined;
+    expect(await registry.get('https://a.org/b')).to.deep.equal(
+      capabilities('https://a.org/b', {maxPallets: 2})
+    );
+  });
+
+  it('rejects invalid capabilities', async () => {
+    const registry = new RecipientCapabilityRegistry({
+      storage: new InMemoryPersistentStorage(),
+      hostOrgUrl: 'https://host.org',
+    });
+    try {
+      await registry.put({
+        orgUrl: 'https://a.org',
+        coldStorage: 'CHILLY',
+      } as unknown as RecipientCapabilities);
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect((e as StatusError).errorCode).to.equal(
+        'CAPABILITIES_ERROR_INVALID'
+      );
+    }
+  });
+
+  it('removes listings for orgs that cannot receive an offer', async () => {
+    const listing = (orgUrl: string): Listing => ({
+      orgUrl: orgUrl,
+      startTimeUTC: 0,
+      endTimeUTC: 10000,
+    });
+    const delegate = fakeListingPolicy([
+      listing('https://nofreezer.org'),
+      listing('https://freezer.org'),
+      listing('https://unregistered.org'),
+      listing('https://vanonly.org'),
+    ]);
+    const registered = new Map(
+      [
+        capabilities('https://nofreezer.org', {coldStorage: 'REFRIGERATED'}),
+        capabilities('https://freezer.org', {coldStorage: 'FROZEN'}),
+        capabilities('https://vanonly.org', {vehicleTypes: ['van']}),
+      ].map(c => [c.orgUrl, c])
+    );
+    const policy = new CapabilityListingPolicy(
+      delegate,
+      new StaticAsyncGetter(registered),
+      {
+        vehicleRequirements: [
+          {filter: {packagingTypes: ['pallet']}, vehicleTypes: ['truck']},
+        ],
+      }
+    );
+    const listings = await policy.getListings(
+      FROZEN_PALLETS,
+      0,
+      0,
+      new Set(),
+      new Set()
+    );
+    expect(listings.map(l => l.orgUrl)).to.deep.equal([
+      'https://freezer.org',
+      'https://unregistered.org',
+    ]);
+  });
+});
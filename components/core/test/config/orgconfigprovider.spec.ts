@@ -0,0 +1,64 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import chai, {expect} from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {OrgConfigProvider} from '../../src/config/orgconfigprovider';
+import {FakeJsonFetcher} from '../../src/net/fakejsonfetcher';
+
+chai.use(chaiAsPromised);
+
+const OLD_URL = 'https://old.org/org.json';
+const NEW_URL = 'https://new.org/org.json';
+const OTHER_URL = 'https://other.org/org.json';
+
+describe('OrgConfigProvider', () => {
+  function createProvider(newOrgAliases: Array<string>) {
+    const fetcher = new FakeJsonFetcher();
+    fetcher.map(OLD_URL, {
+      name: 'Old',
+      organizationURL: OLD_URL,
+      movedTo: NEW_URL,
+    });
+    fetcher.map(NEW_URL, {
+      name: 'New',
+      organizationURL: NEW_URL,
+      jwksURL: 'https://new.org/jwks.json',
+      orgUrlAliases: newOrgAliases,
+    });
+    fetcher.map('https://new.org/jwks.json', {keys: []});
+    fetcher.map(OTHER_URL, {name: 'Other', organizationURL: OTHER_URL});
+    return new OrgConfigProvider({jsonFetcher: fetcher});
+  }
+
+  it('follows moves to orgs that list the old url as an alias', async () => {
+    const provider = createProvider([OLD_URL]);
+    expect((await provider.get(OLD_URL)).name).to.equal('New');
+    expect(await provider.getJwks(OLD_URL)).to.deep.equal({keys: []});
+    expect(await provider.getCanonicalOrgUrl(OLD_URL)).to.equal(NEW_URL);
+    expect(await provider.getCanonicalOrgUrl(NEW_URL)).to.equal(NEW_URL);
+    expect(await provider.isSameOrg(OLD_URL, NEW_URL)).to.be.true;
+  });
+
+  it('rejects moves to orgs that do not list the old url', async () => {
+    const provider = createProvider([]);
+    await expect(provider.get(OLD_URL))
+      .to.eventually.be.rejectedWith('does not list')
+      .and.have.property('errorCode', 'ORG_CONFIG_INVALID_MOVE');
+    expect(await provider.isSameOrg(NEW_URL, OTHER_URL)).to.be.false;
+  });
+});
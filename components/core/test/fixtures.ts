@@ -0,0 +1,56 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Offer} from 'opr-models';
+import {Listing} from '../src/model/listing';
+import {FakeListingPolicy} from '../src/policy/universalacceptlistingpolicy';
+
+/**
+ * Returns an offer of one 10kg crate of apples with the id offer1, which
+ * expires 10 hours after the epoch. The given fields replace the defaults.
+ */
+export function makeTestOffer(fields: Partial<Offer> = {}): Offer {
+  return {
+    id: 'offer1',
+    description: 'Apples',
+    contactInfo: {contactName: 'Someone'},
+    offerCreationUTC: 0,
+    offerUpdateUTC: 0,
+    offerExpirationUTC: 10 * 60 * 60 * 1000,
+    offerLocation: {locationName: 'Warehouse', locationAddress: '1 Main St'},
+    contents: {
+      description: 'Apples',
+      quantity: 1,
+      unitWeight: {unit: 'kilogram', value: 10},
+      contents: [],
+    },
+    ...fields,
+  };
+}
+
+/**
+ * Returns a policy that lists the offer with the given id with the given
+ * listings. The listings are copied, since the offer model trims listings in
+ * place.
+ */
+export function fakeListingPolicy(
+  listings: Array<Listing>,
+  offerId = 'offer1'
+): FakeListingPolicy {
+  const policy = new FakeListingPolicy();
+  policy.setListings({[offerId]: listings.map(l => ({...l}))});
+  return policy;
+}
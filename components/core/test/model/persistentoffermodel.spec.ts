@@ -0,0 +1,128 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import chai, {expect} from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {OfferChange} from '../../src/model/offerchange';
+import {PersistentOfferModel} from '../../src/model/persistentoffermodel';
+import {OfferListingPolicy} from '../../src/policy/offerlistingpolicy';
+import {UniversalAcceptListingPolicy} from '../../src/policy/universalacceptlistingpolicy';
+import {
+  asyncIterableToArray,
+  iterableToAsync,
+} from '../../src/util/asynciterable';
+import {FakeClock} from '../../src/util/fakeclock';
+import {fakeListingPolicy, makeTestOffer} from '../fixtures';
+
+chai.use(chaiAsPromised);
+
+const HOST_ORG_URL = 'https://host.org';
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+describe('PersistentOfferModel', () => {
+  async function createModel(
+    storage: InMemoryPersistentStorage,
+    listingPolicy: OfferListingPolicy = new UniversalAcceptListingPolicy([])
+  ) {
+    const clock = new FakeClock();
+    clock.setTime(0);
+    const model = new PersistentOfferModel({
+      storage: storage,
+      hostOrgUrl: HOST_ORG_URL,
+      listingPolicy: listingPolicy,
+      clock: clock,
+    });
+    await model.initialize();
+    return model;
+  }
+
+  function addOffer(model: PersistentOfferModel) {
+    return model.processUpdate(HOST_ORG_URL, {
+      earliestNextRequestUTC: 0,
+      updateCurrentAsOfTimestampUTC: 0,
+      sourceOrgUrl: HOST_ORG_URL,
+      offers: iterableToAsync([makeTestOffer({offeredBy: HOST_ORG_URL})]),
+    });
+  }
+
+  it('fires changes after their transaction commits', async () => {
+    const storage = new InMemoryPersistentStorage();
+    const model = await createModel(storage);
+    const storedOfferCounts = [] as Array<number>;
+    model.registerChangeHandler(async () => {
+      const t = await storage.createTransaction('READONLY');
+      const offers = await asyncIterableToArray(
+        storage.getCorpusOffers(t, HOST_ORG_URL, HOST_ORG_URL)
+      );
+      storedOfferCounts.push(offers.length);
+    });
+    await addOffer(model);
+    expect(storedOfferCounts).to.deep.equal([1]);
+  });
+
+  it('does not fire changes from failed transactions', async () => {
+    const storage = new InMemoryPersistentStorage();
+    const createTransaction = storage.createTransaction.bind(storage);
+    storage.createTransaction = async type => {
+      const t = await createTransaction(type);
+      t.commit = async () => {
+        await t.fail();
+        throw new Error('Commit failed');
+      };
+      return t;
+    };
+    const model = await createModel(storage);
+    const changes = [] as Array<OfferChange>;
+    model.registerChangeHandler(async change => {
+      changes.push(change);
+    });
+    await expect(addOffer(model)).to.be.rejectedWith('Commit failed');
+    expect(changes).to.be.empty;
+  });
+
+  it('keeps the start time of listings that start in the future', async () => {
+    const storage = new InMemoryPersistentStorage();
+    const model = await createModel(
+      storage,
+      fakeListingPolicy([
+        {
+          orgUrl: 'https://a.org',
+          startTimeUTC: 0,
+          endTimeUTC: 10 * HOUR_MILLIS,
+        },
+        {
+          orgUrl: 'https://b.org',
+          startTimeUTC: 2 * HOUR_MILLIS,
+          endTimeUTC: 10 * HOUR_MILLIS,
+        },
+      ])
+    );
+    await addOffer(model);
+    const t = await storage.createTransaction('READONLY');
+    const timeline = await asyncIterableToArray(
+      storage.getTimelineForOffer(t, HOST_ORG_URL, 'offer1', HOST_ORG_URL)
+    );
+    await t.commit();
+    expect(
+      timeline.map(entry => [entry.targetOrganizationUrl, entry.startTimeUTC])
+    ).to.have.deep.members([
+      ['https://a.org', 0],
+      ['https://b.org', 2 * HOUR_MILLIS],
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import chai, {expect} from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {DecodedReshareChain, Offer} from 'opr-models';
+import {LocalKeySigner} from '../../src/auth/local/localkeysigner';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {PersistentOfferModel} from '../../src/model/persistentoffermodel';
+import {
+  findReshareChainViolation,
+  getAllowedLinkScopes,
+  ReshareLimits,
+} from '../../src/model/resharelimits';
+import {UniversalAcceptListingPolicy} from '../../src/policy/universalacceptlistingpolicy';
+import {
+  asyncIterableToArray,
+  iterableToAsync,
+} from '../../src/util/asynciterable';
+import {FakeClock} from '../../src/util/fakeclock';
+import FakeOrgAPrivateKey from '../sampledata/orga/priv.key.json';
+import {makeTestOffer} from '../fixtures';
+
+chai.use(chaiAsPromised);
+
+const HOST_ORG_URL = 'https://fakeorga.org/org.json';
+const PARTNER_URL = 'https://partner.org';
+
+function makeOffer(maxReshareDepth?: number): Offer {
+  return makeTestOffer({
+    offeredBy: HOST_ORG_URL,
+    maxReshareDepth: maxReshareDepth,
+  });
+}
+
+function makeChain(...orgUrls: Array<string>): DecodedReshareChain {
+  const chain = [] as DecodedReshareChain;
+  for (let i = 1; i < orgUrls.length; i++) {
+    chain.push({
+      sharingOrgUrl: orgUrls[i - 1],
+      recipientOrgUrl: orgUrls[i],
+      scopes: ['ACCEPT', 'RESHARE'],
+      entitlements: 'offer1',
+      signature: `sig${i}`,
+    });
+  }
+  return chain;
+}
+
+describe('ReshareLimits', () => {
+  it('reports each kind of violation with its own code', () => {
+    const chain = makeChain(HOST_ORG_URL, 'https://b.org', 'https://c.org');
+    const getCode = (limits: ReshareLimits, offer = makeOffer()) =>
+      findReshareChainViolation(chain, offer, limits, [HOST_ORG_URL])
+        ?.errorCode;
+    expect(getCode({})).to.be.undefined;
+    expect(getCode({maxChainLength: 1})).to.equal(
+      'RESHARE_ERROR_CHAIN_TOO_LONG'
+    );
+    expect(getCode({}, makeOffer(0))).to.equal(
+      'RESHARE_ERROR_MAX_DEPTH_EXCEEDED'
+    );
+    expect(getCode({deniedOrgUrls: ['https://c.org']})).to.equal(
+      'RESHARE_ERROR_ORG_DENIED'
+    );
+    expect(getCode({allowedOrgUrls: ['https://b.org']})).to.equal(
+      'RESHARE_ERROR_ORG_NOT_ALLOWED'
+    );
+    expect(getCode({allowedOrgUrls: ['https://b.org', 'https://c.org']})).to.be
+      .undefined;
+  });
+
+  it('removes RESHARE from links that could not be extended', () => {
+    const root = makeChain(HOST_ORG_URL, 'https://b.org');
+    const getScopes = (limits: ReshareLimits, offer = makeOffer()) =>
+      getAllowedLinkScopes(
+        root,
+        'https://b.org',
+        'https://c.org',
+        ['ACCEPT', 'RESHARE'],
+        offer,
+        limits
+      );
+    expect(getScopes({})).to.deep.equal(['ACCEPT', 'RESHARE']);
+    expect(getScopes({maxChainLength: 2})).to.deep.equal(['ACCEPT']);
+    expect(getScopes({}, makeOffer(1))).to.deep.equal(['ACCEPT']);
+    expect(getScopes({maxChainLength: 1})).to.be.undefined;
+    expect(getScopes({deniedOrgUrls: ['https://c.org']})).to.be.undefined;
+  });
+
+  it('honors limits when listing and accepting', async () => {
+    const clock = new FakeClock();
+    clock.setTime(0);
+    const storage = new InMemoryPersistentStorage();
+    let openTransactionCount = 0;
+    const createTransaction = storage.createTransaction.bind(storage);
+    storage.createTransaction = async type => {
+      const t = await createTransaction(type);
+      if (t.type === 'READONLY') {
+        return t;
+      }
+      const commit = t.commit.bind(t);
+      const fail = t.fail.bind(t);
+      openTransactionCount++;
+      t.commit = () => {
+        openTransactionCount--;
+        return commit();
+      };
+      t.fail = () => {
+        openTransactionCount--;
+        return fail();
+      };
+      return t;
+    };
+    const model = new PersistentOfferModel({
+      storage: storage,
+      hostOrgUrl: HOST_ORG_URL,
+      listingPolicy: new UniversalAcceptListingPolicy([PARTNER_URL], {
+        scopes: ['ACCEPT', 'RESHARE'],
+      }),
+      signer: new LocalKeySigner(HOST_ORG_URL, FakeOrgAPrivateKey, clock),
+      clock: clock,
+      reshareLimits: {maxChainLength: 2},
+    });
+    await model.initialize();
+    await model.processUpdate(HOST_ORG_URL, {
+      earliestNextRequestUTC: 0,
+      updateCurrentAsOfTimestampUTC: 0,
+      sourceOrgUrl: HOST_ORG_URL,
+      offers: iterableToAsync([makeOffer(0)]),
+    });
+    const t = await storage.createTransaction('READONLY');
+    const [entry] = await asyncIterableToArray(
+      storage.getTimelineForOffer(t, HOST_ORG_URL, 'offer1', HOST_ORG_URL)
+    );
+    // The offer may not be reshared, so the partner gets a plain listing.
+    expect(entry.targetOrganizationUrl).to.equal(PARTNER_URL);
+    expect(entry.reshareChain).to.be.undefined;
+
+    const longChain = makeChain(
+      HOST_ORG_URL,
+      'https://b.org',
+      'https://c.org',
+      PARTNER_URL
+    );
+    await expect(
+      model.accept('offer1', PARTNER_URL, undefined, longChain)
+    ).to.be.rejected.and.eventually.have.property(
+      'errorCode',
+      'RESHARE_ERROR_CHAIN_TOO_LONG'
+    );
+    await expect(
+      model.reserve('offer1', 60, PARTNER_URL, longChain.slice(1))
+    ).to.be.rejected.and.eventually.have.property(
+      'errorCode',
+      'RESHARE_ERROR_MAX_DEPTH_EXCEEDED'
+    );
+    // Rejected chains must not leave their transactions open.
+    expect(openTransactionCount).to.equal(0);
+    const response = await model.accept('offer1', PARTNER_URL);
+    expect(response.offer.id).to.equal('offer1');
+  });
+});
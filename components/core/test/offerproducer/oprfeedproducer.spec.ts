@@ -0,0 +1,71 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {ListOffersPayload, ListOffersResponse} from 'opr-models';
+import {OprNetworkClient} from '../../src/net/oprnetworkclient';
+import {OprFeedProducer} from '../../src/offerproducer/oprfeedproducer';
+import {asyncIterableToArray} from '../../src/util/asynciterable';
+import {FakeClock} from '../../src/util/fakeclock';
+import loglevel from '../../src/util/loglevel';
+import {makeTestOffer} from '../fixtures';
+
+const OLD_URL = 'https://old.org/org.json';
+const NEW_URL = 'https://new.org/org.json';
+const OTHER_URL = 'https://other.org/org.json';
+
+describe('OprFeedProducer', () => {
+  it('attributes offers from a moved org to the feed org url', async () => {
+    const logger = loglevel.getLogger('OprFeedProducerTest');
+    logger.setLevel('silent');
+    const requests = [] as Array<ListOffersPayload | undefined>;
+    const client = {
+      async getCanonicalOrgUrl() {
+        return NEW_URL;
+      },
+      async list(
+        target: string,
+        payload?: ListOffersPayload
+      ): Promise<ListOffersResponse> {
+        requests.push(payload);
+        return {
+          offers: [
+            makeTestOffer({id: 'moved', offeredBy: NEW_URL}),
+            makeTestOffer({id: 'reshared', offeredBy: OTHER_URL}),
+          ],
+          responseFormat: 'SNAPSHOT',
+          resultsTimestampUTC: 0,
+        };
+      },
+    } as unknown as OprNetworkClient;
+    const producer = new OprFeedProducer(
+      client,
+      OLD_URL,
+      undefined,
+      new FakeClock(),
+      logger
+    );
+    const update = await producer.produceOffers({diffStartTimestampUTC: 5});
+    expect(requests[0]?.diffStartTimestampUTC).to.be.undefined;
+    expect(update.diffStartTimeUTC).to.be.undefined;
+    const offers = await asyncIterableToArray(update.offers!);
+    expect(offers.map(offer => offer.offeredBy)).to.deep.equal([
+      OLD_URL,
+      OTHER_URL,
+    ]);
+  });
+});
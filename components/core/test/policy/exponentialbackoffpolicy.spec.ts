@@ -0,0 +1,68 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {ExponentialBackoffPolicy} from '../../src/policy/exponentialbackoffpolicy';
+
+describe('ExponentialBackoffPolicy', () => {
+  it('doubles the retry interval up to the maximum', () => {
+    const policy = new ExponentialBackoffPolicy(
+      {
+        initialRetryIntervalMillis: 1000,
+        maxRetryIntervalMillis: 5000,
+      },
+      () => 0
+    );
+    expect(policy.getRetryIntervalMillis(1)).to.equal(1000);
+    expect(policy.getRetryIntervalMillis(2)).to.equal(2000);
+    expect(policy.getRetryIntervalMillis(3)).to.equal(4000);
+    expect(policy.getRetryIntervalMillis(4)).to.equal(5000);
+    expect(policy.getRetryIntervalMillis(5)).to.equal(5000);
+  });
+  it('removes jitter from the retry interval', () => {
+    const policy = new ExponentialBackoffPolicy(
+      {
+        initialRetryIntervalMillis: 1000,
+        jitterRatio: 0.5,
+      },
+      () => 0.5
+    );
+    expect(policy.getRetryIntervalMillis(1)).to.equal(750);
+    expect(policy.getRetryIntervalMillis(2)).to.equal(1500);
+  });
+  it('trips the circuit breaker after the threshold', () => {
+    const policy = new ExponentialBackoffPolicy(
+      {
+        initialRetryIntervalMillis: 1000,
+        circuitBreakerThreshold: 3,
+        trippedRetryIntervalMillis: 60000,
+      },
+      () => 0
+    );
+    expect(policy.isTripped(2)).to.be.false;
+    expect(policy.getRetryIntervalMillis(2)).to.equal(2000);
+    expect(policy.isTripped(3)).to.be.true;
+    expect(policy.getRetryIntervalMillis(3)).to.equal(60000);
+    expect(policy.getRetryIntervalMillis(10)).to.equal(60000);
+  });
+  it('uses defaults when no options are given', () => {
+    const policy = new ExponentialBackoffPolicy({}, () => 0);
+    expect(policy.getRetryIntervalMillis(1)).to.equal(10 * 1000);
+    expect(policy.isTripped(9)).to.be.false;
+    expect(policy.isTripped(10)).to.be.true;
+  });
+});
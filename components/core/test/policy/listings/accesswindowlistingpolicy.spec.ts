@@ -0,0 +1,224 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {Offer, TimeRange} from 'opr-models';
+import {resolveConfigJson} from '../../../src/config/resolveconfigjson';
+import {CoreIntegrations} from '../../../src/integrations';
+import {Listing} from '../../../src/model/listing';
+import {OfferListingPolicy} from '../../../src/policy/offerlistingpolicy';
+import {
+  AccessWindowListingPolicy,
+  AccessWindowOptionsJson,
+} from '../../../src/policy/listings/accesswindowlistingpolicy';
+import {fakeListingPolicy, makeTestOffer} from '../../fixtures';
+
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+function makeOffer(accessWindows?: Array<TimeRange>): Offer {
+  return makeTestOffer({
+    offerExpirationUTC: 24 * HOUR_MILLIS,
+    offerLocation: {
+      locationName: 'Warehouse',
+      locationAddress: '1 Main St',
+      accessWindows: accessWindows,
+    },
+  });
+}
+
+function hours(start: number, end: number): TimeRange {
+  return {startTimeUTC: start * HOUR_MILLIS, endTimeUTC: end * HOUR_MILLIS};
+}
+
+function listing(orgUrl: string, start: number, end: number): Listing {
+  return {orgUrl: orgUrl, ...hours(start, end)};
+}
+
+// A food bank gets the offer for an hour before a pantry does.
+const TIERED_LISTINGS = [
+  listing('https://foodbank.org', 0, 24),
+  listing('https://pantry.org', 1, 24),
+];
+
+async function getListings(
+  offer: Offer,
+  delegate: OfferListingPolicy,
+  options?: AccessWindowOptionsJson
+) {
+  const policy = new AccessWindowListingPolicy(delegate, options);
+  const listings = await policy.getListings(offer, 0, 0, new Set(), new Set());
+  return listings.map(l => [
+    l.orgUrl,
+    l.startTimeUTC / HOUR_MILLIS,
+    l.endTimeUTC / HOUR_MILLIS,
+  ]);
+}
+
+describe('AccessWindowListingPolicy', () => {
+  it('leaves offers without access windows alone', async () => {
+    expect(
+      await getListings(makeOffer(), fakeListingPolicy(TIERED_LISTINGS))
+    ).to.deep.equal([
+      ['https://foodbank.org', 0, 24],
+      ['https://pantry.org', 1, 24],
+    ]);
+  });
+
+  it('stretches exclusive windows to cover pickup time', async () => {
+    expect(
+      await getListings(
+        makeOffer([hours(9, 17)]),
+        fakeListingPolicy(TIERED_LISTINGS)
+      )
+    ).to.deep.equal([
+      ['https://foodbank.org', 0, 24],
+      ['https://pantry.org', 10, 24],
+    ]);
+  });
+
+  it('shifts listings to the first pickup time', async () => {
+    expect(
+      await getListings(
+        makeOffer([hours(9, 17)]),
+        fakeListingPolicy(TIERED_LISTINGS),
+        {
+          adjustment: 'SHIFT',
+          minPickupMillis: 2 * HOUR_MILLIS,
+        }
+      )
+    ).to.deep.equal([
+      ['https://foodbank.org', 9, 24],
+      ['https://pantry.org', 11, 24],
+    ]);
+  });
+
+  it('does not change listings with enough pickup time', async () => {
+    expect(
+      await getListings(
+        makeOffer([hours(0, 2), hours(9, 17)]),
+        fakeListingPolicy(TIERED_LISTINGS)
+      )
+    ).to.deep.equal([
+      ['https://foodbank.org', 0, 24],
+      ['https://pantry.org', 1, 24],
+    ]);
+  });
+
+  it('uses operating hours', async () => {
+    expect(
+      await getListings(
+        makeOffer([hours(9, 17)]),
+        fakeListingPolicy(TIERED_LISTINGS),
+        {
+          operatingHours: [
+            {
+              orgUrl: 'https://foodbank.org',
+              utcOffsetMinutes: -60,
+              hours: [{openTime: '12:00', closeTime: '14:00'}],
+            },
+          ],
+        }
+      )
+    ).to.deep.equal([
+      ['https://foodbank.org', 0, 24],
+      ['https://pantry.org', 14, 24],
+    ]);
+  });
+
+  it('skips operating hours on closed days', async () => {
+    // January 1st, 1970 was a Thursday, so the food bank is closed and can
+    // never collect the offer. Its listing is dropped, and the pantry's
+    // listing is not delayed on its account.
+    expect(
+      await getListings(
+        makeOffer([hours(9, 17)]),
+        fakeListingPolicy(TIERED_LISTINGS),
+        {
+          operatingHours: [
+            {
+              orgUrl: 'https://foodbank.org',
+              hours: [
+                {daysOfWeek: [1, 2], openTime: '09:00', closeTime: '17:00'},
+              ],
+            },
+          ],
+        }
+      )
+    ).to.deep.equal([['https://pantry.org', 1, 24]]);
+  });
+
+  it('drops listings without any pickup time', async () => {
+    expect(
+      await getListings(
+        makeOffer([hours(9, 17), hours(30, 40)]),
+        fakeListingPolicy([
+          listing('https://foodbank.org', 0, 8),
+          listing('https://pantry.org', 18, 24),
+        ]),
+        {minPickupMillis: 0}
+      )
+    ).to.deep.equal([]);
+  });
+
+  it('never lists past expiration', async () => {
+    expect(
+      await getListings(
+        makeOffer([hours(22, 30)]),
+        fakeListingPolicy([
+          listing('https://foodbank.org', 0, 1),
+          listing('https://pantry.org', 1, 24),
+        ]),
+        {minPickupMillis: 4 * HOUR_MILLIS}
+      )
+    ).to.deep.equal([['https://foodbank.org', 0, 24]]);
+  });
+
+  it('is constructed from json', async () => {
+    const resolved = await resolveConfigJson<
+      {listingPolicy: OfferListingPolicy},
+      typeof CoreIntegrations,
+      {hostOrgUrl: string}
+    >(
+      {
+        listingPolicy: {
+          moduleName: 'AccessWindowListingPolicy',
+          params: {
+            adjustment: 'SHIFT',
+            policy: ['UniversalListingPolicy', {orgUrls: ['https://a.org']}],
+          },
+        },
+      } as never,
+      {listingPolicy: 'listingPolicy'},
+      CoreIntegrations,
+      {hostOrgUrl: 'https://host.org/org.json'}
+    );
+    const listings = await resolved.result.listingPolicy.getListings(
+      makeOffer([hours(9, 17)]),
+      0,
+      0,
+      new Set(),
+      new Set()
+    );
+    expect(listings).to.deep.equal([
+      {
+        orgUrl: 'https://a.org',
+        scopes: ['ACCEPT'],
+        ...hours(9, 24),
+      },
+    ]);
+  });
+});
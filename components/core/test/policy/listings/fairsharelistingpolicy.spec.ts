@@ -0,0 +1,173 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {Offer, OfferHistory} from 'opr-models';
+import {
+  FairShareListingPolicy,
+  FairShareListingPolicyOptionsJson,
+} from '../../../src/policy/listings/fairsharelistingpolicy';
+import {FakeClock} from '../../../src/util/fakeclock';
+import {makeTestOffer} from '../../fixtures';
+
+const DAY_MILLIS = 24 * 60 * 60 * 1000;
+
+function makeOffer(weightKg: number): Offer {
+  return makeTestOffer({
+    offerExpirationUTC: 100 * DAY_MILLIS,
+    contents: {
+      id: 'pallet',
+      description: 'Apples',
+      quantity: 1,
+      unitWeight: {unit: 'kilogram', value: weightKg},
+      contents: [
+        {
+          id: 'crate',
+          description: 'A crate of apples',
+          quantity: 10,
+          unitWeight: {unit: 'kilogram', value: weightKg / 10},
+        },
+      ],
+    },
+  });
+}
+
+function accepted(
+  orgUrl: string,
+  weightKg: number,
+  acceptedAtUTC: number,
+  extra: Partial<OfferHistory> = {}
+): OfferHistory {
+  return {
+    offer: makeOffer(weightKg),
+    acceptedAtUTC: acceptedAtUTC,
+    acceptingOrganization: orgUrl,
+    ...extra,
+  };
+}
+
+const OPTIONS: FairShareListingPolicyOptionsJson = {
+  orgUrls: ['https://big.org', 'https://medium.org', 'https://small.org'],
+  lookbackMillis: 10 * DAY_MILLIS,
+  windowMillis: 60000,
+};
+
+describe('FairShareListingPolicy', () => {
+  let clock: FakeClock;
+  let history: Array<OfferHistory>;
+  let historyReads: number;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    clock.setTime(50 * DAY_MILLIS);
+    historyReads = 0;
+    history = [
+      accepted('https://big.org', 1000, 45 * DAY_MILLIS),
+      accepted('https://big.org', 1000, 46 * DAY_MILLIS),
+      accepted('https://medium.org', 500, 47 * DAY_MILLIS),
+      // Outside the lookback period.
+      accepted('https://small.org', 5000, 30 * DAY_MILLIS),
+      // Cancelled.
+      accepted('https://small.org', 5000, 48 * DAY_MILLIS, {
+        cancelledAtUTC: 48 * DAY_MILLIS + 1,
+      }),
+      // Sliced, so only 3 crates count.
+      accepted('https://small.org', 1000, 49 * DAY_MILLIS, {
+        acceptedSlice: [{id: 'crate', quantity: 3}],
+      }),
+    ];
+  });
+
+  function newPolicy(options = OPTIONS) {
+    return new FairShareListingPolicy(
+      options,
+      async function* (sinceTimestampUTC: number) {
+        historyReads++;
+        yield* history.filter(h => h.acceptedAtUTC >= sinceTimestampUTC);
+      },
+      clock
+    );
+  }
+
+  it('computes shares over the lookback period', async () => {
+    const shares = await newPolicy().getShares();
+    expect([...shares.entries()]).to.deep.equal([
+      ['https://big.org', 2000],
+      ['https://medium.org', 500],
+      ['https://small.org', 300],
+    ]);
+  });
+
+  it('lists to under-served orgs first', async () => {
+    const listings = await newPolicy().getListings(
+      makeOffer(100),
+      1000,
+      1000,
+      new Set(),
+      new Set()
+    );
+    expect(listings.map(l => [l.orgUrl, l.startTimeUTC])).to.deep.equal([
+      ['https://small.org', 1000],
+      ['https://medium.org', 61000],
+      ['https://big.org', 121000],
+    ]);
+  });
+
+  it('counts offers and groups orgs into windows', async () => {
+    const listings = await newPolicy({
+      ...OPTIONS,
+      shareMetric: 'OFFER_COUNT',
+      orgsPerWindow: 2,
+    }).getListings(
+      makeOffer(100),
+      1000,
+      1000,
+      new Set(['https://small.org']),
+      new Set()
+    );
+    expect(listings.map(l => [l.orgUrl, l.startTimeUTC])).to.deep.equal([
+      ['https://medium.org', 1000],
+      ['https://big.org', 1000],
+    ]);
+  });
+
+  it('breaks ties by org url', async () => {
+    history = [];
+    const listings = await newPolicy().getListings(
+      makeOffer(100),
+      1000,
+      1000,
+      new Set(),
+      new Set()
+    );
+    expect(listings.map(l => l.orgUrl)).to.deep.equal([
+      'https://big.org',
+      'https://medium.org',
+      'https://small.org',
+    ]);
+  });
+
+  it('caches shares until the clock advances', async () => {
+    const policy = newPolicy();
+    await policy.getShares();
+    await policy.getShares();
+    expect(historyReads).to.equal(1);
+    clock.setTime(clock.now() + 60000);
+    await policy.getShares();
+    expect(historyReads).to.equal(2);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {Offer} from 'opr-models';
+import {
+  HierarchicalListingPolicy,
+  ListingHierarchyJson,
+  toListingHierarchy,
+} from '../../../src/policy/listings/hierarchicallistingpolicy';
+import {compileOfferFilter} from '../../../src/policy/listings/offerfilter';
+import {makeTestOffer} from '../../fixtures';
+
+function makeOffer(): Offer {
+  return makeTestOffer({
+    offerExpirationUTC: 100000,
+    offerLocation: {
+      locationName: 'Warehouse',
+      locationAddress: '1 Main St',
+      locationLatLong: {latitude: 40.7128, longitude: -74.006},
+    },
+    contents: {
+      description: 'A pallet of apples',
+      quantity: 2,
+      unitWeight: {unit: 'pound', value: 500},
+      packagingType: 'pallet',
+      contents: [
+        {
+          description: 'Apples',
+          quantity: 10,
+          itemTypeIds: [{vocabularyId: 'plu', itemId: '4131'}],
+        },
+      ],
+    },
+  });
+}
+
+describe('OfferFilter', () => {
+  it('matches an empty filter', () => {
+    expect(compileOfferFilter({})(makeOffer())).to.be.true;
+  });
+  it('filters by total weight', () => {
+    const offer = makeOffer();
+    expect(compileOfferFilter({minTotalWeightKg: 450})(offer)).to.be.true;
+    expect(compileOfferFilter({minTotalWeightKg: 460})(offer)).to.be.false;
+    expect(compileOfferFilter({maxTotalWeightKg: 450})(offer)).to.be.false;
+  });
+  it('filters by item type id and packaging type', () => {
+    const offer = makeOffer();
+    expect(compileOfferFilter({itemTypeIds: [{itemId: '4131'}]})(offer)).to.be
+      .true;
+    expect(
+      compileOfferFilter({
+        itemTypeIds: [{vocabularyId: 'gtin', itemId: '4131'}],
+      })(offer)
+    ).to.be.false;
+    expect(compileOfferFilter({packagingTypes: ['box', 'pallet']})(offer)).to.be
+      .true;
+    expect(compileOfferFilter({packagingTypes: ['box']})(offer)).to.be.false;
+  });
+  it('filters by location', () => {
+    const offer = makeOffer();
+    // Newark is about 14km from New York.
+    const nearNewark = {latitude: 40.7357, longitude: -74.1724};
+    expect(compileOfferFilter({location: {...nearNewark, radiusKm: 20}})(offer))
+      .to.be.true;
+    expect(compileOfferFilter({location: {...nearNewark, radiusKm: 10}})(offer))
+      .to.be.false;
+    delete offer.offerLocation.locationLatLong;
+    expect(compileOfferFilter({location: {...nearNewark, radiusKm: 20}})(offer))
+      .to.be.false;
+  });
+  it('filters by expression', () => {
+    const offer = makeOffer();
+    const filter = compileOfferFilter({
+      expression: "offer.description.startsWith('App')",
+      packagingTypes: ['pallet'],
+    });
+    expect(filter(offer)).to.be.true;
+    offer.description = 'Pears';
+    expect(filter(offer)).to.be.false;
+  });
+});
+
+function fromJson(hierarchies: Array<ListingHierarchyJson>) {
+  return new HierarchicalListingPolicy(hierarchies.map(toListingHierarchy));
+}
+
+describe('HierarchicalListingPolicy', () => {
+  it('builds listings from json config', async () => {
+    const policy = fromJson([
+      {
+        exclusiveTime: 1000,
+        totalTime: 5000,
+        listedOrgs: [
+          {orgUrl: 'https://a.org', scopes: ['ACCEPT', 'RESHARE']},
+          {orgUrl: 'https://rejected.org'},
+        ],
+        childHierarchies: [
+          {
+            exclusiveTime: 0,
+            totalTime: 4000,
+            listedOrgs: [{orgUrl: 'https://b.org'}],
+          },
+        ],
+      },
+    ]);
+    const listings = await policy.getListings(
+      makeOffer(),
+      10000,
+      10000,
+      new Set(['https://rejected.org']),
+      new Set()
+    );
+    expect(listings).to.deep.equal([
+      {
+        orgUrl: 'https://a.org',
+        startTimeUTC: 10000,
+        endTimeUTC: 15000,
+        scopes: ['ACCEPT', 'RESHARE'],
+      },
+      {
+        orgUrl: 'https://b.org',
+        startTimeUTC: 11000,
+        endTimeUTC: 15000,
+        scopes: undefined,
+      },
+    ]);
+  });
+  it('skips hierarchies that do not match the offer', async () => {
+    const policy = fromJson([
+      {
+        filter: {packagingTypes: ['box']},
+        exclusiveTime: 1000,
+        totalTime: 5000,
+        listedOrgs: [{orgUrl: 'https://boxes.org'}],
+        childHierarchies: [
+          {
+            exclusiveTime: 0,
+            totalTime: 4000,
+            listedOrgs: [{orgUrl: 'https://boxchild.org'}],
+          },
+        ],
+      },
+      {
+        filter: {packagingTypes: ['pallet']},
+        exclusiveTime: 0,
+        totalTime: 5000,
+        listedOrgs: [{orgUrl: 'https://pallets.org'}],
+      },
+    ]);
+    const listings = await policy.getListings(
+      makeOffer(),
+      10000,
+      10000,
+      new Set(),
+      new Set()
+    );
+    expect(listings.map(l => l.orgUrl)).to.deep.equal(['https://pallets.org']);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {resolveConfigJson} from '../../../src/config/resolveconfigjson';
+import {CoreIntegrations} from '../../../src/integrations';
+import {Listing} from '../../../src/model/listing';
+import {OfferListingPolicy} from '../../../src/policy/offerlistingpolicy';
+import {
+  IntersectionListingPolicy,
+  OverrideListingPolicy,
+  SequenceListingPolicy,
+  UnionListingPolicy,
+} from '../../../src/policy/listings/listingpolicycombinators';
+import {PerishabilityListingPolicy} from '../../../src/policy/listings/perishabilitylistingpolicy';
+import {FakeListingPolicy} from '../../../src/policy/universalacceptlistingpolicy';
+import {fakeListingPolicy, makeTestOffer} from '../../fixtures';
+
+const OFFER = makeTestOffer({offerExpirationUTC: 10000});
+
+function fakePolicy(listings: Array<Listing>): FakeListingPolicy {
+  return fakeListingPolicy(listings, OFFER.id);
+}
+
+async function resolvePolicy(json: unknown): Promise<OfferListingPolicy> {
+  const resolved = await resolveConfigJson<
+    {listingPolicy: OfferListingPolicy},
+    typeof CoreIntegrations,
+    {hostOrgUrl: string}
+  >(
+    {listingPolicy: json} as never,
+    {listingPolicy: 'listingPolicy'},
+    CoreIntegrations,
+    {hostOrgUrl: 'https://host.org/org.json'}
+  );
+  return resolved.result.listingPolicy;
+}
+
+function summarize(listings: Array<Listing>) {
+  return listings.map(l => [l.orgUrl, l.startTimeUTC, l.endTimeUTC, l.scopes]);
+}
+
+describe('Listing policy combinators', () => {
+  it('unions nested policies from json', async () => {
+    const policy = await resolvePolicy({
+      moduleName: 'UnionListingPolicy',
+      params: {
+        policies: [
+          ['UniversalListingPolicy', {orgUrls: ['https://a.org']}],
+          {
+            moduleName: 'HierarchicalListingPolicy',
+            params: {
+              hierarchies: [
+                {
+                  exclusiveTime: 0,
+                  totalTime: 500,
+                  listedOrgs: [{orgUrl: 'https://b.org'}],
+                },
+              ],
+            },
+          },
+        ],
+      },
+    });
+    const listings = await policy.getListings(
+      OFFER,
+      100,
+      100,
+      new Set(),
+      new Set()
+    );
+    expect(summarize(listings)).to.deep.equal([
+      ['https://a.org', 0, 10000, ['ACCEPT']],
+      ['https://b.org', 100, 600, undefined],
+    ]);
+  });
+
+  it('intersects listings by org, time and scope', async () => {
+    const policy = new IntersectionListingPolicy([
+      fakePolicy([
+        {orgUrl: 'https://a.org', startTimeUTC: 0, endTimeUTC: 500},
+        {
+          orgUrl: 'https://b.org',
+          startTimeUTC: 0,
+          endTimeUTC: 500,
+          scopes: ['ACCEPT', 'RESHARE'],
+        },
+        {orgUrl: 'https://c.org', startTimeUTC: 0, endTimeUTC: 500},
+      ]),
+      fakePolicy([
+        {orgUrl: 'https://a.org', startTimeUTC: 200, endTimeUTC: 800},
+        {
+          orgUrl: 'https://b.org',
+          startTimeUTC: 100,
+          endTimeUTC: 300,
+          scopes: ['RESHARE'],
+        },
+        {orgUrl: 'https://c.org', startTimeUTC: 500, endTimeUTC: 800},
+      ]),
+    ]);
+    const listings = await policy.getListings(
+      OFFER,
+      0,
+      0,
+      new Set(),
+      new Set()
+    );
+    expect(summarize(listings)).to.deep.equal([
+      ['https://a.org', 200, 500, ['ACCEPT']],
+      ['https://b.org', 100, 300, ['RESHARE']],
+    ]);
+  });
+
+  it('starts each policy in a sequence after the last', async () => {
+    const policy = new SequenceListingPolicy([
+      fakePolicy([
+        {orgUrl: 'https://a.org', startTimeUTC: 0, endTimeUTC: 500},
+        {orgUrl: 'https://b.org', startTimeUTC: 0, endTimeUTC: 700},
+      ]),
+      fakePolicy([]),
+      await resolvePolicy([
+        'HierarchicalListingPolicy',
+        {
+          hierarchies: [
+            {
+              exclusiveTime: 0,
+              totalTime: 1000,
+              listedOrgs: [{orgUrl: 'https://c.org'}],
+            },
+          ],
+        },
+      ]),
+    ]);
+    const listings = await policy.getListings(
+      OFFER,
+      0,
+      0,
+      new Set(),
+      new Set()
+    );
+    expect(summarize(listings)).to.deep.equal([
+      ['https://a.org', 0, 500, undefined],
+      ['https://b.org', 0, 700, undefined],
+      ['https://c.org', 700, 1700, undefined],
+    ]);
+  });
+
+  it('overrides and excludes orgs', async () => {
+    const policy = await resolvePolicy({
+      moduleName: 'OverrideListingPolicy',
+      params: {
+        policy: [
+          'UniversalListingPolicy',
+          {orgUrls: ['https://a.org', 'https://b.org', 'https://c.org']},
+        ],
+        excludedOrgUrls: ['https://b.org'],
+        overrides: [
+          {
+            orgUrl: 'https://c.org',
+            scopes: ['ACCEPT', 'RESHARE'],
+            delayMillis: 100,
+            durationMillis: 200,
+          },
+          {orgUrl: 'https://d.org'},
+          {orgUrl: 'https://rejected.org'},
+        ],
+      },
+    });
+    const listings = await policy.getListings(
+      OFFER,
+      1000,
+      1000,
+      new Set(['https://rejected.org']),
+      new Set()
+    );
+    expect(summarize(listings)).to.deep.equal([
+      ['https://a.org', 0, 10000, ['ACCEPT']],
+      ['https://c.org', 1100, 1300, ['ACCEPT', 'RESHARE']],
+      ['https://d.org', 1000, 10000, undefined],
+    ]);
+  });
+
+  it('only re-evaluates listings when a child policy does', () => {
+    const plain = fakePolicy([]);
+    expect(new UnionListingPolicy([plain, plain]).shouldReevaluate).to.be
+      .undefined;
+    expect(new OverrideListingPolicy(plain).shouldReevaluate).to.be.undefined;
+    const perishable = makeTestOffer({
+      contents: {...OFFER.contents, expirationTimestampUTC: 5000},
+    });
+    const policy = new SequenceListingPolicy([
+      plain,
+      new PerishabilityListingPolicy(plain),
+    ]);
+    expect(policy.shouldReevaluate).to.not.be.undefined;
+    expect(policy.shouldReevaluate!(perishable, 0)).to.be.true;
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {Offer} from 'opr-models';
+import {InMemoryPersistentStorage} from '../../../src/database/inmemorypersistentstorage';
+import {Listing} from '../../../src/model/listing';
+import {PersistentOfferModel} from '../../../src/model/persistentoffermodel';
+import {
+  getPerishabilityDeadline,
+  PerishabilityListingPolicy,
+} from '../../../src/policy/listings/perishabilitylistingpolicy';
+import {
+  asyncIterableToArray,
+  iterableToAsync,
+} from '../../../src/util/asynciterable';
+import {FakeClock} from '../../../src/util/fakeclock';
+import {fakeListingPolicy, makeTestOffer} from '../../fixtures';
+
+const HOST_ORG_URL = 'https://host.org';
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+function makeOffer(productExpirationHours?: number): Offer {
+  return makeTestOffer({
+    offeredBy: HOST_ORG_URL,
+    description: 'Groceries',
+    offerExpirationUTC: 100 * HOUR_MILLIS,
+    contents: {
+      description: 'A pallet of groceries',
+      quantity: 1,
+      unitWeight: {unit: 'kilogram', value: 100},
+      packagingType: 'pallet',
+      contents: [
+        {
+          description: 'A box of canned beans',
+          quantity: 10,
+          unitWeight: {unit: 'kilogram', value: 5},
+          packagingType: 'box',
+          contents: [{description: 'Canned beans', quantity: 24}],
+        },
+        {
+          description: 'Milk',
+          quantity: 20,
+          expirationTimestampUTC:
+            productExpirationHours !== undefined
+              ? productExpirationHours * HOUR_MILLIS
+              : undefined,
+        },
+      ],
+    },
+  });
+}
+
+function listing(orgUrl: string, startHours: number, endHours = 100): Listing {
+  return {
+    orgUrl: orgUrl,
+    startTimeUTC: startHours * HOUR_MILLIS,
+    endTimeUTC: endHours * HOUR_MILLIS,
+  };
+}
+
+const TIERED_LISTINGS = [
+  listing('https://a.org', 0, 10),
+  listing('https://b.org', 10),
+  listing('https://c.org', 50),
+];
+
+async function getListingHours(
+  policy: PerishabilityListingPolicy,
+  offer: Offer,
+  currentTimeHours: number
+) {
+  const listings = await policy.getListings(
+    offer,
+    0,
+    currentTimeHours * HOUR_MILLIS,
+    new Set(),
+    new Set()
+  );
+  return listings.map(l => [
+    l.orgUrl,
+    l.startTimeUTC / HOUR_MILLIS,
+    l.endTimeUTC / HOUR_MILLIS,
+  ]);
+}
+
+describe('PerishabilityListingPolicy', () => {
+  it('finds the earliest expiration and its packaging type', () => {
+    expect(getPerishabilityDeadline(makeOffer())).to.be.undefined;
+    expect(getPerishabilityDeadline(makeOffer(30))).to.deep.equal({
+      expirationTimestampUTC: 30 * HOUR_MILLIS,
+      packagingType: 'pallet',
+    });
+  });
+
+  it('leaves offers without expirations alone', async () => {
+    const policy = new PerishabilityListingPolicy(
+      fakeListingPolicy(TIERED_LISTINGS)
+    );
+    expect(await getListingHours(policy, makeOffer(), 0)).to.deep.equal([
+      ['https://a.org', 0, 10],
+      ['https://b.org', 10, 100],
+      ['https://c.org', 50, 100],
+    ]);
+    expect(policy.shouldReevaluate(makeOffer(), 0)).to.be.false;
+  });
+
+  it('compresses listing delays as the deadline nears', async () => {
+    const policy = new PerishabilityListingPolicy(
+      fakeListingPolicy(TIERED_LISTINGS),
+      {
+        curves: [
+          {
+            points: [
+              {remainingMillis: 0, windowScale: 0},
+              {remainingMillis: 40 * HOUR_MILLIS, windowScale: 1},
+            ],
+          },
+        ],
+      }
+    );
+    const offer = makeOffer(40);
+    expect(policy.shouldReevaluate(offer, 0)).to.be.true;
+    expect(await getListingHours(policy, offer, 0)).to.deep.equal([
+      ['https://a.org', 0, 10],
+      ['https://b.org', 10, 100],
+      ['https://c.org', 50, 100],
+    ]);
+    expect(await getListingHours(policy, offer, 20)).to.deep.equal([
+      ['https://a.org', 0, 10],
+      ['https://b.org', 5, 100],
+      ['https://c.org', 25, 100],
+    ]);
+    expect(await getListingHours(policy, offer, 40)).to.deep.equal([
+      ['https://a.org', 0, 10],
+      ['https://b.org', 0, 100],
+      ['https://c.org', 0, 100],
+    ]);
+  });
+
+  it('uses the curve for the packaging type', async () => {
+    const policy = new PerishabilityListingPolicy(
+      fakeListingPolicy(TIERED_LISTINGS),
+      {
+        curves: [
+          {
+            packagingTypes: ['box'],
+            points: [{remainingMillis: 0, windowScale: 1}],
+          },
+          {
+            packagingTypes: ['pallet'],
+            points: [{remainingMillis: 0, windowScale: 0.5}],
+          },
+        ],
+      }
+    );
+    expect(await getListingHours(policy, makeOffer(40), 0)).to.deep.equal([
+      ['https://a.org', 0, 10],
+      ['https://b.org', 5, 100],
+      ['https://c.org', 25, 100],
+    ]);
+  });
+
+  it('tightens published listings during ingestion', async () => {
+    const clock = new FakeClock();
+    clock.setTime(0);
+    const storage = new InMemoryPersistentStorage();
+    const model = new PersistentOfferModel({
+      storage: storage,
+      hostOrgUrl: HOST_ORG_URL,
+      listingPolicy: new PerishabilityListingPolicy(
+        fakeListingPolicy(TIERED_LISTINGS)
+      ),
+      clock: clock,
+    });
+    await model.initialize();
+    const ingest = async () => {
+      await model.processUpdate(HOST_ORG_URL, {
+        earliestNextRequestUTC: 0,
+        updateCurrentAsOfTimestampUTC: clock.now(),
+        sourceOrgUrl: HOST_ORG_URL,
+        offers: iterableToAsync([makeOffer(72)]),
+      });
+      const t = await storage.createTransaction('READONLY');
+      const timeline = await asyncIterableToArray(
+        storage.getTimelineForOffer(t, HOST_ORG_URL, 'offer1', HOST_ORG_URL)
+      );
+      return timeline
+        .filter(entry => entry.targetOrganizationUrl === 'https://c.org')
+        .map(entry => entry.startTimeUTC / HOUR_MILLIS);
+    };
+    expect(await ingest()).to.deep.equal([50]);
+    // With 33 hours left, the default curve scales listing delays by 9/22, so
+    // https://c.org's listing should have started at about 20 hours.
+    clock.setTime(39 * HOUR_MILLIS);
+    expect(await ingest()).to.deep.equal([39]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {Offer} from 'opr-models';
+import {
+  ProximityListingPolicy,
+  ProximityListingPolicyOptionsJson,
+} from '../../../src/policy/listings/proximitylistingpolicy';
+import {makeTestOffer} from '../../fixtures';
+
+// Points roughly 0km, 11km, 33km and 111km north of the offer.
+const OFFER_LOCATION = {latitude: 40, longitude: -75};
+const AT_OFFER = {latitude: 40, longitude: -75};
+const NORTH_11KM = {latitude: 40.1, longitude: -75};
+const NORTH_33KM = {latitude: 40.3, longitude: -75};
+const NORTH_111KM = {latitude: 41, longitude: -75};
+
+function makeOffer(withLocation = true): Offer {
+  return makeTestOffer({
+    offerExpirationUTC: 100000,
+    offerLocation: {
+      locationName: 'Warehouse',
+      locationAddress: '1 Main St',
+      locationLatLong: withLocation ? OFFER_LOCATION : undefined,
+    },
+  });
+}
+
+const OPTIONS: ProximityListingPolicyOptionsJson = {
+  recipients: [
+    {orgUrl: 'https://far.org', locations: [NORTH_111KM]},
+    {orgUrl: 'https://medium.org', locations: [NORTH_111KM, NORTH_33KM]},
+    {orgUrl: 'https://near.org', locations: [NORTH_11KM]},
+    {orgUrl: 'https://here.org', locations: [AT_OFFER], serviceRadiusKm: 5},
+    {
+      orgUrl: 'https://homebody.org',
+      locations: [NORTH_11KM],
+      serviceRadiusKm: 5,
+    },
+  ],
+  initialRadiusKm: 5,
+  radiusStepKm: 20,
+  stepIntervalMillis: 10000,
+};
+
+describe('ProximityListingPolicy', () => {
+  it('widens the radius over time', async () => {
+    const policy = new ProximityListingPolicy(OPTIONS);
+    const listings = await policy.getListings(
+      makeOffer(),
+      1000,
+      1000,
+      new Set(),
+      new Set()
+    );
+    expect(
+      listings.map(l => [l.orgUrl, l.startTimeUTC, l.endTimeUTC])
+    ).to.deep.equal([
+      ['https://here.org', 1000, 100000],
+      ['https://near.org', 11000, 100000],
+      ['https://medium.org', 21000, 100000],
+      ['https://far.org', 61000, 100000],
+    ]);
+  });
+
+  it('skips listings that would start after expiration', async () => {
+    const policy = new ProximityListingPolicy({
+      ...OPTIONS,
+      stepIntervalMillis: 40000,
+    });
+    const listings = await policy.getListings(
+      makeOffer(),
+      1000,
+      1000,
+      new Set(['https://near.org']),
+      new Set()
+    );
+    expect(listings.map(l => l.orgUrl)).to.deep.equal([
+      'https://here.org',
+      'https://medium.org',
+    ]);
+  });
+
+  it('stops at the maximum radius', async () => {
+    const policy = new ProximityListingPolicy({...OPTIONS, maxRadiusKm: 40});
+    const listings = await policy.getListings(
+      makeOffer(),
+      1000,
+      1000,
+      new Set(),
+      new Set()
+    );
+    expect(listings.map(l => l.orgUrl)).to.not.include('https://far.org');
+  });
+
+  it('uses the default location for offers without coordinates', async () => {
+    const policy = new ProximityListingPolicy({
+      ...OPTIONS,
+      defaultOfferLocation: NORTH_111KM,
+    });
+    const listings = await policy.getListings(
+      makeOffer(false),
+      1000,
+      1000,
+      new Set(),
+      new Set()
+    );
+    expect(listings.map(l => [l.orgUrl, l.startTimeUTC])).to.deep.equal([
+      ['https://far.org', 1000],
+      ['https://medium.org', 1000],
+      ['https://near.org', 51000],
+    ]);
+  });
+
+  it('lists offers without coordinates to everyone by default', async () => {
+    const policy = new ProximityListingPolicy(OPTIONS);
+    const listings = await policy.getListings(
+      makeOffer(false),
+      1000,
+      1000,
+      new Set(),
+      new Set()
+    );
+    expect(listings).to.have.length(5);
+    expect(listings.every(l => l.startTimeUTC === 1000)).to.be.true;
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {InMemoryRateLimiter} from '../../src/policy/inmemoryratelimiter';
+import {RateLimiter} from '../../src/policy/ratelimiter';
+import {getRateLimit, validateRateLimits} from '../../src/policy/ratelimits';
+import {StorageRateLimiter} from '../../src/policy/storageratelimiter';
+
+const ORG_A_URL = 'https://a.org';
+const ORG_B_URL = 'https://b.org';
+const LIMIT = {capacity: 2, refillPerSecond: 0.5};
+
+function describeRateLimiter(name: string, create: () => RateLimiter) {
+  describe(name, () => {
+    it('allows bursts up to capacity, then refills', async () => {
+      const limiter = create();
+      const take = (t: number) => limiter.take(ORG_A_URL, 'LIST', LIMIT, t);
+      expect(await take(0)).to.deep.equal({allowed: true});
+      expect(await take(0)).to.deep.equal({allowed: true});
+      expect(await take(0)).to.deep.equal({
+        allowed: false,
+        retryAfterMillis: 2000,
+      });
+      expect(await take(1000)).to.deep.equal({
+        allowed: false,
+        retryAfterMillis: 1000,
+      });
+      expect(await take(2000)).to.deep.equal({allowed: true});
+    });
+
+    it('keeps a bucket for each org and operation', async () => {
+      const limiter = create();
+      await limiter.take(ORG_A_URL, 'LIST', LIMIT, 0);
+      await limiter.take(ORG_A_URL, 'LIST', LIMIT, 0);
+      expect((await limiter.take(ORG_A_URL, 'LIST', LIMIT, 0)).allowed).to.be
+        .false;
+      expect((await limiter.take(ORG_A_URL, 'ACCEPT', LIMIT, 0)).allowed).to.be
+        .true;
+      expect((await limiter.take(ORG_B_URL, 'LIST', LIMIT, 0)).allowed).to.be
+        .true;
+    });
+
+    it('counts concurrent requests for the same bucket', async () => {
+      const limiter = create();
+      const limit = {capacity: 3, refillPerSecond: 0.5};
+      const decisions = await Promise.all([
+        limiter.take(ORG_A_URL, 'LIST', limit, 0),
+        limiter.take(ORG_A_URL, 'LIST', limit, 0),
+        limiter.take(ORG_A_URL, 'LIST', limit, 0),
+      ]);
+      expect(decisions).to.deep.equal([
+        {allowed: true},
+        {allowed: true},
+        {allowed: true},
+      ]);
+      expect((await limiter.take(ORG_A_URL, 'LIST', limit, 0)).allowed).to.be
+        .false;
+    });
+  });
+}
+
+describeRateLimiter('InMemoryRateLimiter', () => new InMemoryRateLimiter());
+describeRateLimiter(
+  'StorageRateLimiter',
+  () =>
+    new StorageRateLimiter({
+      storage: new InMemoryPersistentStorage(),
+      hostOrgUrl: 'https://host.org',
+    })
+);
+
+describe('RateLimits', () => {
+  it('prefers org limits to the default limits', () => {
+    const orgLimit = {capacity: 100, refillPerSecond: 10};
+    const rateLimits = validateRateLimits({
+      limits: {LIST: LIMIT, HISTORY: LIMIT},
+      orgs: [{orgUrl: ORG_B_URL, limits: {LIST: orgLimit}}],
+    });
+    expect(getRateLimit(rateLimits, ORG_A_URL, 'LIST')).to.equal(LIMIT);
+    expect(getRateLimit(rateLimits, ORG_B_URL, 'LIST')).to.equal(orgLimit);
+    expect(getRateLimit(rateLimits, ORG_B_URL, 'HISTORY')).to.equal(LIMIT);
+    expect(getRateLimit(rateLimits, ORG_B_URL, 'ACCEPT')).to.be.undefined;
+  });
+
+  it('rejects malformed limits', () => {
+    expect(() => validateRateLimits({limits: {PING: LIMIT}})).to.throw(
+      'unknown operation PING'
+    );
+    expect(() =>
+      validateRateLimits({limits: {LIST: {capacity: 1, refillPerSecond: 0}}})
+    ).to.throw('positive refillPerSecond');
+    expect(() => validateRateLimits({orgs: [{limits: {}}]})).to.throw(
+      'must have an orgUrl'
+    );
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {Offer} from 'opr-models';
+import {decodeChain} from '../../src/auth/decodechain';
+import {LocalKeySigner} from '../../src/auth/local/localkeysigner';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {PersistentOfferModel} from '../../src/model/persistentoffermodel';
+import {
+  UniversalAcceptListingPolicy,
+  UniversalAcceptListingPolicyIntegration,
+} from '../../src/policy/universalacceptlistingpolicy';
+import {
+  asyncIterableToArray,
+  iterableToAsync,
+} from '../../src/util/asynciterable';
+import {FakeClock} from '../../src/util/fakeclock';
+import FakeOrgAPrivateKey from '../sampledata/orga/priv.key.json';
+import {makeTestOffer} from '../fixtures';
+
+const HOST_ORG_URL = 'https://fakeorga.org/org.json';
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+function makeOffer(): Offer {
+  return makeTestOffer({offeredBy: HOST_ORG_URL});
+}
+
+async function getListingSummary(policy: UniversalAcceptListingPolicy) {
+  const listings = await policy.getListings(
+    makeOffer(),
+    0,
+    0,
+    new Set(['https://rejected.org']),
+    new Set()
+  );
+  return listings.map(l => [
+    l.orgUrl,
+    l.startTimeUTC / HOUR_MILLIS,
+    l.endTimeUTC / HOUR_MILLIS,
+    l.scopes,
+  ]);
+}
+
+describe('UniversalAcceptListingPolicy', () => {
+  it('lists to every org with permission to accept', async () => {
+    const policy = new UniversalAcceptListingPolicy([
+      'https://a.org',
+      'https://rejected.org',
+    ]);
+    expect(await getListingSummary(policy)).to.deep.equal([
+      ['https://a.org', 0, 10, ['ACCEPT']],
+    ]);
+  });
+
+  it('uses per-org and group settings', async () => {
+    const policy = new UniversalAcceptListingPolicy(
+      ['https://a.org', 'https://b.org'],
+      {
+        delayMillis: HOUR_MILLIS,
+        orgs: [
+          {orgUrl: 'https://b.org', scopes: ['ACCEPT', 'RESHARE']},
+          {orgUrl: 'https://c.org', maxDurationMillis: 2 * HOUR_MILLIS},
+        ],
+        groups: [
+          {
+            name: 'partners',
+            orgUrls: ['https://c.org', 'https://d.org'],
+            scopes: ['RESHARE'],
+            delayMillis: 4 * HOUR_MILLIS,
+          },
+          {orgUrls: ['https://d.org'], delayMillis: 20 * HOUR_MILLIS},
+        ],
+      }
+    );
+    expect(await getListingSummary(policy)).to.deep.equal([
+      ['https://a.org', 1, 10, ['ACCEPT']],
+      ['https://b.org', 0, 10, ['ACCEPT', 'RESHARE']],
+      ['https://c.org', 0, 2, ['ACCEPT']],
+      ['https://d.org', 4, 10, ['RESHARE']],
+    ]);
+  });
+
+  it('drops listings that would start after expiration', async () => {
+    const policy = new UniversalAcceptListingPolicy(['https://a.org'], {
+      delayMillis: 10 * HOUR_MILLIS,
+    });
+    expect(await getListingSummary(policy)).to.be.empty;
+  });
+
+  it('signs reshare chains for orgs granted RESHARE', async () => {
+    const clock = new FakeClock();
+    clock.setTime(0);
+    const storage = new InMemoryPersistentStorage();
+    const model = new PersistentOfferModel({
+      storage: storage,
+      hostOrgUrl: HOST_ORG_URL,
+      listingPolicy: await UniversalAcceptListingPolicyIntegration.construct(
+        {
+          orgUrls: ['https://acceptor.org'],
+          groups: [
+            {
+              orgUrls: ['https://partner.org'],
+              scopes: ['ACCEPT', 'RESHARE'],
+            },
+          ],
+        },
+        undefined,
+        {}
+      ),
+      signer: new LocalKeySigner(HOST_ORG_URL, FakeOrgAPrivateKey, clock),
+      clock: clock,
+    });
+    await model.initialize();
+    await model.processUpdate(HOST_ORG_URL, {
+      earliestNextRequestUTC: 0,
+      updateCurrentAsOfTimestampUTC: 0,
+      sourceOrgUrl: HOST_ORG_URL,
+      offers: iterableToAsync([makeOffer()]),
+    });
+    const t = await storage.createTransaction('READONLY');
+    const timeline = await asyncIterableToArray(
+      storage.getTimelineForOffer(t, HOST_ORG_URL, 'offer1', HOST_ORG_URL)
+    );
+    const chains = new Map(
+      timeline.map(entry => [entry.targetOrganizationUrl, entry.reshareChain])
+    );
+    expect(chains.get('https://acceptor.org')).to.be.undefined;
+    const links = decodeChain(chains.get('https://partner.org')!);
+    expect(links).to.have.lengthOf(1);
+    expect(links[0].sharingOrgUrl).to.equal(HOST_ORG_URL);
+    expect(links[0].recipientOrgUrl).to.equal('https://partner.org');
+    expect(links[0].scopes).to.deep.equal(['ACCEPT', 'RESHARE']);
+    expect(links[0].entitlements).to.equal('offer1');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {FakeClock} from '../../src/util/fakeclock';
+import loglevel from '../../src/util/loglevel';
+import {IngestionScheduler} from '../../src/server/ingestionscheduler';
+
+async function* iterate<T>(values: Array<T>): AsyncIterable<T> {
+  yield* values;
+}
+
+describe('IngestionScheduler', () => {
+  it('only ingests tenants that are due', async () => {
+    const clock = new FakeClock();
+    clock.setTime(1000);
+    const ingested: Array<string> = [];
+    const scheduler = new IngestionScheduler({
+      clock: clock,
+      intervalMillis: 100,
+      getTenantIds: () => iterate(['a', 'b']),
+      ingestTenant: async tenantId => {
+        ingested.push(tenantId);
+        return tenantId === 'a' ? 2000 : undefined;
+      },
+    });
+    await scheduler.runOnce();
+    expect(ingested).to.deep.equal(['a', 'b']);
+    clock.setTime(1500);
+    await scheduler.runOnce();
+    expect(ingested).to.deep.equal(['a', 'b', 'b']);
+    clock.setTime(2000);
+    await scheduler.runOnce();
+    expect(ingested).to.deep.equal(['a', 'b', 'b', 'a', 'b']);
+  });
+  it('limits the number of tenants ingesting at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const scheduler = new IngestionScheduler({
+      clock: new FakeClock(),
+      intervalMillis: 100,
+      maxConcurrentTenants: 2,
+      getTenantIds: () => iterate(['a', 'b', 'c', 'd', 'e']),
+      ingestTenant: async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return undefined;
+      },
+    });
+    await scheduler.runOnce();
+    expect(maxInFlight).to.equal(2);
+  });
+  it('keeps ingesting other tenants when one fails', async () => {
+    const logger = loglevel.getLogger('IngestionSchedulerTest');
+    logger.setLevel('silent');
+    const ingested: Array<string> = [];
+    const scheduler = new IngestionScheduler({
+      clock: new FakeClock(),
+      intervalMillis: 100,
+      maxConcurrentTenants: 1,
+      logger: logger,
+      getTenantIds: () => iterate(['a', 'b']),
+      ingestTenant: async tenantId => {
+        if (tenantId === 'a') {
+          throw new Error('Ingestion failed');
+        }
+        ingested.push(tenantId);
+        return undefined;
+      },
+    });
+    await scheduler.runOnce();
+    expect(ingested).to.deep.equal(['b']);
+  });
+  it('waits for in-flight tenants and starts no new ones on stop', async () => {
+    const ingested: Array<string> = [];
+    let resolveFirst: () => void = () => {};
+    let stopPromise: Promise<void> | undefined;
+    const scheduler = new IngestionScheduler({
+      clock: new FakeClock(),
+      intervalMillis: 100,
+      maxConcurrentTenants: 1,
+      getTenantIds: () => iterate(['a', 'b']),
+      ingestTenant: async tenantId => {
+        if (tenantId === 'a') {
+          stopPromise = scheduler.stop();
+          await new Promise<void>(resolve => (resolveFirst = resolve));
+        }
+        ingested.push(tenantId);
+        return undefined;
+      },
+    });
+    const runPromise = scheduler.runOnce();
+    let stopped = false;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    void stopPromise!.then(() => (stopped = true));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(stopped).to.be.false;
+    resolveFirst();
+    await runPromise;
+    await stopPromise;
+    expect(ingested).to.deep.equal(['a']);
+  });
+});
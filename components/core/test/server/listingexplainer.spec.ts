@@ -0,0 +1,143 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {Offer} from 'opr-models';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {PersistentOfferModel} from '../../src/model/persistentoffermodel';
+import {UniversalAcceptListingPolicy} from '../../src/policy/universalacceptlistingpolicy';
+import {ListingExplainer} from '../../src/server/listingexplainer';
+import {iterableToAsync} from '../../src/util/asynciterable';
+import {FakeClock} from '../../src/util/fakeclock';
+import {makeTestOffer} from '../fixtures';
+
+const HOST_ORG_URL = 'https://host.org';
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+function makeOffer(): Offer {
+  return makeTestOffer({
+    offeredBy: HOST_ORG_URL,
+    contents: {
+      id: 'crate',
+      description: 'A crate of apples',
+      quantity: 1,
+      unitWeight: {unit: 'kilogram', value: 10},
+      contents: [],
+    },
+  });
+}
+
+describe('ListingExplainer', () => {
+  let clock: FakeClock;
+  let model: PersistentOfferModel;
+  let explainer: ListingExplainer;
+
+  beforeEach(async () => {
+    clock = new FakeClock();
+    clock.setTime(HOUR_MILLIS);
+    const storage = new InMemoryPersistentStorage();
+    const listingPolicy = new UniversalAcceptListingPolicy([
+      'https://a.org',
+      'https://b.org',
+    ]);
+    model = new PersistentOfferModel({
+      storage: storage,
+      hostOrgUrl: HOST_ORG_URL,
+      listingPolicy: listingPolicy,
+      clock: clock,
+    });
+    await model.initialize();
+    await model.processUpdate(HOST_ORG_URL, {
+      earliestNextRequestUTC: 0,
+      updateCurrentAsOfTimestampUTC: clock.now(),
+      sourceOrgUrl: HOST_ORG_URL,
+      offers: iterableToAsync([makeOffer()]),
+    });
+    explainer = new ListingExplainer({
+      hostOrgUrl: HOST_ORG_URL,
+      storage: storage,
+      listingPolicy: listingPolicy,
+      clock: clock,
+    });
+  });
+
+  it('explains a listed offer', async () => {
+    const result = await explainer.explain(
+      {id: 'offer1', postingOrgUrl: HOST_ORG_URL},
+      'https://a.org'
+    );
+    expect(result.isVisible).to.be.true;
+    expect(result.isRejected).to.be.false;
+    expect(result.computedListings).to.have.lengthOf(1);
+    expect(result.explanation[0]).to.contain('listed to https://a.org');
+  });
+
+  it('explains a rejected offer', async () => {
+    await model.reject('https://b.org', 'offer1', HOST_ORG_URL);
+    const result = await explainer.explain(
+      {id: 'offer1', postingOrgUrl: HOST_ORG_URL},
+      'https://b.org'
+    );
+    expect(result.isVisible).to.be.false;
+    expect(result.isRejected).to.be.true;
+    expect(result.computedListings).to.be.empty;
+    expect(result.explanation).to.include(
+      'https://b.org rejected the offer, so it is never listed to them.'
+    );
+  });
+
+  it('explains an expired offer', async () => {
+    const result = await explainer.explain(
+      {id: 'offer1', postingOrgUrl: HOST_ORG_URL},
+      'https://a.org',
+      11 * HOUR_MILLIS
+    );
+    expect(result.isVisible).to.be.false;
+    expect(result.explanation).to.include(
+      `The offer expired at ${new Date(10 * HOUR_MILLIS).toISOString()}.`
+    );
+  });
+
+  it('explains an unknown offer', async () => {
+    const result = await explainer.explain(
+      {id: 'nosuchoffer', postingOrgUrl: HOST_ORG_URL},
+      'https://a.org'
+    );
+    expect(result.isVisible).to.be.false;
+    expect(result.offer).to.be.undefined;
+    expect(result.explanation).to.have.lengthOf(1);
+  });
+
+  it('dry runs a hypothetical offer', async () => {
+    const result = await explainer.dryRun(
+      {...makeOffer(), id: 'offer2'},
+      new UniversalAcceptListingPolicy(['https://c.org']),
+      2 * HOUR_MILLIS
+    );
+    expect(result).to.deep.equal({
+      atTimeUTC: 2 * HOUR_MILLIS,
+      listings: [
+        {
+          orgUrl: 'https://c.org',
+          startTimeUTC: 2 * HOUR_MILLIS,
+          endTimeUTC: 10 * HOUR_MILLIS,
+          scopes: ['ACCEPT'],
+        },
+      ],
+    });
+  });
+});
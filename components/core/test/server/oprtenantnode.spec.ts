@@ -0,0 +1,743 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import chai, {expect} from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {Request, Response} from 'express';
+import {
+  AcceptOfferResponse,
+  CancelAcceptOfferResponse,
+  ListOffersResponse,
+  Offer,
+  ReshareChain,
+} from 'opr-models';
+import {decodeChain} from '../../src/auth/decodechain';
+import {LocalKeySigner} from '../../src/auth/local/localkeysigner';
+import {StandardVerifier} from '../../src/auth/standardverifier';
+import {OrgConfigProvider} from '../../src/config/orgconfigprovider';
+import {InMemoryPersistentStorage} from '../../src/database/inmemorypersistentstorage';
+import {FakeJsonFetcher} from '../../src/net/fakejsonfetcher';
+import {
+  OfferProducer,
+  OfferSetUpdate,
+} from '../../src/offerproducer/offerproducer';
+import {UniversalAcceptListingPolicy} from '../../src/policy/universalacceptlistingpolicy';
+import {StaticServerAccessControlList} from '../../src/policy/staticserveraccesscontrollist';
+import {OprTenantNode} from '../../src/server/oprtenantnode';
+import {FakeClock} from '../../src/util/fakeclock';
+import {iterableToAsync} from '../../src/util/asynciterable';
+import loglevel from '../../src/util/loglevel';
+import FakeOrgAConfigJson from '../sampledata/orga/org.json';
+import FakeOrgAConfigJwks from '../sampledata/orga/jwks.json';
+import FakeOrgAPrivateKey from '../sampledata/orga/priv.key.json';
+import FakeOrgCConfigJson from '../sampledata/orgc/org.json';
+import FakeOrgCConfigJwks from '../sampledata/orgc/jwks.json';
+import FakeOrgCPrivateKey from '../sampledata/orgc/priv.key.json';
+import FakeOrgDConfigJson from '../sampledata/orgd/org.json';
+import FakeOrgDConfigJwks from '../sampledata/orgd/jwks.json';
+import FakeOrgDPrivateKey from '../sampledata/orgd/priv.key.json';
+
+chai.use(chaiAsPromised);
+
+const HOST_ORG_URL = 'https://fakeorga.org/org.json';
+
+function createOffer(id: string, sourceOrgUrl: string, now: number): Offer {
+  return {
+    id: id,
+    description: `Offer ${id}`,
+    contents: {
+      description: `Contents of ${id}`,
+      quantity: 1,
+      contents: [],
+    },
+    offeredBy: sourceOrgUrl,
+    offerCreationUTC: now,
+    offerExpirationUTC: now + 60 * 60 * 1000,
+  } as unknown as Offer;
+}
+
+class TestProducer implements OfferProducer {
+  readonly type = 'offerProducer';
+  readonly id: string;
+  private readonly produceFn: () => Promise<OfferSetUpdate>;
+
+  constructor(id: string, produceFn: () => Promise<OfferSetUpdate>) {
+    this.id = id;
+    this.produceFn = produceFn;
+  }
+
+  produceOffers(): Promise<OfferSetUpdate> {
+    return this.produceFn();
+  }
+}
+
+describe('OprTenantNode', () => {
+  describe('ingest', () => {
+    const logger = loglevel.getLogger('OprTenantNodeTest');
+    logger.setLevel('silent');
+    const clock = new FakeClock();
+    clock.setTime(1000000);
+
+    function createTenantNode(
+      producers: Array<OfferProducer>,
+      maxConcurrentProducers?: number,
+      producerTimeoutMillis?: number,
+      storage = new InMemoryPersistentStorage()
+    ): OprTenantNode {
+      return new OprTenantNode(
+        {
+          name: 'Org A',
+          hostOrgUrl: HOST_ORG_URL,
+          hostUrlRoot: 'https://fakeorga.org',
+          jwksFilePath: 'https://fakeorga.org/jwks.json',
+          listingPolicy: new UniversalAcceptListingPolicy([]),
+          signer: new LocalKeySigner(HOST_ORG_URL, FakeOrgAPrivateKey, clock),
+          accessControlList: new StaticServerAccessControlList([]),
+          producers: producers,
+          maxConcurrentProducers: maxConcurrentProducers,
+          producerTimeoutMillis: producerTimeoutMillis,
+          clock: clock,
+          logger: logger,
+          destroy: async () => {},
+        },
+        storage
+      );
+    }
+
+    function createUpdate(sourceOrgUrl: string, offerIds: Array<string>) {
+      return {
+        offers: iterableToAsync(
+          offerIds.map(id => createOffer(id, sourceOrgUrl, clock.now()))
+        ),
+        sourceOrgUrl: sourceOrgUrl,
+        updateCurrentAsOfTimestampUTC: clock.now(),
+        earliestNextRequestUTC: clock.now() + 1000,
+      };
+    }
+
+    it('reports the outcome of each producer', async () => {
+      const node = createTenantNode([
+        new TestProducer('https://good.org', async () =>
+          createUpdate('https://good.org', ['a', 'b'])
+        ),
+        new TestProducer('https://bad.org', async () => {
+          throw new Error('Feed is down');
+        }),
+      ]);
+      await node.start();
+      const report = await node.ingest();
+      await node.destroy();
+      expect(report.producers).to.deep.equal([
+        {
+          producerId: 'https://good.org',
+          status: 'SUCCEEDED',
+          offersAdded: 2,
+          offersUpdated: 0,
+          offersDeleted: 0,
+          durationMillis: 0,
+          errorMessage: undefined,
+        },
+        {
+          producerId: 'https://bad.org',
+          status: 'FAILED',
+          offersAdded: 0,
+          offersUpdated: 0,
+          offersDeleted: 0,
+          durationMillis: 0,
+          errorMessage: 'Feed is down',
+        },
+      ]);
+    });
+
+    it('skips producers that are not due and counts deletions', async () => {
+      let offerIds = ['a', 'b'];
+      const node = createTenantNode([
+        new TestProducer('https://good.org', async () =>
+          createUpdate('https://good.org', offerIds)
+        ),
+      ]);
+      await node.start();
+      await node.ingest();
+      offerIds = ['a'];
+      const skippedReport = await node.ingest();
+      expect(skippedReport.producers[0].status).to.equal('SKIPPED');
+      clock.setTime(clock.now() + 1000);
+      const report = await node.ingest();
+      await node.destroy();
+      expect(report.producers[0].status).to.equal('SUCCEEDED');
+      expect(report.producers[0].offersDeleted).to.equal(1);
+    });
+
+    it('fails producers that take longer than the timeout', async () => {
+      const node = createTenantNode(
+        [
+          new TestProducer('https://slow.org', () => new Promise(() => {})),
+          new TestProducer('https://good.org', async () =>
+            createUpdate('https://good.org', ['a'])
+          ),
+        ],
+        undefined,
+        10
+      );
+      await node.start();
+      const report = await node.ingest();
+      await node.destroy();
+      expect(report.producers.map(p => p.status)).to.deep.equal([
+        'FAILED',
+        'SUCCEEDED',
+      ]);
+      expect(report.producers[0].errorMessage).to.contain('timed out');
+    });
+
+    it('does not count time waiting for other updates', async () => {
+      async function* delayedOffers(sourceOrgUrl: string, delayMillis: number) {
+        await new Promise(resolve => setTimeout(resolve, delayMillis));
+        yield createOffer('a', sourceOrgUrl, clock.now());
+      }
+      // Each update is stored well within the timeout, but the fast update
+      // waits for the slow one, and both together take longer.
+      const node = createTenantNode(
+        [
+          new TestProducer('https://slow.org', async () => ({
+            ...createUpdate('https://slow.org', []),
+            offers: delayedOffers('https://slow.org', 60),
+          })),
+          new TestProducer('https://fast.org', async () => ({
+            ...createUpdate('https://fast.org', []),
+            offers: delayedOffers('https://fast.org', 50),
+          })),
+        ],
+        undefined,
+        100
+      );
+      await node.start();
+      const report = await node.ingest();
+      await node.destroy();
+      expect(report.producers.map(p => p.status)).to.deep.equal([
+        'SUCCEEDED',
+        'SUCCEEDED',
+      ]);
+    });
+
+    it('releases the transaction of an update that times out', async () => {
+      const storage = new InMemoryPersistentStorage();
+      let openTransactionCount = 0;
+      const createTransaction = storage.createTransaction.bind(storage);
+      storage.createTransaction = async type => {
+        const t = await createTransaction(type);
+        if (t.type === 'READONLY') {
+          return t;
+        }
+        const commit = t.commit.bind(t);
+        const fail = t.fail.bind(t);
+        openTransactionCount++;
+        t.commit = () => {
+          openTransactionCount--;
+          return commit();
+        };
+        t.fail = () => {
+          openTransactionCount--;
+          return fail();
+        };
+        return t;
+      };
+      async function* hangingOffers() {
+        yield createOffer('a', 'https://slow.org', clock.now());
+        await new Promise(() => {});
+      }
+      const node = createTenantNode(
+        [
+          new TestProducer('https://slow.org', async () => ({
+            ...createUpdate('https://slow.org', []),
+            offers: hangingOffers(),
+          })),
+        ],
+        undefined,
+        10,
+        storage
+      );
+      await node.start();
+      const report = await node.ingest();
+      await node.destroy();
+      expect(report.producers[0].errorMessage).to.contain('timed out');
+      expect(openTransactionCount).to.equal(0);
+    });
+
+    it('stores streamed updates from concurrent producers', async () => {
+      async function* streamOffers(sourceOrgUrl: string, ids: Array<string>) {
+        for (const id of ids) {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          yield createOffer(id, sourceOrgUrl, clock.now());
+        }
+      }
+      const producers = ['a', 'b'].map(
+        name =>
+          new TestProducer(`https://${name}.org`, async () => ({
+            ...createUpdate(`https://${name}.org`, []),
+            offers: streamOffers(`https://${name}.org`, [
+              `${name}1`,
+              `${name}2`,
+            ]),
+          }))
+      );
+      const node = createTenantNode(producers, 2);
+      await node.start();
+      const report = await node.ingest();
+      await node.destroy();
+      expect(
+        report.producers.map(p => [p.status, p.offersAdded])
+      ).to.deep.equal([
+        ['SUCCEEDED', 2],
+        ['SUCCEEDED', 2],
+      ]);
+    });
+
+    it('limits the number of producers running at once', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const producers = ['a', 'b', 'c', 'd'].map(
+        name =>
+          new TestProducer(`https://${name}.org`, async () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+            return createUpdate(`https://${name}.org`, [name]);
+          })
+      );
+      const node = createTenantNode(producers, 2);
+      await node.start();
+      const report = await node.ingest();
+      await node.destroy();
+      expect(maxInFlight).to.equal(2);
+      expect(report.producers.map(p => p.status)).to.deep.equal([
+        'SUCCEEDED',
+        'SUCCEEDED',
+        'SUCCEEDED',
+        'SUCCEEDED',
+      ]);
+    });
+  });
+
+  describe('org url aliases', () => {
+    const OLD_ORG_URL = 'https://old.fakeorga.org/org.json';
+    const ORG_C_URL = 'https://fakeorgc.org/org.json';
+    const clock = new FakeClock();
+    clock.setTime(1000000);
+    const fetcher = new FakeJsonFetcher();
+    fetcher.map(ORG_C_URL, FakeOrgCConfigJson);
+    fetcher.map('https://fakeorgc.org/jwks.json', FakeOrgCConfigJwks);
+    const orgCSigner = new LocalKeySigner(ORG_C_URL, FakeOrgCPrivateKey, clock);
+
+    async function createTenantNode(
+      orgConfigProvider = new OrgConfigProvider({jsonFetcher: fetcher}),
+      allowedOrgUrls = [ORG_C_URL]
+    ): Promise<OprTenantNode> {
+      const node = new OprTenantNode(
+        {
+          name: 'Org A',
+          hostOrgUrl: HOST_ORG_URL,
+          orgUrlAliases: [OLD_ORG_URL],
+          hostUrlRoot: 'https://fakeorga.org',
+          jwksFilePath: 'https://fakeorga.org/jwks.json',
+          listingPolicy: new UniversalAcceptListingPolicy([ORG_C_URL]),
+          signer: new LocalKeySigner(HOST_ORG_URL, FakeOrgAPrivateKey, clock),
+          verifier: new StandardVerifier(orgConfigProvider),
+          orgConfigProvider: orgConfigProvider,
+          accessControlList: new StaticServerAccessControlList(allowedOrgUrls),
+          producers: [
+            new TestProducer('inventory', async () => ({
+              offers: iterableToAsync([
+                createOffer('old', OLD_ORG_URL, clock.now()),
+              ]),
+              sourceOrgUrl: 'inventory',
+              updateCurrentAsOfTimestampUTC: clock.now(),
+              earliestNextRequestUTC: clock.now() + 1000,
+            })),
+          ],
+          clock: clock,
+          destroy: async () => {},
+        },
+        new InMemoryPersistentStorage()
+      );
+      await node.start();
+      await node.ingest();
+      return node;
+    }
+
+    async function accept(
+      node: OprTenantNode,
+      aud: string
+    ): Promise<AcceptOfferResponse> {
+      const token = await orgCSigner.issueToken(aud, {
+        scopes: ['ACCEPTPRODUCT'],
+      });
+      let response: unknown;
+      const req = {
+        header: () => `Bearer ${token}`,
+        body: {offerId: 'old'},
+      } as unknown as Request;
+      const res = {
+        json: (json: unknown) => {
+          response = json;
+        },
+      } as unknown as Response;
+      await node.handleAccept(req, res);
+      return response as AcceptOfferResponse;
+    }
+
+    it('accepts offers posted under an alias with alias tokens', async () => {
+      const node = await createTenantNode();
+      const response = await accept(node, OLD_ORG_URL);
+      await node.destroy();
+      expect(response.offer.id).to.equal('old');
+      expect(response.offer.offeredBy).to.equal(OLD_ORG_URL);
+    });
+
+    it('rejects tokens addressed to other orgs', async () => {
+      const node = await createTenantNode();
+      await expect(accept(node, 'https://other.org/org.json'))
+        .to.eventually.be.rejectedWith('Auth token audience is')
+        .and.have.property('errorCode', 'AUTH_ERROR_AUD_INVALID');
+      await node.destroy();
+    });
+
+    it('keeps the acceptances of orgs that move', async () => {
+      const MOVED_ORG_C_URL = 'https://new.fakeorgc.org/org.json';
+      const movingFetcher = new FakeJsonFetcher();
+      movingFetcher.map(ORG_C_URL, FakeOrgCConfigJson);
+      movingFetcher.map('https://fakeorgc.org/jwks.json', FakeOrgCConfigJwks);
+      const node = await createTenantNode(
+        new OrgConfigProvider({jsonFetcher: movingFetcher}),
+        [ORG_C_URL, MOVED_ORG_C_URL]
+      );
+      await accept(node, HOST_ORG_URL);
+      movingFetcher.map(ORG_C_URL, {
+        ...FakeOrgCConfigJson,
+        movedTo: MOVED_ORG_C_URL,
+      });
+      movingFetcher.map(MOVED_ORG_C_URL, {
+        ...FakeOrgCConfigJson,
+        organizationURL: MOVED_ORG_C_URL,
+        orgUrlAliases: [ORG_C_URL],
+      });
+      const movedSigner = new LocalKeySigner(
+        MOVED_ORG_C_URL,
+        FakeOrgCPrivateKey,
+        clock
+      );
+      const token = await movedSigner.issueToken(HOST_ORG_URL, {
+        scopes: ['ACCEPTPRODUCT'],
+      });
+      let response: unknown;
+      const req = {
+        header: () => `Bearer ${token}`,
+        body: {offerId: 'old'},
+      } as unknown as Request;
+      const res = {
+        json: (json: unknown) => {
+          response = json;
+        },
+      } as unknown as Response;
+      await node.handleCancelAccept(req, res);
+      await node.destroy();
+      expect((response as CancelAcceptOfferResponse).offer?.id).to.equal('old');
+    });
+  });
+
+  describe('reshare revocations', () => {
+    const ORG_C_URL = 'https://fakeorgc.org/org.json';
+    const ORG_D_URL = 'https://fakeorgd.org/org.json';
+    const clock = new FakeClock();
+    clock.setTime(1000000);
+    const fetcher = new FakeJsonFetcher();
+    fetcher.map(HOST_ORG_URL, FakeOrgAConfigJson);
+    fetcher.map('https://fakeorga.org/jwks.json', FakeOrgAConfigJwks);
+    fetcher.map(ORG_C_URL, FakeOrgCConfigJson);
+    fetcher.map('https://fakeorgc.org/jwks.json', FakeOrgCConfigJwks);
+    fetcher.map(ORG_D_URL, FakeOrgDConfigJson);
+    fetcher.map('https://fakeorgd.org/jwks.json', FakeOrgDConfigJwks);
+    const orgCSigner = new LocalKeySigner(ORG_C_URL, FakeOrgCPrivateKey, clock);
+    const orgDSigner = new LocalKeySigner(ORG_D_URL, FakeOrgDPrivateKey, clock);
+
+    async function createTenantNode(
+      storage = new InMemoryPersistentStorage()
+    ): Promise<OprTenantNode> {
+      const node = new OprTenantNode(
+        {
+          name: 'Org A',
+          hostOrgUrl: HOST_ORG_URL,
+          hostUrlRoot: 'https://fakeorga.org',
+          jwksFilePath: 'https://fakeorga.org/jwks.json',
+          listingPolicy: new UniversalAcceptListingPolicy(
+            [ORG_C_URL, ORG_D_URL],
+            {orgs: [{orgUrl: ORG_C_URL, scopes: ['ACCEPT', 'RESHARE']}]}
+          ),
+          signer: new LocalKeySigner(HOST_ORG_URL, FakeOrgAPrivateKey, clock),
+          verifier: new StandardVerifier(
+            new OrgConfigProvider({jsonFetcher: fetcher})
+          ),
+          accessControlList: new StaticServerAccessControlList([ORG_C_URL]),
+          producers: [
+            new TestProducer('inventory', async () => ({
+              offers: iterableToAsync([
+                createOffer('offer1', HOST_ORG_URL, clock.now()),
+              ]),
+              sourceOrgUrl: 'inventory',
+              updateCurrentAsOfTimestampUTC: clock.now(),
+              earliestNextRequestUTC: clock.now() + 1000,
+            })),
+          ],
+          clock: clock,
+          destroy: async () => {},
+        },
+        storage
+      );
+      await node.start();
+      await node.ingest();
+      return node;
+    }
+
+    async function call(
+      handle: (req: Request, res: Response) => Promise<void>,
+      signer: LocalKeySigner,
+      scope: string,
+      body: unknown
+    ): Promise<unknown> {
+      const token = await signer.issueToken(HOST_ORG_URL, {scopes: [scope]});
+      let response: unknown;
+      const req = {
+        header: () => `Bearer ${token}`,
+        body: body,
+      } as unknown as Request;
+      const res = {
+        json: (json: unknown) => {
+          response = json;
+        },
+      } as unknown as Response;
+      await handle(req, res);
+      return response;
+    }
+
+    async function listForOrgC(node: OprTenantNode): Promise<Array<Offer>> {
+      const response = (await call(
+        (req, res) => node.handleList(req, res),
+        orgCSigner,
+        'LISTPRODUCTS',
+        {}
+      )) as ListOffersResponse;
+      return response.offers!;
+    }
+
+    async function acceptAsOrgD(
+      node: OprTenantNode,
+      reshareChain: ReshareChain
+    ): Promise<AcceptOfferResponse> {
+      return (await call(
+        (req, res) => node.handleAccept(req, res),
+        orgDSigner,
+        'ACCEPTPRODUCT',
+        {offerId: 'offer1', reshareChain: reshareChain}
+      )) as AcceptOfferResponse;
+    }
+
+    it('rejects accepts that present a revoked chain', async () => {
+      const node = await createTenantNode();
+      const [offer] = await listForOrgC(node);
+      const chain = await orgCSigner.signChain(offer.reshareChain!, ORG_D_URL, {
+        scopes: ['ACCEPT'],
+      });
+      await node.revokeReshareEntitlement({recipientOrgUrl: ORG_C_URL});
+      await expect(acceptAsOrgD(node, chain))
+        .to.eventually.be.rejectedWith('has been revoked')
+        .and.have.property('errorCode', 'ACCEPT_ERROR_RESHARE_CHAIN_REVOKED');
+      await node.restoreReshareEntitlement({recipientOrgUrl: ORG_C_URL});
+      const response = await acceptAsOrgD(node, chain);
+      await node.destroy();
+      expect(response.offer.id).to.equal('offer1');
+    });
+
+    it('removes revoked chains from listings', async () => {
+      const node = await createTenantNode();
+      const [offer] = await listForOrgC(node);
+      await node.revokeReshareEntitlement({
+        signature: decodeChain(offer.reshareChain!)[0].signature,
+      });
+      expect(await listForOrgC(node)).to.have.lengthOf(1);
+      await node.revokeReshareEntitlement({
+        recipientOrgUrl: ORG_C_URL,
+        offerId: 'offer1',
+      });
+      // The revoked org is still listed the offer, but without a chain it
+      // could reshare.
+      const [revokedOffer] = await listForOrgC(node);
+      expect(revokedOffer.id).to.equal('offer1');
+      expect(revokedOffer.reshareChain).to.be.undefined;
+      expect(await node.getReshareRevocations()).to.have.lengthOf(2);
+      await node.restoreReshareEntitlement({
+        recipientOrgUrl: ORG_C_URL,
+        offerId: 'offer1',
+      });
+      const [restoredOffer] = await listForOrgC(node);
+      expect(restoredOffer.reshareChain).to.not.be.undefined;
+      await node.destroy();
+    });
+
+    it('stores no revocation if relisting fails', async () => {
+      const storage = new InMemoryPersistentStorage();
+      const node = await createTenantNode(storage);
+      const [offer] = await listForOrgC(node);
+      storage.getCorpusOffers = () => {
+        throw new Error('Relisting failed');
+      };
+      let failCount = 0;
+      const createTransaction = storage.createTransaction.bind(storage);
+      storage.createTransaction = async type => {
+        const t = await createTransaction(type);
+        const fail = t.fail.bind(t);
+        t.fail = () => {
+          failCount++;
+          return fail();
+        };
+        return t;
+      };
+      await expect(
+        node.revokeReshareEntitlement({recipientOrgUrl: ORG_C_URL})
+      ).to.eventually.be.rejectedWith('Relisting failed');
+      expect(failCount).to.equal(1);
+      expect(await node.getReshareRevocations()).to.be.empty;
+      expect((await listForOrgC(node))[0].reshareChain).to.deep.equal(
+        offer.reshareChain
+      );
+      await node.destroy();
+    });
+
+    it('lets a revoked org accept directly', async () => {
+      const node = await createTenantNode();
+      const [offer] = await listForOrgC(node);
+      await node.revokeReshareEntitlement({recipientOrgUrl: ORG_C_URL});
+      const response = (await call(
+        (req, res) => node.handleAccept(req, res),
+        orgCSigner,
+        'ACCEPTPRODUCT',
+        {offerId: 'offer1', reshareChain: offer.reshareChain}
+      )) as AcceptOfferResponse;
+      await node.destroy();
+      expect(response.offer.id).to.equal('offer1');
+    });
+  });
+
+  describe('rate limiting', () => {
+    const ORG_C_URL = 'https://fakeorgc.org/org.json';
+    const clock = new FakeClock();
+    clock.setTime(1000000);
+    const fetcher = new FakeJsonFetcher();
+    fetcher.map(ORG_C_URL, FakeOrgCConfigJson);
+    fetcher.map('https://fakeorgc.org/jwks.json', FakeOrgCConfigJwks);
+    const orgCSigner = new LocalKeySigner(ORG_C_URL, FakeOrgCPrivateKey, clock);
+
+    function issueListToken(): Promise<string> {
+      return orgCSigner.issueToken(HOST_ORG_URL, {scopes: ['LISTPRODUCTS']});
+    }
+
+    async function listForOrgC(
+      node: OprTenantNode,
+      headers: Record<string, string>,
+      token?: string
+    ): Promise<void> {
+      token = token ?? (await issueListToken());
+      const req = {
+        header: () => `Bearer ${token}`,
+        body: {},
+      } as unknown as Request;
+      const res = {
+        json: () => {},
+        set: (name: string, value: string) => {
+          headers[name] = value;
+        },
+      } as unknown as Response;
+      await node.handleList(req, res);
+    }
+
+    it('rejects requests over the limit with 429', async () => {
+      const node = new OprTenantNode(
+        {
+          name: 'Org A',
+          hostOrgUrl: HOST_ORG_URL,
+          hostUrlRoot: 'https://fakeorga.org',
+          jwksFilePath: 'https://fakeorga.org/jwks.json',
+          listingPolicy: new UniversalAcceptListingPolicy([ORG_C_URL]),
+          signer: new LocalKeySigner(HOST_ORG_URL, FakeOrgAPrivateKey, clock),
+          verifier: new StandardVerifier(
+            new OrgConfigProvider({jsonFetcher: fetcher})
+          ),
+          accessControlList: new StaticServerAccessControlList([ORG_C_URL]),
+          rateLimits: {limits: {LIST: {capacity: 1, refillPerSecond: 0.25}}},
+          clock: clock,
+          destroy: async () => {},
+        },
+        new InMemoryPersistentStorage()
+      );
+      await node.start();
+      const headers = {} as Record<string, string>;
+      await listForOrgC(node, headers);
+      await expect(listForOrgC(node, headers))
+        .to.eventually.be.rejectedWith('exceeded its rate limit')
+        .and.include({errorCode: 'RATE_LIMIT_ERROR_EXCEEDED', httpStatus: 429});
+      expect(headers['Retry-After']).to.equal('4');
+      clock.setTime(clock.now() + 4000);
+      await listForOrgC(node, headers);
+      await node.destroy();
+    });
+
+    it('does not use up the tokens of limited requests', async () => {
+      const node = new OprTenantNode(
+        {
+          name: 'Org A',
+          hostOrgUrl: HOST_ORG_URL,
+          hostUrlRoot: 'https://fakeorga.org',
+          jwksFilePath: 'https://fakeorga.org/jwks.json',
+          listingPolicy: new UniversalAcceptListingPolicy([ORG_C_URL]),
+          signer: new LocalKeySigner(HOST_ORG_URL, FakeOrgAPrivateKey, clock),
+          verifier: new StandardVerifier(
+            new OrgConfigProvider({jsonFetcher: fetcher})
+          ),
+          accessControlList: new StaticServerAccessControlList([ORG_C_URL]),
+          rateLimits: {limits: {LIST: {capacity: 1, refillPerSecond: 0.25}}},
+          replayProtection: {unprotectedOperations: []},
+          clock: clock,
+          destroy: async () => {},
+        },
+        new InMemoryPersistentStorage()
+      );
+      await node.start();
+      const headers = {} as Record<string, string>;
+      await listForOrgC(node, headers);
+      const token = await issueListToken();
+      await expect(listForOrgC(node, headers, token))
+        .to.eventually.be.rejectedWith('exceeded its rate limit')
+        .and.include({errorCode: 'RATE_LIMIT_ERROR_EXCEEDED'});
+      clock.setTime(clock.now() + 4000);
+      await listForOrgC(node, headers, token);
+      clock.setTime(clock.now() + 4000);
+      await expect(listForOrgC(node, headers, token))
+        .to.eventually.be.rejectedWith('already been used')
+        .and.include({errorCode: 'AUTH_ERROR_TOKEN_REPLAYED'});
+      await node.destroy();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {TenantNodeConfigJson} from '../../src/config/tenantnodeconfig';
+import {OprTenantNode} from '../../src/server/oprtenantnode';
+import {TenantNodeCache} from '../../src/server/tenantnodecache';
+import {FakeClock} from '../../src/util/fakeclock';
+import loglevel from '../../src/util/loglevel';
+
+/**
+ * A stand-in for a started tenant node that records whether it has been
+ * destroyed.
+ */
+interface FakeTenantNode {
+  name: string;
+  isDestroyed: boolean;
+  destroy(): Promise<void>;
+}
+
+describe('TenantNodeCache', () => {
+  const logger = loglevel.getLogger('TenantNodeCacheTest');
+  logger.setLevel('silent');
+  let clock: FakeClock;
+  let configs: Record<string, TenantNodeConfigJson>;
+  let createdNodes: Array<FakeTenantNode>;
+  let cache: TenantNodeCache;
+
+  function createCache(ttlMillis: number): TenantNodeCache {
+    return new TenantNodeCache({
+      clock: clock,
+      ttlMillis: ttlMillis,
+      logger: logger,
+      getTenantConfig: async hostId => configs[hostId],
+      createTenantNode: async (hostId, configJson) => {
+        const node: FakeTenantNode = {
+          name: configJson.name as string,
+          isDestroyed: false,
+          destroy: async () => {
+            node.isDestroyed = true;
+          },
+        };
+        createdNodes.push(node);
+        return {
+          node: node as unknown as OprTenantNode,
+          config: {destroy: async () => {}} as never,
+        };
+      },
+    });
+  }
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    configs = {
+      a: {name: 'A1'} as TenantNodeConfigJson,
+      b: {name: 'B1'} as TenantNodeConfigJson,
+    };
+    createdNodes = [];
+    cache = createCache(1000);
+  });
+
+  it('reuses a tenant node until the ttl expires', async () => {
+    await cache.withTenantNode('a', async () => {});
+    await cache.withTenantNode('a', async () => {});
+    await cache.withTenantNode('b', async () => {});
+    expect(createdNodes.map(n => n.name)).to.deep.equal(['A1', 'B1']);
+    expect(createdNodes.some(n => n.isDestroyed)).to.be.false;
+  });
+
+  it('keeps a node past the ttl if its config is unchanged', async () => {
+    await cache.withTenantNode('a', async () => {});
+    clock.setTime(clock.now() + 1000);
+    await cache.withTenantNode('a', async () => {});
+    expect(createdNodes.map(n => n.name)).to.deep.equal(['A1']);
+  });
+
+  it('replaces a tenant node after the ttl if its config changed', async () => {
+    await cache.withTenantNode('a', async () => {});
+    configs.a = {name: 'A2'} as TenantNodeConfigJson;
+    clock.setTime(clock.now() + 1000);
+    const name = await cache.withTenantNode('a', async node => node.name);
+    expect(name).to.equal('A2');
+    expect(createdNodes.map(n => [n.name, n.isDestroyed])).to.deep.equal([
+      ['A1', true],
+      ['A2', false],
+    ]);
+  });
+
+  it('destroys invalidated nodes once their leases are released', async () => {
+    const lease = await cache.acquire('a');
+    await cache.invalidate('a');
+    expect(createdNodes[0].isDestroyed).to.be.false;
+    await cache.withTenantNode('a', async () => {});
+    expect(createdNodes).to.have.length(2);
+    await lease.release();
+    expect(createdNodes[0].isDestroyed).to.be.true;
+    expect(createdNodes[1].isDestroyed).to.be.false;
+    await cache.clear();
+    expect(createdNodes[1].isDestroyed).to.be.true;
+  });
+
+  it('creates a new node for every lease if the ttl is zero', async () => {
+    cache = createCache(0);
+    await cache.withTenantNode('a', async () => {});
+    await cache.withTenantNode('a', async () => {});
+    expect(createdNodes.map(n => [n.name, n.isDestroyed])).to.deep.equal([
+      ['A1', true],
+      ['A1', true],
+    ]);
+  });
+});
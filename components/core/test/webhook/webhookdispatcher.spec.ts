@@ -0,0 +1,199 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {createHmac} from 'crypto';
+import {Offer} from 'opr-models';
+import {IntegrationApi} from '../../src/integrations/integrationapi';
+import {OfferChange} from '../../src/model/offerchange';
+import {ExponentialBackoffPolicy} from '../../src/policy/exponentialbackoffpolicy';
+import {FakeClock} from '../../src/util/fakeclock';
+import {JsonValue} from '../../src/util/jsonvalue';
+import {
+  WebhookDispatcher,
+  WebhookEndpointJson,
+} from '../../src/webhook/webhookdispatcher';
+
+interface PostedRequest {
+  url: string;
+  body: string;
+  headers: Record<string, string>;
+}
+
+/** A fake integration api that supports only key-value storage and tokens. */
+function fakeApi(values: Map<string, JsonValue>): IntegrationApi {
+  return {
+    hostOrgUrl: 'https://host.org/org.json',
+    async storeValue(key: string, value: JsonValue) {
+      const oldValue = values.get(key);
+      values.set(key, value);
+      return oldValue;
+    },
+    async clearAllValues(keyPrefix: string) {
+      let count = 0;
+      for (const key of [...values.keys()]) {
+        if (key.startsWith(keyPrefix)) {
+          values.delete(key);
+          count++;
+        }
+      }
+      return count;
+    },
+    async *getValues(keyPrefix: string) {
+      const keys = [...values.keys()].filter(k => k.startsWith(keyPrefix));
+      for (const key of keys.sort()) {
+        yield values.get(key)!;
+      }
+    },
+    async issueToken(aud: string, options?: {sub?: string}) {
+      return `token:${aud}:${options?.sub}`;
+    },
+  } as unknown as IntegrationApi;
+}
+
+const OFFER = {id: 'offer1', offeredBy: 'https://host.org/org.json'} as Offer;
+
+function change(type: 'ADD' | 'DELETE'): OfferChange {
+  return {
+    type: type,
+    timestampUTC: 1000,
+    newValue: type === 'ADD' ? OFFER : undefined,
+    oldValue: type === 'DELETE' ? OFFER : undefined,
+  };
+}
+
+describe('WebhookDispatcher', () => {
+  let clock: FakeClock;
+  let values: Map<string, JsonValue>;
+  let posted: Array<PostedRequest>;
+  let responseStatus: number;
+
+  function newDispatcher(endpoints: Array<WebhookEndpointJson>) {
+    return new WebhookDispatcher({
+      api: fakeApi(values),
+      endpoints: endpoints,
+      keyPrefix: 'webhooks/test/',
+      maxAttempts: 3,
+      backoffPolicy: new ExponentialBackoffPolicy(
+        {initialRetryIntervalMillis: 1000},
+        () => 0
+      ),
+      clock: clock,
+      postFn: async (url, body, headers) => {
+        posted.push({url: url, body: body, headers: headers});
+        return responseStatus;
+      },
+    });
+  }
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    clock.setTime(10000);
+    values = new Map();
+    posted = [];
+    responseStatus = 200;
+  });
+
+  it('delivers matching changes and clears the queue', async () => {
+    const dispatcher = newDispatcher([
+      {url: 'https://a.org/hook', events: ['ADD']},
+      {url: 'https://b.org/hook', events: ['DELETE']},
+    ]);
+    await dispatcher.handleChange(change('ADD'));
+    expect(posted.map(p => p.url)).to.deep.equal(['https://a.org/hook']);
+    const request = posted[0];
+    expect(JSON.parse(request.body)).to.deep.equal({
+      hostUrl: 'https://host.org/org.json',
+      changeType: 'ADD',
+      timestampUTC: 1000,
+      offerId: 'offer1',
+      offer: OFFER,
+    });
+    expect(request.headers['X-OPR-Event-Type']).to.equal('ADD');
+    const deliveryId = request.headers['X-OPR-Delivery-Id'];
+    expect(request.headers['Authorization']).to.equal(
+      `Bearer token:https://a.org/hook:${deliveryId}`
+    );
+    expect(await dispatcher.getQueuedDeliveries()).to.be.empty;
+  });
+
+  it('signs deliveries with an HMAC', async () => {
+    const dispatcher = newDispatcher([
+      {url: 'https://a.org/hook', signingMethod: 'HMAC', hmacSecret: 'shh'},
+    ]);
+    await dispatcher.handleChange(change('DELETE'));
+    const request = posted[0];
+    const expected = createHmac('sha256', 'shh')
+      .update(request.body)
+      .digest('hex');
+    expect(request.headers['X-OPR-Signature']).to.equal(`sha256=${expected}`);
+    expect(request.headers['Authorization']).to.be.undefined;
+  });
+
+  it('retries failed deliveries after backing off', async () => {
+    const dispatcher = newDispatcher([{url: 'https://a.org/hook'}]);
+    responseStatus = 500;
+    await dispatcher.handleChange(change('ADD'));
+    let queued = await dispatcher.getQueuedDeliveries();
+    expect(queued).to.have.length(1);
+    expect(queued[0].attemptCount).to.equal(1);
+    expect(queued[0].nextAttemptUTC).to.equal(11000);
+    expect(queued[0].lastError).to.equal('Endpoint responded with status 500');
+
+    // Not due yet.
+    await dispatcher.processQueue();
+    expect(posted).to.have.length(1);
+
+    responseStatus = 204;
+    clock.setTime(11000);
+    await dispatcher.processQueue();
+    expect(posted).to.have.length(2);
+    expect(posted[1].headers['X-OPR-Delivery-Id']).to.equal(queued[0].id);
+    queued = await dispatcher.getQueuedDeliveries();
+    expect(queued).to.be.empty;
+  });
+
+  it('dead-letters deliveries after the maximum attempts', async () => {
+    const dispatcher = new WebhookDispatcher({
+      api: fakeApi(values),
+      endpoints: [{url: 'https://a.org/hook'}],
+      keyPrefix: 'webhooks/test/',
+      maxAttempts: 2,
+      clock: clock,
+      postFn: async () => {
+        throw new Error('connection refused');
+      },
+    });
+    await dispatcher.handleChange(change('ADD'));
+    clock.setTime(clock.now() + 24 * 60 * 60 * 1000);
+    await dispatcher.processQueue();
+    expect(await dispatcher.getQueuedDeliveries()).to.be.empty;
+    const deadLetters = await dispatcher.getDeadLetters();
+    expect(deadLetters).to.have.length(1);
+    expect(deadLetters[0].attemptCount).to.equal(2);
+    expect(deadLetters[0].lastError).to.equal(
+      'Request failed: connection refused'
+    );
+    expect(deadLetters[0].deadLetteredAtUTC).to.equal(clock.now());
+  });
+
+  it('rejects HMAC endpoints without a secret', () => {
+    expect(() =>
+      newDispatcher([{url: 'https://a.org/hook', signingMethod: 'HMAC'}])
+    ).to.throw();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {IntegrationApi} from '../../src/integrations/integrationapi';
+import {WebhookIntegration} from '../../src/webhook/webhookintegration';
+
+/** A fake integration api that counts scans of the retry queue. */
+function fakeApi(counts: {scans: number; handlers: number}): IntegrationApi {
+  return {
+    hostOrgUrl: 'https://host.org/org.json',
+    registerChangeHandler() {
+      counts.handlers++;
+      return {
+        remove() {
+          counts.handlers--;
+        },
+      };
+    },
+    // eslint-disable-next-line require-yield
+    async *getValues() {
+      counts.scans++;
+    },
+  } as unknown as IntegrationApi;
+}
+
+async function wait(millis: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, millis));
+}
+
+describe('WebhookIntegration', () => {
+  it('stops polling the retry queue when destroyed', async () => {
+    const counts = {scans: 0, handlers: 0};
+    const installer = await WebhookIntegration.construct(
+      {endpoints: [], retryPollIntervalMillis: 5},
+      {hostOrgUrl: 'https://host.org/org.json'},
+      {}
+    );
+    await installer.install(fakeApi(counts));
+    await wait(20);
+    expect(counts.scans).to.be.greaterThan(1);
+    expect(counts.handlers).to.equal(1);
+    await installer.destroy!();
+    expect(counts.handlers).to.equal(0);
+    const scansAtDestroy = counts.scans;
+    await wait(20);
+    expect(counts.scans).to.equal(scansAtDestroy);
+  });
+
+  it('keeps a single dispatch loop when reinstalled', async () => {
+    const counts = {scans: 0, handlers: 0};
+    const installer = await WebhookIntegration.construct(
+      {endpoints: [], retryPollIntervalMillis: 5},
+      {hostOrgUrl: 'https://host.org/org.json'},
+      {}
+    );
+    const api = fakeApi(counts);
+    await installer.install(api);
+    await installer.install(api);
+    expect(counts.handlers).to.equal(1);
+    await installer.uninstall!(api);
+    expect(counts.handlers).to.equal(0);
+    const scansAtUninstall = counts.scans;
+    await wait(20);
+    expect(counts.scans).to.equal(scansAtUninstall);
+  });
+});
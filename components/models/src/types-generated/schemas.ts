@@ -18,9 +18,15 @@
 
 export {default as AcceptOfferPayload} from '../accept.payload.schema.json';
 export {default as AcceptOfferResponse} from '../accept.response.schema.json';
+export {default as CancelAcceptOfferPayload} from '../cancelaccept.payload.schema.json';
+export {default as CancelAcceptOfferResponse} from '../cancelaccept.response.schema.json';
 export {default as DecodedAuthToken} from '../decodedauthtoken.schema.json';
 export {default as DecodedReshareChain} from '../decodedresharechain.schema.json';
 export {default as DecodedReshareChainLink} from '../decodedresharechainlink.schema.json';
+export {default as FulfillmentPayload} from '../fulfillment.payload.schema.json';
+export {default as FulfillmentResponse} from '../fulfillment.response.schema.json';
+export {default as Fulfillment} from '../fulfillment.schema.json';
+export {default as FulfillmentStatus} from '../fulfillmentstatus.schema.json';
 export {default as HistoryPayload} from '../history.payload.schema.json';
 export {default as HistoryResponse} from '../history.response.schema.json';
 export {default as JSONPatch} from '../jsonpatch.schema.json';
@@ -35,6 +41,8 @@ export {default as OfferContact} from '../offercontact.schema.json';
 export {default as OfferHistory} from '../offerhistory.schema.json';
 export {default as OfferLocation} from '../offerlocation.schema.json';
 export {default as OfferPatch} from '../offerpatch.schema.json';
+export {default as OfferSlice} from '../offerslice.schema.json';
+export {default as OfferSliceItem} from '../offersliceitem.schema.json';
 export {default as OtherMeasurement} from '../othermeasurement.schema.json';
 export {default as PackagingType} from '../packagingtype.schema.json';
 export {default as Price} from '../price.schema.json';
@@ -42,6 +50,8 @@ export {default as Product} from '../product.schema.json';
 export {default as ProductBundle} from '../productbundle.schema.json';
 export {default as RejectOfferPayload} from '../reject.payload.schema.json';
 export {default as RejectOfferResponse} from '../reject.response.schema.json';
+export {default as ReleaseOfferPayload} from '../release.payload.schema.json';
+export {default as ReleaseOfferResponse} from '../release.response.schema.json';
 export {default as ReserveOfferPayload} from '../reserve.payload.schema.json';
 export {default as ReserveOfferResponse} from '../reserve.response.schema.json';
 export {default as ReshareChain} from '../resharechain.schema.json';
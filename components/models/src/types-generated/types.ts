@@ -24,6 +24,7 @@ export interface AcceptOfferPayload {
   offerId: string;
   ifNotNewerThanTimestampUTC?: Timestamp;
   reshareChain?: ReshareChain;
+  slice?: OfferSlice;
 }
 
 /**
@@ -33,6 +34,22 @@ export interface AcceptOfferResponse {
   offer: Offer;
 }
 
+/**
+ * Payload for a request to cancel an earlier acceptance of an offer.
+ */
+export interface CancelAcceptOfferPayload {
+  offerId: string;
+  reshareChain?: ReshareChain;
+  rejectAfterCancel?: boolean;
+}
+
+/**
+ * Response to a request to cancel an earlier acceptance of an offer.
+ */
+export interface CancelAcceptOfferResponse {
+  offer: Offer;
+}
+
 /**
  * A decoded auth token
  */
@@ -59,6 +76,46 @@ export interface DecodedReshareChainLink {
   signature: string;
 }
 
+/**
+ * Payload for a request to report the fulfillment status of an accepted offer.
+ */
+export interface FulfillmentPayload {
+  offerId: string;
+  reshareChain?: ReshareChain;
+  status: FulfillmentStatus;
+  scheduledPickupUTC?: Timestamp;
+  receivedSlice?: OfferSlice;
+  notes?: string;
+}
+
+/**
+ * Response to a request to report the fulfillment status of an accepted offer.
+ */
+export interface FulfillmentResponse {
+  fulfillment: Fulfillment;
+}
+
+/**
+ * A report of the pickup or delivery status of an accepted offer
+ */
+export interface Fulfillment {
+  status: FulfillmentStatus;
+  reportedAtUTC: Timestamp;
+  reportedBy: string;
+  scheduledPickupUTC?: Timestamp;
+  receivedSlice?: OfferSlice;
+  notes?: string;
+}
+
+/**
+ * Enum of possible states of an accepted offer after acceptance
+ */
+export type FulfillmentStatus =
+  | 'SCHEDULED'
+  | 'PICKED_UP'
+  | 'NO_SHOW'
+  | 'PARTIALLY_RECEIVED';
+
 /**
  * Payload for a request for offer history.
  */
@@ -176,6 +233,7 @@ export interface Offer {
   offerCreationUTC: Timestamp;
   offerUpdateUTC?: Timestamp;
   maxReservationTimeSecs?: number;
+  maxReshareDepth?: number;
 }
 
 /**
@@ -196,6 +254,9 @@ export interface OfferHistory {
   acceptedAtUTC: Timestamp;
   decodedReshareChain?: DecodedReshareChain;
   acceptingOrganization: string;
+  acceptedSlice?: OfferSlice;
+  cancelledAtUTC?: Timestamp;
+  fulfillment?: Fulfillment;
 }
 
 /**
@@ -222,6 +283,21 @@ export type OfferPatch =
     }
   | 'clear';
 
+/**
+ * A portion of an offer's contents, expressed as quantities of products or product bundles identified by id
+ *
+ * @minItems 1
+ */
+export type OfferSlice = OfferSliceItem[];
+
+/**
+ * A quantity of a single product or product bundle in an offer's contents
+ */
+export interface OfferSliceItem {
+  id: string;
+  quantity: number;
+}
+
 /**
  * An absolute measurement of some physical quantity. A measurement is always a combination of a unit, a dimension, and a value. For some measurements, the dimension must be specified explicitly (i.e. a measurement in 'inches' must specify a physical dimension being measured, like 'height'). However, for some measurements the dimension is implied by the unit (i.e. 'count' is always a measure of quantity), so the dimension does not need to be specified explicitly, although it is legal to do so.
  */
@@ -355,6 +431,21 @@ export interface RejectOfferResponse {
   offer: Offer;
 }
 
+/**
+ * Payload for a request to release a reservation on an offer.
+ */
+export interface ReleaseOfferPayload {
+  offerId: string;
+  reshareChain?: ReshareChain;
+}
+
+/**
+ * Response to a request to release a reservation on an offer.
+ */
+export interface ReleaseOfferResponse {
+  offer: Offer;
+}
+
 /**
  * Payload for a request to reserve an offer.
  */
@@ -435,12 +526,24 @@ export interface SchemaNameToType {
   ['accept.payload.schema.json']: AcceptOfferPayload;
   AcceptOfferResponse: AcceptOfferResponse;
   ['accept.response.schema.json']: AcceptOfferResponse;
+  CancelAcceptOfferPayload: CancelAcceptOfferPayload;
+  ['cancelaccept.payload.schema.json']: CancelAcceptOfferPayload;
+  CancelAcceptOfferResponse: CancelAcceptOfferResponse;
+  ['cancelaccept.response.schema.json']: CancelAcceptOfferResponse;
   DecodedAuthToken: DecodedAuthToken;
   ['decodedauthtoken.schema.json']: DecodedAuthToken;
   DecodedReshareChain: DecodedReshareChain;
   ['decodedresharechain.schema.json']: DecodedReshareChain;
   DecodedReshareChainLink: DecodedReshareChainLink;
   ['decodedresharechainlink.schema.json']: DecodedReshareChainLink;
+  FulfillmentPayload: FulfillmentPayload;
+  ['fulfillment.payload.schema.json']: FulfillmentPayload;
+  FulfillmentResponse: FulfillmentResponse;
+  ['fulfillment.response.schema.json']: FulfillmentResponse;
+  Fulfillment: Fulfillment;
+  ['fulfillment.schema.json']: Fulfillment;
+  FulfillmentStatus: FulfillmentStatus;
+  ['fulfillmentstatus.schema.json']: FulfillmentStatus;
   HistoryPayload: HistoryPayload;
   ['history.payload.schema.json']: HistoryPayload;
   HistoryResponse: HistoryResponse;
@@ -469,6 +572,10 @@ export interface SchemaNameToType {
   ['offerlocation.schema.json']: OfferLocation;
   OfferPatch: OfferPatch;
   ['offerpatch.schema.json']: OfferPatch;
+  OfferSlice: OfferSlice;
+  ['offerslice.schema.json']: OfferSlice;
+  OfferSliceItem: OfferSliceItem;
+  ['offersliceitem.schema.json']: OfferSliceItem;
   OtherMeasurement: OtherMeasurement;
   ['othermeasurement.schema.json']: OtherMeasurement;
   PackagingType: PackagingType;
@@ -483,6 +590,10 @@ export interface SchemaNameToType {
   ['reject.payload.schema.json']: RejectOfferPayload;
   RejectOfferResponse: RejectOfferResponse;
   ['reject.response.schema.json']: RejectOfferResponse;
+  ReleaseOfferPayload: ReleaseOfferPayload;
+  ['release.payload.schema.json']: ReleaseOfferPayload;
+  ReleaseOfferResponse: ReleaseOfferResponse;
+  ['release.response.schema.json']: ReleaseOfferResponse;
   ReserveOfferPayload: ReserveOfferPayload;
   ['reserve.payload.schema.json']: ReserveOfferPayload;
   ReserveOfferResponse: ReserveOfferResponse;
@@ -15,15 +15,25 @@
  */
 
 import {
+  HandlerRegistration,
+  Logger,
+  loglevel,
   PluggableFactorySet,
   StatusError,
   TenantNodeConfigJson,
   TenantNodeConfigProvider,
 } from 'opr-core';
-import {getGcsJson, listDir} from '../util/gcs';
+import {getGcsJsonFromFile, listDir, toFile} from '../util/gcs';
+
+const DEFAULT_CHANGE_POLL_INTERVAL_MILLIS = 60 * 1000;
 
 export interface CloudStorageTenantNodeConfigOptionsJson {
   bucket: string;
+  /**
+   * How often to check loaded configuration files for changes. Defaults to 1
+   * minute.
+   */
+  changePollIntervalMillis?: number;
 }
 
 export class CloudStorageTenantNodeConfigProvider<
@@ -33,20 +43,32 @@ export class CloudStorageTenantNodeConfigProvider<
   readonly type = 'tenantConfigProvider';
 
   private bucket: string;
+  private changePollIntervalMillis: number;
+  private changeListeners: Set<(hostId: string) => void>;
+  private knownGenerations: Map<string, string>;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private isPolling = false;
+  private logger: Logger;
 
   constructor(options: CloudStorageTenantNodeConfigOptionsJson) {
     this.bucket = options.bucket;
+    this.changePollIntervalMillis =
+      options.changePollIntervalMillis ?? DEFAULT_CHANGE_POLL_INTERVAL_MILLIS;
+    this.changeListeners = new Set();
+    this.knownGenerations = new Map();
+    this.logger = loglevel.getLogger('CloudStorageTenantNodeConfigProvider');
   }
 
   async getTenantConfig(
     hostId: string
   ): Promise<TenantNodeConfigJson<Allowed>> {
     try {
-      return await getGcsJson({
-        bucket: this.bucket,
-        // TODO(johndayrichter): Make this path configurable.
-        path: `orgs/${hostId}/config.json`,
-      });
+      if (this.changeListeners.size > 0) {
+        // Read the generation before the contents, so that a change made in
+        // between is reported as a change on the next poll.
+        this.knownGenerations.set(hostId, await this.getGeneration(hostId));
+      }
+      return await getGcsJsonFromFile(this.getConfigFile(hostId));
     } catch (e) {
       throw new StatusError(
         'No host found with id ' + hostId,
@@ -65,4 +87,71 @@ export class CloudStorageTenantNodeConfigProvider<
       yield id;
     }
   }
+
+  /**
+   * Registers a listener that is called when a configuration file that has
+   * already been read by this provider changes. The generation of each file is
+   * polled every changePollIntervalMillis while any listeners are registered.
+   */
+  onTenantConfigChange(
+    listener: (hostId: string) => void
+  ): HandlerRegistration {
+    this.changeListeners.add(listener);
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(
+        () => void this.pollForChanges(),
+        this.changePollIntervalMillis
+      );
+      this.pollTimer.unref();
+    }
+    return {
+      remove: () => {
+        this.changeListeners.delete(listener);
+        if (this.changeListeners.size === 0 && this.pollTimer) {
+          clearInterval(this.pollTimer);
+          this.pollTimer = undefined;
+          this.knownGenerations.clear();
+        }
+      },
+    };
+  }
+
+  private getConfigFile(hostId: string) {
+    return toFile({
+      bucket: this.bucket,
+      // TODO(johndayrichter): Make this path configurable.
+      path: `orgs/${hostId}/config.json`,
+    });
+  }
+
+  private async getGeneration(hostId: string): Promise<string> {
+    const [metadata] = await this.getConfigFile(hostId).getMetadata();
+    return String(metadata.generation);
+  }
+
+  private async pollForChanges(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+    try {
+      for (const [hostId, generation] of this.knownGenerations) {
+        let currentGeneration: string | undefined;
+        try {
+          currentGeneration = await this.getGeneration(hostId);
+        } catch (e) {
+          this.logger.warn('Failed to check config generation for', hostId, e);
+          currentGeneration = undefined;
+        }
+        if (currentGeneration !== generation) {
+          this.knownGenerations.delete(hostId);
+          for (const listener of this.changeListeners) {
+            listener(hostId);
+          }
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
 }
@@ -15,6 +15,7 @@
  */
 
 export * from './auth/cloudstoragejwksprovider';
+export * from './auth/cloudstoragekeyring';
 export * from './auth/cloudstoragekeysigner';
 export * from './config/cloudstoragetenantnodeconfigprovider';
 export * from './integrations';
@@ -54,6 +54,7 @@ export const PubSubIntegration = {
                 timestampUTC: change.timestampUTC,
                 offerId: change.newValue?.id ?? change.oldValue?.id,
                 offer: change.newValue ?? change.oldValue,
+                fulfillment: change.fulfillment,
               });
               topic.publishMessage(
                 {
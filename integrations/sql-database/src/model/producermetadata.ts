@@ -16,6 +16,7 @@
 
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import {DecodedReshareChain} from 'opr-models';
+import {OfferProducerMetadata} from 'opr-core';
 import {
   Entity,
   Column,
@@ -38,6 +39,18 @@ export class ProducerMetadata {
   @Column({type: 'bigint', nullable: true})
   lastUpdateTimeUTC?: number;
 
+  @Column({type: 'int', nullable: true})
+  consecutiveFailureCount?: number | null;
+
+  @Column({type: 'text', nullable: true})
+  lastErrorMessage?: string | null;
+
+  @Column({type: 'bigint', nullable: true})
+  lastFailureTimeUTC?: number | null;
+
+  @Column({type: 'boolean', nullable: true})
+  circuitBreakerTripped?: boolean | null;
+
   @AfterLoad()
   restoreBigInt() {
     // Bigints are marshalled to strings in some drivers, and are not
@@ -50,5 +63,42 @@ export class ProducerMetadata {
     if (typeof this.lastUpdateTimeUTC === 'string') {
       this.lastUpdateTimeUTC = parseInt(this.lastUpdateTimeUTC);
     }
+
+    if (typeof this.lastFailureTimeUTC === 'string') {
+      this.lastFailureTimeUTC = parseInt(this.lastFailureTimeUTC);
+    }
+  }
+
+  /**
+   * Sets the columns of this entity from the given metadata. Missing failure
+   * fields are written as null, so that a successful run clears them.
+   */
+  setFromOfferProducerMetadata(metadata: OfferProducerMetadata) {
+    this.organizationUrl = metadata.organizationUrl;
+    this.nextRunTimestampUTC = metadata.nextRunTimestampUTC;
+    this.lastUpdateTimeUTC = metadata.lastUpdateTimeUTC;
+    this.consecutiveFailureCount = metadata.consecutiveFailureCount ?? null;
+    this.lastErrorMessage = metadata.lastErrorMessage ?? null;
+    this.lastFailureTimeUTC = metadata.lastFailureTimeUTC ?? null;
+    this.circuitBreakerTripped = metadata.circuitBreakerTripped ?? null;
+  }
+
+  toOfferProducerMetadata(): OfferProducerMetadata {
+    const metadata: Record<string, unknown> = {
+      organizationUrl: this.organizationUrl,
+      nextRunTimestampUTC: this.nextRunTimestampUTC,
+      lastUpdateTimeUTC: this.lastUpdateTimeUTC,
+      consecutiveFailureCount: this.consecutiveFailureCount,
+      lastErrorMessage: this.lastErrorMessage,
+      lastFailureTimeUTC: this.lastFailureTimeUTC,
+      circuitBreakerTripped: this.circuitBreakerTripped,
+    };
+    // Nullable columns are loaded as null rather than undefined.
+    for (const key of Object.keys(metadata)) {
+      if (metadata[key] === null || metadata[key] === undefined) {
+        delete metadata[key];
+      }
+    }
+    return metadata as unknown as OfferProducerMetadata;
   }
 }
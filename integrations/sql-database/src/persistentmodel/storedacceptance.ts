@@ -15,12 +15,17 @@
  */
 
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import {DecodedReshareChain, ReshareChain} from 'opr-models';
+import {
+  DecodedReshareChain,
+  Fulfillment,
+  OfferSlice,
+  ReshareChain,
+} from 'opr-models';
 import {
   Entity,
   Column,
   PrimaryGeneratedColumn,
-  OneToOne,
+  ManyToOne,
   Index,
   JoinColumn,
   AfterLoad,
@@ -42,11 +47,27 @@ export class StoredAcceptance {
   @Column({type: 'simple-json', nullable: true})
   decodedReshareChain?: DecodedReshareChain;
 
+  // If this was a partial acceptance, the slice of the offer that was
+  // accepted.
+  @Column({type: 'simple-json', nullable: true})
+  acceptedSlice?: OfferSlice;
+
+  // If this acceptance was cancelled, the time at which it was cancelled.
+  @Column({type: 'bigint', nullable: true})
+  cancelledAtUTC?: number;
+
+  // The most recent fulfillment report for this acceptance, if any. The full
+  // set of reports is stored in StoredFulfillment.
+  @Column({type: 'simple-json', nullable: true})
+  latestFulfillment?: Fulfillment;
+
   // The snapshot column is a synthetic column used to represent the
   // join to the snapshot table. Sometimes we want to fetch the snapshot
   // ids without loading the whole snapshot, so we define the three implied
-  // id columns explicitly so they're available from the entity manager.
-  @OneToOne(() => OfferSnapshot)
+  // id columns explicitly so they're available from the entity manager. The
+  // same snapshot may be accepted more than once if an earlier acceptance was
+  // cancelled.
+  @ManyToOne(() => OfferSnapshot)
   @JoinColumn()
   snapshot: OfferSnapshot;
 
@@ -67,5 +88,8 @@ export class StoredAcceptance {
     if (typeof this.acceptedAtUTC === 'string') {
       this.acceptedAtUTC = parseInt(this.acceptedAtUTC);
     }
+    if (typeof this.cancelledAtUTC === 'string') {
+      this.cancelledAtUTC = parseInt(this.cancelledAtUTC);
+    }
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import {FulfillmentStatus, OfferSlice} from 'opr-models';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+  AfterLoad,
+} from 'typeorm';
+import {StoredAcceptance} from './storedacceptance';
+
+/** A fulfillment status report for an acceptance. */
+@Entity()
+export class StoredFulfillment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => StoredAcceptance)
+  @JoinColumn()
+  acceptance: StoredAcceptance;
+
+  @Column()
+  @Index()
+  acceptanceId: number;
+
+  @Column({type: 'varchar'})
+  status: FulfillmentStatus;
+
+  @Column({type: 'bigint'})
+  reportedAtUTC: number;
+
+  @Column()
+  reportedBy: string;
+
+  @Column({type: 'bigint', nullable: true})
+  scheduledPickupUTC?: number;
+
+  @Column({type: 'simple-json', nullable: true})
+  receivedSlice?: OfferSlice;
+
+  @Column({nullable: true})
+  notes?: string;
+
+  @AfterLoad()
+  restoreBigInt() {
+    // Bigints are marshalled to strings in some drivers, and are not
+    // unmarshalled for fear of precision loss. We can safely unmarshal them,
+    // because we know these are timestamps.
+    if (typeof this.reportedAtUTC === 'string') {
+      this.reportedAtUTC = parseInt(this.reportedAtUTC);
+    }
+    if (typeof this.scheduledPickupUTC === 'string') {
+      this.scheduledPickupUTC = parseInt(this.scheduledPickupUTC);
+    }
+  }
+}
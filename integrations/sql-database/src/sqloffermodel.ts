@@ -28,6 +28,7 @@ import {
   OfferListingPolicy,
   OfferModel,
   OfferSetUpdate,
+  ProcessUpdateResult,
   Signer,
   StatusError,
   subtract,
@@ -46,10 +47,14 @@ import {
   Offer,
   DecodedReshareChain,
   AcceptOfferResponse,
+  CancelAcceptOfferResponse,
+  FulfillmentResponse,
   RejectOfferResponse,
   ReserveOfferResponse,
   HistoryPayload,
   HistoryResponse,
+  OfferSlice,
+  ReleaseOfferResponse,
 } from 'opr-models';
 import {Brackets, DataSource, DataSourceOptions, EntityManager} from 'typeorm';
 export {DataSourceOptions} from 'typeorm';
@@ -142,9 +147,7 @@ export class SqlOfferModel implements OfferModel {
   ): Promise<void> {
     await this.runInTransaction(async em => {
       const newMetadata = new ProducerMetadata();
-      newMetadata.organizationUrl = metadata.organizationUrl;
-      newMetadata.nextRunTimestampUTC = metadata.nextRunTimestampUTC;
-      newMetadata.lastUpdateTimeUTC = metadata.lastUpdateTimeUTC;
+      newMetadata.setFromOfferProducerMetadata(metadata);
       await em.getRepository(ProducerMetadata).save(newMetadata);
     });
   }
@@ -171,11 +174,7 @@ export class SqlOfferModel implements OfferModel {
       }
       await em.getRepository(ProducerMetadata).save(metadata);
       return storedMetadata
-        ? {
-            organizationUrl: storedMetadata.organizationUrl,
-            nextRunTimestampUTC: storedMetadata.nextRunTimestampUTC,
-            lastUpdateTimeUTC: storedMetadata.lastUpdateTimeUTC,
-          }
+        ? storedMetadata.toOfferProducerMetadata()
         : undefined;
     });
   }
@@ -370,13 +369,18 @@ export class SqlOfferModel implements OfferModel {
   async processUpdate(
     producerId: string,
     update: OfferSetUpdate
-  ): Promise<void> {
+  ): Promise<ProcessUpdateResult> {
     const changes = await this.runInTransaction(em =>
       this.processUpdateInTransaction(em, producerId, update)
     );
     for (const change of changes) {
       await this.fireChange(change);
     }
+    return {
+      offersAdded: changes.filter(c => c.type === 'ADD').length,
+      offersUpdated: changes.filter(c => c.type === 'UPDATE').length,
+      offersDeleted: changes.filter(c => c.type === 'DELETE').length,
+    };
   }
 
   getAllOffers(): Promise<Array<Offer>> {
@@ -1182,8 +1186,16 @@ export class SqlOfferModel implements OfferModel {
     offerId: string,
     orgUrl: string,
     ifNotNewerThanTimestampUTC?: number,
-    decodedReshareChain?: DecodedReshareChain
+    decodedReshareChain?: DecodedReshareChain,
+    slice?: OfferSlice
   ): Promise<AcceptOfferResponse> {
+    if (slice) {
+      throw new StatusError(
+        'Partial acceptance is not supported by SqlOfferModel',
+        'ACCEPT_ERROR_PARTIAL_ACCEPT_UNSUPPORTED',
+        400
+      );
+    }
     return this.runInTransaction(em =>
       this.acceptInTransaction(
         em,
@@ -1396,6 +1408,74 @@ export class SqlOfferModel implements OfferModel {
     };
   }
 
+  async release(
+    offerId: string,
+    orgUrl: string
+  ): Promise<ReleaseOfferResponse> {
+    return this.runInTransaction(em =>
+      this.releaseInTransaction(em, offerId, orgUrl)
+    );
+  }
+
+  async releaseInTransaction(
+    entityManager: EntityManager,
+    offerId: string,
+    orgUrl: string
+  ): Promise<ReleaseOfferResponse> {
+    const now = this.clock.now();
+    const timelineEntry = await this.getOfferTimelineEntryForOrg(
+      entityManager,
+      orgUrl,
+      this.hostOrgUrl,
+      offerId,
+      now
+    );
+    if (!timelineEntry) {
+      throw new StatusError(
+        `No offer with id ${offerId} is available to release`,
+        'RELEASE_ERROR_NO_AVAILABLE_OFFER',
+        400
+      );
+    }
+    if (!timelineEntry.isReservation) {
+      throw new StatusError(
+        `Offer with id ${offerId} is not reserved by ${orgUrl}`,
+        'RELEASE_ERROR_NO_RESERVATION',
+        400
+      );
+    }
+    await this.truncateLiveTimelineEntriesWithTransaction(
+      entityManager,
+      offerId,
+      this.hostOrgUrl,
+      now
+    );
+    await this.updateListingsWithTransaction(
+      entityManager,
+      timelineEntry.offer,
+      now
+    );
+    return {
+      offer: timelineEntry.offer.offer,
+    };
+  }
+
+  async cancelAccept(): Promise<CancelAcceptOfferResponse> {
+    throw new StatusError(
+      'Cancelling acceptances is not supported by SqlOfferModel',
+      'CANCEL_ACCEPT_ERROR_UNSUPPORTED',
+      400
+    );
+  }
+
+  async reportFulfillment(): Promise<FulfillmentResponse> {
+    throw new StatusError(
+      'Fulfillment reports are not supported by SqlOfferModel',
+      'FULFILLMENT_ERROR_UNSUPPORTED',
+      400
+    );
+  }
+
   async getHistory(
     orgUrl: string,
     payload: HistoryPayload
@@ -36,8 +36,10 @@ import {
 } from 'opr-core';
 import {
   DecodedReshareChain,
+  Fulfillment,
   Offer,
   OfferHistory,
+  OfferSlice,
   ReshareChain,
 } from 'opr-models';
 import {
@@ -46,6 +48,7 @@ import {
   DataSourceOptions,
   EntityManager,
   FindOptionsWhere,
+  QueryFailedError,
 } from 'typeorm';
 import {KnownOfferingOrg} from './persistentmodel/knownofferingorg';
 import {CorpusOffer} from './persistentmodel/corpusoffer';
@@ -54,6 +57,7 @@ import {StoredReshareChain} from './persistentmodel/storedresharechain';
 import {StoredTimelineEntry} from './persistentmodel/storedtimelineentry';
 import {StoredRejection} from './persistentmodel/storedrejection';
 import {StoredAcceptance} from './persistentmodel/storedacceptance';
+import {StoredFulfillment} from './persistentmodel/storedfulfillment';
 import {AcceptanceHistoryViewer} from './persistentmodel/acceptancehistoryviewer';
 import {ProducerMetadata} from './persistentmodel/producermetadata';
 import {StoredKeyValue} from './persistentmodel/storedkeyvalue';
@@ -66,6 +70,61 @@ type IsolationLevel =
   | 'REPEATABLE READ'
   | 'SERIALIZABLE';
 
+/**
+ * Driver error codes that mean a transaction failed because of a concurrent
+ * transaction, so that retrying it may succeed.
+ */
+const CONFLICT_ERROR_CODES = [
+  // Postgres serialization_failure, deadlock_detected and unique_violation.
+  '40001',
+  '40P01',
+  '23505',
+  // SQLite reports a write lock held by another connection this way.
+  'SQLITE_BUSY',
+];
+
+function isConflictError(e: unknown): boolean {
+  if (!(e instanceof QueryFailedError)) {
+    return false;
+  }
+  const driverError = e.driverError as {code?: string; message?: string};
+  return (
+    CONFLICT_ERROR_CODES.includes(driverError.code ?? '') ||
+    (driverError.code === 'SQLITE_CONSTRAINT' &&
+      (driverError.message ?? '').includes('UNIQUE constraint failed'))
+  );
+}
+
+/**
+ * Runs the given function, and turns any database error caused by a
+ * concurrent transaction into a STORAGE_ERROR_TRANSACTION_CONFLICT error, the
+ * same error that InMemoryPersistentStorage throws for conflicts.
+ */
+async function reportingConflicts<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (e) {
+    if (isConflictError(e)) {
+      throw new StatusError(
+        'Transaction conflicts with a concurrent transaction',
+        'STORAGE_ERROR_TRANSACTION_CONFLICT',
+        500,
+        e
+      );
+    }
+    throw e;
+  }
+}
+
+/**
+ * Returns a LIKE pattern, for use with ESCAPE '\', that matches every string
+ * that starts with the given prefix. Stored keys often contain URL-encoded
+ * values, so the prefix's own wildcard characters must be escaped.
+ */
+function toLikePrefix(prefix: string): string {
+  return `${prefix.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
 export interface SqlOprPersistentStorageOptions {
   clock?: Clock;
   dsOptions: DataSourceOptions;
@@ -128,7 +187,8 @@ export class SqlTransaction implements Transaction {
   async commit(): Promise<void> {
     if (this.completionPromise) {
       this.commitCallbackFn();
-      await this.completionPromise;
+      const completionPromise = this.completionPromise;
+      await reportingConflicts(() => completionPromise);
       this.completionPromise = undefined;
     } else {
       throw new Error('Transaction already completed');
@@ -170,6 +230,7 @@ export class SqlOprPersistentStorage implements PersistentStorage {
         OfferSnapshot,
         ProducerMetadata,
         StoredAcceptance,
+        StoredFulfillment,
         StoredKeyValue,
         StoredRejection,
         StoredReshareChain,
@@ -227,16 +288,20 @@ export class SqlOprPersistentStorage implements PersistentStorage {
     key: string,
     value: JsonValue
   ): Promise<JsonValue | undefined> {
-    const oldValue = await t.em.findOneBy(StoredKeyValue, {
-      hostOrgUrl: hostOrgUrl,
-      key: key,
-    } as FindOptionsWhere<StoredKeyValue>);
-    const kv = new StoredKeyValue();
-    kv.key = key;
-    kv.hostOrgUrl = hostOrgUrl;
-    kv.value = value;
-    await t.em.save(kv);
-    return oldValue ? oldValue.value : undefined;
+    // Concurrent transactions may both find no value and then both insert
+    // one, so the second insert can fail as a conflict.
+    return await reportingConflicts(async () => {
+      const oldValue = await t.em.findOneBy(StoredKeyValue, {
+        hostOrgUrl: hostOrgUrl,
+        key: key,
+      } as FindOptionsWhere<StoredKeyValue>);
+      const kv = new StoredKeyValue();
+      kv.key = key;
+      kv.hostOrgUrl = hostOrgUrl;
+      kv.value = value;
+      await t.em.save(kv);
+      return oldValue ? oldValue.value : undefined;
+    });
   }
 
   /**
@@ -249,17 +314,19 @@ export class SqlOprPersistentStorage implements PersistentStorage {
     hostOrgUrl: string,
     keyPrefix: string
   ): Promise<number | undefined> {
-    const deleteResult = await t.em
-      .createQueryBuilder()
-      .delete()
-      .from(StoredKeyValue)
-      .where('hostOrgUrl = :hostOrgUrl')
-      .andWhere('key LIKE :keyPrefix')
-      .setParameters({
-        hostOrgUrl: hostOrgUrl,
-        keyPrefix: `${keyPrefix.replace(/%/g, '[%]')}%`,
-      })
-      .execute();
+    const deleteResult = await reportingConflicts(() =>
+      t.em
+        .createQueryBuilder()
+        .delete()
+        .from(StoredKeyValue)
+        .where('hostOrgUrl = :hostOrgUrl')
+        .andWhere("key LIKE :keyPrefix ESCAPE '\\'")
+        .setParameters({
+          hostOrgUrl: hostOrgUrl,
+          keyPrefix: toLikePrefix(keyPrefix),
+        })
+        .execute()
+    );
     return deleteResult.affected ?? undefined;
   }
 
@@ -279,15 +346,15 @@ export class SqlOprPersistentStorage implements PersistentStorage {
         .getRepository(StoredKeyValue)
         .createQueryBuilder('keyval')
         .where('keyval.hostOrgUrl = :hostOrgUrl')
-        .andWhere('keyval.key LIKE :keyPrefix')
+        .andWhere("keyval.key LIKE :keyPrefix ESCAPE '\\'")
         .orderBy('keyval.key', 'ASC')
         .setParameters({
           hostOrgUrl: hostOrgUrl,
-          keyPrefix: `${keyPrefix.replace(/%/g, '[%]')}%`,
+          keyPrefix: toLikePrefix(keyPrefix),
         })
         .skip(cursorPos)
         .take(this.selectPageSize);
-      selectPage = await query.getMany();
+      selectPage = await reportingConflicts(() => query.getMany());
       for (const keyVal of selectPage) {
         yield keyVal.value;
       }
@@ -1055,14 +1122,16 @@ export class SqlOprPersistentStorage implements PersistentStorage {
     offerId: string,
     offerUpdateTimestampUTC: number,
     atTimeUTC: number,
-    decodedReshareChain?: DecodedReshareChain | undefined
+    decodedReshareChain?: DecodedReshareChain | undefined,
+    acceptedSlice?: OfferSlice | undefined,
+    postingOrgUrl: string = hostOrgUrl
   ): Promise<void> {
     const offer = await this.getOfferAtTime(
       t,
       hostOrgUrl,
       acceptingOrgUrl,
       offerId,
-      hostOrgUrl,
+      postingOrgUrl,
       atTimeUTC
     );
     if (!offer) {
@@ -1076,9 +1145,10 @@ export class SqlOprPersistentStorage implements PersistentStorage {
     acceptance.acceptedBy = acceptingOrgUrl;
     acceptance.acceptedAtUTC = atTimeUTC;
     acceptance.snapshotOfferId = offerId;
-    acceptance.snapshotPostingOrgUrl = hostOrgUrl;
+    acceptance.snapshotPostingOrgUrl = postingOrgUrl;
     acceptance.snapshotLastUpdateUTC = getUpdateTimestamp(offer);
     acceptance.decodedReshareChain = decodedReshareChain;
+    acceptance.acceptedSlice = acceptedSlice;
     await t.em.save(acceptance);
     const viewerSet = new Set<string>();
     viewerSet.add(hostOrgUrl);
@@ -1095,6 +1165,29 @@ export class SqlOprPersistentStorage implements PersistentStorage {
     }
   }
 
+  private toOfferHistory(acceptance: StoredAcceptance): OfferHistory {
+    const offerHistory = {
+      acceptedAtUTC: acceptance.acceptedAtUTC,
+      acceptingOrganization: acceptance.acceptedBy,
+      offer: acceptance.snapshot.offer,
+      decodedReshareChain: acceptance.decodedReshareChain,
+    } as OfferHistory;
+    if (acceptance.acceptedSlice) {
+      offerHistory.acceptedSlice = acceptance.acceptedSlice;
+    }
+    // Nullable columns are loaded as null rather than undefined.
+    if (
+      acceptance.cancelledAtUTC !== undefined &&
+      acceptance.cancelledAtUTC !== null
+    ) {
+      offerHistory.cancelledAtUTC = acceptance.cancelledAtUTC;
+    }
+    if (acceptance.latestFulfillment) {
+      offerHistory.fulfillment = acceptance.latestFulfillment;
+    }
+    return offerHistory;
+  }
+
   async *getHistory(
     t: SqlTransaction,
     hostOrgUrl: string,
@@ -1127,13 +1220,7 @@ export class SqlOprPersistentStorage implements PersistentStorage {
         .take(this.selectPageSize)
         .getMany();
       for (const historyviewer of selectPage) {
-        const offerHistory = {
-          acceptedAtUTC: historyviewer.acceptance.acceptedAtUTC,
-          acceptingOrganization: historyviewer.acceptance.acceptedBy,
-          offer: historyviewer.acceptance.snapshot.offer,
-          decodedReshareChain: historyviewer.acceptance.decodedReshareChain,
-        } as OfferHistory;
-        yield offerHistory;
+        yield this.toOfferHistory(historyviewer.acceptance);
       }
       cursorPos += this.selectPageSize;
     } while (
@@ -1143,6 +1230,152 @@ export class SqlOprPersistentStorage implements PersistentStorage {
     );
   }
 
+  private async getActiveStoredAcceptance(
+    t: SqlTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): Promise<StoredAcceptance | undefined> {
+    // Every acceptance is visible to the host, so the host's history viewer
+    // entry is used to restrict the search to acceptances on this host.
+    const historyViewer = await t.em
+      .getRepository(AcceptanceHistoryViewer)
+      .createQueryBuilder('historyviewer')
+      .innerJoinAndSelect('historyviewer.acceptance', 'acceptance')
+      .innerJoinAndSelect('acceptance.snapshot', 'snapshot')
+      .where('historyviewer.visibleToOrgUrl = :hostOrgUrl')
+      .andWhere('historyviewer.hostOrgUrl = :hostOrgUrl')
+      .andWhere('acceptance.snapshotOfferId = :offerId')
+      .andWhere('acceptance.snapshotPostingOrgUrl = :postingOrgUrl')
+      .andWhere('acceptance.cancelledAtUTC IS NULL')
+      .orderBy('acceptance.acceptedAtUTC', 'DESC')
+      .addOrderBy('acceptance.id', 'DESC')
+      .setParameters({
+        hostOrgUrl: hostOrgUrl,
+        offerId: offerId,
+        postingOrgUrl: postingOrgUrl,
+      })
+      .getOne();
+    return historyViewer?.acceptance;
+  }
+
+  async getActiveAcceptance(
+    t: SqlTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): Promise<OfferHistory | undefined> {
+    const acceptance = await this.getActiveStoredAcceptance(
+      t,
+      hostOrgUrl,
+      offerId,
+      postingOrgUrl
+    );
+    return acceptance ? this.toOfferHistory(acceptance) : undefined;
+  }
+
+  async writeAcceptCancellation(
+    t: SqlTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    atTimeUTC: number
+  ): Promise<void> {
+    const acceptance = await this.getActiveStoredAcceptance(
+      t,
+      hostOrgUrl,
+      offerId,
+      postingOrgUrl
+    );
+    if (!acceptance) {
+      return;
+    }
+    await t.em
+      .getRepository(StoredAcceptance)
+      .update({id: acceptance.id}, {cancelledAtUTC: atTimeUTC});
+  }
+
+  async writeFulfillment(
+    t: SqlTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string,
+    fulfillment: Fulfillment
+  ): Promise<void> {
+    const acceptance = await this.getActiveStoredAcceptance(
+      t,
+      hostOrgUrl,
+      offerId,
+      postingOrgUrl
+    );
+    if (!acceptance) {
+      return;
+    }
+    const storedFulfillment = new StoredFulfillment();
+    storedFulfillment.acceptanceId = acceptance.id;
+    storedFulfillment.status = fulfillment.status;
+    storedFulfillment.reportedAtUTC = fulfillment.reportedAtUTC;
+    storedFulfillment.reportedBy = fulfillment.reportedBy;
+    storedFulfillment.scheduledPickupUTC = fulfillment.scheduledPickupUTC;
+    storedFulfillment.receivedSlice = fulfillment.receivedSlice;
+    storedFulfillment.notes = fulfillment.notes;
+    await t.em.save(storedFulfillment);
+    await t.em
+      .getRepository(StoredAcceptance)
+      .update({id: acceptance.id}, {latestFulfillment: fulfillment});
+  }
+
+  async *getFulfillmentHistory(
+    t: SqlTransaction,
+    hostOrgUrl: string,
+    offerId: string,
+    postingOrgUrl: string
+  ): AsyncIterable<Fulfillment> {
+    const acceptance = await this.getActiveStoredAcceptance(
+      t,
+      hostOrgUrl,
+      offerId,
+      postingOrgUrl
+    );
+    if (!acceptance) {
+      return;
+    }
+    const storedFulfillments = await t.em
+      .getRepository(StoredFulfillment)
+      .createQueryBuilder('fulfillments')
+      .where('fulfillments.acceptanceId = :acceptanceId')
+      .orderBy('fulfillments.reportedAtUTC', 'ASC')
+      .addOrderBy('fulfillments.id', 'ASC')
+      .setParameters({
+        acceptanceId: acceptance.id,
+      })
+      .getMany();
+    for (const storedFulfillment of storedFulfillments) {
+      const fulfillment: Fulfillment = {
+        status: storedFulfillment.status,
+        reportedAtUTC: storedFulfillment.reportedAtUTC,
+        reportedBy: storedFulfillment.reportedBy,
+      };
+      // Nullable columns are loaded as null rather than undefined.
+      if (
+        storedFulfillment.scheduledPickupUTC !== undefined &&
+        storedFulfillment.scheduledPickupUTC !== null
+      ) {
+        fulfillment.scheduledPickupUTC = storedFulfillment.scheduledPickupUTC;
+      }
+      if (storedFulfillment.receivedSlice) {
+        fulfillment.receivedSlice = storedFulfillment.receivedSlice;
+      }
+      if (
+        storedFulfillment.notes !== undefined &&
+        storedFulfillment.notes !== null
+      ) {
+        fulfillment.notes = storedFulfillment.notes;
+      }
+      yield fulfillment;
+    }
+  }
+
   async writeReject(
     t: SqlTransaction,
     hostOrgUrl: string,
@@ -1225,9 +1458,7 @@ export class SqlOprPersistentStorage implements PersistentStorage {
     metadata: OfferProducerMetadata
   ): Promise<void> {
     const newMetadata = new ProducerMetadata();
-    newMetadata.organizationUrl = metadata.organizationUrl;
-    newMetadata.nextRunTimestampUTC = metadata.nextRunTimestampUTC;
-    newMetadata.lastUpdateTimeUTC = metadata.lastUpdateTimeUTC;
+    newMetadata.setFromOfferProducerMetadata(metadata);
     await t.em.getRepository(ProducerMetadata).save(newMetadata);
   }
 
@@ -1244,11 +1475,7 @@ export class SqlOprPersistentStorage implements PersistentStorage {
       })
       .getOne();
     return storedMetadata
-      ? {
-          organizationUrl: storedMetadata.organizationUrl,
-          nextRunTimestampUTC: storedMetadata.nextRunTimestampUTC,
-          lastUpdateTimeUTC: storedMetadata.lastUpdateTimeUTC,
-        }
+      ? storedMetadata.toOfferProducerMetadata()
       : undefined;
   }
 
@@ -15,7 +15,10 @@
  */
 
 import 'mocha';
-import {OfferModelTestConfig} from 'opr-core-testutil';
+import {
+  OfferModelTestConfig,
+  PERSISTENT_OFFER_MODEL_TEST_GLOBS,
+} from 'opr-core-testutil';
 import {DataDrivenTest, SourcedJsonObject} from 'opr-devtools';
 import {PostgresTestingLauncher} from '../src/postgrestestinglauncher';
 import {SqlOprPersistentStorage} from '../src/sqloprpersistentstorage';
@@ -43,7 +46,8 @@ class PostgresTestConfig extends OfferModelTestConfig {
     super(
       (context, listingPolicy, clock, signer, hostOrgUrl) =>
         this.createModel(context, listingPolicy, clock, signer, hostOrgUrl),
-      'Postgres PersistentOfferModel Tests'
+      'Postgres PersistentOfferModel Tests',
+      PERSISTENT_OFFER_MODEL_TEST_GLOBS
     );
     this.dsOptions = dsOptions;
     this.psLauncher = psLauncher;
@@ -0,0 +1,65 @@
+/**
+ * Copyright 2023 The Open Product Recovery Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import 'mocha';
+import {expect} from 'chai';
+import {mkdtempSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {StorageRateLimiter} from 'opr-core';
+import {SqlOprPersistentStorage} from '../src/sqloprpersistentstorage';
+
+const HOST_ORG_URL = 'https://host.org';
+const ORG_URL = 'https://requester.org';
+
+describe('StorageRateLimiter with SQLite storage', () => {
+  let dir: string;
+  let storages: Array<SqlOprPersistentStorage>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'oprratelimiter-'));
+    storages = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(storages.map(storage => storage.shutdown()));
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  it('counts concurrent requests from different replicas', async () => {
+    // Each replica has its own connection to the same database, so their
+    // transactions lock one another out and have to be retried.
+    const database = join(dir, 'opr.sqlite');
+    for (let i = 0; i < 3; i++) {
+      const storage = new SqlOprPersistentStorage({
+        dsOptions: {type: 'sqlite', database: database, synchronize: i === 0},
+      });
+      await storage.initialize();
+      storages.push(storage);
+    }
+    const limiters = storages.map(
+      storage =>
+        new StorageRateLimiter({storage: storage, hostOrgUrl: HOST_ORG_URL})
+    );
+    const limit = {capacity: 3, refillPerSecond: 0.001};
+    const decisions = await Promise.all(
+      limiters.map(limiter => limiter.take(ORG_URL, 'LIST', limit, 0))
+    );
+    expect(decisions.map(d => d.allowed)).to.deep.equal([true, true, true]);
+    const decision = await limiters[0].take(ORG_URL, 'LIST', limit, 0);
+    expect(decision.allowed).to.be.false;
+  });
+});